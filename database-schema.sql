@@ -32,6 +32,156 @@ CREATE TABLE users (
     INDEX idx_users_active (is_active)
 );
 
+-- =====================================================
+-- TABLA: user_sessions (Sesiones y tokens de refresco)
+-- =====================================================
+CREATE TABLE user_sessions (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    user_id CHAR(36) NOT NULL,
+    family_id CHAR(36) NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    user_agent VARCHAR(255),
+    ip_address VARCHAR(45),
+    expires_at DATETIME NOT NULL,
+    revoked_at DATETIME NULL,
+    revoked_reason ENUM('ROTATED', 'LOGOUT', 'LOGOUT_ALL', 'REUSE_DETECTED', 'PASSWORD_RESET') NULL,
+    replaced_by CHAR(36) NULL,
+    two_factor_verified BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_user_sessions_user (user_id, revoked_at),
+    INDEX idx_user_sessions_family (family_id)
+);
+
+-- =====================================================
+-- TABLA: revoked_tokens (Denylist de tokens de acceso)
+-- =====================================================
+CREATE TABLE revoked_tokens (
+    jti CHAR(36) PRIMARY KEY,
+    expires_at DATETIME NOT NULL,
+    revoked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    INDEX idx_revoked_tokens_expires (expires_at)
+);
+
+-- =====================================================
+-- TABLA: revoked_user_tokens (Corte de tokens de acceso por usuario)
+-- =====================================================
+CREATE TABLE revoked_user_tokens (
+    user_id CHAR(36) PRIMARY KEY,
+    issued_before DATETIME NOT NULL,
+    expires_at DATETIME NOT NULL,
+    
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_revoked_user_tokens_expires (expires_at)
+);
+
+-- =====================================================
+-- TABLA: api_keys (Claves de API para integraciones)
+-- =====================================================
+CREATE TABLE api_keys (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    name VARCHAR(100) NOT NULL,
+    prefix VARCHAR(16) NOT NULL UNIQUE,
+    key_hash CHAR(64) NOT NULL,
+    scopes JSON NOT NULL,
+    created_by CHAR(36) NOT NULL,
+    expires_at DATETIME NOT NULL,
+    last_used_at DATETIME NULL,
+    revoked_at DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_api_keys_created_by (created_by)
+);
+
+-- =====================================================
+-- TABLA: user_two_factor (Segundo factor TOTP)
+-- =====================================================
+CREATE TABLE user_two_factor (
+    user_id CHAR(36) PRIMARY KEY,
+    secret VARCHAR(64) NOT NULL,
+    enabled_at DATETIME NULL,
+    last_used_step BIGINT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- =====================================================
+-- TABLA: two_factor_recovery_codes (Códigos de recuperación de un solo uso)
+-- =====================================================
+CREATE TABLE two_factor_recovery_codes (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    user_id CHAR(36) NOT NULL,
+    code_hash CHAR(64) NOT NULL,
+    used_at DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_recovery_codes_user (user_id, code_hash)
+);
+
+-- =====================================================
+-- TABLA: two_factor_challenges (Segundo paso pendiente del login)
+-- =====================================================
+CREATE TABLE two_factor_challenges (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    user_id CHAR(36) NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    expires_at DATETIME NOT NULL,
+    used_at DATETIME NULL,
+    attempts INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- =====================================================
+-- TABLA: login_throttles (Intentos de login fallidos y bloqueos)
+-- =====================================================
+CREATE TABLE login_throttles (
+    scope ENUM('ACCOUNT', 'IP') NOT NULL,
+    throttle_key VARCHAR(255) NOT NULL,
+    failed_count INT NOT NULL DEFAULT 0,
+    locked_until DATETIME NULL,
+    last_failed_at DATETIME NOT NULL,
+    
+    PRIMARY KEY (scope, throttle_key)
+);
+
+-- =====================================================
+-- TABLA: password_reset_tokens (Recuperación de contraseña)
+-- =====================================================
+CREATE TABLE password_reset_tokens (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    user_id CHAR(36) NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    expires_at DATETIME NOT NULL,
+    used_at DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_password_reset_user (user_id, used_at)
+);
+
+-- =====================================================
+-- TABLA: email_verification_tokens (Verificación de email)
+-- =====================================================
+CREATE TABLE email_verification_tokens (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    user_id CHAR(36) NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    expires_at DATETIME NOT NULL,
+    used_at DATETIME NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_email_verification_user (user_id, created_at)
+);
+
 -- =====================================================
 -- TABLA: stylists (Estilistas profesionales)
 -- =====================================================
@@ -57,6 +207,53 @@ CREATE TABLE stylists (
     INDEX idx_stylists_rating (rating)
 );
 
+-- =====================================================
+-- TABLA: stylist_working_hours (Horario semanal por estilista)
+-- =====================================================
+CREATE TABLE stylist_working_hours (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    stylist_id CHAR(36) NOT NULL,
+    day_of_week TINYINT NOT NULL CHECK (day_of_week >= 0 AND day_of_week <= 6),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    
+    FOREIGN KEY (stylist_id) REFERENCES stylists(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_stylist_day (stylist_id, day_of_week)
+);
+
+-- =====================================================
+-- TABLA: stylist_breaks (Descansos recurrentes)
+-- =====================================================
+CREATE TABLE stylist_breaks (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    stylist_id CHAR(36) NOT NULL,
+    day_of_week TINYINT NOT NULL CHECK (day_of_week >= 0 AND day_of_week <= 6),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    label VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (stylist_id) REFERENCES stylists(id) ON DELETE CASCADE,
+    INDEX idx_stylist_breaks_day (stylist_id, day_of_week)
+);
+
+-- =====================================================
+-- TABLA: stylist_time_off (Vacaciones y ausencias)
+-- =====================================================
+CREATE TABLE stylist_time_off (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    stylist_id CHAR(36) NOT NULL,
+    start_date DATETIME NOT NULL,
+    end_date DATETIME NOT NULL,
+    reason VARCHAR(200),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (stylist_id) REFERENCES stylists(id) ON DELETE CASCADE,
+    INDEX idx_stylist_time_off_range (stylist_id, start_date, end_date)
+);
+
 -- =====================================================
 -- TABLA: categories (Categorías de estilos)
 -- =====================================================
@@ -114,6 +311,21 @@ CREATE TABLE stylist_styles (
     INDEX idx_stylist_styles_style (style_id)
 );
 
+-- =====================================================
+-- TABLA: service_add_ons (Servicios adicionales para citas)
+-- =====================================================
+CREATE TABLE service_add_ons (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    price DECIMAL(8,2) NOT NULL,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    INDEX idx_service_add_ons_active (is_active)
+);
+
 -- =====================================================
 -- TABLA: products (Productos de la tienda)
 -- =====================================================
@@ -128,6 +340,7 @@ CREATE TABLE products (
     weight_grams INT,
     image_url VARCHAR(500),
     is_active BOOLEAN DEFAULT TRUE,
+    tax_class ENUM('STANDARD', 'REDUCED', 'EXEMPT') DEFAULT 'STANDARD', -- Clase fiscal para las reglas de impuestos
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     
@@ -137,6 +350,40 @@ CREATE TABLE products (
     INDEX idx_products_price (price)
 );
 
+-- =====================================================
+-- TABLA: tax_rules (Reglas de impuestos por jurisdicción y clase fiscal)
+-- =====================================================
+CREATE TABLE tax_rules (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    name VARCHAR(100) NOT NULL,
+    country CHAR(2) NOT NULL,
+    region VARCHAR(10), -- NULL: aplica a todo el país
+    tax_class ENUM('STANDARD', 'REDUCED', 'EXEMPT') NOT NULL DEFAULT 'STANDARD',
+    rate DECIMAL(7,4) NOT NULL, -- Porcentaje (21.0000 = 21%)
+    mode ENUM('INCLUSIVE', 'EXCLUSIVE') NOT NULL DEFAULT 'EXCLUSIVE',
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    INDEX idx_tax_rules_jurisdiction (country, region, tax_class)
+);
+
+-- =====================================================
+-- TABLA: shipping_methods (Métodos de envío y tarifas por zona)
+-- =====================================================
+CREATE TABLE shipping_methods (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    name VARCHAR(100) NOT NULL,
+    kind ENUM('STANDARD', 'EXPRESS', 'PICKUP') NOT NULL,
+    rate_basis ENUM('WEIGHT', 'PRICE') NOT NULL DEFAULT 'PRICE', -- Tramos por peso (gramos) o por subtotal
+    zones JSON NOT NULL, -- [{country, region, free_shipping_threshold, bands: [{min, max, amount}]}]
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    INDEX idx_shipping_methods_active (is_active)
+);
+
 -- =====================================================
 -- TABLA: appointments (Citas programadas)
 -- =====================================================
@@ -152,6 +399,8 @@ CREATE TABLE appointments (
     notes TEXT,
     cancellation_reason VARCHAR(255),
     cancelled_at TIMESTAMP NULL,
+    series_id CHAR(36) NULL,
+    price_breakdown JSON NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     
@@ -161,7 +410,70 @@ CREATE TABLE appointments (
     INDEX idx_appointments_customer (customer_id),
     INDEX idx_appointments_stylist (stylist_id),
     INDEX idx_appointments_date (appointment_date),
-    INDEX idx_appointments_status (status)
+    INDEX idx_appointments_status (status),
+    INDEX idx_appointments_series (series_id)
+);
+
+-- =====================================================
+-- TABLA: appointment_changes (Historial de reprogramaciones)
+-- =====================================================
+CREATE TABLE appointment_changes (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    appointment_id CHAR(36) NOT NULL,
+    previous_date DATETIME NOT NULL,
+    new_date DATETIME NOT NULL,
+    reason VARCHAR(200) NOT NULL,
+    changed_by CHAR(36),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (appointment_id) REFERENCES appointments(id) ON DELETE CASCADE,
+    FOREIGN KEY (changed_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_appointment_changes_appointment (appointment_id)
+);
+
+-- =====================================================
+-- TABLA: appointment_fees (Penalizaciones por cancelación tardía e inasistencia)
+-- =====================================================
+CREATE TABLE appointment_fees (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    appointment_id CHAR(36) NOT NULL,
+    customer_id CHAR(36) NOT NULL,
+    fee_type ENUM('LATE_CANCELLATION', 'NO_SHOW') NOT NULL,
+    amount DECIMAL(8,2) NOT NULL,
+    status ENUM('PENDING', 'PAID', 'WAIVED') DEFAULT 'PENDING',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (appointment_id) REFERENCES appointments(id) ON DELETE CASCADE,
+    FOREIGN KEY (customer_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_appointment_fees_customer (customer_id, status)
+);
+
+-- =====================================================
+-- TABLA: waitlist_entries (Lista de espera de citas)
+-- =====================================================
+CREATE TABLE waitlist_entries (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    customer_id CHAR(36) NOT NULL,
+    stylist_id CHAR(36) NOT NULL,
+    style_id CHAR(36) NOT NULL,
+    earliest_date DATE NOT NULL,
+    latest_date DATE NOT NULL,
+    status ENUM('WAITING', 'OFFERED', 'BOOKED', 'DECLINED', 'EXPIRED', 'CANCELLED') DEFAULT 'WAITING',
+    offered_start DATETIME,
+    offered_end DATETIME,
+    offer_expires_at DATETIME,
+    appointment_id CHAR(36),
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    
+    FOREIGN KEY (customer_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (stylist_id) REFERENCES stylists(id) ON DELETE CASCADE,
+    FOREIGN KEY (style_id) REFERENCES styles(id) ON DELETE RESTRICT,
+    FOREIGN KEY (appointment_id) REFERENCES appointments(id) ON DELETE SET NULL,
+    INDEX idx_waitlist_stylist_status (stylist_id, status, earliest_date, latest_date),
+    INDEX idx_waitlist_customer (customer_id)
 );
 
 -- =====================================================
@@ -200,13 +512,18 @@ CREATE TABLE orders (
     total_amount DECIMAL(10,2) NOT NULL,
     status ENUM('PENDING', 'CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED') DEFAULT 'PENDING',
     shipping_address TEXT,
+    shipping_country CHAR(2) NOT NULL, -- Jurisdicción fiscal del pedido
+    shipping_region VARCHAR(10),
+    shipping_method_id CHAR(36) NULL, -- NULL si no había métodos de envío configurados
     billing_address TEXT,
     payment_method VARCHAR(50),
     payment_status ENUM('PENDING', 'PAID', 'FAILED', 'REFUNDED') DEFAULT 'PENDING',
+    tax_breakdown JSON, -- Desglose de impuestos por regla
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     
     FOREIGN KEY (customer_id) REFERENCES users(id) ON DELETE RESTRICT,
+    FOREIGN KEY (shipping_method_id) REFERENCES shipping_methods(id) ON DELETE SET NULL,
     INDEX idx_orders_customer (customer_id),
     INDEX idx_orders_status (status),
     INDEX idx_orders_number (order_number)
@@ -217,7 +534,7 @@ CREATE TABLE order_items (
     order_id CHAR(36) NOT NULL,
     product_id CHAR(36) NOT NULL,
     quantity INT NOT NULL DEFAULT 1,
-    unit_price DECIMAL(8,2) NOT NULL,
+    unit_price DECIMAL(8,2) NOT NULL, -- Precio del producto al crear el pedido
     total_price DECIMAL(8,2) NOT NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     
@@ -227,6 +544,23 @@ CREATE TABLE order_items (
     INDEX idx_order_items_product (product_id)
 );
 
+-- =====================================================
+-- TABLA: order_status_history (Historial de estados de pedidos)
+-- =====================================================
+CREATE TABLE order_status_history (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    order_id CHAR(36) NOT NULL,
+    from_status ENUM('PENDING', 'CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED'), -- NULL al crear el pedido
+    to_status ENUM('PENDING', 'CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED') NOT NULL,
+    changed_by CHAR(36),
+    note VARCHAR(255),
+    created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3), -- Milisegundos para ordenar cambios seguidos
+    
+    FOREIGN KEY (order_id) REFERENCES orders(id) ON DELETE CASCADE,
+    FOREIGN KEY (changed_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_order_status_history_order (order_id)
+);
+
 -- =====================================================
 -- DATOS INICIALES (SEEDS)
 -- =====================================================
@@ -239,6 +573,21 @@ INSERT INTO categories (id, name, description, display_order) VALUES
 (UUID(), 'Extensiones', 'Estilos con cabello adicional', 4),
 (UUID(), 'Especiales', 'Ocasiones especiales y eventos', 5);
 
+-- Servicios adicionales por defecto
+INSERT INTO service_add_ons (id, name, description, price) VALUES
+(UUID(), 'Lavado y acondicionado', 'Lavado profundo antes del trenzado', 15.00),
+(UUID(), 'Cuentas y accesorios', 'Decoración con cuentas, anillos o hilos', 10.00),
+(UUID(), 'Cabello sintético adicional', 'Paquete extra de extensiones', 20.00);
+
+-- Impuesto general por defecto (DEFAULT_TAX_COUNTRY, clase STANDARD, 10% sobre el precio)
+INSERT INTO tax_rules (id, name, country, region, tax_class, rate, mode) VALUES
+(UUID(), 'Impuesto general', 'US', NULL, 'STANDARD', 10.0000, 'EXCLUSIVE');
+
+-- Envío estándar por defecto (DEFAULT_TAX_COUNTRY): $10, gratis desde $50 de subtotal
+INSERT INTO shipping_methods (id, name, kind, rate_basis, zones) VALUES
+(UUID(), 'Envío estándar', 'STANDARD', 'PRICE',
+ '[{"country": "US", "region": null, "free_shipping_threshold": 50, "bands": [{"min": 0, "max": null, "amount": 10}]}]');
+
 -- Usuario administrador por defecto
 INSERT INTO users (id, name, email, password_hash, role, is_active, email_verified_at) VALUES
 (UUID(), 'Administrador', 'admin@laurabraids.com', '$2b$10$example_hash_here', 'ADMIN', TRUE, NOW());
\ No newline at end of file
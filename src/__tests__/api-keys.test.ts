@@ -0,0 +1,187 @@
+/**
+ * @file Tests para las API keys de integraciones.
+ * @description Creación por administradores, autenticación con la cabecera X-API-Key,
+ *              scopes, caducidad y revocación.
+ */
+
+import request from 'supertest';
+import app from '../index';
+import { UserRole } from '../interfaces/user.interface';
+import { generateToken } from '../middleware/auth.middleware';
+import { getUserByEmail } from '../data/users.database';
+import { resetApiKeys, getApiKeys } from '../data/api-keys.database';
+import { executeQuery } from '../config/database.config';
+
+let adminToken: string;
+
+// El creador de la clave debe existir: se usa el administrador por defecto
+beforeAll(async () => {
+  const admin = await getUserByEmail('admin@laurabraids.com');
+  adminToken = generateToken({ userId: admin!.id, email: admin!.email, role: UserRole.ADMIN });
+});
+
+beforeEach(async () => {
+  await resetApiKeys();
+});
+
+/**
+ * @description Crea una API key como administrador y devuelve el cuerpo de la respuesta.
+ */
+const createKey = async (scopes: string[], expiresInDays?: number) => {
+  const response = await request(app)
+    .post('/api/api-keys')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({ name: 'Integración contable', scopes, expires_in_days: expiresInDays })
+    .expect(201);
+
+  return response.body.data;
+};
+
+/**
+ * @description Suite de tests para la gestión de API keys.
+ */
+describe('Gestión de API keys (/api/api-keys)', () => {
+  /**
+   * @description Test para mostrar la clave una sola vez y guardar solo su hash.
+   */
+  it('debería crear una API key y mostrarla solo al crearla', async () => {
+    const created = await createKey(['orders:list:any']);
+
+    expect(created.key).toMatch(/^lb_[0-9a-f]{8}_/);
+    expect(created.key.startsWith(`lb_${created.prefix}_`)).toBe(true);
+    expect(created).not.toHaveProperty('key_hash');
+
+    const list = await request(app)
+      .get('/api/api-keys')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(list.body.data).toHaveLength(1);
+    expect(list.body.data[0]).not.toHaveProperty('key');
+    expect(list.body.data[0]).not.toHaveProperty('key_hash');
+
+    const [stored] = await getApiKeys();
+    expect(stored.key_hash).not.toBe(created.key);
+  });
+
+  /**
+   * @description Test para rechazar scopes que no se pueden conceder.
+   */
+  it('debería rechazar scopes desconocidos o de gestión de API keys', async () => {
+    await request(app)
+      .post('/api/api-keys')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'Escalada', scopes: ['api-keys:create:any'] })
+      .expect(400);
+  });
+
+  /**
+   * @description Test para restringir la gestión a administradores.
+   */
+  it('debería devolver 403 si no es administrador', async () => {
+    const customerToken = generateToken({ userId: 'cliente-1', email: 'cliente@test.com', role: UserRole.CUSTOMER });
+
+    await request(app)
+      .get('/api/api-keys')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .expect(403);
+  });
+});
+
+/**
+ * @description Suite de tests para la autenticación con X-API-Key.
+ */
+describe('Autenticación con X-API-Key', () => {
+  /**
+   * @description Test para autenticar con la clave y registrar el último uso.
+   */
+  it('debería aceptar la clave para los scopes concedidos', async () => {
+    const created = await createKey(['orders:list:any']);
+
+    await request(app)
+      .get('/api/orders')
+      .set('X-API-Key', created.key)
+      .expect(200);
+
+    const [stored] = await getApiKeys();
+    expect(stored.last_used_at).not.toBeNull();
+  });
+
+  /**
+   * @description Test para denegar permisos fuera de los scopes.
+   */
+  it('debería devolver 403 para permisos fuera de los scopes', async () => {
+    const created = await createKey(['orders:list:any']);
+
+    const response = await request(app)
+      .get('/api/users/all')
+      .set('X-API-Key', created.key)
+      .expect(403);
+
+    expect(response.body).toHaveProperty('error', 'PERMISSION_DENIED');
+  });
+
+  /**
+   * @description Test para no permitir gestionar API keys con una API key.
+   */
+  it('no debería permitir gestionar API keys con una API key', async () => {
+    const created = await createKey(['users:list:any']);
+
+    await request(app)
+      .get('/api/api-keys')
+      .set('X-API-Key', created.key)
+      .expect(403);
+  });
+
+  /**
+   * @description Test para rechazar claves revocadas.
+   */
+  it('debería devolver 401 con una clave revocada', async () => {
+    const created = await createKey(['orders:list:any']);
+
+    await request(app)
+      .delete(`/api/api-keys/${created.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const response = await request(app)
+      .get('/api/orders')
+      .set('X-API-Key', created.key)
+      .expect(401);
+
+    expect(response.body).toHaveProperty('error', 'INVALID_API_KEY');
+
+    await request(app)
+      .delete(`/api/api-keys/${created.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+  });
+
+  /**
+   * @description Test para rechazar claves caducadas.
+   */
+  it('debería devolver 401 con una clave caducada', async () => {
+    const created = await createKey(['orders:list:any'], 1);
+    await executeQuery('UPDATE api_keys SET expires_at = ? WHERE id = ?', [new Date(Date.now() - 1000), created.id]);
+
+    await request(app)
+      .get('/api/orders')
+      .set('X-API-Key', created.key)
+      .expect(401);
+  });
+
+  /**
+   * @description Test para rechazar claves con formato válido pero desconocidas.
+   */
+  it('debería devolver 401 con una clave desconocida', async () => {
+    const created = await createKey(['orders:list:any']);
+    const tampered = created.key.slice(0, -4) + 'AAAA';
+
+    const response = await request(app)
+      .get('/api/orders')
+      .set('X-API-Key', tampered === created.key ? `${created.key}x` : tampered)
+      .expect(401);
+
+    expect(response.body).toHaveProperty('error', 'INVALID_API_KEY');
+  });
+});
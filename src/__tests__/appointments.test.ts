@@ -5,15 +5,62 @@
  */
 
 import request from 'supertest';
+import express from 'express';
 import app from '../index';
-import { resetAppointments } from '../controllers/appointments.controller';
-import { AppointmentStatus } from '../interfaces/appointment.interface';
+import {
+  resetAppointments,
+  initialAppointmentCustomers,
+  initialAppointmentStylists,
+  initialStylistUsers
+} from '../controllers/appointments.controller';
+import { initialStyles, resetStyles } from '../controllers/styles.controller';
+import {
+  AppointmentStatus,
+  AppointmentFeeType,
+  AppointmentFeeStatus
+} from '../interfaces/appointment.interface';
+import { UserRole } from '../interfaces/user.interface';
+import { generateToken } from '../middleware/auth.middleware';
+import { CANCELLATION_POLICY } from '../config/cancellation.config';
+import { assessCancellationFee } from '../utils/cancellation.utils';
+import { buildPriceBreakdown } from '../utils/pricing.utils';
+import { WaitlistStatus } from '../interfaces/waitlist.interface';
+import { NotificationType } from '../interfaces/notification.interface';
+import { getWaitlistEntryById, resetWaitlist, updateWaitlistEntry } from '../data/waitlist.database';
+import { OutboxNotifier } from '../notifications/outbox.notifier';
+import { setNotifier } from '../notifications/notifier';
 
 // Hook para resetear los datos antes de cada prueba
-beforeEach(() => {
-  resetAppointments();
+beforeEach(async () => {
+  await resetAppointments();
+  resetStyles();
 });
 
+// Clientas, estilistas y estilos que resetAppointments deja creados en MySQL
+const [customer, otherCustomer, waitingCustomer] = initialAppointmentCustomers;
+const [stylist, otherStylist] = initialAppointmentStylists;
+const [defaultStyle, otherStyle] = initialStyles;
+
+// Token de administrador para los tests que no prueban permisos
+const adminToken = generateToken({ userId: 'admin-1', email: 'admin@test.com', role: UserRole.ADMIN });
+
+/**
+ * @description Obtiene una fecha futura en día laborable (lunes a sábado) a una hora dada,
+ * para que las citas de prueba caigan dentro del horario laboral por defecto.
+ * @param {number} daysAhead - Días mínimos de antelación.
+ * @param {number} hour - Hora local de la cita.
+ * @returns {Date} Fecha de la cita.
+ */
+const getFutureWorkdayAt = (daysAhead: number, hour: number): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() + daysAhead);
+  while (date.getDay() === 0) {
+    date.setDate(date.getDate() + 1);
+  }
+  date.setHours(hour, 0, 0, 0);
+  return date;
+};
+
 /**
  * @description Suite de tests para obtener citas (GET /api/appointments).
  */
@@ -24,6 +71,7 @@ describe('GET /api/appointments', () => {
   it('debería devolver una lista de citas', async () => {
     const response = await request(app)
       .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
       .expect('Content-Type', /json/)
       .expect(200);
 
@@ -48,9 +96,10 @@ describe('GET /api/appointments', () => {
    * @description Test para filtrar citas por usuario.
    */
   it('debería devolver solo citas del usuario especificado', async () => {
-    const user_id = 'user-1';
+    const user_id = customer.id;
     const response = await request(app)
       .get(`/api/appointments?user_id=${user_id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .expect('Content-Type', /json/)
       .expect(200);
 
@@ -66,9 +115,10 @@ describe('GET /api/appointments', () => {
    * @description Test para filtrar citas por estilista.
    */
   it('debería devolver solo citas de la estilista especificada', async () => {
-    const stylist_id = 'stylist-1';
+    const stylist_id = stylist.id;
     const response = await request(app)
       .get(`/api/appointments?stylist_id=${stylist_id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .expect('Content-Type', /json/)
       .expect(200);
 
@@ -87,6 +137,7 @@ describe('GET /api/appointments', () => {
     const status = AppointmentStatus.SCHEDULED;
     const response = await request(app)
       .get(`/api/appointments?status=${status}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .expect('Content-Type', /json/)
       .expect(200);
 
@@ -105,6 +156,7 @@ describe('GET /api/appointments', () => {
     const date = '2024-07-15';
     const response = await request(app)
       .get(`/api/appointments?date=${date}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .expect('Content-Type', /json/)
       .expect(200);
 
@@ -128,11 +180,14 @@ describe('GET /api/appointments/:id', () => {
    */
   it('debería devolver una cita específica por su id', async () => {
     // Primero obtenemos la lista para conseguir un ID válido
-    const appointmentsResponse = await request(app).get('/api/appointments');
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
     const validAppointmentId = appointmentsResponse.body[0].id;
 
     const response = await request(app)
       .get(`/api/appointments/${validAppointmentId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .expect('Content-Type', /json/)
       .expect(200);
     
@@ -151,6 +206,7 @@ describe('GET /api/appointments/:id', () => {
   it('debería devolver un error 404 si la cita no existe', async () => {
     await request(app)
       .get('/api/appointments/cita-inexistente-123')
+      .set('Authorization', `Bearer ${adminToken}`)
       .expect(404);
   });
 });
@@ -163,19 +219,19 @@ describe('POST /api/appointments', () => {
    * @description Test para crear una nueva cita con todos los campos.
    */
   it('debería crear una nueva cita correctamente', async () => {
-    const futureDate = new Date();
-    futureDate.setDate(futureDate.getDate() + 7); // 7 días en el futuro
+    const futureDate = getFutureWorkdayAt(7, 10); // 7 días en el futuro
 
     const newAppointment = {
-      user_id: 'user-test-123',
-      stylist_id: 'stylist-test-123',
-      style_id: 'style-test-123',
+      user_id: customer.id,
+      stylist_id: stylist.id,
+      style_id: defaultStyle.id,
       appointment_date: futureDate.toISOString(),
       notes: 'Cita de prueba para testing'
     };
 
     const response = await request(app)
       .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(newAppointment)
       .expect('Content-Type', /json/)
       .expect(201);
@@ -195,18 +251,18 @@ describe('POST /api/appointments', () => {
    * @description Test para crear una cita sin notas (campo opcional).
    */
   it('debería crear una cita sin notas', async () => {
-    const futureDate = new Date();
-    futureDate.setDate(futureDate.getDate() + 5);
+    const futureDate = getFutureWorkdayAt(5, 10);
 
     const newAppointment = {
-      user_id: 'user-test-456',
-      stylist_id: 'stylist-test-456',
-      style_id: 'style-test-456',
+      user_id: customer.id,
+      stylist_id: stylist.id,
+      style_id: defaultStyle.id,
       appointment_date: futureDate.toISOString()
     };
 
     const response = await request(app)
       .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(newAppointment)
       .expect('Content-Type', /json/)
       .expect(201);
@@ -219,12 +275,13 @@ describe('POST /api/appointments', () => {
    */
   it('debería devolver error 400 si faltan campos requeridos', async () => {
     const incompleteAppointment = {
-      user_id: 'user-test-789'
+      user_id: customer.id
       // Faltan stylist_id, style_id, appointment_date
     };
 
     const response = await request(app)
       .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(incompleteAppointment)
       .expect('Content-Type', /json/)
       .expect(400);
@@ -238,14 +295,15 @@ describe('POST /api/appointments', () => {
    */
   it('debería devolver error 400 si el formato de fecha es inválido', async () => {
     const appointmentWithInvalidDate = {
-      user_id: 'user-test-invalid',
-      stylist_id: 'stylist-test-invalid',
-      style_id: 'style-test-invalid',
+      user_id: customer.id,
+      stylist_id: stylist.id,
+      style_id: defaultStyle.id,
       appointment_date: 'fecha-invalida'
     };
 
     const response = await request(app)
       .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(appointmentWithInvalidDate)
       .expect('Content-Type', /json/)
       .expect(400);
@@ -262,14 +320,15 @@ describe('POST /api/appointments', () => {
     pastDate.setDate(pastDate.getDate() - 1); // Ayer
 
     const appointmentWithPastDate = {
-      user_id: 'user-test-past',
-      stylist_id: 'stylist-test-past',
-      style_id: 'style-test-past',
+      user_id: customer.id,
+      stylist_id: stylist.id,
+      style_id: defaultStyle.id,
       appointment_date: pastDate.toISOString()
     };
 
     const response = await request(app)
       .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(appointmentWithPastDate)
       .expect('Content-Type', /json/)
       .expect(400);
@@ -278,36 +337,61 @@ describe('POST /api/appointments', () => {
     expect(response.body.message).toContain('La fecha de la cita debe ser futura');
   });
 
+  /**
+   * @description Test para rechazar reservas con estilista o clienta inexistentes.
+   */
+  it('debería devolver error 404 si la estilista o la clienta no existen', async () => {
+    const unknownId = '99999999-9999-4999-8999-999999999999';
+    const appointmentDate = getFutureWorkdayAt(2, 10).toISOString();
+
+    const unknownStylist = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ user_id: customer.id, stylist_id: unknownId, style_id: defaultStyle.id, appointment_date: appointmentDate })
+      .expect('Content-Type', /json/)
+      .expect(404);
+    expect(unknownStylist.body.message).toContain('Estilista no encontrada');
+
+    const unknownCustomer = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ user_id: unknownId, stylist_id: stylist.id, style_id: defaultStyle.id, appointment_date: appointmentDate })
+      .expect('Content-Type', /json/)
+      .expect(404);
+    expect(unknownCustomer.body.message).toContain('Cliente no encontrado');
+  });
+
   /**
    * @description Test para validar disponibilidad de estilista.
    */
   it('debería devolver error 409 si la estilista ya tiene una cita en esa fecha/hora', async () => {
-    const futureDate = new Date();
-    futureDate.setDate(futureDate.getDate() + 10);
+    const futureDate = getFutureWorkdayAt(10, 10);
 
     const firstAppointment = {
-      user_id: 'user-1',
-      stylist_id: 'stylist-conflict',
-      style_id: 'style-1',
+      user_id: customer.id,
+      stylist_id: stylist.id,
+      style_id: defaultStyle.id,
       appointment_date: futureDate.toISOString()
     };
 
     // Crear la primera cita
     await request(app)
       .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(firstAppointment)
       .expect(201);
 
     // Intentar crear segunda cita con la misma estilista en la misma fecha/hora
     const conflictingAppointment = {
-      user_id: 'user-2',
-      stylist_id: 'stylist-conflict', // Misma estilista
-      style_id: 'style-2',
+      user_id: otherCustomer.id,
+      stylist_id: stylist.id, // Misma estilista
+      style_id: otherStyle.id,
       appointment_date: futureDate.toISOString() // Misma fecha/hora
     };
 
     const response = await request(app)
       .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(conflictingAppointment)
       .expect('Content-Type', /json/)
       .expect(409);
@@ -315,6 +399,117 @@ describe('POST /api/appointments', () => {
     expect(response.body).toHaveProperty('message');
     expect(response.body.message).toContain('La estilista ya tiene una cita programada');
   });
+
+  /**
+   * @description Test para calcular el fin estimado según la duración del estilo.
+   */
+  it('debería calcular estimated_end_date a partir de la duración del estilo', async () => {
+    const stylesResponse = await request(app).get('/api/styles');
+    const boxBraids = stylesResponse.body.find((s: any) => s.name === 'Box Braids');
+
+    const futureDate = getFutureWorkdayAt(12, 9);
+
+    const response = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: stylist.id,
+        style_id: boxBraids.id,
+        appointment_date: futureDate.toISOString()
+      })
+      .expect(201);
+
+    const start = new Date(response.body.appointment_date).getTime();
+    const end = new Date(response.body.estimated_end_date).getTime();
+    expect((end - start) / 60000).toBe(boxBraids.estimated_duration_minutes);
+  });
+
+  /**
+   * @description Test para rechazar citas que se solapan aunque no empiecen a la misma hora.
+   */
+  it('debería devolver error 409 si la nueva cita se solapa con otra en curso', async () => {
+    const stylesResponse = await request(app).get('/api/styles');
+    const boxBraids = stylesResponse.body.find((s: any) => s.name === 'Box Braids');
+
+    const firstDate = getFutureWorkdayAt(15, 9);
+    const secondDate = new Date(firstDate.getTime() + 30 * 60 * 1000);
+
+    await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: stylist.id,
+        style_id: boxBraids.id,
+        appointment_date: firstDate.toISOString()
+      })
+      .expect(201);
+
+    const response = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: otherCustomer.id,
+        stylist_id: stylist.id,
+        style_id: boxBraids.id,
+        appointment_date: secondDate.toISOString()
+      })
+      .expect('Content-Type', /json/)
+      .expect(409);
+
+    expect(response.body).toHaveProperty('conflict');
+  });
+
+  /**
+   * @description Test para aceptar citas consecutivas sin solapamiento.
+   */
+  it('debería permitir una cita que empieza justo cuando termina la anterior', async () => {
+    const firstDate = getFutureWorkdayAt(16, 10);
+
+    const first = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: stylist.id,
+        style_id: defaultStyle.id,
+        appointment_date: firstDate.toISOString()
+      })
+      .expect(201);
+
+    await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: otherCustomer.id,
+        stylist_id: stylist.id,
+        style_id: defaultStyle.id,
+        appointment_date: first.body.estimated_end_date
+      })
+      .expect(201);
+  });
+
+  /**
+   * @description Test para rechazar citas fuera del horario laboral.
+   */
+  it('debería devolver error 409 si la cita está fuera del horario laboral', async () => {
+    const lateDate = getFutureWorkdayAt(8, 20);
+
+    const response = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: stylist.id,
+        style_id: defaultStyle.id,
+        appointment_date: lateDate.toISOString()
+      })
+      .expect('Content-Type', /json/)
+      .expect(409);
+
+    expect(response.body.message).toContain('fuera del horario laboral');
+  });
 });
 
 /**
@@ -326,20 +521,21 @@ describe('PUT /api/appointments/:id', () => {
    */
   it('debería actualizar una cita existente', async () => {
     // Obtener una cita existente
-    const appointmentsResponse = await request(app).get('/api/appointments');
-    const existingAppointment = appointmentsResponse.body[0];
-
-    const futureDate = new Date();
-    futureDate.setDate(futureDate.getDate() + 14);
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
+    const existingAppointment = appointmentsResponse.body.find(
+      (a: any) => a.status === AppointmentStatus.SCHEDULED
+    );
 
     const updatedData = {
-      appointment_date: futureDate.toISOString(),
-      status: AppointmentStatus.COMPLETED,
+      status: AppointmentStatus.CONFIRMED,
       notes: 'Notas actualizadas'
     };
 
     const response = await request(app)
       .put(`/api/appointments/${existingAppointment.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(updatedData)
       .expect('Content-Type', /json/)
       .expect(200);
@@ -349,12 +545,39 @@ describe('PUT /api/appointments/:id', () => {
     expect(response.body).toHaveProperty('id', existingAppointment.id);
   });
 
+  /**
+   * @description Test para exigir la reprogramación al cambiar la fecha.
+   */
+  it('debería devolver error 400 si se intenta cambiar la fecha sin reprogramar', async () => {
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
+    const existingAppointment = appointmentsResponse.body.find(
+      (a: any) => a.status === AppointmentStatus.SCHEDULED
+    );
+
+    const response = await request(app)
+      .put(`/api/appointments/${existingAppointment.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ appointment_date: getFutureWorkdayAt(14, 9).toISOString(), notes: 'Mover la cita' })
+      .expect('Content-Type', /json/)
+      .expect(400);
+
+    expect(response.body).toHaveProperty('error', 'RESCHEDULE_REQUIRED');
+
+    const historyResponse = await request(app)
+      .get(`/api/appointments/${existingAppointment.id}/history`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    expect(historyResponse.body).toHaveProperty('total_changes', 0);
+  });
+
   /**
    * @description Test para manejar cita no encontrada en actualización.
    */
   it('debería devolver error 404 si la cita a actualizar no existe', async () => {
     await request(app)
       .put('/api/appointments/cita-inexistente-123')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send({ notes: 'No existe' })
       .expect(404);
   });
@@ -363,11 +586,16 @@ describe('PUT /api/appointments/:id', () => {
    * @description Test para validar estado en actualización.
    */
   it('debería devolver error 400 si el estado es inválido', async () => {
-    const appointmentsResponse = await request(app).get('/api/appointments');
-    const existingAppointment = appointmentsResponse.body[0];
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
+    const existingAppointment = appointmentsResponse.body.find(
+      (a: any) => a.status === AppointmentStatus.SCHEDULED
+    );
 
     const response = await request(app)
       .put(`/api/appointments/${existingAppointment.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .send({ status: 'ESTADO_INVALIDO' })
       .expect('Content-Type', /json/)
       .expect(400);
@@ -377,21 +605,168 @@ describe('PUT /api/appointments/:id', () => {
   });
 
   /**
-   * @description Test para validar que se acepten todos los estados válidos.
+   * @description Test para validar que se acepte un recorrido de estados permitido.
    */
-  it('debería aceptar todos los estados válidos', async () => {
-    const appointmentsResponse = await request(app).get('/api/appointments');
-    const existingAppointment = appointmentsResponse.body[0];
+  it('debería aceptar las transiciones de estado permitidas', async () => {
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
+    const existingAppointment = appointmentsResponse.body.find(
+      (a: any) => a.status === AppointmentStatus.SCHEDULED
+    );
 
-    const validStatuses = Object.values(AppointmentStatus);
-    
-    for (const status of validStatuses) {
-      await request(app)
+    const path = [
+      AppointmentStatus.CONFIRMED,
+      AppointmentStatus.IN_PROGRESS,
+      AppointmentStatus.COMPLETED
+    ];
+
+    for (const status of path) {
+      const response = await request(app)
         .put(`/api/appointments/${existingAppointment.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .send({ status: status })
         .expect('Content-Type', /json/)
         .expect(200);
+
+      expect(response.body).toHaveProperty('status', status);
+    }
+  });
+
+  /**
+   * @description Test para rechazar transiciones de estado no permitidas.
+   */
+  it('debería devolver error 409 si la transición de estado no está permitida', async () => {
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
+    const completedAppointment = appointmentsResponse.body.find(
+      (a: any) => a.status === AppointmentStatus.COMPLETED
+    );
+
+    const response = await request(app)
+      .put(`/api/appointments/${completedAppointment.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: AppointmentStatus.SCHEDULED })
+      .expect('Content-Type', /json/)
+      .expect(409);
+
+    expect(response.body).toHaveProperty('error', 'INVALID_STATUS_TRANSITION');
+  });
+});
+
+/**
+ * @description Suite de tests para cambiar el estado de una cita (PATCH /api/appointments/:id/status).
+ */
+describe('PATCH /api/appointments/:id/status', () => {
+  /**
+   * @description Obtiene la primera cita con el estado indicado.
+   * @param {AppointmentStatus} status - Estado buscado.
+   * @returns {Promise<any>} Cita encontrada.
+   */
+  const findAppointmentWithStatus = async (status: AppointmentStatus) => {
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
+    return appointmentsResponse.body.find((a: any) => a.status === status);
+  };
+
+  /**
+   * @description Test para confirmar una cita programada.
+   */
+  it('debería confirmar una cita programada', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.SCHEDULED);
+
+    const response = await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: AppointmentStatus.CONFIRMED })
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(response.body).toHaveProperty('status', AppointmentStatus.CONFIRMED);
+  });
+
+  /**
+   * @description Test para no empezar ni marcar como inasistencia una cita futura.
+   */
+  it('debería devolver error 409 al marcar NO_SHOW o IN_PROGRESS antes de la hora de la cita', async () => {
+    const created = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: stylist.id,
+        style_id: defaultStyle.id,
+        appointment_date: getFutureWorkdayAt(3, 10).toISOString()
+      })
+      .expect(201);
+
+    for (const status of [AppointmentStatus.NO_SHOW, AppointmentStatus.IN_PROGRESS]) {
+      const response = await request(app)
+        .patch(`/api/appointments/${created.body.id}/status`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ status })
+        .expect(409);
+
+      expect(response.body).toHaveProperty('error', 'APPOINTMENT_NOT_STARTED');
     }
+
+    const standing = await request(app)
+      .get(`/api/users/${customer.id}/appointment-standing`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(standing.body).toHaveProperty('no_show_count', 0);
+    expect(standing.body.fees).toEqual([]);
+  });
+
+  /**
+   * @description Test para registrar el motivo y la fecha de cancelación.
+   */
+  it('debería registrar el motivo y la fecha al cancelar', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.SCHEDULED);
+
+    const response = await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: AppointmentStatus.CANCELLED, reason: 'La clienta no puede asistir' })
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(response.body).toHaveProperty('status', AppointmentStatus.CANCELLED);
+    expect(response.body).toHaveProperty('cancellation_reason', 'La clienta no puede asistir');
+    expect(response.body.cancelled_at).not.toBeNull();
+  });
+
+  /**
+   * @description Test para exigir un motivo al cancelar.
+   */
+  it('debería devolver error 400 si se cancela sin motivo', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.SCHEDULED);
+
+    await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: AppointmentStatus.CANCELLED })
+      .expect('Content-Type', /json/)
+      .expect(400);
+  });
+
+  /**
+   * @description Test para rechazar la reapertura de una cita completada.
+   */
+  it('debería devolver error 409 al pasar de COMPLETED a SCHEDULED', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.COMPLETED);
+
+    const response = await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: AppointmentStatus.SCHEDULED })
+      .expect('Content-Type', /json/)
+      .expect(409);
+
+    expect(response.body).toHaveProperty('error', 'INVALID_STATUS_TRANSITION');
+    expect(response.body.allowed_transitions).toEqual([]);
   });
 });
 
@@ -404,16 +779,20 @@ describe('DELETE /api/appointments/:id', () => {
    */
   it('debería eliminar una cita existente y devolver status 204', async () => {
     // Obtener una cita existente
-    const appointmentsResponse = await request(app).get('/api/appointments');
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
     const existingAppointment = appointmentsResponse.body[0];
 
     await request(app)
       .delete(`/api/appointments/${existingAppointment.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .expect(204);
 
     // Verificar que la cita ya no existe
     await request(app)
       .get(`/api/appointments/${existingAppointment.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .expect(404);
   });
 
@@ -423,6 +802,1300 @@ describe('DELETE /api/appointments/:id', () => {
   it('debería devolver error 404 si la cita a eliminar no existe', async () => {
     await request(app)
       .delete('/api/appointments/cita-inexistente-123')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(404);
+  });
+});
+
+/**
+ * @description Obtiene un día laborable (lunes a sábado) al menos 7 días en el futuro.
+ * @returns {Date} Día laborable a medianoche local.
+ */
+const getUpcomingWorkday = (): Date => {
+  const day = new Date();
+  day.setHours(0, 0, 0, 0);
+  day.setDate(day.getDate() + 7);
+  while (day.getDay() === 0) {
+    day.setDate(day.getDate() + 1);
+  }
+  return day;
+};
+
+/**
+ * @description Formatea una fecha local como YYYY-MM-DD.
+ * @param {Date} date - Fecha a formatear.
+ * @returns {string} Fecha formateada.
+ */
+const toDateOnly = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * @description Suite de tests para disponibilidad (GET /api/appointments/availability).
+ */
+describe('GET /api/appointments/availability', () => {
+  const stylistId = stylist.id;
+
+  /**
+   * @description Test para obtener horarios libres dentro del horario laboral.
+   */
+  it('debería devolver horarios libres dentro del horario laboral', async () => {
+    const date = toDateOnly(getUpcomingWorkday());
+
+    const response = await request(app)
+      .get(`/api/appointments/availability?stylist_id=${stylistId}&date=${date}&duration=120`)
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(response.body).toHaveProperty('stylist_id', stylistId);
+    expect(response.body).toHaveProperty('duration', 120);
+    expect(response.body).toHaveProperty('available', true);
+
+    const starts = response.body.slots.map((slot: any) => new Date(slot.start).getHours());
+    expect(Math.min(...starts)).toBe(8);
+    expect(Math.max(...starts)).toBe(16);
+  });
+
+  /**
+   * @description Test para excluir horarios que se solapan con citas existentes.
+   */
+  it('debería excluir horarios que se solapan con citas existentes', async () => {
+    const day = getUpcomingWorkday();
+    const booked = new Date(day);
+    booked.setHours(10, 0, 0, 0);
+
+    await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: stylistId,
+        style_id: defaultStyle.id,
+        appointment_date: booked.toISOString()
+      })
+      .expect(201);
+
+    const response = await request(app)
+      .get(`/api/appointments/availability?stylist_id=${stylistId}&date=${toDateOnly(day)}&duration=60`)
+      .expect(200);
+
+    const starts = response.body.slots.map((slot: any) => new Date(slot.start).getTime());
+    expect(starts).not.toContain(booked.getTime());
+    expect(starts).not.toContain(booked.getTime() - 30 * 60 * 1000);
+    expect(starts).toContain(booked.getTime() + (defaultStyle.estimated_duration_minutes as number) * 60 * 1000);
+  });
+
+  /**
+   * @description Test para días en los que el salón no atiende.
+   */
+  it('debería devolver una lista vacía para un domingo', async () => {
+    const sunday = getUpcomingWorkday();
+    sunday.setDate(sunday.getDate() + ((7 - sunday.getDay()) % 7));
+
+    const response = await request(app)
+      .get(`/api/appointments/availability?stylist_id=${stylistId}&date=${toDateOnly(sunday)}`)
+      .expect(200);
+
+    expect(response.body).toHaveProperty('available', false);
+    expect(response.body.slots).toHaveLength(0);
+  });
+
+  /**
+   * @description Test para no inventar horarios de una estilista que no existe.
+   */
+  it('debería devolver error 404 si la estilista no existe', async () => {
+    const date = toDateOnly(getUpcomingWorkday());
+
+    const response = await request(app)
+      .get(`/api/appointments/availability?stylist_id=99999999-9999-4999-8999-999999999999&date=${date}`)
+      .expect('Content-Type', /json/)
+      .expect(404);
+
+    expect(response.body.message).toContain('Estilista no encontrada');
+  });
+
+  /**
+   * @description Test para validar los parámetros de la consulta.
+   */
+  it('debería devolver error 400 si faltan parámetros', async () => {
+    await request(app)
+      .get('/api/appointments/availability?date=2099-01-01')
+      .expect(400);
+  });
+});
+
+/**
+ * @description Suite de tests para horarios de estilista (GET /api/stylists/:id/slots).
+ */
+describe('GET /api/stylists/:id/slots', () => {
+  /**
+   * @description Test para obtener horarios libres de una estilista.
+   */
+  it('debería devolver los horarios libres para la duración solicitada', async () => {
+    const stylistId = otherStylist.id;
+    const date = toDateOnly(getUpcomingWorkday());
+
+    const response = await request(app)
+      .get(`/api/stylists/${stylistId}/slots?date=${date}&duration=240`)
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(response.body).toHaveProperty('stylist_id', stylistId);
+    response.body.slots.forEach((slot: any) => {
+      const minutes = (new Date(slot.end).getTime() - new Date(slot.start).getTime()) / 60000;
+      expect(minutes).toBe(240);
+    });
+  });
+
+  /**
+   * @description Test para una estilista que no existe.
+   */
+  it('debería devolver error 404 si la estilista no existe', async () => {
+    const date = toDateOnly(getUpcomingWorkday());
+
+    await request(app)
+      .get(`/api/stylists/99999999-9999-4999-8999-999999999999/slots?date=${date}`)
       .expect(404);
   });
-});
\ No newline at end of file
+
+  /**
+   * @description Test para validar la duración solicitada.
+   */
+  it('debería devolver error 400 si la duración es inválida', async () => {
+    await request(app)
+      .get(`/api/stylists/${otherStylist.id}/slots?date=2099-01-01&duration=10`)
+      .expect(400);
+  });
+});
+
+/**
+ * @description Suite de tests para reprogramar citas (POST /api/appointments/:id/reschedule).
+ */
+describe('POST /api/appointments/:id/reschedule', () => {
+  /**
+   * @description Obtiene la primera cita con el estado indicado.
+   * @param {AppointmentStatus} status - Estado buscado.
+   * @returns {Promise<any>} Cita encontrada.
+   */
+  const findAppointmentWithStatus = async (status: AppointmentStatus) => {
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
+    return appointmentsResponse.body.find((a: any) => a.status === status);
+  };
+
+  /**
+   * @description Test para mover una cita conservando su duración.
+   */
+  it('debería reprogramar la cita conservando su duración', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.SCHEDULED);
+    const newDate = getUpcomingWorkday();
+    newDate.setHours(9, 0, 0, 0);
+
+    const response = await request(app)
+      .post(`/api/appointments/${appointment.id}/reschedule`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ new_appointment_date: newDate.toISOString(), reason: 'Cambio de turno en el trabajo' })
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    const originalDuration = new Date(appointment.estimated_end_date).getTime() -
+      new Date(appointment.appointment_date).getTime();
+    expect(new Date(response.body.appointment_date).getTime()).toBe(newDate.getTime());
+    expect(new Date(response.body.estimated_end_date).getTime()).toBe(newDate.getTime() + originalDuration);
+  });
+
+  /**
+   * @description Test para registrar la reprogramación en el historial.
+   */
+  it('debería registrar el cambio en el historial de la cita', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.SCHEDULED);
+    const newDate = getUpcomingWorkday();
+    newDate.setHours(9, 0, 0, 0);
+
+    await request(app)
+      .post(`/api/appointments/${appointment.id}/reschedule`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ new_appointment_date: newDate.toISOString(), reason: 'Cambio de turno en el trabajo' })
+      .expect(200);
+
+    const response = await request(app)
+      .get(`/api/appointments/${appointment.id}/history`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(response.body).toHaveProperty('total_changes', 1);
+    expect(response.body.changes[0]).toHaveProperty('reason', 'Cambio de turno en el trabajo');
+    expect(new Date(response.body.changes[0].previous_date).getTime())
+      .toBe(new Date(appointment.appointment_date).getTime());
+    expect(new Date(response.body.changes[0].new_date).getTime()).toBe(newDate.getTime());
+  });
+
+  /**
+   * @description Test para rechazar horarios fuera del horario laboral.
+   */
+  it('debería devolver error 409 si el nuevo horario está fuera del horario laboral', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.SCHEDULED);
+    const newDate = getUpcomingWorkday();
+    newDate.setHours(17, 0, 0, 0);
+
+    await request(app)
+      .post(`/api/appointments/${appointment.id}/reschedule`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ new_appointment_date: newDate.toISOString(), reason: 'Prefiero por la tarde' })
+      .expect('Content-Type', /json/)
+      .expect(409);
+  });
+
+  /**
+   * @description Test para rechazar la reprogramación de citas finalizadas.
+   */
+  it('debería devolver error 409 si la cita ya está completada', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.COMPLETED);
+    const newDate = getUpcomingWorkday();
+    newDate.setHours(9, 0, 0, 0);
+
+    const response = await request(app)
+      .post(`/api/appointments/${appointment.id}/reschedule`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ new_appointment_date: newDate.toISOString(), reason: 'Quiero repetir el peinado' })
+      .expect('Content-Type', /json/)
+      .expect(409);
+
+    expect(response.body).toHaveProperty('error', 'APPOINTMENT_NOT_RESCHEDULABLE');
+  });
+
+  /**
+   * @description Test para exigir un motivo al reprogramar.
+   */
+  it('debería devolver error 400 si falta el motivo', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.SCHEDULED);
+    const newDate = getUpcomingWorkday();
+    newDate.setHours(9, 0, 0, 0);
+
+    await request(app)
+      .post(`/api/appointments/${appointment.id}/reschedule`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ new_appointment_date: newDate.toISOString() })
+      .expect('Content-Type', /json/)
+      .expect(400);
+  });
+});
+
+/**
+ * @description Suite de tests para la política de cancelación.
+ */
+describe('Política de cancelación', () => {
+  /**
+   * @description Obtiene la primera cita con el estado indicado.
+   * @param {AppointmentStatus} status - Estado buscado.
+   * @returns {Promise<any>} Cita encontrada.
+   */
+  const findAppointmentWithStatus = async (status: AppointmentStatus) => {
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
+    return appointmentsResponse.body.find((a: any) => a.status === status);
+  };
+
+  /**
+   * @description Test para no cobrar cancelaciones dentro de la ventana gratuita.
+   */
+  it('no debería generar penalización si se cancela con suficiente antelación', () => {
+    const appointmentDate = new Date(Date.now() + (CANCELLATION_POLICY.freeCancellationHours + 1) * 60 * 60 * 1000);
+
+    const fee = assessCancellationFee(
+      {
+        id: 'cita-1',
+        user_id: customer.id,
+        stylist_id: stylist.id,
+        style_id: defaultStyle.id,
+        appointment_date: appointmentDate,
+        estimated_end_date: appointmentDate,
+        status: AppointmentStatus.SCHEDULED,
+        total_price: 100,
+        cancellation_reason: null,
+        cancelled_at: null,
+        created_at: new Date(),
+        updated_at: new Date()
+      },
+      AppointmentStatus.CANCELLED,
+      new Date(),
+      CANCELLATION_POLICY
+    );
+
+    expect(fee).toBeNull();
+  });
+
+  /**
+   * @description Test para cobrar una cancelación tardía.
+   */
+  it('debería cobrar un porcentaje del precio al cancelar tarde', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.SCHEDULED);
+
+    const response = await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: AppointmentStatus.CANCELLED, reason: 'Cancelación de última hora' })
+      .expect(200);
+
+    expect(response.body.fee).toHaveProperty('fee_type', AppointmentFeeType.LATE_CANCELLATION);
+    expect(response.body.fee).toHaveProperty('status', AppointmentFeeStatus.PENDING);
+    expect(response.body.fee.amount).toBe(
+      appointment.total_price * CANCELLATION_POLICY.lateCancellationFeePercent / 100
+    );
+  });
+
+  /**
+   * @description Test para cobrar la inasistencia como saldo pendiente.
+   */
+  it('debería cobrar la inasistencia como saldo pendiente', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.SCHEDULED);
+
+    const response = await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: AppointmentStatus.NO_SHOW })
+      .expect(200);
+
+    expect(response.body.fee).toHaveProperty('fee_type', AppointmentFeeType.NO_SHOW);
+    expect(response.body.fee).toHaveProperty('status', AppointmentFeeStatus.PENDING);
+    expect(response.body.fee.amount).toBe(
+      appointment.total_price * CANCELLATION_POLICY.noShowFeePercent / 100
+    );
+  });
+
+  /**
+   * @description Test para consultar el saldo de un cliente sin incumplimientos.
+   */
+  it('debería devolver saldo cero para un cliente sin incumplimientos', async () => {
+    const userId = '11111111-1111-4111-8111-111111111111';
+    const token = generateToken({ userId, email: 'cliente@test.com', role: UserRole.CUSTOMER });
+
+    const response = await request(app)
+      .get(`/api/users/${userId}/appointment-standing`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(response.body).toHaveProperty('pending_balance', 0);
+    expect(response.body).toHaveProperty('no_show_count', 0);
+    expect(response.body).toHaveProperty('is_chronic_no_show', false);
+  });
+
+  /**
+   * @description Test para permitir que un administrador exonere la penalización.
+   */
+  it('debería registrar la penalización como exonerada si un administrador lo indica', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.SCHEDULED);
+
+    const response = await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: AppointmentStatus.NO_SHOW, waive_fee: true })
+      .expect(200);
+
+    expect(response.body.fee).toHaveProperty('status', AppointmentFeeStatus.WAIVED);
+  });
+
+  /**
+   * @description Test para impedir que un cliente exonere su propia penalización.
+   */
+  it('debería devolver error 403 si un cliente intenta exonerar la penalización', async () => {
+    const appointment = await findAppointmentWithStatus(AppointmentStatus.SCHEDULED);
+    const customerToken = generateToken({ userId: customer.id, email: customer.email, role: UserRole.CUSTOMER });
+
+    await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ status: AppointmentStatus.CANCELLED, reason: 'No puedo asistir', waive_fee: true })
+      .expect(403);
+  });
+});
+
+/**
+ * @description Suite de tests para series recurrentes (POST /api/appointments/series).
+ */
+describe('POST /api/appointments/series', () => {
+  const seriesRequest = {
+    user_id: customer.id,
+    stylist_id: otherStylist.id,
+    style_id: defaultStyle.id,
+    interval_weeks: 4,
+    occurrences: 3
+  };
+
+  /**
+   * @description Test para crear todas las citas de una serie.
+   */
+  it('debería crear una cita por cada repetición enlazadas por series_id', async () => {
+    const firstDate = getFutureWorkdayAt(7, 10);
+
+    const response = await request(app)
+      .post('/api/appointments/series')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ...seriesRequest, first_appointment_date: firstDate.toISOString() })
+      .expect('Content-Type', /json/)
+      .expect(201);
+
+    expect(response.body.created).toHaveLength(3);
+    expect(response.body.failed).toEqual([]);
+    response.body.created.forEach((appointment: any) => {
+      expect(appointment).toHaveProperty('series_id', response.body.series_id);
+    });
+
+    const gap = new Date(response.body.created[1].appointment_date).getTime() -
+      new Date(response.body.created[0].appointment_date).getTime();
+    expect(Math.round(gap / (24 * 60 * 60 * 1000))).toBe(28);
+  });
+
+  /**
+   * @description Test para informar las fechas que chocan con otras citas.
+   */
+  it('debería informar las fechas que no se pudieron reservar', async () => {
+    const firstDate = getFutureWorkdayAt(7, 10);
+    const secondDate = new Date(firstDate);
+    secondDate.setDate(secondDate.getDate() + 28);
+
+    await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: seriesRequest.stylist_id,
+        style_id: defaultStyle.id,
+        appointment_date: secondDate.toISOString()
+      })
+      .expect(201);
+
+    const response = await request(app)
+      .post('/api/appointments/series')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ...seriesRequest, first_appointment_date: firstDate.toISOString() })
+      .expect(201);
+
+    expect(response.body.created).toHaveLength(2);
+    expect(response.body.failed).toHaveLength(1);
+    expect(new Date(response.body.failed[0].appointment_date).getTime()).toBe(secondDate.getTime());
+  });
+
+  /**
+   * @description Test para exigir un límite a la serie.
+   */
+  it('debería devolver error 400 si no se indica occurrences ni end_date', async () => {
+    const { occurrences, ...withoutLimit } = seriesRequest;
+
+    await request(app)
+      .post('/api/appointments/series')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ...withoutLimit, first_appointment_date: getFutureWorkdayAt(7, 10).toISOString() })
+      .expect(400);
+  });
+
+  /**
+   * @description Test para cancelar una cita y las siguientes de la serie.
+   */
+  it('debería cancelar una cita y las siguientes de la serie', async () => {
+    const created = await request(app)
+      .post('/api/appointments/series')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ...seriesRequest, first_appointment_date: getFutureWorkdayAt(7, 10).toISOString() })
+      .expect(201);
+
+    const { series_id } = created.body;
+    const response = await request(app)
+      .post(`/api/appointments/series/${series_id}/cancel`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        scope: 'THIS_AND_FOLLOWING',
+        appointment_id: created.body.created[1].id,
+        reason: 'Me mudo de ciudad'
+      })
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(response.body.cancelled).toHaveLength(2);
+
+    const seriesResponse = await request(app)
+      .get(`/api/appointments?series_id=${series_id}`)
+      .set('Authorization', `Bearer ${adminToken}`);
+    const statuses = seriesResponse.body.map((a: any) => a.status);
+    expect(statuses).toEqual([
+      AppointmentStatus.SCHEDULED,
+      AppointmentStatus.CANCELLED,
+      AppointmentStatus.CANCELLED
+    ]);
+  });
+
+  /**
+   * @description Test para cancelar la serie completa.
+   */
+  it('debería cancelar toda la serie', async () => {
+    const created = await request(app)
+      .post('/api/appointments/series')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ ...seriesRequest, first_appointment_date: getFutureWorkdayAt(7, 10).toISOString() })
+      .expect(201);
+
+    const response = await request(app)
+      .post(`/api/appointments/series/${created.body.series_id}/cancel`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ scope: 'ALL', reason: 'Ya no necesito el servicio' })
+      .expect(200);
+
+    expect(response.body.cancelled).toHaveLength(3);
+    expect(response.body.skipped).toEqual([]);
+  });
+});
+
+/**
+ * @description Suite de tests para la lista de espera (/api/appointments/waitlist).
+ */
+describe('Lista de espera', () => {
+  const stylistId = otherStylist.id;
+  const styleId = otherStyle.id;
+  const waitingToken = generateToken({
+    userId: waitingCustomer.id,
+    email: waitingCustomer.email,
+    role: UserRole.CUSTOMER
+  });
+  const otherToken = generateToken({
+    userId: otherCustomer.id,
+    email: otherCustomer.email,
+    role: UserRole.CUSTOMER
+  });
+  let outbox: OutboxNotifier;
+
+  beforeEach(async () => {
+    await resetWaitlist();
+    outbox = new OutboxNotifier();
+    setNotifier(outbox);
+  });
+
+  /**
+   * @description Reserva una cita con la estilista de prueba y la inscribe a otra clienta
+   * en la lista de espera para ese mismo día.
+   * @returns {Promise<{appointment: any, entry: any}>} Cita reservada y solicitud en espera.
+   */
+  const bookAndJoinWaitlist = async () => {
+    const appointmentDate = getFutureWorkdayAt(3, 10);
+
+    const appointment = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: stylistId,
+        style_id: styleId,
+        appointment_date: appointmentDate.toISOString()
+      })
+      .expect(201);
+
+    const entry = await request(app)
+      .post('/api/appointments/waitlist')
+      .set('Authorization', `Bearer ${waitingToken}`)
+      .send({
+        user_id: waitingCustomer.id,
+        stylist_id: stylistId,
+        style_id: styleId,
+        earliest_date: toDateOnly(appointmentDate),
+        latest_date: toDateOnly(appointmentDate)
+      })
+      .expect('Content-Type', /json/)
+      .expect(201);
+
+    return { appointment: appointment.body, entry: entry.body };
+  };
+
+  /**
+   * @description Cancela una cita a través del endpoint de estado.
+   * @param {string} id - ID de la cita.
+   */
+  const cancelAppointment = async (id: string) => {
+    await request(app)
+      .patch(`/api/appointments/${id}/status`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: AppointmentStatus.CANCELLED, reason: 'Cambio de planes' })
+      .expect(200);
+  };
+
+  /**
+   * @description Carga las rutas de citas con REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS activo.
+   */
+  const loadAppRequiringVerifiedEmail = () => {
+    const originalEnv = process.env;
+    process.env = { ...originalEnv, REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS: 'true' };
+    try {
+      const guardedApp = express();
+      guardedApp.use(express.json());
+      jest.isolateModules(() => {
+        guardedApp.use('/api/appointments', require('../routes/appointments.routes').default);
+      });
+      return guardedApp;
+    } finally {
+      process.env = originalEnv;
+    }
+  };
+
+  /**
+   * @description Test para inscribirse en la lista de espera.
+   */
+  it('debería inscribir al cliente en espera', async () => {
+    const { entry } = await bookAndJoinWaitlist();
+
+    expect(entry).toHaveProperty('status', WaitlistStatus.WAITING);
+    expect(entry.offered_start).toBeNull();
+  });
+
+  /**
+   * @description Test para rechazar rangos de fechas invertidos.
+   */
+  it('debería devolver error 400 si latest_date es anterior a earliest_date', async () => {
+    await request(app)
+      .post('/api/appointments/waitlist')
+      .set('Authorization', `Bearer ${waitingToken}`)
+      .send({
+        user_id: waitingCustomer.id,
+        stylist_id: stylistId,
+        style_id: styleId,
+        earliest_date: '2030-05-10',
+        latest_date: '2030-05-01'
+      })
+      .expect(400);
+  });
+
+  /**
+   * @description Test para ofrecer el horario liberado al cancelar una cita.
+   */
+  it('debería ofrecer el horario de una cita cancelada y notificar al cliente', async () => {
+    const { appointment, entry } = await bookAndJoinWaitlist();
+
+    await cancelAppointment(appointment.id);
+
+    const waitlist = await request(app)
+      .get(`/api/appointments/waitlist?stylist_id=${stylistId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    const offered = waitlist.body.find((e: any) => e.id === entry.id);
+    expect(offered.status).toBe(WaitlistStatus.OFFERED);
+    expect(new Date(offered.offered_start).getTime())
+      .toBe(new Date(appointment.appointment_date).getTime());
+    expect(new Date(offered.offer_expires_at).getTime()).toBeGreaterThan(Date.now());
+
+    const messages = outbox.getMessages();
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({
+      recipient_id: entry.user_id,
+      type: NotificationType.WAITLIST_OFFER
+    });
+  });
+
+  /**
+   * @description Test para reservar temporalmente el horario ofrecido.
+   */
+  it('debería impedir que otra cliente reserve el horario ofrecido', async () => {
+    const { appointment } = await bookAndJoinWaitlist();
+
+    await cancelAppointment(appointment.id);
+
+    await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: otherCustomer.id,
+        stylist_id: stylistId,
+        style_id: styleId,
+        appointment_date: appointment.appointment_date
+      })
+      .expect(409);
+  });
+
+  /**
+   * @description Test para exigir el email verificado al inscribirse y al aceptar la oferta.
+   */
+  it('debería exigir el email verificado en la lista de espera si las reservas lo requieren', async () => {
+    const { appointment, entry } = await bookAndJoinWaitlist();
+    await cancelAppointment(appointment.id);
+    const guardedApp = loadAppRequiringVerifiedEmail();
+
+    const joined = await request(guardedApp)
+      .post('/api/appointments/waitlist')
+      .set('Authorization', `Bearer ${otherToken}`)
+      .send({
+        user_id: otherCustomer.id,
+        stylist_id: stylistId,
+        style_id: styleId,
+        earliest_date: toDateOnly(new Date(appointment.appointment_date)),
+        latest_date: toDateOnly(new Date(appointment.appointment_date))
+      })
+      .expect(403);
+    expect(joined.body).toHaveProperty('error', 'EMAIL_NOT_VERIFIED');
+
+    const accepted = await request(guardedApp)
+      .post(`/api/appointments/waitlist/${entry.id}/accept`)
+      .set('Authorization', `Bearer ${waitingToken}`)
+      .expect(403);
+    expect(accepted.body).toHaveProperty('error', 'EMAIL_NOT_VERIFIED');
+
+    const waitlist = await request(app)
+      .get(`/api/appointments/waitlist?stylist_id=${stylistId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(waitlist.body.find((e: any) => e.id === entry.id).status).toBe(WaitlistStatus.OFFERED);
+  });
+
+  /**
+   * @description Test para aceptar la oferta y crear la cita.
+   */
+  it('debería crear la cita al aceptar la oferta', async () => {
+    const { appointment, entry } = await bookAndJoinWaitlist();
+
+    await cancelAppointment(appointment.id);
+
+    const response = await request(app)
+      .post(`/api/appointments/waitlist/${entry.id}/accept`)
+      .set('Authorization', `Bearer ${waitingToken}`)
+      .expect('Content-Type', /json/)
+      .expect(201);
+
+    expect(response.body.status).toBe(WaitlistStatus.BOOKED);
+    expect(response.body.appointment).toMatchObject({
+      user_id: entry.user_id,
+      stylist_id: stylistId,
+      status: AppointmentStatus.SCHEDULED
+    });
+    expect(response.body.appointment_id).toBe(response.body.appointment.id);
+  });
+
+  /**
+   * @description Test para aceptar una solicitud sin oferta pendiente.
+   */
+  it('debería devolver error 409 al aceptar sin oferta pendiente', async () => {
+    const { entry } = await bookAndJoinWaitlist();
+
+    const response = await request(app)
+      .post(`/api/appointments/waitlist/${entry.id}/accept`)
+      .set('Authorization', `Bearer ${waitingToken}`)
+      .expect(409);
+
+    expect(response.body.error).toBe('WAITLIST_OFFER_NOT_AVAILABLE');
+  });
+
+  /**
+   * @description Test para pasar la oferta a la siguiente solicitud al rechazarla.
+   */
+  it('debería ofrecer el horario a la siguiente solicitud al rechazar la oferta', async () => {
+    const { appointment, entry } = await bookAndJoinWaitlist();
+    const next = await request(app)
+      .post('/api/appointments/waitlist')
+      .set('Authorization', `Bearer ${otherToken}`)
+      .send({
+        user_id: otherCustomer.id,
+        stylist_id: stylistId,
+        style_id: styleId,
+        earliest_date: entry.earliest_date,
+        latest_date: entry.latest_date
+      })
+      .expect(201);
+
+    await cancelAppointment(appointment.id);
+
+    await request(app)
+      .post(`/api/appointments/waitlist/${entry.id}/decline`)
+      .set('Authorization', `Bearer ${waitingToken}`)
+      .expect(200);
+
+    const waitlist = await request(app)
+      .get(`/api/appointments/waitlist?status=${WaitlistStatus.OFFERED}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect(waitlist.body.map((e: any) => e.id)).toEqual([next.body.id]);
+    expect(outbox.getMessages().map(m => m.recipient_id)).toEqual([
+      entry.user_id,
+      next.body.user_id
+    ]);
+  });
+
+  /**
+   * @description Test para vencer ofertas caducadas al calcular la disponibilidad.
+   */
+  it('debería pasar una oferta vencida a la siguiente solicitud al consultar la disponibilidad', async () => {
+    const { appointment, entry } = await bookAndJoinWaitlist();
+    const next = await request(app)
+      .post('/api/appointments/waitlist')
+      .set('Authorization', `Bearer ${otherToken}`)
+      .send({
+        user_id: otherCustomer.id,
+        stylist_id: stylistId,
+        style_id: styleId,
+        earliest_date: entry.earliest_date,
+        latest_date: entry.latest_date
+      })
+      .expect(201);
+
+    await cancelAppointment(appointment.id);
+    await updateWaitlistEntry(entry.id, { offer_expires_at: new Date(Date.now() - 60 * 1000) });
+
+    await request(app)
+      .get(`/api/appointments/availability?stylist_id=${stylistId}&date=${toDateOnly(new Date(appointment.appointment_date))}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+
+    expect((await getWaitlistEntryById(entry.id))?.status).toBe(WaitlistStatus.EXPIRED);
+    expect((await getWaitlistEntryById(next.body.id))?.status).toBe(WaitlistStatus.OFFERED);
+    expect(outbox.getMessages().map(m => m.recipient_id)).toEqual([
+      entry.user_id,
+      next.body.user_id
+    ]);
+  });
+
+  /**
+   * @description Test para exigir autenticación en la lista de espera.
+   */
+  it('debería devolver error 401 sin token', async () => {
+    await request(app).get('/api/appointments/waitlist').expect(401);
+    await request(app)
+      .post('/api/appointments/waitlist')
+      .send({
+        user_id: waitingCustomer.id,
+        stylist_id: stylistId,
+        style_id: styleId,
+        earliest_date: '2030-05-01',
+        latest_date: '2030-05-10'
+      })
+      .expect(401);
+  });
+
+  /**
+   * @description Test para impedir inscribir o gestionar solicitudes de otro cliente.
+   */
+  it('debería devolver error 403 si un cliente gestiona la solicitud de otro', async () => {
+    const { entry } = await bookAndJoinWaitlist();
+
+    await request(app)
+      .post('/api/appointments/waitlist')
+      .set('Authorization', `Bearer ${otherToken}`)
+      .send({
+        user_id: waitingCustomer.id,
+        stylist_id: stylistId,
+        style_id: styleId,
+        earliest_date: entry.earliest_date,
+        latest_date: entry.latest_date
+      })
+      .expect(403);
+
+    for (const action of ['accept', 'decline']) {
+      await request(app)
+        .post(`/api/appointments/waitlist/${entry.id}/${action}`)
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(403);
+    }
+
+    await request(app)
+      .delete(`/api/appointments/waitlist/${entry.id}`)
+      .set('Authorization', `Bearer ${otherToken}`)
+      .expect(403);
+  });
+
+  /**
+   * @description Test para que un cliente solo vea sus propias solicitudes.
+   */
+  it('debería devolver a un cliente solo sus propias solicitudes', async () => {
+    await bookAndJoinWaitlist();
+
+    const response = await request(app)
+      .get(`/api/appointments/waitlist?user_id=${waitingCustomer.id}`)
+      .set('Authorization', `Bearer ${otherToken}`)
+      .expect(200);
+
+    expect(response.body).toEqual([]);
+  });
+});
+
+/**
+ * @description Suite de tests para el cálculo del precio de las citas.
+ */
+describe('Cálculo de precio', () => {
+  const addOns = [
+    { id: 'addon-1', name: 'Lavado', description: null, price: 15, is_active: true },
+    { id: 'addon-2', name: 'Cuentas', description: null, price: 10.5, is_active: true }
+  ];
+
+  /**
+   * @description Test para usar el precio base del estilo.
+   */
+  it('debería usar el precio base cuando la estilista no tiene precio personalizado', () => {
+    const breakdown = buildPriceBreakdown(120, null, []);
+
+    expect(breakdown).toEqual({
+      base_price: 120,
+      custom_price: null,
+      service_price: 120,
+      add_ons: [],
+      add_ons_total: 0,
+      total_price: 120
+    });
+  });
+
+  /**
+   * @description Test para aplicar el precio personalizado y los adicionales.
+   */
+  it('debería aplicar el precio personalizado de la estilista y sumar los adicionales', () => {
+    const breakdown = buildPriceBreakdown(120, 140, addOns);
+
+    expect(breakdown.service_price).toBe(140);
+    expect(breakdown.add_ons_total).toBe(25.5);
+    expect(breakdown.total_price).toBe(165.5);
+    expect(breakdown.add_ons.map(a => a.id)).toEqual(['addon-1', 'addon-2']);
+  });
+
+  /**
+   * @description Test para reservar un estilo recién creado desde la API de estilos.
+   */
+  it('debería cobrar y programar un estilo creado desde la API de estilos', async () => {
+    const style = await request(app)
+      .post('/api/styles')
+      .send({
+        name: 'Stitch Braids',
+        description: 'Trenzas con líneas marcadas',
+        category: 'Moderno',
+        base_price: 95,
+        estimated_duration_minutes: 150
+      })
+      .expect(201);
+
+    const response = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: stylist.id,
+        style_id: style.body.id,
+        appointment_date: getFutureWorkdayAt(5, 10).toISOString()
+      })
+      .expect(201);
+
+    expect(response.body.total_price).toBe(95);
+    const start = new Date(response.body.appointment_date).getTime();
+    const end = new Date(response.body.estimated_end_date).getTime();
+    expect((end - start) / 60000).toBe(150);
+  });
+
+  /**
+   * @description Test para rechazar estilos que no existen en el catálogo.
+   */
+  it('debería devolver error 400 al reservar un estilo que no existe', async () => {
+    const response = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: stylist.id,
+        style_id: '99999999-9999-4999-8999-999999999999',
+        appointment_date: getFutureWorkdayAt(5, 10).toISOString(),
+        price: 1
+      })
+      .expect(400);
+
+    expect(response.body.message).toMatch(/estilo/i);
+  });
+
+  /**
+   * @description Test para rechazar estilos del catálogo que no tienen precio base.
+   */
+  it('debería devolver error 400 al reservar un estilo sin precio base', async () => {
+    const style = await request(app)
+      .post('/api/styles')
+      .send({ name: 'Lemonade Braids', description: 'Trenzas laterales', category: 'Moderno' })
+      .expect(201);
+
+    const response = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: stylist.id,
+        style_id: style.body.id,
+        appointment_date: getFutureWorkdayAt(5, 10).toISOString()
+      })
+      .expect(400);
+
+    expect(response.body.message).toMatch(/precio base/i);
+  });
+
+  /**
+   * @description Test para validar la query del presupuesto.
+   */
+  it('debería devolver error 400 si falta style_id en el presupuesto', async () => {
+    await request(app)
+      .get(`/api/appointments/price-quote?stylist_id=${stylist.id}`)
+      .expect(400);
+  });
+});
+
+/**
+ * @description Suite de tests para el acceso de estilistas a las citas.
+ */
+describe('Acceso de estilistas a citas', () => {
+  const stylistToken = generateToken({
+    userId: '55555555-5555-4555-8555-555555555555',
+    email: 'estilista@test.com',
+    role: UserRole.STYLIST
+  });
+
+  /**
+   * @description Test para no mostrar citas ajenas a una estilista.
+   */
+  it('debería devolver solo las citas propias a una estilista', async () => {
+    const response = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${stylistToken}`)
+      .expect(200);
+
+    expect(response.body).toEqual([]);
+  });
+
+  /**
+   * @description Test para bloquear la gestión de citas de otra estilista.
+   */
+  it('debería devolver error 403 si una estilista accede a la cita de otra', async () => {
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
+    const appointment = appointmentsResponse.body[0];
+
+    const response = await request(app)
+      .get(`/api/appointments/${appointment.id}`)
+      .set('Authorization', `Bearer ${stylistToken}`)
+      .expect(403);
+
+    expect(response.body).toHaveProperty('error', 'PERMISSION_DENIED');
+
+    await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${stylistToken}`)
+      .send({ status: AppointmentStatus.CANCELLED, reason: 'No es mi cita' })
+      .expect(403);
+  });
+});
+
+/**
+ * @description Suite de tests para los permisos de las rutas que modifican citas.
+ */
+describe('Permisos de citas', () => {
+  const customerToken = generateToken({ userId: customer.id, email: customer.email, role: UserRole.CUSTOMER });
+  const otherCustomerToken = generateToken({
+    userId: otherCustomer.id,
+    email: otherCustomer.email,
+    role: UserRole.CUSTOMER
+  });
+  const assignedStylistToken = generateToken({
+    userId: initialStylistUsers[0].id,
+    email: initialStylistUsers[0].email,
+    role: UserRole.STYLIST
+  });
+
+  /**
+   * @description Obtiene la cita programada de ejemplo (cliente customer, estilista stylist).
+   */
+  const findScheduledAppointment = async () => {
+    const appointmentsResponse = await request(app)
+      .get('/api/appointments')
+      .set('Authorization', `Bearer ${adminToken}`);
+    return appointmentsResponse.body.find((a: any) => a.status === AppointmentStatus.SCHEDULED);
+  };
+
+  /**
+   * @description Test para exigir autenticación al consultar citas.
+   */
+  it('debería devolver error 401 al listar citas sin token', async () => {
+    await request(app)
+      .get('/api/appointments')
+      .expect(401);
+  });
+
+  /**
+   * @description Test para mostrar a un cliente solo sus citas.
+   */
+  it('debería devolver a un cliente solo sus propias citas', async () => {
+    const response = await request(app)
+      .get(`/api/appointments?user_id=${otherCustomer.id}`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .expect(200);
+
+    expect(response.body.length).toBeGreaterThan(0);
+    response.body.forEach((appointment: any) => {
+      expect(appointment.user_id).toBe(customer.id);
+    });
+  });
+
+  /**
+   * @description Test para impedir que un cliente vea la cita de otro.
+   */
+  it('debería devolver error 403 si un cliente consulta la cita de otro', async () => {
+    const appointment = await findScheduledAppointment();
+
+    await request(app)
+      .get(`/api/appointments/${appointment.id}`)
+      .set('Authorization', `Bearer ${otherCustomerToken}`)
+      .expect(403);
+
+    await request(app)
+      .get(`/api/appointments/${appointment.id}/history`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .expect(200);
+  });
+
+  /**
+   * @description Test para exigir autenticación al reservar.
+   */
+  it('debería devolver error 401 al reservar sin token', async () => {
+    await request(app)
+      .post('/api/appointments')
+      .send({
+        user_id: customer.id,
+        stylist_id: stylist.id,
+        style_id: defaultStyle.id,
+        appointment_date: getFutureWorkdayAt(3, 10).toISOString()
+      })
+      .expect(401);
+  });
+
+  /**
+   * @description Test para impedir que un cliente reserve a nombre de otro.
+   */
+  it('debería devolver error 403 si un cliente reserva para otro cliente', async () => {
+    const response = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({
+        user_id: otherCustomer.id,
+        stylist_id: stylist.id,
+        style_id: defaultStyle.id,
+        appointment_date: getFutureWorkdayAt(3, 10).toISOString()
+      })
+      .expect(403);
+
+    expect(response.body).toHaveProperty('error', 'PERMISSION_DENIED');
+  });
+
+  /**
+   * @description Test para permitir a un cliente reservar para sí mismo.
+   */
+  it('debería permitir que un cliente reserve su propia cita', async () => {
+    const response = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({
+        user_id: customer.id,
+        stylist_id: stylist.id,
+        style_id: defaultStyle.id,
+        appointment_date: getFutureWorkdayAt(3, 10).toISOString()
+      })
+      .expect(201);
+
+    expect(response.body).toHaveProperty('user_id', customer.id);
+  });
+
+  /**
+   * @description Test para limitar a un cliente a sus propias citas.
+   */
+  it('debería permitir que un cliente cancele su cita pero no la de otra', async () => {
+    const appointment = await findScheduledAppointment();
+
+    const denied = await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${otherCustomerToken}`)
+      .send({ status: AppointmentStatus.CANCELLED, reason: 'No es mi cita' })
+      .expect(403);
+    expect(denied.body).toHaveProperty('error', 'PERMISSION_DENIED');
+
+    await request(app)
+      .post(`/api/appointments/${appointment.id}/reschedule`)
+      .set('Authorization', `Bearer ${otherCustomerToken}`)
+      .send({ new_appointment_date: getFutureWorkdayAt(4, 11).toISOString(), reason: 'No es mi cita' })
+      .expect(403);
+
+    const response = await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ status: AppointmentStatus.CANCELLED, reason: 'No puedo asistir' })
+      .expect(200);
+
+    expect(response.body).toHaveProperty('status', AppointmentStatus.CANCELLED);
+  });
+
+  /**
+   * @description Test para reservar a la estilista y a ADMIN los demás cambios de estado.
+   */
+  it('debería devolver error 403 si un cliente confirma, empieza o completa su propia cita', async () => {
+    const appointment = await findScheduledAppointment();
+
+    for (const status of [AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS, AppointmentStatus.NO_SHOW]) {
+      const response = await request(app)
+        .patch(`/api/appointments/${appointment.id}/status`)
+        .set('Authorization', `Bearer ${customerToken}`)
+        .send({ status })
+        .expect(403);
+
+      expect(response.body).toHaveProperty('permission', 'appointments:set-status');
+    }
+
+    await request(app)
+      .put(`/api/appointments/${appointment.id}`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ status: AppointmentStatus.COMPLETED })
+      .expect(403);
+
+    await request(app)
+      .put(`/api/appointments/${appointment.id}`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ notes: 'Llevaré mis propias extensiones' })
+      .expect(200);
+
+    const stored = await request(app)
+      .get(`/api/appointments/${appointment.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200);
+    expect(stored.body).toHaveProperty('status', AppointmentStatus.SCHEDULED);
+  });
+
+  /**
+   * @description Test para que solo un ADMIN elimine citas y sus penalizaciones.
+   */
+  it('debería devolver error 403 si un cliente elimina su propia cita', async () => {
+    const appointment = await findScheduledAppointment();
+
+    const response = await request(app)
+      .delete(`/api/appointments/${appointment.id}`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .expect(403);
+
+    expect(response.body).toHaveProperty('permission', 'appointments:delete');
+
+    await request(app)
+      .get(`/api/appointments/${appointment.id}`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .expect(200);
+  });
+
+  /**
+   * @description Test para permitir a la estilista asignada gestionar la cita.
+   */
+  it('debería permitir que la estilista asignada cambie el estado de la cita', async () => {
+    const appointment = await findScheduledAppointment();
+
+    const response = await request(app)
+      .patch(`/api/appointments/${appointment.id}/status`)
+      .set('Authorization', `Bearer ${assignedStylistToken}`)
+      .send({ status: AppointmentStatus.CONFIRMED })
+      .expect(200);
+
+    expect(response.body).toHaveProperty('status', AppointmentStatus.CONFIRMED);
+  });
+});
@@ -5,13 +5,22 @@
  */
 
 import request from 'supertest';
+import express from 'express';
 import app from '../index';
 import { resetUsers } from '../controllers/auth.controller';
 import { UserRole } from '../interfaces/user.interface';
+import { MemoryTokenDenylist } from '../denylist/memory.denylist';
+import { setMailTransport } from '../mail/mailer';
+import { MailMessage } from '../interfaces/mail.interface';
+import { resetLoginThrottles } from '../data/login-throttles.database';
+import { getLockoutMinutes } from '../utils/lockout.utils';
+import { base32Encode, generateTotp } from '../utils/totp.utils';
+import { optionalAuth, requireVerifiedEmail } from '../middleware/auth.middleware';
 
 // Hook para resetear los datos antes de cada prueba
-beforeEach(() => {
+beforeEach(async () => {
   resetUsers();
+  await resetLoginThrottles();
 });
 
 /**
@@ -395,7 +404,25 @@ describe('POST /api/auth/logout', () => {
       .expect(200);
 
     expect(response.body).toHaveProperty('success', true);
-    expect(response.body).toHaveProperty('message', 'Logout exitoso. Token debe ser eliminado del cliente.');
+    expect(response.body).toHaveProperty('message', 'Logout exitoso. El token ha sido revocado.');
+  });
+
+  /**
+   * @description Test para rechazar el token de acceso después del logout.
+   */
+  it('debería rechazar el token de acceso revocado con logout', async () => {
+    await request(app)
+      .post('/api/auth/logout')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const response = await request(app)
+      .get('/api/auth/profile')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(401);
+
+    expect(response.body).toHaveProperty('success', false);
+    expect(response.body).toHaveProperty('error', 'REVOKED_TOKEN');
   });
 
   /**
@@ -416,9 +443,10 @@ describe('POST /api/auth/logout', () => {
  */
 describe('POST /api/auth/refresh', () => {
   let authToken: string;
+  let refreshToken: string;
 
   beforeEach(async () => {
-    // Login para obtener token
+    // Login para obtener token de acceso y token de refresco
     const loginResponse = await request(app)
       .post('/api/auth/login')
       .send({
@@ -427,40 +455,557 @@ describe('POST /api/auth/refresh', () => {
       });
     
     authToken = loginResponse.body.data.token;
+    refreshToken = loginResponse.body.data.refresh_token;
   });
 
   /**
    * @description Test para refresh token exitoso.
    */
-  it('debería refrescar el token exitosamente', async () => {
+  it('debería refrescar el token exitosamente y rotar el token de refresco', async () => {
     const response = await request(app)
       .post('/api/auth/refresh')
-      .set('Authorization', `Bearer ${authToken}`)
+      .send({ refreshToken })
       .expect(200);
 
     expect(response.body).toHaveProperty('success', true);
     expect(response.body).toHaveProperty('message', 'Token refrescado exitosamente');
     expect(response.body).toHaveProperty('data');
     
-    // Verificar que devuelve un nuevo token
+    // Verificar que devuelve nuevos tokens
     expect(response.body.data).toHaveProperty('token');
     expect(response.body.data).toHaveProperty('user');
     expect(response.body.data).toHaveProperty('expires_in');
-    
-    // El nuevo token debe ser válido (puede ser igual si se genera en el mismo segundo)
-    expect(response.body.data.token).toBeDefined();
-    expect(typeof response.body.data.token).toBe('string');
+    expect(typeof response.body.data.refresh_token).toBe('string');
+    expect(response.body.data.refresh_token).not.toBe(refreshToken);
   });
 
   /**
-   * @description Test para refresh sin token.
+   * @description Test para detectar la reutilización de un token rotado.
    */
-  it('debería devolver error 401 sin token de autorización', async () => {
+  it('debería revocar todas las sesiones al reutilizar un token rotado', async () => {
+    const rotated = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken })
+      .expect(200);
+
+    const reuse = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken })
+      .expect(401);
+
+    expect(reuse.body).toHaveProperty('error', 'REFRESH_TOKEN_REUSED');
+
+    // El token emitido en la rotación también queda revocado
+    const afterReuse = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: rotated.body.data.refresh_token })
+      .expect(401);
+
+    expect(afterReuse.body).toHaveProperty('error', 'REVOKED_REFRESH_TOKEN');
+  });
+
+  /**
+   * @description Test para refresh con un token desconocido.
+   */
+  it('debería devolver error 401 con un token de refresco inválido', async () => {
     const response = await request(app)
       .post('/api/auth/refresh')
+      .send({ refreshToken: 'token-que-no-existe' })
       .expect(401);
 
     expect(response.body).toHaveProperty('success', false);
-    expect(response.body).toHaveProperty('error', 'MISSING_TOKEN');
+    expect(response.body).toHaveProperty('error', 'INVALID_REFRESH_TOKEN');
+  });
+
+  /**
+   * @description Test para refresh sin token de refresco.
+   */
+  it('debería devolver error 400 sin token de refresco', async () => {
+    const response = await request(app)
+      .post('/api/auth/refresh')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(400);
+
+    expect(response.body).toHaveProperty('success', false);
+  });
+
+  /**
+   * @description Test para revocar la sesión al hacer logout con el token de refresco.
+   */
+  it('no debería refrescar una sesión cerrada con logout', async () => {
+    await request(app)
+      .post('/api/auth/logout')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ refreshToken })
+      .expect(200);
+
+    const response = await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken })
+      .expect(401);
+
+    expect(response.body).toHaveProperty('error', 'REVOKED_REFRESH_TOKEN');
+  });
+
+  /**
+   * @description Test para cerrar sesión en todos los dispositivos.
+   */
+  it('debería cerrar todas las sesiones con logout-all', async () => {
+    const otherDevice = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'maria@example.com', password: 'password123' });
+
+    const response = await request(app)
+      .post('/api/auth/logout-all')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(response.body.data.revoked_sessions).toBeGreaterThanOrEqual(2);
+
+    await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: otherDevice.body.data.refresh_token })
+      .expect(401);
+  });
+});
+
+/**
+ * @description Suite de tests para recuperación de contraseña
+ * (POST /api/auth/forgot-password y POST /api/auth/reset-password).
+ */
+describe('Recuperación de contraseña', () => {
+  let sentMails: MailMessage[];
+
+  beforeEach(() => {
+    sentMails = [];
+    setMailTransport({ send: async (message) => { sentMails.push(message); } });
+  });
+
+  /**
+   * @description Extrae el token del enlace enviado en el último correo.
+   */
+  const getTokenFromLastMail = (): string => {
+    const match = sentMails[sentMails.length - 1].text.match(/token=([\w-]+)/);
+    return match ? match[1] : '';
+  };
+
+  /**
+   * @description Espera a que se envíen los correos de recuperación, que salen en segundo plano.
+   * @param {number} count - Número de correos esperados.
+   */
+  const waitForMails = async (count: number): Promise<void> => {
+    for (let attempt = 0; attempt < 100 && sentMails.length < count; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  /**
+   * @description Test para no revelar si el email existe.
+   */
+  it('debería responder igual exista o no el email', async () => {
+    const existing = await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: 'maria@example.com' })
+      .expect(200);
+
+    const missing = await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: 'nadie@example.com' })
+      .expect(200);
+
+    expect(missing.body).toEqual(existing.body);
+    await waitForMails(1);
+    expect(sentMails).toHaveLength(1);
+    expect(sentMails[0].to).toBe('maria@example.com');
+  });
+
+  /**
+   * @description Test para restablecer la contraseña y cerrar las sesiones abiertas.
+   */
+  it('debería restablecer la contraseña y revocar las sesiones', async () => {
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'maria@example.com', password: 'password123' });
+
+    await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: 'maria@example.com' })
+      .expect(200);
+    await waitForMails(1);
+
+    await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token: getTokenFromLastMail(), newPassword: 'NuevaClave123', confirmPassword: 'NuevaClave123' })
+      .expect(200);
+
+    await request(app)
+      .post('/api/auth/refresh')
+      .send({ refreshToken: loginResponse.body.data.refresh_token })
+      .expect(401);
+
+    await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'maria@example.com', password: 'NuevaClave123' })
+      .expect(200);
+  });
+
+  /**
+   * @description Test para revocar los tokens de acceso emitidos antes del restablecimiento.
+   */
+  it('debería revocar los tokens de acceso emitidos antes de restablecer la contraseña', async () => {
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'maria@example.com', password: 'password123' });
+    const oldToken = loginResponse.body.data.token;
+
+    await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: 'maria@example.com' })
+      .expect(200);
+    await waitForMails(1);
+
+    // iat tiene precisión de segundos: el token anterior debe ser de un segundo previo al corte
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    await request(app)
+      .post('/api/auth/reset-password')
+      .send({ token: getTokenFromLastMail(), newPassword: 'NuevaClave123', confirmPassword: 'NuevaClave123' })
+      .expect(200);
+
+    const response = await request(app)
+      .get('/api/auth/profile')
+      .set('Authorization', `Bearer ${oldToken}`)
+      .expect(401);
+    expect(response.body).toHaveProperty('error', 'REVOKED_TOKEN');
+
+    const newLogin = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'maria@example.com', password: 'NuevaClave123' })
+      .expect(200);
+
+    await request(app)
+      .get('/api/auth/profile')
+      .set('Authorization', `Bearer ${newLogin.body.data.token}`)
+      .expect(200);
+  });
+
+  /**
+   * @description Test para impedir reutilizar el token de recuperación.
+   */
+  it('debería rechazar un token de recuperación ya usado', async () => {
+    await request(app)
+      .post('/api/auth/forgot-password')
+      .send({ email: 'maria@example.com' });
+    await waitForMails(1);
+
+    const resetData = { token: getTokenFromLastMail(), newPassword: 'NuevaClave123', confirmPassword: 'NuevaClave123' };
+
+    await request(app).post('/api/auth/reset-password').send(resetData).expect(200);
+
+    const response = await request(app)
+      .post('/api/auth/reset-password')
+      .send(resetData)
+      .expect(400);
+
+    expect(response.body).toHaveProperty('error', 'INVALID_RESET_TOKEN');
+  });
+});
+
+/**
+ * @description Suite de tests para verificación de email
+ * (GET /api/auth/verify-email y POST /api/auth/resend-verification).
+ */
+describe('Verificación de email', () => {
+  let sentMails: MailMessage[];
+  let authToken: string;
+
+  beforeEach(async () => {
+    sentMails = [];
+    setMailTransport({ send: async (message) => { sentMails.push(message); } });
+
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send({ name: 'Lucía Pérez', email: 'lucia@example.com', password: 'Password123' });
+
+    authToken = registerResponse.body.data.token;
+  });
+
+  /**
+   * @description Extrae el token del enlace enviado en el último correo.
+   */
+  const getTokenFromLastMail = (): string => {
+    const match = sentMails[sentMails.length - 1].text.match(/token=([\w-]+)/);
+    return match ? match[1] : '';
+  };
+
+  /**
+   * @description Test para verificar el email con el enlace del registro.
+   */
+  it('debería verificar el email con el token enviado al registrarse', async () => {
+    expect(sentMails).toHaveLength(1);
+    expect(sentMails[0].to).toBe('lucia@example.com');
+
+    const token = getTokenFromLastMail();
+    const response = await request(app)
+      .get(`/api/auth/verify-email?token=${token}`)
+      .expect(200);
+
+    expect(response.body.data.email_verified_at).toBeTruthy();
+
+    const profile = await request(app)
+      .get('/api/auth/profile')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(profile.body.data.email_verified_at).toBeTruthy();
+
+    await request(app)
+      .get(`/api/auth/verify-email?token=${token}`)
+      .expect(400);
+  });
+
+  /**
+   * @description Test para limitar el reenvío del enlace de verificación.
+   */
+  it('debería limitar el reenvío del enlace de verificación', async () => {
+    const response = await request(app)
+      .post('/api/auth/resend-verification')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(429);
+
+    expect(response.body).toHaveProperty('error', 'VERIFICATION_RESEND_LIMITED');
+    expect(response.headers['retry-after']).toBeDefined();
+    expect(sentMails).toHaveLength(1);
+  });
+
+  /**
+   * @description Test para exigir el email verificado del usuario del token.
+   */
+  it('debería exigir el email verificado del usuario autenticado', async () => {
+    const guarded = express();
+    guarded.use(express.json());
+    guarded.post('/reservar', optionalAuth, requireVerifiedEmail(true), (req, res) => {
+      res.status(201).json({ ok: true });
+    });
+
+    // Sin token no basta con enviar el ID de un usuario en el body
+    await request(guarded)
+      .post('/reservar')
+      .send({ user_id: 'admin-1', customer_id: 'admin-1' })
+      .expect(401);
+
+    const unverified = await request(guarded)
+      .post('/reservar')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(403);
+    expect(unverified.body).toHaveProperty('error', 'EMAIL_NOT_VERIFIED');
+
+    await request(app).get(`/api/auth/verify-email?token=${getTokenFromLastMail()}`).expect(200);
+
+    await request(guarded)
+      .post('/reservar')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(201);
+  });
+});
+
+/**
+ * @description Suite de tests para el bloqueo de cuentas por intentos de login fallidos.
+ */
+describe('Bloqueo de cuenta por intentos fallidos', () => {
+  const wrongCredentials = { email: 'sofia@example.com', password: 'incorrecta' };
+  let userId: string;
+
+  beforeEach(async () => {
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send({ name: 'Sofía Ruiz', email: 'sofia@example.com', password: 'Password123' });
+
+    userId = registerResponse.body.data.user.id;
+  });
+
+  /**
+   * @description Provoca intentos de login fallidos contra la cuenta.
+   */
+  const failLogins = async (attempts: number) => {
+    for (let i = 0; i < attempts; i++) {
+      await request(app).post('/api/auth/login').send(wrongCredentials);
+    }
+  };
+
+  /**
+   * @description Test para bloquear la cuenta al alcanzar el límite de fallos.
+   */
+  it('debería devolver ACCOUNT_LOCKED tras demasiados intentos fallidos', async () => {
+    await failLogins(5);
+
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'sofia@example.com', password: 'Password123' })
+      .expect(423);
+
+    expect(response.body).toHaveProperty('success', false);
+    expect(response.body).toHaveProperty('error', 'ACCOUNT_LOCKED');
+    expect(response.body).toHaveProperty('timestamp');
+    expect(response.headers['retry-after']).toBeDefined();
+  });
+
+  /**
+   * @description Test para que un administrador desbloquee la cuenta.
+   */
+  it('debería permitir el login después de que un admin desbloquee la cuenta', async () => {
+    await failLogins(5);
+
+    const adminLogin = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'maria@example.com', password: 'password123' });
+
+    await request(app)
+      .post(`/api/users/${userId}/unlock`)
+      .set('Authorization', `Bearer ${adminLogin.body.data.token}`)
+      .expect(200);
+
+    await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'sofia@example.com', password: 'Password123' })
+      .expect(200);
+  });
+
+  /**
+   * @description Test para la duración exponencial del bloqueo.
+   */
+  it('debería duplicar la duración del bloqueo con cada fallo adicional', () => {
+    const policy = { maxFailures: 5, baseMinutes: 1, maxMinutes: 60, windowMinutes: 15 };
+
+    expect(getLockoutMinutes(4, policy)).toBe(0);
+    expect(getLockoutMinutes(5, policy)).toBe(1);
+    expect(getLockoutMinutes(7, policy)).toBe(4);
+    expect(getLockoutMinutes(20, policy)).toBe(60);
+  });
+});
+
+/**
+ * @description Suite de tests para el segundo factor TOTP (/api/auth/2fa).
+ */
+describe('Segundo factor (TOTP)', () => {
+  let authToken: string;
+
+  beforeEach(async () => {
+    const registerResponse = await request(app)
+      .post('/api/auth/register')
+      .send({ name: 'Elena Díaz', email: 'elena@example.com', password: 'Password123' });
+
+    authToken = registerResponse.body.data.token;
+  });
+
+  /**
+   * @description Test con los vectores de prueba de RFC 6238 (SHA-1).
+   */
+  it('debería generar los códigos de los vectores de RFC 6238', () => {
+    const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+    expect(generateTotp(secret, new Date(59 * 1000))).toBe('287082');
+    expect(generateTotp(secret, new Date(1111111109 * 1000))).toBe('081804');
   });
-});
\ No newline at end of file
+
+  /**
+   * @description Test para activar el segundo factor y completar el login en dos pasos.
+   */
+  it('debería exigir el segundo paso en el login tras activar el segundo factor', async () => {
+    const setup = await request(app)
+      .post('/api/auth/2fa/setup')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    expect(setup.body.data.otpauth_uri).toMatch(/^otpauth:\/\/totp\//);
+
+    const verify = await request(app)
+      .post('/api/auth/2fa/verify')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ code: generateTotp(setup.body.data.secret, new Date()) })
+      .expect(200);
+
+    const recoveryCodes: string[] = verify.body.data.recovery_codes;
+    expect(recoveryCodes).toHaveLength(10);
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'elena@example.com', password: 'Password123' })
+      .expect(200);
+
+    expect(login.body.data).toHaveProperty('two_factor_required', true);
+    expect(login.body.data).not.toHaveProperty('token');
+
+    const secondStep = await request(app)
+      .post('/api/auth/2fa/login')
+      .send({ challengeToken: login.body.data.challenge_token, recoveryCode: recoveryCodes[0] })
+      .expect(200);
+
+    expect(secondStep.body.data).toHaveProperty('token');
+
+    // El código de recuperación es de un solo uso
+    const secondLogin = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'elena@example.com', password: 'Password123' });
+
+    await request(app)
+      .post('/api/auth/2fa/login')
+      .send({ challengeToken: secondLogin.body.data.challenge_token, recoveryCode: recoveryCodes[0] })
+      .expect(401);
+  });
+
+  /**
+   * @description Test para rechazar un código incorrecto al confirmar la activación.
+   */
+  it('debería rechazar un código incorrecto al activar el segundo factor', async () => {
+    await request(app)
+      .post('/api/auth/2fa/setup')
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+
+    const response = await request(app)
+      .post('/api/auth/2fa/verify')
+      .set('Authorization', `Bearer ${authToken}`)
+      .send({ code: '000000' })
+      .expect(400);
+
+    expect(response.body).toHaveProperty('error', 'INVALID_TWO_FACTOR_CODE');
+  });
+});
+
+/**
+ * @description Suite de tests para la denylist de tokens en memoria.
+ */
+describe('MemoryTokenDenylist', () => {
+  /**
+   * @description Test para eliminar solo las entradas expiradas.
+   */
+  it('debería eliminar los tokens expirados al limpiar', async () => {
+    const denylist = new MemoryTokenDenylist();
+    const now = new Date();
+
+    await denylist.add('expirado', new Date(now.getTime() - 1000));
+    await denylist.add('vigente', new Date(now.getTime() + 60 * 1000));
+
+    expect(await denylist.prune(now)).toBe(1);
+    expect(denylist.size).toBe(1);
+    expect(await denylist.has('vigente')).toBe(true);
+    expect(await denylist.has('expirado')).toBe(false);
+  });
+
+  /**
+   * @description Test para guardar el corte de tokens de un usuario hasta que expira.
+   */
+  it('debería devolver el corte de tokens de un usuario solo mientras está vigente', async () => {
+    const denylist = new MemoryTokenDenylist();
+    const now = new Date();
+
+    await denylist.addUserCutoff('user-1', now, new Date(now.getTime() + 60 * 1000));
+    await denylist.addUserCutoff('user-2', now, new Date(now.getTime() - 1000));
+
+    expect(await denylist.getUserCutoff('user-1')).toEqual(now);
+    expect(await denylist.getUserCutoff('user-2')).toBeNull();
+    expect(await denylist.getUserCutoff('user-3')).toBeNull();
+    expect(await denylist.prune(now)).toBe(1);
+  });
+});
@@ -22,7 +22,7 @@ beforeEach(async () => {
   await resetStylistsForTesting();
   resetStyles();
   await resetProductsForTesting();
-  resetAppointments();
+  await resetAppointments();
   resetReviews();
 });
 
@@ -0,0 +1,137 @@
+/**
+ * @file Tests para la rotación de claves de firma JWT.
+ * @description Construcción del keyring desde variables de entorno, firma con la clave
+ *              activa (kid), verificación con claves retiradas y bloqueo del arranque en
+ *              producción con la clave por defecto.
+ */
+
+import jwt from 'jsonwebtoken';
+import { UserRole } from '../interfaces/user.interface';
+import {
+  buildJwtKeyring,
+  assertSecureJwtKeyring,
+  DEFAULT_JWT_SECRET,
+  LEGACY_JWT_KID
+} from '../config/jwt.config';
+
+const payload = { userId: 'user-1', email: 'cliente@test.com', role: UserRole.CUSTOMER };
+
+/**
+ * @description Carga el middleware de autenticación con otras variables de entorno.
+ */
+const loadAuthMiddleware = (env: NodeJS.ProcessEnv) => {
+  const originalEnv = process.env;
+  process.env = { ...originalEnv, JWT_SECRET: '', JWT_KEYS: '', JWT_ACTIVE_KID: '', ...env };
+  try {
+    let middleware: typeof import('../middleware/auth.middleware') | undefined;
+    jest.isolateModules(() => {
+      middleware = require('../middleware/auth.middleware');
+    });
+    return middleware!;
+  } finally {
+    process.env = originalEnv;
+  }
+};
+
+/**
+ * @description Suite de tests para la construcción del keyring.
+ */
+describe('buildJwtKeyring', () => {
+  /**
+   * @description Test para usar la clave por defecto sin configuración.
+   */
+  it('debería usar la clave por defecto si no hay claves configuradas', () => {
+    expect(buildJwtKeyring({})).toEqual({
+      activeKid: LEGACY_JWT_KID,
+      keys: { [LEGACY_JWT_KID]: DEFAULT_JWT_SECRET }
+    });
+  });
+
+  /**
+   * @description Test para activar la primera clave de JWT_KEYS y conservar JWT_SECRET.
+   */
+  it('debería activar la primera clave de JWT_KEYS y conservar JWT_SECRET como retirada', () => {
+    const keyring = buildJwtKeyring({ JWT_KEYS: '2026-10:nueva, 2026-04:anterior', JWT_SECRET: 'original' });
+
+    expect(keyring.activeKid).toBe('2026-10');
+    expect(keyring.keys).toEqual({ '2026-10': 'nueva', '2026-04': 'anterior', [LEGACY_JWT_KID]: 'original' });
+  });
+
+  /**
+   * @description Test para elegir la clave activa con JWT_ACTIVE_KID.
+   */
+  it('debería respetar JWT_ACTIVE_KID', () => {
+    const keyring = buildJwtKeyring({ JWT_KEYS: '2026-10:nueva,2026-04:anterior', JWT_ACTIVE_KID: '2026-04' });
+    expect(keyring.activeKid).toBe('2026-04');
+  });
+
+  /**
+   * @description Test para rechazar configuraciones inválidas.
+   */
+  it('debería fallar con entradas mal formadas o una clave activa inexistente', () => {
+    expect(() => buildJwtKeyring({ JWT_KEYS: 'sin-separador' })).toThrow('JWT_KEYS');
+    expect(() => buildJwtKeyring({ JWT_KEYS: '2026-10:nueva', JWT_ACTIVE_KID: '2025-01' })).toThrow('JWT_ACTIVE_KID');
+  });
+});
+
+/**
+ * @description Suite de tests para el arranque en producción.
+ */
+describe('assertSecureJwtKeyring', () => {
+  /**
+   * @description Test para impedir el arranque en producción con la clave por defecto.
+   */
+  it('debería impedir el arranque en producción con la clave por defecto', () => {
+    expect(() => assertSecureJwtKeyring(buildJwtKeyring({}), 'production')).toThrow();
+    expect(() => assertSecureJwtKeyring(buildJwtKeyring({ JWT_KEYS: `2026-10:${DEFAULT_JWT_SECRET}` }), 'production')).toThrow();
+  });
+
+  /**
+   * @description Test para permitir claves propias en producción y la clave por defecto en desarrollo.
+   */
+  it('debería permitir arrancar con claves configuradas o fuera de producción', () => {
+    expect(() => assertSecureJwtKeyring(buildJwtKeyring({ JWT_SECRET: 'secreto-propio' }), 'production')).not.toThrow();
+    expect(() => assertSecureJwtKeyring(buildJwtKeyring({}), 'development')).not.toThrow();
+  });
+});
+
+/**
+ * @description Suite de tests para la firma y verificación con el keyring.
+ */
+describe('Rotación de claves JWT', () => {
+  /**
+   * @description Test para firmar con la clave activa indicando su kid.
+   */
+  it('debería firmar los tokens nuevos con la clave activa', () => {
+    const { generateToken, verifyToken } = loadAuthMiddleware({ JWT_KEYS: '2026-10:nueva,2026-04:anterior' });
+    const token = generateToken(payload);
+
+    expect(jwt.decode(token, { complete: true })!.header.kid).toBe('2026-10');
+    expect(jwt.verify(token, 'nueva')).toHaveProperty('userId', payload.userId);
+    expect(verifyToken(token)).toHaveProperty('userId', payload.userId);
+  });
+
+  /**
+   * @description Test para seguir aceptando tokens de claves retiradas y de antes del keyring.
+   */
+  it('debería verificar tokens firmados con claves retiradas y tokens sin kid', () => {
+    const { verifyToken } = loadAuthMiddleware({ JWT_KEYS: '2026-10:nueva,2026-04:anterior', JWT_SECRET: 'original' });
+
+    const retired = jwt.sign(payload, 'anterior', { keyid: '2026-04', expiresIn: '15m' });
+    const legacy = jwt.sign(payload, 'original', { expiresIn: '15m' });
+
+    expect(verifyToken(retired)).toHaveProperty('userId', payload.userId);
+    expect(verifyToken(legacy)).toHaveProperty('userId', payload.userId);
+  });
+
+  /**
+   * @description Test para rechazar tokens de claves eliminadas, firmas ajenas o expirados.
+   */
+  it('debería rechazar tokens con kid desconocido, firma inválida o expirados', () => {
+    const { verifyToken } = loadAuthMiddleware({ JWT_KEYS: '2026-10:nueva' });
+
+    expect(verifyToken(jwt.sign(payload, 'anterior', { keyid: '2026-04' }))).toBeNull();
+    expect(verifyToken(jwt.sign(payload, 'otra', { keyid: '2026-10' }))).toBeNull();
+    expect(verifyToken(jwt.sign(payload, 'nueva', { keyid: '2026-10', expiresIn: -10 }))).toBeNull();
+  });
+});
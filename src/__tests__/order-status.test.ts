@@ -0,0 +1,63 @@
+/**
+ * @file Tests para el ciclo de vida de los pedidos.
+ * @description Transiciones de estado permitidas y estado de pago al cancelar.
+ */
+
+import { OrderStatus, PaymentStatus } from '../interfaces/order.interface';
+import { isOrderTransitionAllowed, getCancelledPaymentStatus } from '../utils/order-status.utils';
+
+/**
+ * @description Suite de tests para las transiciones de estado.
+ */
+describe('isOrderTransitionAllowed', () => {
+  const allowed: [OrderStatus, OrderStatus][] = [
+    ['PENDING', 'CONFIRMED'],
+    ['CONFIRMED', 'PROCESSING'],
+    ['PROCESSING', 'SHIPPED'],
+    ['SHIPPED', 'DELIVERED'],
+    ['PENDING', 'CANCELLED'],
+    ['PROCESSING', 'CANCELLED']
+  ];
+
+  const forbidden: [OrderStatus, OrderStatus][] = [
+    ['DELIVERED', 'PENDING'],
+    ['CANCELLED', 'PENDING'],
+    ['PENDING', 'SHIPPED'],
+    ['SHIPPED', 'CANCELLED'],
+    ['DELIVERED', 'CANCELLED'],
+    ['CONFIRMED', 'CONFIRMED']
+  ];
+
+  allowed.forEach(([from, to]) => {
+    it(`debería permitir pasar de ${from} a ${to}`, () => {
+      expect(isOrderTransitionAllowed(from, to)).toBe(true);
+    });
+  });
+
+  forbidden.forEach(([from, to]) => {
+    it(`no debería permitir pasar de ${from} a ${to}`, () => {
+      expect(isOrderTransitionAllowed(from, to)).toBe(false);
+    });
+  });
+});
+
+/**
+ * @description Suite de tests para el estado de pago al cancelar.
+ */
+describe('getCancelledPaymentStatus', () => {
+  /**
+   * @description Test para reembolsar lo cobrado y no cobrar lo pendiente.
+   */
+  it('debería reembolsar un pago cobrado y dar por fallido uno pendiente', () => {
+    const expected: [PaymentStatus, PaymentStatus][] = [
+      ['PAID', 'REFUNDED'],
+      ['PENDING', 'FAILED'],
+      ['FAILED', 'FAILED'],
+      ['REFUNDED', 'REFUNDED']
+    ];
+
+    expected.forEach(([current, cancelled]) => {
+      expect(getCancelledPaymentStatus(current)).toBe(cancelled);
+    });
+  });
+});
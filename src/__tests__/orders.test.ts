@@ -8,6 +8,16 @@ import request from 'supertest';
 import app from '../index';
 import { resetOrdersForTesting } from '../controllers/orders.controller';
 import { resetUsersForTesting } from '../controllers/users.controller';
+import { v4 as uuidv4 } from 'uuid';
+import { UserRole } from '../interfaces/user.interface';
+import { TaxClass } from '../interfaces/tax.interface';
+import { generateToken } from '../middleware/auth.middleware';
+import { addUser } from '../data/users.database';
+import { addProduct, resetProducts } from '../data/products.database';
+import { getOrdersByCustomer, getOrderById, getOrderStatusHistory } from '../data/orders.database';
+import { resetTaxRules } from '../data/tax-rules.database';
+import { resetShippingMethods } from '../data/shipping-methods.database';
+import { executeQuery } from '../config/database.config';
 
 // Hook para resetear los datos antes de cada prueba
 beforeEach(async () => {
@@ -439,12 +449,21 @@ describe('POST /api/orders/:id/cancel', () => {
  * @description Suite de tests para cálculos automáticos.
  */
 describe('Cálculos automáticos de pedidos', () => {
+  const adminToken = generateToken({ userId: 'admin-1', email: 'admin@test.com', role: UserRole.ADMIN });
+
+  // Reglas por defecto: impuesto general del 10% y envío estándar de $10, gratis desde $50
+  beforeEach(async () => {
+    await resetTaxRules();
+    await resetShippingMethods();
+  });
+
   /**
    * @description Test para verificar cálculo correcto de totales.
    */
   it('debería calcular correctamente subtotal, impuestos, envío y total', async () => {
     const response = await request(app)
       .post('/api/orders')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(validOrderData);
 
     const order = response.body.data;
@@ -452,7 +471,7 @@ describe('Cálculos automáticos de pedidos', () => {
     // Cálculos esperados
     const expectedSubtotal = (2 * 25.99) + (1 * 15.50); // 67.48
     const expectedTax = expectedSubtotal * 0.1; // 10% = 6.748
-    const expectedShipping = expectedSubtotal > 50 ? 0 : 10; // Gratis si > $50
+    const expectedShipping = expectedSubtotal >= 50 ? 0 : 10; // Gratis desde $50
     const expectedTotal = expectedSubtotal + expectedTax + expectedShipping;
 
     expect(order.subtotal).toBe(expectedSubtotal);
@@ -478,6 +497,7 @@ describe('Cálculos automáticos de pedidos', () => {
 
     const response = await request(app)
       .post('/api/orders')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(largeOrderData);
 
     const order = response.body.data;
@@ -492,7 +512,7 @@ describe('Cálculos automáticos de pedidos', () => {
       customer_id: mockCustomerId,
       items: [
         {
-          product_id: mockProductId,
+          product_id: validOrderData.items[1].product_id,
           quantity: 1,
           unit_price: 15.50 // Total: 15.50
         }
@@ -501,9 +521,585 @@ describe('Cálculos automáticos de pedidos', () => {
 
     const response = await request(app)
       .post('/api/orders')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(smallOrderData);
 
     const order = response.body.data;
     expect(order.shipping_amount).toBe(10);
   });
-});
\ No newline at end of file
+});
+
+/**
+ * @description Suite de tests para la reserva de stock al crear pedidos.
+ */
+describe('Stock al crear pedidos', () => {
+  let customerId: string;
+  let customerToken: string;
+
+  /**
+   * @description Crea un producto con el stock y el estado indicados.
+   */
+  const createProduct = async (stockQuantity: number, isActive: boolean = true): Promise<string> => {
+    const id = uuidv4();
+    await addProduct({
+      id,
+      name: 'Aceite de coco',
+      description: 'Aceite hidratante para trenzas',
+      price: 12.5,
+      stock_quantity: stockQuantity,
+      image_url: 'https://example.com/aceite.jpg',
+      category: `SKU-${id.slice(0, 8)}`,
+      is_active: isActive,
+      tax_class: TaxClass.STANDARD,
+      weight_grams: null,
+      created_at: new Date(),
+      updated_at: new Date()
+    });
+    return id;
+  };
+
+  /**
+   * @description Obtiene el stock actual de un producto (incluidos los inactivos).
+   */
+  const getStock = async (productId: string): Promise<number> => {
+    const rows = await executeQuery('SELECT stock_quantity FROM products WHERE id = ?', [productId]);
+    return rows[0].stock_quantity;
+  };
+
+  beforeEach(async () => {
+    await resetProducts();
+    await resetShippingMethods();
+
+    customerId = uuidv4();
+    await addUser({
+      id: customerId,
+      name: 'Cliente Stock',
+      email: `cliente-${customerId}@test.com`,
+      password_hash: 'hash',
+      role: UserRole.CUSTOMER,
+      created_at: new Date(),
+      updated_at: new Date()
+    });
+    customerToken = generateToken({ userId: customerId, email: 'cliente@test.com', role: UserRole.CUSTOMER });
+  });
+
+  /**
+   * @description Test para descontar el stock al crear el pedido.
+   */
+  it('debería descontar el stock de los productos pedidos', async () => {
+    const productId = await createProduct(5);
+
+    await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({
+        customer_id: customerId,
+        items: [{ product_id: productId, quantity: 3, unit_price: 12.5 }]
+      })
+      .expect(201);
+
+    expect(await getStock(productId)).toBe(2);
+  });
+
+  /**
+   * @description Test para listar cada producto sin stock y no crear nada.
+   */
+  it('debería devolver 409 con cada producto sin stock y no modificar nada', async () => {
+    const availableId = await createProduct(10);
+    const shortId = await createProduct(1);
+    const inactiveId = await createProduct(10, false);
+
+    const response = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({
+        customer_id: customerId,
+        items: [
+          { product_id: availableId, quantity: 3, unit_price: 12.5 },
+          { product_id: shortId, quantity: 2, unit_price: 12.5 },
+          { product_id: inactiveId, quantity: 1, unit_price: 12.5 }
+        ]
+      })
+      .expect(409);
+
+    expect(response.body).toHaveProperty('error', 'INSUFFICIENT_STOCK');
+    expect(response.body.data.items).toHaveLength(2);
+    expect(response.body.data.items).toEqual(expect.arrayContaining([
+      { product_id: shortId, requested: 2, available: 1, reason: 'INSUFFICIENT_STOCK' },
+      { product_id: inactiveId, requested: 1, available: 0, reason: 'INACTIVE' }
+    ]));
+
+    expect(await getStock(availableId)).toBe(10);
+    expect(await getOrdersByCustomer(customerId)).toHaveLength(0);
+  });
+
+  /**
+   * @description Test para no vender más unidades de las que hay con pedidos simultáneos.
+   */
+  it('no debería vender más stock del disponible con pedidos simultáneos', async () => {
+    const productId = await createProduct(3);
+    const order = {
+      customer_id: customerId,
+      items: [{ product_id: productId, quantity: 2, unit_price: 12.5 }]
+    };
+
+    const responses = await Promise.all([
+      request(app).post('/api/orders').set('Authorization', `Bearer ${customerToken}`).send(order),
+      request(app).post('/api/orders').set('Authorization', `Bearer ${customerToken}`).send(order)
+    ]);
+
+    expect(responses.map(response => response.status).sort()).toEqual([201, 409]);
+    expect(await getStock(productId)).toBe(1);
+  });
+
+  /**
+   * @description Test para cobrar el precio del producto aunque el cliente no lo envíe.
+   */
+  it('debería cobrar el precio vigente del producto y guardarlo en los items', async () => {
+    const productId = await createProduct(5);
+
+    const response = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ customer_id: customerId, items: [{ product_id: productId, quantity: 2 }] })
+      .expect(201);
+
+    expect(response.body.data.subtotal).toBe(25);
+    expect(response.body.data.items[0]).toHaveProperty('unit_price', 12.5);
+    expect(response.body.data.items[0]).toHaveProperty('total_price', 25);
+  });
+
+  /**
+   * @description Test para rechazar un precio enviado por el cliente que no es el vigente.
+   */
+  it('debería devolver 409 PRICE_CHANGED si el precio enviado no es el vigente', async () => {
+    const productId = await createProduct(5);
+
+    const response = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ customer_id: customerId, items: [{ product_id: productId, quantity: 1, unit_price: 0.01 }] })
+      .expect(409);
+
+    expect(response.body).toHaveProperty('error', 'PRICE_CHANGED');
+    expect(response.body.data.items).toEqual([
+      { product_id: productId, expected_price: 0.01, current_price: 12.5 }
+    ]);
+    expect(await getStock(productId)).toBe(5);
+    expect(await getOrdersByCustomer(customerId)).toHaveLength(0);
+  });
+
+  /**
+   * @description Test para aplicar las reglas de impuestos de la jurisdicción de envío.
+   */
+  it('debería aplicar las reglas de impuestos del país y la región de envío', async () => {
+    await resetTaxRules();
+    const adminToken = generateToken({ userId: 'admin-1', email: 'admin@test.com', role: UserRole.ADMIN });
+    await request(app)
+      .post('/api/tax-rules')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'State sales tax', country: 'us', region: 'ca', rate: 7.25 })
+      .expect(201);
+
+    const productId = await createProduct(5);
+    const response = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({
+        customer_id: customerId,
+        items: [{ product_id: productId, quantity: 4 }],
+        shipping_country: 'US',
+        shipping_region: 'CA'
+      })
+      .expect(201);
+
+    // 4 * 12.50 = 50.00; impuesto general 10% = 5.00 y 7.25% = 3.625 -> 3.63; envío gratis desde $50
+    expect(response.body.data.tax_amount).toBe(8.63);
+    expect(response.body.data.total_amount).toBe(58.63);
+
+    const stored = await getOrderById(response.body.data.id);
+    expect(stored!.tax_breakdown).toEqual(expect.arrayContaining([
+      expect.objectContaining({ name: 'Impuesto general', country: 'US', region: null, rate: 10, tax_amount: 5 }),
+      expect.objectContaining({ name: 'State sales tax', country: 'US', region: 'CA', rate: 7.25, tax_amount: 3.63 })
+    ]));
+    expect(stored!.tax_breakdown).toHaveLength(2);
+  });
+});
+
+/**
+ * @description Suite de tests para los métodos de envío y el presupuesto de pedidos.
+ */
+describe('Envío y presupuesto de pedidos', () => {
+  let customerId: string;
+  let customerToken: string;
+  let productId: string;
+  const adminToken = generateToken({ userId: 'admin-1', email: 'admin@test.com', role: UserRole.ADMIN });
+
+  /**
+   * @description Crea un método de envío como administrador y devuelve su ID.
+   */
+  const createShippingMethod = async (method: object): Promise<string> => {
+    const response = await request(app)
+      .post('/api/shipping-methods')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(method)
+      .expect(201);
+    return response.body.data.id;
+  };
+
+  beforeEach(async () => {
+    await resetProducts();
+    await resetTaxRules();
+    // Cada test configura sus propios métodos de envío, sin el envío estándar por defecto
+    await executeQuery('DELETE FROM shipping_methods');
+
+    productId = uuidv4();
+    await addProduct({
+      id: productId,
+      name: 'Extensiones kanekalon',
+      description: 'Paquete de extensiones para trenzas',
+      price: 15.5,
+      stock_quantity: 10,
+      image_url: 'https://example.com/kanekalon.jpg',
+      category: `SKU-${productId.slice(0, 8)}`,
+      is_active: true,
+      tax_class: TaxClass.STANDARD,
+      weight_grams: 150,
+      created_at: new Date(),
+      updated_at: new Date()
+    });
+
+    customerId = uuidv4();
+    await addUser({
+      id: customerId,
+      name: 'Cliente Envío',
+      email: `cliente-${customerId}@test.com`,
+      password_hash: 'hash',
+      role: UserRole.CUSTOMER,
+      created_at: new Date(),
+      updated_at: new Date()
+    });
+    customerToken = generateToken({ userId: customerId, email: 'cliente@test.com', role: UserRole.CUSTOMER });
+  });
+
+  /**
+   * @description Test para cobrar el tramo de precio y dar envío gratis sobre el umbral.
+   */
+  it('debería cobrar el tramo del método y dar envío gratis desde el umbral de la zona', async () => {
+    const standardId = await createShippingMethod({
+      name: 'Envío estándar',
+      kind: 'STANDARD',
+      rate_basis: 'PRICE',
+      zones: [{ country: 'US', free_shipping_threshold: 50, bands: [{ min: 0, amount: 10 }] }]
+    });
+
+    const small = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ customer_id: customerId, items: [{ product_id: productId, quantity: 1 }] })
+      .expect(201);
+
+    expect(small.body.data.shipping_amount).toBe(10);
+    expect(small.body.data.shipping_method_id).toBe(standardId);
+    // 15.50 + 10% de impuesto general (1.55) + 10.00 de envío
+    expect(small.body.data.total_amount).toBe(27.05);
+
+    const large = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ customer_id: customerId, items: [{ product_id: productId, quantity: 4 }] })
+      .expect(201);
+
+    expect(large.body.data.shipping_amount).toBe(0);
+  });
+
+  /**
+   * @description Test para presupuestar un carrito con todas las opciones de envío.
+   */
+  it('debería presupuestar el carrito con cada opción de envío y su total', async () => {
+    await createShippingMethod({
+      name: 'Envío estándar',
+      kind: 'STANDARD',
+      rate_basis: 'WEIGHT',
+      zones: [{ country: 'US', bands: [{ min: 0, max: 500, amount: 6 }, { min: 500, amount: 12 }] }]
+    });
+    await createShippingMethod({
+      name: 'Envío exprés',
+      kind: 'EXPRESS',
+      zones: [{ country: 'US', bands: [{ min: 0, amount: 20 }] }]
+    });
+    await createShippingMethod({
+      name: 'Recogida en el salón',
+      kind: 'PICKUP',
+      zones: [{ country: 'US', region: 'CA', bands: [{ min: 0, amount: 0 }] }]
+    });
+
+    const response = await request(app)
+      .post('/api/orders/quote')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ items: [{ product_id: productId, quantity: 4 }], shipping_country: 'US', shipping_region: 'NY' })
+      .expect(200);
+
+    // 4 * 150g = 600g: tramo de 500g en adelante; la recogida solo está en CA.
+    // El total suma el 10% de impuesto general (6.20)
+    expect(response.body.data.subtotal).toBe(62);
+    expect(response.body.data.weight_grams).toBe(600);
+    expect(response.body.data.shipping_options).toEqual([
+      expect.objectContaining({ name: 'Envío estándar', kind: 'STANDARD', amount: 12, total_amount: 80.2 }),
+      expect.objectContaining({ name: 'Envío exprés', kind: 'EXPRESS', amount: 20, total_amount: 88.2 })
+    ]);
+
+    // El presupuesto no reserva stock
+    const rows = await executeQuery('SELECT stock_quantity FROM products WHERE id = ?', [productId]);
+    expect(rows[0].stock_quantity).toBe(10);
+  });
+
+  /**
+   * @description Test para rechazar un método de envío no disponible para el destino.
+   */
+  it('debería devolver 409 SHIPPING_UNAVAILABLE si el método no envía al destino', async () => {
+    const pickupId = await createShippingMethod({
+      name: 'Recogida en el salón',
+      kind: 'PICKUP',
+      zones: [{ country: 'US', region: 'CA', bands: [{ min: 0, amount: 0 }] }]
+    });
+
+    const response = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({
+        customer_id: customerId,
+        items: [{ product_id: productId, quantity: 1 }],
+        shipping_country: 'US',
+        shipping_region: 'TX',
+        shipping_method_id: pickupId
+      })
+      .expect(409);
+
+    expect(response.body).toHaveProperty('error', 'SHIPPING_UNAVAILABLE');
+    expect(response.body.data.options).toEqual([]);
+    expect(await getOrdersByCustomer(customerId)).toHaveLength(0);
+  });
+
+  /**
+   * @description Test para exigir autenticación al presupuestar.
+   */
+  it('debería devolver 401 al presupuestar sin token', async () => {
+    await request(app)
+      .post('/api/orders/quote')
+      .send({ items: [{ product_id: productId, quantity: 1 }] })
+      .expect(401);
+  });
+});
+
+/**
+ * @description Suite de tests para el ciclo de vida de los pedidos y su historial.
+ */
+describe('Ciclo de vida de pedidos', () => {
+  let customerId: string;
+  let customerToken: string;
+  let adminId: string;
+  let adminToken: string;
+  let productId: string;
+
+  /**
+   * @description Crea un usuario con el rol indicado y devuelve su ID.
+   */
+  const createUser = async (role: UserRole): Promise<string> => {
+    const id = uuidv4();
+    await addUser({
+      id,
+      name: 'Usuario Pedidos',
+      email: `usuario-${id}@test.com`,
+      password_hash: 'hash',
+      role,
+      created_at: new Date(),
+      updated_at: new Date()
+    });
+    return id;
+  };
+
+  /**
+   * @description Crea un pedido de 2 unidades del producto como cliente.
+   */
+  const placeOrder = async (): Promise<string> => {
+    const response = await request(app)
+      .post('/api/orders')
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ customer_id: customerId, items: [{ product_id: productId, quantity: 2 }] })
+      .expect(201);
+    return response.body.data.id;
+  };
+
+  /**
+   * @description Cambia el estado de un pedido como administrador.
+   */
+  const changeStatus = (orderId: string, status: string, note?: string) => {
+    return request(app)
+      .put(`/api/orders/${orderId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(note ? { status, note } : { status });
+  };
+
+  beforeEach(async () => {
+    await resetProducts();
+    await resetShippingMethods();
+
+    productId = uuidv4();
+    await addProduct({
+      id: productId,
+      name: 'Gel de fijación',
+      description: 'Gel para bordes y trenzas',
+      price: 9.99,
+      stock_quantity: 5,
+      image_url: 'https://example.com/gel.jpg',
+      category: `SKU-${productId.slice(0, 8)}`,
+      is_active: true,
+      tax_class: TaxClass.STANDARD,
+      weight_grams: null,
+      created_at: new Date(),
+      updated_at: new Date()
+    });
+
+    customerId = await createUser(UserRole.CUSTOMER);
+    customerToken = generateToken({ userId: customerId, email: 'cliente@test.com', role: UserRole.CUSTOMER });
+    adminId = await createUser(UserRole.ADMIN);
+    adminToken = generateToken({ userId: adminId, email: 'admin@test.com', role: UserRole.ADMIN });
+  });
+
+  /**
+   * @description Test para recorrer el ciclo de vida y registrar cada cambio.
+   */
+  it('debería recorrer el ciclo de vida y registrar cada cambio en el historial', async () => {
+    const orderId = await placeOrder();
+
+    await changeStatus(orderId, 'CONFIRMED').expect(200);
+    await changeStatus(orderId, 'PROCESSING').expect(200);
+    await changeStatus(orderId, 'SHIPPED', 'Enviado con número de seguimiento 1Z999').expect(200);
+    await changeStatus(orderId, 'DELIVERED').expect(200);
+
+    const response = await request(app)
+      .get(`/api/orders/${orderId}/history`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .expect(200);
+
+    expect(response.body.data.map((change: any) => [change.from_status, change.to_status])).toEqual([
+      [null, 'PENDING'],
+      ['PENDING', 'CONFIRMED'],
+      ['CONFIRMED', 'PROCESSING'],
+      ['PROCESSING', 'SHIPPED'],
+      ['SHIPPED', 'DELIVERED']
+    ]);
+    expect(response.body.data[0]).toHaveProperty('changed_by', customerId);
+    expect(response.body.data[3]).toHaveProperty('changed_by', adminId);
+    expect(response.body.data[3]).toHaveProperty('note', 'Enviado con número de seguimiento 1Z999');
+  });
+
+  /**
+   * @description Test para rechazar transiciones no permitidas.
+   */
+  it('debería devolver 409 INVALID_STATUS_TRANSITION al volver de DELIVERED a PENDING', async () => {
+    const orderId = await placeOrder();
+    for (const status of ['CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED']) {
+      await changeStatus(orderId, status).expect(200);
+    }
+
+    const response = await changeStatus(orderId, 'PENDING').expect(409);
+
+    expect(response.body).toHaveProperty('error', 'INVALID_STATUS_TRANSITION');
+    expect(response.body.data).toEqual({ current_status: 'DELIVERED', allowed_transitions: [] });
+    expect((await getOrderById(orderId))!.status).toBe('DELIVERED');
+    expect(await getOrderStatusHistory(orderId)).toHaveLength(5);
+  });
+
+  /**
+   * @description Test para devolver el stock y reembolsar el pago al cancelar.
+   */
+  it('debería devolver el stock y reembolsar el pago al cancelar', async () => {
+    const orderId = await placeOrder();
+    await request(app)
+      .put(`/api/orders/${orderId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'CONFIRMED', payment_status: 'PAID' })
+      .expect(200);
+
+    const rowsBefore = await executeQuery('SELECT stock_quantity FROM products WHERE id = ?', [productId]);
+    expect(rowsBefore[0].stock_quantity).toBe(3);
+
+    const response = await request(app)
+      .post(`/api/orders/${orderId}/cancel`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ reason: 'La clienta lo pidió por teléfono' })
+      .expect(200);
+
+    expect(response.body.data).toHaveProperty('status', 'CANCELLED');
+    expect(response.body.data).toHaveProperty('payment_status', 'REFUNDED');
+
+    const rowsAfter = await executeQuery('SELECT stock_quantity FROM products WHERE id = ?', [productId]);
+    expect(rowsAfter[0].stock_quantity).toBe(5);
+
+    const history = await getOrderStatusHistory(orderId);
+    expect(history[history.length - 1]).toEqual(expect.objectContaining({
+      from_status: 'CONFIRMED',
+      to_status: 'CANCELLED',
+      changed_by: adminId,
+      note: 'La clienta lo pidió por teléfono'
+    }));
+  });
+
+  /**
+   * @description Test para reservar el registro del pago al administrador.
+   */
+  it('debería devolver 403 si el cliente intenta cambiar el estado de pago', async () => {
+    const orderId = await placeOrder();
+
+    const response = await request(app)
+      .put(`/api/orders/${orderId}`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .send({ status: 'CANCELLED', payment_status: 'PAID' })
+      .expect(403);
+
+    expect(response.body).toHaveProperty('error', 'PERMISSION_DENIED');
+    expect(response.body).toHaveProperty('permission', 'orders:update-payment');
+    expect((await getOrderById(orderId))!.payment_status).toBe('PENDING');
+  });
+
+  /**
+   * @description Test para no editar el estado de pago que fijó la cancelación.
+   */
+  it('debería devolver 409 al cambiar el estado de pago de un pedido cancelado', async () => {
+    const orderId = await placeOrder();
+
+    await request(app)
+      .put(`/api/orders/${orderId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ status: 'CANCELLED', payment_status: 'PAID' })
+      .expect(409);
+
+    await changeStatus(orderId, 'CANCELLED').expect(200);
+
+    const response = await request(app)
+      .put(`/api/orders/${orderId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ payment_status: 'PAID' })
+      .expect(409);
+
+    expect(response.body).toHaveProperty('error', 'ORDER_CANCELLED');
+    expect((await getOrderById(orderId))!.payment_status).toBe('FAILED');
+  });
+
+  /**
+   * @description Test para que el cliente solo cancele pedidos pendientes.
+   */
+  it('no debería permitir al cliente cancelar un pedido confirmado', async () => {
+    const orderId = await placeOrder();
+    await changeStatus(orderId, 'CONFIRMED').expect(200);
+
+    await request(app)
+      .post(`/api/orders/${orderId}/cancel`)
+      .set('Authorization', `Bearer ${customerToken}`)
+      .expect(400);
+
+    expect((await getOrderById(orderId))!.status).toBe('CONFIRMED');
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * @file Tests para la capa de permisos declarativos.
+ * @description Recorre la matriz de permisos por rol (recurso:acción:alcance) y prueba
+ *              los middlewares requirePermission (con un resolvedor de propietario de prueba),
+ *              requireFieldPermission y requirePermissionWhen.
+ */
+
+import request from 'supertest';
+import express from 'express';
+import { UserRole } from '../interfaces/user.interface';
+import { OwnerResolver } from '../interfaces/permission.interface';
+import { JWTPayload } from '../interfaces/auth.interface';
+import { generateToken } from '../middleware/auth.middleware';
+import {
+  requirePermission,
+  requireFieldPermission,
+  requirePermissionWhen
+} from '../middleware/permission.middleware';
+import { isAllowed, API_KEY_SCOPES } from '../policies/permissions.policy';
+
+const OWNER_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_ID = '22222222-2222-4222-8222-222222222222';
+
+const users: Record<UserRole, JWTPayload> = {
+  [UserRole.CUSTOMER]: { userId: OWNER_ID, email: 'cliente@test.com', role: UserRole.CUSTOMER },
+  [UserRole.STYLIST]: { userId: OWNER_ID, email: 'estilista@test.com', role: UserRole.STYLIST },
+  [UserRole.ADMIN]: { userId: OWNER_ID, email: 'admin@test.com', role: UserRole.ADMIN }
+};
+
+/**
+ * @description Fila de la matriz: rol, permiso requerido y resultado esperado sobre un
+ * recurso propio y sobre uno ajeno.
+ */
+type MatrixRow = [UserRole, string, boolean, boolean];
+
+const matrix: MatrixRow[] = [
+  [UserRole.CUSTOMER, 'orders:list', false, false],
+  [UserRole.CUSTOMER, 'orders:read', true, false],
+  [UserRole.CUSTOMER, 'orders:create', true, false],
+  [UserRole.CUSTOMER, 'orders:update', true, false],
+  [UserRole.CUSTOMER, 'orders:cancel', true, false],
+  [UserRole.CUSTOMER, 'orders:update-payment', false, false],
+  [UserRole.CUSTOMER, 'users:read', true, false],
+  [UserRole.CUSTOMER, 'users:update', true, false],
+  [UserRole.CUSTOMER, 'users:assign-role', false, false],
+  [UserRole.CUSTOMER, 'users:delete', false, false],
+  [UserRole.CUSTOMER, 'stylists:update', false, false],
+  [UserRole.CUSTOMER, 'waitlist:create', true, false],
+  [UserRole.CUSTOMER, 'waitlist:update', true, false],
+  [UserRole.CUSTOMER, 'waitlist:delete', true, false],
+  [UserRole.CUSTOMER, 'appointments:create', true, false],
+  [UserRole.CUSTOMER, 'appointments:update', true, false],
+  [UserRole.CUSTOMER, 'appointments:reschedule', true, false],
+  [UserRole.CUSTOMER, 'appointments:cancel', true, false],
+  [UserRole.CUSTOMER, 'appointments:read', true, false],
+  [UserRole.CUSTOMER, 'appointments:waive-fee', false, false],
+  [UserRole.CUSTOMER, 'appointments:delete', false, false],
+  [UserRole.CUSTOMER, 'appointments:set-status', false, false],
+  [UserRole.STYLIST, 'orders:read', true, false],
+  [UserRole.STYLIST, 'orders:list', false, false],
+  [UserRole.STYLIST, 'stylists:update', true, false],
+  [UserRole.STYLIST, 'stylists:schedule', true, false],
+  [UserRole.STYLIST, 'stylists:feature', false, false],
+  [UserRole.STYLIST, 'stylists:create', false, false],
+  [UserRole.STYLIST, 'stylists:delete', false, false],
+  [UserRole.STYLIST, 'appointments:update', true, false],
+  [UserRole.STYLIST, 'appointments:set-status', true, false],
+  [UserRole.ADMIN, 'orders:list', true, true],
+  [UserRole.ADMIN, 'orders:read', true, true],
+  [UserRole.ADMIN, 'orders:update', true, true],
+  [UserRole.ADMIN, 'orders:update-payment', true, true],
+  [UserRole.ADMIN, 'users:assign-role', true, true],
+  [UserRole.ADMIN, 'users:unlock', true, true],
+  [UserRole.ADMIN, 'stylists:feature', true, true],
+  [UserRole.ADMIN, 'stylists:delete', true, true],
+  [UserRole.ADMIN, 'waitlist:list', true, true],
+  [UserRole.ADMIN, 'waitlist:update', true, true],
+  [UserRole.ADMIN, 'appointments:update', true, true],
+  [UserRole.ADMIN, 'appointments:delete', true, true],
+  [UserRole.ADMIN, 'appointments:set-status', true, true],
+  [UserRole.ADMIN, 'appointments:waive-fee', true, true],
+  [UserRole.ADMIN, 'products:delete', false, false]
+];
+
+/**
+ * @description Suite de tests para la matriz de permisos por rol.
+ */
+describe('Matriz de permisos', () => {
+  matrix.forEach(([role, permission, allowedOwn, allowedOther]) => {
+    it(`${role} ${allowedOwn ? 'debería' : 'no debería'} tener ${permission} sobre un recurso propio`, () => {
+      expect(isAllowed(users[role], permission, OWNER_ID)).toBe(allowedOwn);
+    });
+
+    it(`${role} ${allowedOther ? 'debería' : 'no debería'} tener ${permission} sobre un recurso ajeno`, () => {
+      expect(isAllowed(users[role], permission, OTHER_ID)).toBe(allowedOther);
+    });
+  });
+
+  /**
+   * @description Test para denegar cualquier permiso sin autenticación.
+   */
+  it('no debería conceder permisos sin usuario autenticado', () => {
+    expect(isAllowed(undefined, 'orders:read', OWNER_ID)).toBe(false);
+  });
+
+  /**
+   * @description Test para no conceder permisos own sin propietario conocido.
+   */
+  it('no debería conceder un permiso own si no hay propietario', () => {
+    expect(isAllowed(users[UserRole.CUSTOMER], 'orders:read')).toBe(false);
+    expect(isAllowed(users[UserRole.CUSTOMER], 'orders:read', '')).toBe(false);
+  });
+});
+
+/**
+ * @description Suite de tests para los permisos de una API key.
+ */
+describe('Permisos de API keys', () => {
+  const apiKeyUser: JWTPayload = {
+    userId: OWNER_ID,
+    email: '',
+    role: UserRole.CUSTOMER,
+    api_key_id: 'key-1',
+    scopes: ['orders:read:any']
+  };
+
+  /**
+   * @description Test para conceder solo los scopes de la clave.
+   */
+  it('debería conceder solo los scopes de la clave', () => {
+    expect(isAllowed(apiKeyUser, 'orders:read', OTHER_ID)).toBe(true);
+    expect(isAllowed(apiKeyUser, 'orders:update', OWNER_ID)).toBe(false);
+    expect(isAllowed(apiKeyUser, 'users:read', OWNER_ID)).toBe(false);
+  });
+
+  /**
+   * @description Test para excluir la gestión de API keys de los scopes concedibles.
+   */
+  it('no debería permitir conceder la gestión de API keys', () => {
+    expect(API_KEY_SCOPES).toContain('orders:list:any');
+    expect(API_KEY_SCOPES.some(scope => scope.startsWith('api-keys:'))).toBe(false);
+  });
+});
+
+/**
+ * @description Suite de tests para el middleware requirePermission.
+ */
+describe('Middleware requirePermission', () => {
+  // El propietario se toma de la ruta; 'missing' simula un recurso inexistente
+  const resolveOwner: OwnerResolver = async (req) => {
+    return req.params.ownerId === 'missing' ? null : req.params.ownerId;
+  };
+
+  const createTestApp = () => {
+    const app = express();
+    app.use(express.json());
+    app.get('/resources/:ownerId', requirePermission('orders:read', resolveOwner), (req, res) => {
+      res.status(200).json({ success: true });
+    });
+    app.get('/resources', requirePermission('orders:list'), (req, res) => {
+      res.status(200).json({ success: true });
+    });
+    return app;
+  };
+
+  const tokenFor = (role: UserRole): string => generateToken(users[role]);
+
+  /**
+   * @description Test para exigir autenticación.
+   */
+  it('debería devolver 401 sin token', async () => {
+    const response = await request(createTestApp())
+      .get(`/resources/${OWNER_ID}`)
+      .expect(401);
+
+    expect(response.body).toHaveProperty('error', 'MISSING_TOKEN');
+  });
+
+  /**
+   * @description Test para permitir el acceso del propietario.
+   */
+  it('debería permitir al propietario acceder a su recurso', async () => {
+    await request(createTestApp())
+      .get(`/resources/${OWNER_ID}`)
+      .set('Authorization', `Bearer ${tokenFor(UserRole.CUSTOMER)}`)
+      .expect(200);
+  });
+
+  /**
+   * @description Test para denegar el acceso a recursos ajenos.
+   */
+  it('debería devolver 403 si el recurso es de otro usuario', async () => {
+    const response = await request(createTestApp())
+      .get(`/resources/${OTHER_ID}`)
+      .set('Authorization', `Bearer ${tokenFor(UserRole.CUSTOMER)}`)
+      .expect(403);
+
+    expect(response.body).toHaveProperty('error', 'PERMISSION_DENIED');
+    expect(response.body).toHaveProperty('permission', 'orders:read');
+  });
+
+  /**
+   * @description Test para permitir al administrador acceder a cualquier recurso.
+   */
+  it('debería permitir al administrador acceder a recursos ajenos', async () => {
+    await request(createTestApp())
+      .get(`/resources/${OTHER_ID}`)
+      .set('Authorization', `Bearer ${tokenFor(UserRole.ADMIN)}`)
+      .expect(200);
+  });
+
+  /**
+   * @description Test para dejar que el controlador responda si el recurso no existe.
+   */
+  it('debería continuar si el recurso no existe', async () => {
+    await request(createTestApp())
+      .get('/resources/missing')
+      .set('Authorization', `Bearer ${tokenFor(UserRole.CUSTOMER)}`)
+      .expect(200);
+  });
+
+  /**
+   * @description Test para denegar permisos que el rol no tiene con ningún alcance.
+   */
+  it('debería devolver 403 si el rol no tiene el permiso', async () => {
+    await request(createTestApp())
+      .get('/resources')
+      .set('Authorization', `Bearer ${tokenFor(UserRole.STYLIST)}`)
+      .expect(403);
+
+    await request(createTestApp())
+      .get('/resources')
+      .set('Authorization', `Bearer ${tokenFor(UserRole.ADMIN)}`)
+      .expect(200);
+  });
+});
+
+/**
+ * @description Suite de tests para el middleware requireFieldPermission.
+ */
+describe('Middleware requireFieldPermission', () => {
+  const createTestApp = () => {
+    const app = express();
+    app.use(express.json());
+    app.put(
+      '/users/:id',
+      requirePermission('users:update', async (req) => req.params.id),
+      requireFieldPermission('role', 'users:assign-role'),
+      (req, res) => {
+        res.status(200).json({ success: true });
+      }
+    );
+    return app;
+  };
+
+  const tokenFor = (role: UserRole): string => generateToken(users[role]);
+
+  /**
+   * @description Test para no exigir el permiso si el campo no se envía.
+   */
+  it('debería continuar si el cuerpo no trae el campo', async () => {
+    await request(createTestApp())
+      .put(`/users/${OWNER_ID}`)
+      .set('Authorization', `Bearer ${tokenFor(UserRole.CUSTOMER)}`)
+      .send({ name: 'Nuevo nombre' })
+      .expect(200);
+  });
+
+  /**
+   * @description Test para exigir el permiso si el campo se envía.
+   */
+  it('debería devolver 403 si el campo requiere un permiso que el rol no tiene', async () => {
+    const response = await request(createTestApp())
+      .put(`/users/${OWNER_ID}`)
+      .set('Authorization', `Bearer ${tokenFor(UserRole.CUSTOMER)}`)
+      .send({ role: UserRole.ADMIN })
+      .expect(403);
+
+    expect(response.body).toHaveProperty('permission', 'users:assign-role');
+
+    await request(createTestApp())
+      .put(`/users/${OTHER_ID}`)
+      .set('Authorization', `Bearer ${tokenFor(UserRole.ADMIN)}`)
+      .send({ role: UserRole.STYLIST })
+      .expect(200);
+  });
+});
+
+/**
+ * @description Suite de tests para el middleware requirePermissionWhen.
+ */
+describe('Middleware requirePermissionWhen', () => {
+  const createTestApp = () => {
+    const app = express();
+    app.use(express.json());
+    app.patch(
+      '/appointments/:ownerId/status',
+      requirePermission('appointments:update', async (req) => req.params.ownerId),
+      requirePermissionWhen(
+        (req) => req.body?.status !== 'CANCELLED',
+        'appointments:set-status',
+        async (req) => req.params.ownerId
+      ),
+      (req, res) => {
+        res.status(200).json({ success: true });
+      }
+    );
+    return app;
+  };
+
+  const tokenFor = (role: UserRole): string => generateToken(users[role]);
+
+  /**
+   * @description Test para no exigir el permiso si la condición no se cumple.
+   */
+  it('debería continuar si la solicitud no necesita el permiso', async () => {
+    await request(createTestApp())
+      .patch(`/appointments/${OWNER_ID}/status`)
+      .set('Authorization', `Bearer ${tokenFor(UserRole.CUSTOMER)}`)
+      .send({ status: 'CANCELLED' })
+      .expect(200);
+  });
+
+  /**
+   * @description Test para exigir el permiso, con su alcance, si la condición se cumple.
+   */
+  it('debería evaluar el permiso y su alcance si la solicitud lo necesita', async () => {
+    const response = await request(createTestApp())
+      .patch(`/appointments/${OWNER_ID}/status`)
+      .set('Authorization', `Bearer ${tokenFor(UserRole.CUSTOMER)}`)
+      .send({ status: 'CONFIRMED' })
+      .expect(403);
+
+    expect(response.body).toHaveProperty('permission', 'appointments:set-status');
+
+    await request(createTestApp())
+      .patch(`/appointments/${OWNER_ID}/status`)
+      .set('Authorization', `Bearer ${tokenFor(UserRole.STYLIST)}`)
+      .send({ status: 'CONFIRMED' })
+      .expect(200);
+
+    await request(createTestApp())
+      .patch(`/appointments/${OTHER_ID}/status`)
+      .set('Authorization', `Bearer ${tokenFor(UserRole.STYLIST)}`)
+      .send({ status: 'CONFIRMED' })
+      .expect(403);
+  });
+});
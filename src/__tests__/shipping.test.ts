@@ -0,0 +1,166 @@
+/**
+ * @file Tests para el cálculo del envío de los pedidos.
+ * @description Elección de zona por país y región, tramos por peso y por importe, umbral
+ *              de envío gratis y orden de las opciones disponibles.
+ */
+
+import {
+  ShippingMethod,
+  ShippingMethodKind,
+  ShippingRateBasis
+} from '../interfaces/shipping.interface';
+import { findShippingZone, getShippingOptions, quoteShippingMethod } from '../utils/shipping.utils';
+
+/**
+ * @description Crea un método de envío de prueba.
+ */
+const buildMethod = (overrides: Partial<ShippingMethod>): ShippingMethod => ({
+  id: 'method',
+  name: 'Envío',
+  kind: ShippingMethodKind.STANDARD,
+  rate_basis: ShippingRateBasis.PRICE,
+  zones: [],
+  is_active: true,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides
+});
+
+const standard = buildMethod({
+  id: 'standard',
+  name: 'Envío estándar',
+  rate_basis: ShippingRateBasis.WEIGHT,
+  zones: [
+    {
+      country: 'US',
+      region: null,
+      free_shipping_threshold: 50,
+      bands: [
+        { min: 0, max: 500, amount: 5 },
+        { min: 500, max: 2000, amount: 9.5 }
+      ]
+    },
+    {
+      country: 'US',
+      region: 'AK',
+      free_shipping_threshold: null,
+      bands: [{ min: 0, max: null, amount: 25 }]
+    }
+  ]
+});
+
+const express = buildMethod({
+  id: 'express',
+  name: 'Envío exprés',
+  kind: ShippingMethodKind.EXPRESS,
+  zones: [
+    {
+      country: 'US',
+      region: null,
+      free_shipping_threshold: null,
+      bands: [
+        { min: 0, max: 100, amount: 15 },
+        { min: 100, max: null, amount: 8 }
+      ]
+    }
+  ]
+});
+
+const pickup = buildMethod({
+  id: 'pickup',
+  name: 'Recogida en el salón',
+  kind: ShippingMethodKind.PICKUP,
+  zones: [{ country: 'US', region: 'CA', free_shipping_threshold: null, bands: [{ min: 0, max: null, amount: 0 }] }]
+});
+
+/**
+ * @description Suite de tests para la elección de zona.
+ */
+describe('findShippingZone', () => {
+  /**
+   * @description Test para preferir la zona de la región a la del país.
+   */
+  it('debería preferir la zona de la región a la de todo el país', () => {
+    expect(findShippingZone(standard.zones, { country: 'US', region: 'AK' })).toBe(standard.zones[1]);
+    expect(findShippingZone(standard.zones, { country: 'US', region: 'TX' })).toBe(standard.zones[0]);
+    expect(findShippingZone(standard.zones, { country: 'ES', region: null })).toBeNull();
+  });
+});
+
+/**
+ * @description Suite de tests para el costo de un método.
+ */
+describe('quoteShippingMethod', () => {
+  /**
+   * @description Test para elegir el tramo por peso.
+   */
+  it('debería elegir el tramo por el peso del carrito', () => {
+    const destination = { country: 'US', region: null };
+
+    expect(quoteShippingMethod(standard, destination, { subtotal: 20, weight_grams: 499 }))
+      .toEqual(expect.objectContaining({ amount: 5, free_shipping: false }));
+    expect(quoteShippingMethod(standard, destination, { subtotal: 20, weight_grams: 500 }))
+      .toEqual(expect.objectContaining({ amount: 9.5 }));
+    // Ningún tramo cubre 2kg o más
+    expect(quoteShippingMethod(standard, destination, { subtotal: 20, weight_grams: 2000 })).toBeNull();
+  });
+
+  /**
+   * @description Test para elegir el tramo por el subtotal.
+   */
+  it('debería elegir el tramo por el subtotal del carrito', () => {
+    const destination = { country: 'US', region: 'NY' };
+
+    expect(quoteShippingMethod(express, destination, { subtotal: 99.99, weight_grams: 0 })!.amount).toBe(15);
+    expect(quoteShippingMethod(express, destination, { subtotal: 100, weight_grams: 0 })!.amount).toBe(8);
+  });
+
+  /**
+   * @description Test para aplicar el umbral de envío gratis de la zona.
+   */
+  it('debería dar envío gratis al alcanzar el umbral de la zona', () => {
+    expect(quoteShippingMethod(standard, { country: 'US', region: null }, { subtotal: 50, weight_grams: 800 }))
+      .toEqual(expect.objectContaining({ amount: 0, free_shipping: true }));
+    // La zona de Alaska no tiene umbral
+    expect(quoteShippingMethod(standard, { country: 'US', region: 'AK' }, { subtotal: 50, weight_grams: 800 }))
+      .toEqual(expect.objectContaining({ amount: 25, free_shipping: false }));
+  });
+
+  /**
+   * @description Test para ignorar los métodos inactivos.
+   */
+  it('no debería ofrecer métodos inactivos', () => {
+    const inactive = { ...express, is_active: false };
+    expect(quoteShippingMethod(inactive, { country: 'US', region: null }, { subtotal: 10, weight_grams: 0 })).toBeNull();
+  });
+});
+
+/**
+ * @description Suite de tests para las opciones de envío.
+ */
+describe('getShippingOptions', () => {
+  /**
+   * @description Test para ordenar las opciones disponibles de la más barata a la más cara.
+   */
+  it('debería devolver las opciones disponibles de la más barata a la más cara', () => {
+    const options = getShippingOptions(
+      [express, standard, pickup],
+      { country: 'US', region: 'CA' },
+      { subtotal: 30, weight_grams: 300 }
+    );
+
+    expect(options.map(option => [option.shipping_method_id, option.amount])).toEqual([
+      ['pickup', 0],
+      ['standard', 5],
+      ['express', 15]
+    ]);
+  });
+
+  /**
+   * @description Test para no ofrecer la recogida fuera de su zona.
+   */
+  it('no debería ofrecer métodos sin zona para el destino', () => {
+    const options = getShippingOptions([pickup], { country: 'US', region: 'TX' }, { subtotal: 30, weight_grams: 0 });
+    expect(options).toEqual([]);
+  });
+});
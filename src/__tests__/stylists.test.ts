@@ -7,6 +7,13 @@
 import request from 'supertest';
 import app from '../index';
 import { resetStylistsForTesting } from '../controllers/stylists.controller';
+import { UserRole } from '../interfaces/user.interface';
+import { generateToken } from '../middleware/auth.middleware';
+import { addUser } from '../data/users.database';
+import { v4 as uuidv4 } from 'uuid';
+
+// Token de administrador para las rutas de gestión de estilistas
+const adminToken = generateToken({ userId: 'admin-1', email: 'admin@test.com', role: UserRole.ADMIN });
 
 // Hook para resetear los datos antes de cada prueba
 beforeEach(async () => {
@@ -114,6 +121,7 @@ describe('POST /api/stylists', () => {
 
     const response = await request(app)
       .post('/api/stylists')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(newStylist)
       .expect('Content-Type', /json/)
       .expect(201);
@@ -142,6 +150,7 @@ describe('POST /api/stylists', () => {
 
     const response = await request(app)
       .post('/api/stylists')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(newStylist)
       .expect('Content-Type', /json/)
       .expect(201);
@@ -161,6 +170,7 @@ describe('POST /api/stylists', () => {
 
     const response = await request(app)
       .post('/api/stylists')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(newStylist)
       .expect('Content-Type', /json/)
       .expect(201);
@@ -179,6 +189,7 @@ describe('POST /api/stylists', () => {
 
     const response = await request(app)
       .post('/api/stylists')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(incompleteStylist)
       .expect('Content-Type', /json/)
       .expect(400);
@@ -200,6 +211,7 @@ describe('POST /api/stylists', () => {
 
     const response = await request(app)
       .post('/api/stylists')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(stylistWithInvalidFeatured)
       .expect('Content-Type', /json/)
       .expect(400);
@@ -220,6 +232,7 @@ describe('POST /api/stylists', () => {
 
     const response = await request(app)
       .post('/api/stylists')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(stylistWithInvalidSpecialty)
       .expect('Content-Type', /json/)
       .expect(400);
@@ -240,6 +253,7 @@ describe('POST /api/stylists', () => {
 
     const response = await request(app)
       .post('/api/stylists')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(stylistWithShortDescription)
       .expect('Content-Type', /json/)
       .expect(400);
@@ -260,6 +274,7 @@ describe('POST /api/stylists', () => {
 
     const response = await request(app)
       .post('/api/stylists')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(stylistWithInvalidName)
       .expect('Content-Type', /json/)
       .expect(400);
@@ -290,6 +305,7 @@ describe('PUT /api/stylists/:id', () => {
 
     const response = await request(app)
       .put(`/api/stylists/${existingStylist.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .send(updatedData)
       .expect('Content-Type', /json/)
       .expect(200);
@@ -307,6 +323,7 @@ describe('PUT /api/stylists/:id', () => {
   it('debería devolver error 400 si el ID no es válido', async () => {
     await request(app)
       .put('/api/stylists/estilista-inexistente-123')
+      .set('Authorization', `Bearer ${adminToken}`)
       .send({ name: 'No existe' })
       .expect(400);
   });
@@ -320,6 +337,7 @@ describe('PUT /api/stylists/:id', () => {
 
     const response = await request(app)
       .put(`/api/stylists/${existingStylist.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .send({ is_featured: 'not-a-boolean' })
       .expect('Content-Type', /json/)
       .expect(400);
@@ -343,6 +361,7 @@ describe('DELETE /api/stylists/:id', () => {
 
     await request(app)
       .delete(`/api/stylists/${existingStylist.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
       .expect(204);
 
     // Verificar que la estilista ya no existe
@@ -357,6 +376,311 @@ describe('DELETE /api/stylists/:id', () => {
   it('debería devolver error 400 si el ID no es válido', async () => {
     await request(app)
       .delete('/api/stylists/estilista-inexistente-123')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(400);
+  });
+});
+/**
+ * @description Crea una estilista de prueba y devuelve su ID.
+ * @returns {Promise<string>} ID de la estilista creada.
+ */
+const createTestStylist = async (): Promise<string> => {
+  const response = await request(app)
+    .post('/api/stylists')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({
+      name: 'Estilista Horario',
+      specialty: 'Trenzas Africanas',
+      description: 'Estilista creada para probar la gestión de horarios'
+    })
+    .expect(201);
+
+  return response.body.id;
+};
+
+/**
+ * @description Suite de tests para el horario de estilistas (/api/stylists/:id/schedule).
+ */
+describe('/api/stylists/:id/schedule', () => {
+  /**
+   * @description Test para usar el horario del salón cuando no hay plantilla propia.
+   */
+  it('debería devolver el horario por defecto si la estilista no tiene plantilla', async () => {
+    const stylistId = await createTestStylist();
+
+    const response = await request(app)
+      .get(`/api/stylists/${stylistId}/schedule`)
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(response.body).toHaveProperty('uses_default_hours', true);
+    expect(response.body.working_hours.length).toBeGreaterThan(0);
+    expect(response.body.breaks).toEqual([]);
+    expect(response.body.time_off).toEqual([]);
+  });
+
+  /**
+   * @description Test para reemplazar la plantilla semanal.
+   */
+  it('debería reemplazar la plantilla semanal', async () => {
+    const stylistId = await createTestStylist();
+
+    const response = await request(app)
+      .put(`/api/stylists/${stylistId}/schedule/hours`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ hours: [{ day_of_week: 2, start_time: '10:00', end_time: '16:00' }] })
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(response.body).toHaveLength(1);
+    expect(response.body[0]).toHaveProperty('start_time', '10:00');
+
+    const scheduleResponse = await request(app).get(`/api/stylists/${stylistId}/schedule`);
+    expect(scheduleResponse.body).toHaveProperty('uses_default_hours', false);
+  });
+
+  /**
+   * @description Test para rechazar franjas con la hora de fin antes del inicio.
+   */
+  it('debería devolver error 400 si la franja es inválida', async () => {
+    const stylistId = await createTestStylist();
+
+    await request(app)
+      .put(`/api/stylists/${stylistId}/schedule/hours`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ hours: [{ day_of_week: 2, start_time: '16:00', end_time: '10:00' }] })
       .expect(400);
   });
-});
\ No newline at end of file
+
+  /**
+   * @description Test para crear, actualizar y eliminar un descanso recurrente.
+   */
+  it('debería gestionar descansos recurrentes', async () => {
+    const stylistId = await createTestStylist();
+
+    const created = await request(app)
+      .post(`/api/stylists/${stylistId}/schedule/breaks`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ day_of_week: 1, start_time: '13:00', end_time: '14:00', label: 'Almuerzo' })
+      .expect(201);
+
+    const updated = await request(app)
+      .put(`/api/stylists/${stylistId}/schedule/breaks/${created.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ end_time: '14:30' })
+      .expect(200);
+
+    expect(updated.body).toHaveProperty('end_time', '14:30');
+
+    await request(app)
+      .delete(`/api/stylists/${stylistId}/schedule/breaks/${created.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(204);
+  });
+
+  /**
+   * @description Test para crear y eliminar un bloqueo de fechas.
+   */
+  it('debería gestionar bloqueos de fechas', async () => {
+    const stylistId = await createTestStylist();
+    const start = new Date();
+    start.setDate(start.getDate() + 30);
+    const end = new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    const created = await request(app)
+      .post(`/api/stylists/${stylistId}/schedule/time-off`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ start_date: start.toISOString(), end_date: end.toISOString(), reason: 'Vacaciones' })
+      .expect(201);
+
+    expect(created.body).toHaveProperty('reason', 'Vacaciones');
+
+    await request(app)
+      .delete(`/api/stylists/${stylistId}/schedule/time-off/${created.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(204);
+  });
+
+  /**
+   * @description Test para no ofrecer horarios durante un bloqueo de fechas.
+   */
+  it('debería excluir los días bloqueados de los horarios libres', async () => {
+    const stylistId = await createTestStylist();
+    const day = new Date();
+    day.setHours(0, 0, 0, 0);
+    day.setDate(day.getDate() + 7);
+    while (day.getDay() === 0) {
+      day.setDate(day.getDate() + 1);
+    }
+    const dayEnd = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+
+    await request(app)
+      .post(`/api/stylists/${stylistId}/schedule/time-off`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ start_date: day.toISOString(), end_date: dayEnd.toISOString() })
+      .expect(201);
+
+    const month = String(day.getMonth() + 1).padStart(2, '0');
+    const date = `${day.getFullYear()}-${month}-${String(day.getDate()).padStart(2, '0')}`;
+
+    const response = await request(app)
+      .get(`/api/stylists/${stylistId}/slots?date=${date}`)
+      .expect(200);
+
+    expect(response.body).toHaveProperty('available', false);
+  });
+});
+
+/**
+ * @description Suite de tests para estilistas libres (GET /api/stylists/available).
+ */
+describe('GET /api/stylists/available', () => {
+  /**
+   * @description Test para listar estilistas libres a una hora concreta.
+   */
+  it('debería devolver las estilistas que atienden a esa hora', async () => {
+    const stylistId = await createTestStylist();
+    const day = new Date();
+    day.setDate(day.getDate() + 7);
+    while (day.getDay() === 0) {
+      day.setDate(day.getDate() + 1);
+    }
+    const month = String(day.getMonth() + 1).padStart(2, '0');
+    const date = `${day.getFullYear()}-${month}-${String(day.getDate()).padStart(2, '0')}`;
+
+    const response = await request(app)
+      .get(`/api/stylists/available?date=${date}&time=10:00`)
+      .expect('Content-Type', /json/)
+      .expect(200);
+
+    expect(response.body).toHaveProperty('time', '10:00');
+    expect(response.body.stylists.map((s: any) => s.id)).toContain(stylistId);
+  });
+
+  /**
+   * @description Test para validar el formato de la fecha.
+   */
+  it('debería devolver error 400 si la fecha es inválida', async () => {
+    await request(app)
+      .get('/api/stylists/available?date=mañana')
+      .expect(400);
+  });
+});
+
+/**
+ * @description Crea un usuario con rol STYLIST vinculado a una nueva estilista.
+ * @returns {Promise<{stylistId: string, token: string}>} ID de la estilista y token del usuario.
+ */
+const createLinkedStylist = async (): Promise<{ stylistId: string; token: string }> => {
+  const userId = uuidv4();
+  const email = `estilista-${userId}@test.com`;
+  await addUser({
+    id: userId,
+    name: 'Estilista Vinculada',
+    email,
+    password_hash: 'hash',
+    role: UserRole.STYLIST,
+    created_at: new Date(),
+    updated_at: new Date()
+  });
+
+  const response = await request(app)
+    .post('/api/stylists')
+    .set('Authorization', `Bearer ${adminToken}`)
+    .send({
+      name: 'Estilista Vinculada',
+      specialty: 'Box Braids',
+      description: 'Estilista con usuario propio para gestionar su perfil',
+      user_id: userId
+    })
+    .expect(201);
+
+  expect(response.body).toHaveProperty('user_id', userId);
+  return {
+    stylistId: response.body.id,
+    token: generateToken({ userId, email, role: UserRole.STYLIST })
+  };
+};
+
+/**
+ * @description Suite de tests para los permisos del rol STYLIST.
+ */
+describe('Permisos de estilista (STYLIST)', () => {
+  /**
+   * @description Test para exigir autenticación en la gestión de estilistas.
+   */
+  it('debería devolver error 401 si se crea una estilista sin token', async () => {
+    await request(app)
+      .post('/api/stylists')
+      .send({
+        name: 'Sin Token',
+        specialty: 'Box Braids',
+        description: 'Intento de creación sin autenticación'
+      })
+      .expect(401);
+  });
+
+  /**
+   * @description Test para permitir que la estilista gestione su propio perfil y horario.
+   */
+  it('debería permitir a la estilista actualizar su perfil y su horario', async () => {
+    const { stylistId, token } = await createLinkedStylist();
+
+    const profile = await request(app)
+      .put(`/api/stylists/${stylistId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ description: 'Nueva biografía escrita por la propia estilista' })
+      .expect(200);
+
+    expect(profile.body).toHaveProperty('description', 'Nueva biografía escrita por la propia estilista');
+
+    await request(app)
+      .put(`/api/stylists/${stylistId}/schedule/hours`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ hours: [{ day_of_week: 3, start_time: '09:00', end_time: '15:00' }] })
+      .expect(200);
+  });
+
+  /**
+   * @description Test para impedir que la estilista se marque como destacada.
+   */
+  it('debería devolver error 403 si la estilista cambia is_featured', async () => {
+    const { stylistId, token } = await createLinkedStylist();
+
+    await request(app)
+      .put(`/api/stylists/${stylistId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ is_featured: true })
+      .expect(403);
+  });
+
+  /**
+   * @description Test para bloquear el horario de otra estilista.
+   */
+  it('debería devolver error 403 si la estilista modifica el horario de otra', async () => {
+    const { token } = await createLinkedStylist();
+    const otherStylistId = await createTestStylist();
+
+    const response = await request(app)
+      .post(`/api/stylists/${otherStylistId}/schedule/breaks`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ day_of_week: 1, start_time: '13:00', end_time: '14:00' })
+      .expect(403);
+
+    expect(response.body).toHaveProperty('error', 'PERMISSION_DENIED');
+  });
+
+  /**
+   * @description Test para reservar a ADMIN la eliminación de estilistas.
+   */
+  it('debería devolver error 403 si la estilista intenta eliminar su perfil', async () => {
+    const { stylistId, token } = await createLinkedStylist();
+
+    const response = await request(app)
+      .delete(`/api/stylists/${stylistId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+
+    expect(response.body).toHaveProperty('error', 'PERMISSION_DENIED');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * @file Tests para el cálculo de impuestos de los pedidos.
+ * @description Elección de reglas por jurisdicción y clase fiscal, modos INCLUSIVE y
+ *              EXCLUSIVE, redondeo por línea y desglose por regla.
+ */
+
+import { TaxRule, TaxClass, TaxMode } from '../interfaces/tax.interface';
+import { calculateTaxes, getApplicableTaxRules } from '../utils/tax.utils';
+
+/**
+ * @description Crea una regla de impuestos de prueba.
+ */
+const buildRule = (overrides: Partial<TaxRule>): TaxRule => ({
+  id: 'rule',
+  name: 'Impuesto',
+  country: 'US',
+  region: null,
+  tax_class: TaxClass.STANDARD,
+  rate: 10,
+  mode: TaxMode.EXCLUSIVE,
+  is_active: true,
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides
+});
+
+const stateTax = buildRule({ id: 'state', name: 'State sales tax', region: 'CA', rate: 7.25 });
+const countyTax = buildRule({ id: 'county', name: 'County tax', region: 'CA', rate: 1 });
+const texasTax = buildRule({ id: 'texas', name: 'Texas sales tax', region: 'TX', rate: 6.25 });
+const vat = buildRule({ id: 'vat', name: 'IVA', country: 'ES', rate: 21, mode: TaxMode.INCLUSIVE });
+const reducedVat = buildRule({
+  id: 'vat-reduced', name: 'IVA reducido', country: 'ES', rate: 10, mode: TaxMode.INCLUSIVE, tax_class: TaxClass.REDUCED
+});
+
+const rules = [stateTax, countyTax, texasTax, vat, reducedVat];
+
+/**
+ * @description Suite de tests para la elección de reglas.
+ */
+describe('getApplicableTaxRules', () => {
+  /**
+   * @description Test para acumular las reglas del país y de la región.
+   */
+  it('debería elegir las reglas de la región y de todo el país', () => {
+    const countryTax = buildRule({ id: 'federal', name: 'Federal' });
+    const applicable = getApplicableTaxRules([...rules, countryTax], { country: 'US', region: 'CA' }, TaxClass.STANDARD);
+
+    expect(applicable.map(rule => rule.id)).toEqual(['state', 'county', 'federal']);
+  });
+
+  /**
+   * @description Test para ignorar otras clases fiscales y reglas inactivas.
+   */
+  it('debería ignorar otras clases fiscales y reglas inactivas', () => {
+    const inactive = buildRule({ id: 'inactive', country: 'ES', is_active: false });
+
+    expect(getApplicableTaxRules([...rules, inactive], { country: 'ES', region: null }, TaxClass.REDUCED))
+      .toEqual([reducedVat]);
+    expect(getApplicableTaxRules(rules, { country: 'ES', region: null }, TaxClass.EXEMPT)).toEqual([]);
+  });
+});
+
+/**
+ * @description Suite de tests para el cálculo de impuestos.
+ */
+describe('calculateTaxes', () => {
+  /**
+   * @description Test para sumar los impuestos EXCLUSIVE al precio.
+   */
+  it('debería calcular impuestos EXCLUSIVE sobre el precio y desglosarlos por regla', () => {
+    const result = calculateTaxes(
+      [{ amount: 40, tax_class: TaxClass.STANDARD }, { amount: 15.5, tax_class: TaxClass.STANDARD }],
+      rules,
+      { country: 'US', region: 'CA' }
+    );
+
+    // 40 * 7.25% = 2.90; 15.50 * 7.25% = 1.12375 -> 1.12
+    expect(result.breakdown).toEqual([
+      expect.objectContaining({ tax_rule_id: 'state', taxable_amount: 55.5, tax_amount: 4.02 }),
+      expect.objectContaining({ tax_rule_id: 'county', taxable_amount: 55.5, tax_amount: 0.56 })
+    ]);
+    expect(result.tax_amount).toBe(4.58);
+    expect(result.exclusive_tax_amount).toBe(4.58);
+  });
+
+  /**
+   * @description Test para extraer los impuestos INCLUSIVE del precio.
+   */
+  it('debería extraer los impuestos INCLUSIVE ya incluidos en el precio', () => {
+    const result = calculateTaxes(
+      [{ amount: 121, tax_class: TaxClass.STANDARD }, { amount: 22, tax_class: TaxClass.REDUCED }],
+      rules,
+      { country: 'ES', region: null }
+    );
+
+    expect(result.breakdown).toEqual([
+      expect.objectContaining({ tax_rule_id: 'vat', taxable_amount: 100, tax_amount: 21, mode: TaxMode.INCLUSIVE }),
+      expect.objectContaining({ tax_rule_id: 'vat-reduced', taxable_amount: 20, tax_amount: 2 })
+    ]);
+    expect(result.tax_amount).toBe(23);
+    expect(result.exclusive_tax_amount).toBe(0);
+  });
+
+  /**
+   * @description Test para redondear cada línea antes de sumar.
+   */
+  it('debería redondear los impuestos por línea', () => {
+    const lines = [0.05, 0.05, 0.05].map(amount => ({ amount, tax_class: TaxClass.STANDARD }));
+    const result = calculateTaxes(lines, [buildRule({ rate: 10 })], { country: 'US', region: null });
+
+    // Cada línea: 0.005 -> 0.01; sobre el total serían 0.015 -> 0.02
+    expect(result.tax_amount).toBe(0.03);
+  });
+
+  /**
+   * @description Test para no aplicar impuestos sin reglas en la jurisdicción.
+   */
+  it('no debería aplicar impuestos si no hay reglas para la jurisdicción', () => {
+    const result = calculateTaxes([{ amount: 50, tax_class: TaxClass.STANDARD }], rules, { country: 'MX', region: null });
+
+    expect(result).toEqual({ tax_amount: 0, exclusive_tax_amount: 0, breakdown: [] });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @file Configuración de sesiones y tokens de LauraBraids.
+ * @description Define la duración del token de acceso (JWT) y del token de refresco
+ *              opaco con el que se renuevan las sesiones.
+ */
+
+import dotenv from 'dotenv';
+
+// Cargar variables de entorno
+dotenv.config();
+
+/**
+ * @constant ACCESS_TOKEN_TTL_MINUTES
+ * @description Minutos de validez del token de acceso JWT
+ */
+export const ACCESS_TOKEN_TTL_MINUTES = parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || '15');
+
+/**
+ * @constant REFRESH_TOKEN_TTL_DAYS
+ * @description Días de validez de un token de refresco. Cada renovación emite uno nuevo
+ * con la validez completa
+ */
+export const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+/**
+ * @constant TOKEN_DENYLIST_STORE
+ * @description Almacén de tokens revocados: 'memory' (un solo proceso) o 'mysql'
+ * (compartido entre instancias)
+ */
+export const TOKEN_DENYLIST_STORE = process.env.TOKEN_DENYLIST_STORE || 'memory';
+
+/**
+ * @constant DENYLIST_PRUNE_INTERVAL_MINUTES
+ * @description Minutos mínimos entre dos limpiezas de tokens revocados ya expirados
+ */
+export const DENYLIST_PRUNE_INTERVAL_MINUTES = parseInt(process.env.DENYLIST_PRUNE_INTERVAL_MINUTES || '60');
+
+/**
+ * @constant PASSWORD_RESET_TOKEN_TTL_MINUTES
+ * @description Minutos de validez del enlace de recuperación de contraseña
+ */
+export const PASSWORD_RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES || '60');
+
+/**
+ * @constant EMAIL_VERIFICATION_TOKEN_TTL_HOURS
+ * @description Horas de validez del enlace de verificación de email
+ */
+export const EMAIL_VERIFICATION_TOKEN_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TOKEN_TTL_HOURS || '48');
+
+/**
+ * @constant EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS
+ * @description Segundos mínimos entre dos envíos del enlace de verificación
+ */
+export const EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS = parseInt(process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS || '60');
+
+/**
+ * @constant EMAIL_VERIFICATION_MAX_SENDS_PER_HOUR
+ * @description Número máximo de enlaces de verificación enviados a un usuario por hora
+ */
+export const EMAIL_VERIFICATION_MAX_SENDS_PER_HOUR = parseInt(process.env.EMAIL_VERIFICATION_MAX_SENDS_PER_HOUR || '5');
+
+/**
+ * @constant REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS
+ * @description Si es true, un cliente no puede reservar citas hasta verificar su email
+ */
+export const REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS = process.env.REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS === 'true';
+
+/**
+ * @constant REQUIRE_VERIFIED_EMAIL_FOR_ORDERS
+ * @description Si es true, un cliente no puede hacer pedidos hasta verificar su email
+ */
+export const REQUIRE_VERIFIED_EMAIL_FOR_ORDERS = process.env.REQUIRE_VERIFIED_EMAIL_FOR_ORDERS === 'true';
+
+/**
+ * @constant LOGIN_MAX_FAILURES_PER_ACCOUNT
+ * @description Intentos fallidos contra una cuenta a partir de los que se bloquea
+ */
+export const LOGIN_MAX_FAILURES_PER_ACCOUNT = parseInt(process.env.LOGIN_MAX_FAILURES_PER_ACCOUNT || '5');
+
+/**
+ * @constant LOGIN_MAX_FAILURES_PER_IP
+ * @description Intentos fallidos desde una IP (contra cualquier cuenta) a partir de los que se bloquea
+ */
+export const LOGIN_MAX_FAILURES_PER_IP = parseInt(process.env.LOGIN_MAX_FAILURES_PER_IP || '20');
+
+/**
+ * @constant LOGIN_LOCKOUT_BASE_MINUTES
+ * @description Duración del primer bloqueo. Cada fallo adicional la duplica
+ */
+export const LOGIN_LOCKOUT_BASE_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_BASE_MINUTES || '1');
+
+/**
+ * @constant LOGIN_LOCKOUT_MAX_MINUTES
+ * @description Duración máxima de un bloqueo
+ */
+export const LOGIN_LOCKOUT_MAX_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '60');
+
+/**
+ * @constant LOGIN_FAILURE_WINDOW_MINUTES
+ * @description Minutos sin fallos tras los que el contador vuelve a empezar
+ */
+export const LOGIN_FAILURE_WINDOW_MINUTES = parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15');
+
+/**
+ * @constant TWO_FACTOR_ISSUER
+ * @description Nombre del servicio que muestran las apps de autenticación
+ */
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'LauraBraids';
+
+/**
+ * @constant REQUIRE_2FA_FOR_ADMINS
+ * @description Si es true, los administradores solo tienen permisos de administrador con
+ * sesiones iniciadas completando el segundo factor
+ */
+export const REQUIRE_2FA_FOR_ADMINS = process.env.REQUIRE_2FA_FOR_ADMINS === 'true';
+
+/**
+ * @constant TWO_FACTOR_CHALLENGE_TTL_MINUTES
+ * @description Minutos para completar el segundo paso del login
+ */
+export const TWO_FACTOR_CHALLENGE_TTL_MINUTES = parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL_MINUTES || '5');
+
+/**
+ * @constant TWO_FACTOR_MAX_CHALLENGE_ATTEMPTS
+ * @description Códigos incorrectos admitidos por reto antes de invalidarlo
+ */
+export const TWO_FACTOR_MAX_CHALLENGE_ATTEMPTS = parseInt(process.env.TWO_FACTOR_MAX_CHALLENGE_ATTEMPTS || '5');
+
+/**
+ * @constant TWO_FACTOR_RECOVERY_CODE_COUNT
+ * @description Códigos de recuperación de un solo uso generados al activar el segundo factor
+ */
+export const TWO_FACTOR_RECOVERY_CODE_COUNT = parseInt(process.env.TWO_FACTOR_RECOVERY_CODE_COUNT || '10');
+
+/**
+ * @constant API_KEY_DEFAULT_TTL_DAYS
+ * @description Días de validez de una API key si no se indica otra duración al crearla
+ */
+export const API_KEY_DEFAULT_TTL_DAYS = parseInt(process.env.API_KEY_DEFAULT_TTL_DAYS || '90');
+
+/**
+ * @constant API_KEY_MAX_TTL_DAYS
+ * @description Días máximos de validez que se pueden pedir para una API key
+ */
+export const API_KEY_MAX_TTL_DAYS = parseInt(process.env.API_KEY_MAX_TTL_DAYS || '365');
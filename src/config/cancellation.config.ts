@@ -0,0 +1,32 @@
+/**
+ * @file Configuración de la política de cancelación de LauraBraids.
+ * @description Define la ventana de cancelación gratuita y las penalizaciones por
+ *              cancelación tardía e inasistencia (NO_SHOW).
+ */
+
+import dotenv from 'dotenv';
+
+// Cargar variables de entorno
+dotenv.config();
+
+/**
+ * @interface CancellationPolicy
+ * @description Parámetros de la política de cancelación
+ */
+export interface CancellationPolicy {
+  freeCancellationHours: number; // Horas de antelación mínimas para cancelar sin cargo
+  lateCancellationFeePercent: number; // Porcentaje de total_price cobrado por cancelación tardía
+  noShowFeePercent: number; // Porcentaje de total_price cobrado por inasistencia
+  chronicNoShowThreshold: number; // Inasistencias a partir de las que se marca al cliente
+}
+
+/**
+ * @constant CANCELLATION_POLICY
+ * @description Política de cancelación desde variables de entorno
+ */
+export const CANCELLATION_POLICY: CancellationPolicy = {
+  freeCancellationHours: parseInt(process.env.FREE_CANCELLATION_HOURS || '24'),
+  lateCancellationFeePercent: parseFloat(process.env.LATE_CANCELLATION_FEE_PERCENT || '50'),
+  noShowFeePercent: parseFloat(process.env.NO_SHOW_FEE_PERCENT || '100'),
+  chronicNoShowThreshold: parseInt(process.env.CHRONIC_NO_SHOW_THRESHOLD || '3')
+};
@@ -91,6 +91,30 @@ export const executeQuery = async (
   }
 };
 
+/**
+ * @function withTransaction
+ * @description Ejecuta una unidad de trabajo en una transacción con una conexión del pool.
+ * Confirma si la función termina y revierte todo si lanza un error.
+ * @param work - Función que recibe la conexión de la transacción
+ * @returns Resultado de la unidad de trabajo
+ */
+export const withTransaction = async <T>(
+  work: (connection: mysql.PoolConnection) => Promise<T>
+): Promise<T> => {
+  const connection = await getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await work(connection);
+    await connection.commit();
+    return result;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
 /**
  * @function testConnection
  * @description Prueba la conexión a la base de datos
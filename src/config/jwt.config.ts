@@ -0,0 +1,90 @@
+/**
+ * @file Configuración de las claves de firma JWT de LauraBraids.
+ * @description Construye el keyring de claves (kid → secreto) a partir de JWT_KEYS y
+ *              JWT_ACTIVE_KID, conservando JWT_SECRET para los tokens emitidos antes de
+ *              la rotación, y comprueba que producción no use la clave por defecto.
+ */
+
+import dotenv from 'dotenv';
+import { JwtKeyring } from '../interfaces/auth.interface';
+
+// Cargar variables de entorno
+dotenv.config();
+
+/**
+ * @constant DEFAULT_JWT_SECRET
+ * @description Secreto de desarrollo usado si no se configura ninguna clave. No se admite
+ * en producción
+ */
+export const DEFAULT_JWT_SECRET = 'laura_braids_secret_key_2024';
+
+/**
+ * @constant LEGACY_JWT_KID
+ * @description kid de la clave definida con JWT_SECRET. Los tokens sin kid (emitidos antes
+ * de usar el keyring) se verifican con ella
+ */
+export const LEGACY_JWT_KID = 'default';
+
+/**
+ * @function buildJwtKeyring
+ * @description Construye el keyring a partir de las variables de entorno. JWT_KEYS es una
+ * lista "kid:secreto" separada por comas; la clave activa es JWT_ACTIVE_KID o, si no se
+ * indica, la primera de la lista. JWT_SECRET se mantiene como clave retirada con kid
+ * 'default' para no invalidar los tokens anteriores.
+ *
+ * @param env - Variables de entorno
+ * @returns Keyring de claves JWT
+ */
+export const buildJwtKeyring = (env: NodeJS.ProcessEnv): JwtKeyring => {
+  const keys: Record<string, string> = {};
+  const kids: string[] = [];
+
+  (env.JWT_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .forEach(entry => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error('JWT_KEYS: cada entrada debe tener el formato kid:secreto');
+      }
+      const kid = entry.slice(0, separator);
+      keys[kid] = entry.slice(separator + 1);
+      kids.push(kid);
+    });
+
+  if (!keys[LEGACY_JWT_KID] && (env.JWT_SECRET || kids.length === 0)) {
+    keys[LEGACY_JWT_KID] = env.JWT_SECRET || DEFAULT_JWT_SECRET;
+  }
+
+  const activeKid = env.JWT_ACTIVE_KID || kids[0] || LEGACY_JWT_KID;
+  if (!keys[activeKid]) {
+    throw new Error(`JWT_ACTIVE_KID: la clave "${activeKid}" no está en JWT_KEYS`);
+  }
+
+  return { activeKid, keys };
+};
+
+/**
+ * @function assertSecureJwtKeyring
+ * @description Impide arrancar en producción si alguna clave del keyring es la clave
+ * por defecto.
+ *
+ * @param keyring - Keyring de claves JWT
+ * @param nodeEnv - Entorno de ejecución (NODE_ENV)
+ * @throws Error si el entorno es producción y se usa la clave por defecto
+ */
+export const assertSecureJwtKeyring = (keyring: JwtKeyring, nodeEnv?: string): void => {
+  if (nodeEnv !== 'production') return;
+
+  const usesDefault = Object.keys(keyring.keys).some(kid => keyring.keys[kid] === DEFAULT_JWT_SECRET);
+  if (usesDefault) {
+    throw new Error('No se puede arrancar en producción con la clave JWT por defecto: configura JWT_SECRET o JWT_KEYS');
+  }
+};
+
+/**
+ * @constant JWT_KEYRING
+ * @description Keyring de claves JWT de la aplicación
+ */
+export const JWT_KEYRING = buildJwtKeyring(process.env);
@@ -0,0 +1,35 @@
+/**
+ * @file Configuración del envío de correos de LauraBraids.
+ * @description Define el transporte de correo usado en local y los datos comunes
+ *              de los mensajes (remitente y URL de la aplicación cliente).
+ */
+
+import dotenv from 'dotenv';
+
+// Cargar variables de entorno
+dotenv.config();
+
+/**
+ * @constant MAIL_TRANSPORT
+ * @description Transporte de correo: 'console' (muestra el correo en el log) o 'file'
+ * (guarda cada correo como fichero en MAIL_OUTPUT_DIR)
+ */
+export const MAIL_TRANSPORT = process.env.MAIL_TRANSPORT || 'console';
+
+/**
+ * @constant MAIL_OUTPUT_DIR
+ * @description Carpeta donde el transporte 'file' guarda los correos
+ */
+export const MAIL_OUTPUT_DIR = process.env.MAIL_OUTPUT_DIR || 'tmp/mail';
+
+/**
+ * @constant MAIL_FROM
+ * @description Remitente de los correos del sistema
+ */
+export const MAIL_FROM = process.env.MAIL_FROM || 'LauraBraids <no-reply@laurabraids.com>';
+
+/**
+ * @constant APP_URL
+ * @description URL de la aplicación cliente, usada para construir los enlaces de los correos
+ */
+export const APP_URL = process.env.APP_URL || 'http://localhost:3000';
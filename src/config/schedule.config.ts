@@ -0,0 +1,59 @@
+/**
+ * @file Configuración de horarios de atención para LauraBraids.
+ * @description Define el horario laboral por defecto del salón y los parámetros
+ *              usados para calcular los horarios disponibles de las citas.
+ */
+
+import dotenv from 'dotenv';
+
+// Cargar variables de entorno
+dotenv.config();
+
+/**
+ * @interface WorkingHours
+ * @description Rango de horas laborables de un día (formato HH:MM)
+ */
+export interface WorkingHours {
+  start: string;
+  end: string;
+}
+
+/**
+ * @constant DEFAULT_WORKING_HOURS
+ * @description Horario semanal por defecto, indexado por día de la semana
+ * (0 = domingo, 6 = sábado). Un valor null indica que el salón no atiende.
+ */
+export const DEFAULT_WORKING_HOURS: Record<number, WorkingHours | null> = {
+  0: null,
+  1: { start: '08:00', end: '18:00' },
+  2: { start: '08:00', end: '18:00' },
+  3: { start: '08:00', end: '18:00' },
+  4: { start: '08:00', end: '18:00' },
+  5: { start: '08:00', end: '18:00' },
+  6: { start: '08:00', end: '18:00' }
+};
+
+/**
+ * @constant SLOT_INTERVAL_MINUTES
+ * @description Separación en minutos entre los posibles inicios de cita
+ */
+export const SLOT_INTERVAL_MINUTES = parseInt(process.env.SLOT_INTERVAL_MINUTES || '30');
+
+/**
+ * @constant DEFAULT_APPOINTMENT_DURATION_MINUTES
+ * @description Duración asumida de una cita cuando no se conoce la del estilo
+ */
+export const DEFAULT_APPOINTMENT_DURATION_MINUTES = 60;
+
+/**
+ * @constant MAX_SERIES_OCCURRENCES
+ * @description Número máximo de citas que puede generar una serie recurrente
+ */
+export const MAX_SERIES_OCCURRENCES = 26;
+
+/**
+ * @constant WAITLIST_HOLD_MINUTES
+ * @description Minutos que se reserva un horario liberado para el cliente de la lista
+ * de espera al que se le ofrece
+ */
+export const WAITLIST_HOLD_MINUTES = parseInt(process.env.WAITLIST_HOLD_MINUTES || '30');
@@ -0,0 +1,22 @@
+/**
+ * @file Configuración de envíos de LauraBraids.
+ * @description Define la tarifa del método de envío estándar que se carga por defecto para
+ *              el país del salón (DEFAULT_TAX_COUNTRY).
+ */
+
+import dotenv from 'dotenv';
+
+// Cargar variables de entorno
+dotenv.config();
+
+/**
+ * @constant DEFAULT_SHIPPING_AMOUNT
+ * @description Costo del envío estándar por defecto
+ */
+export const DEFAULT_SHIPPING_AMOUNT = parseFloat(process.env.DEFAULT_SHIPPING_AMOUNT || '10');
+
+/**
+ * @constant DEFAULT_FREE_SHIPPING_THRESHOLD
+ * @description Subtotal a partir del cual el envío estándar por defecto es gratis
+ */
+export const DEFAULT_FREE_SHIPPING_THRESHOLD = parseFloat(process.env.DEFAULT_FREE_SHIPPING_THRESHOLD || '50');
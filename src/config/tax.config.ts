@@ -0,0 +1,24 @@
+/**
+ * @file Configuración de impuestos de LauraBraids.
+ * @description Define la jurisdicción fiscal que se usa cuando un pedido no indica el
+ *              país de envío y el impuesto general que se carga por defecto para ella.
+ */
+
+import dotenv from 'dotenv';
+
+// Cargar variables de entorno
+dotenv.config();
+
+/**
+ * @constant DEFAULT_TAX_COUNTRY
+ * @description País (ISO 3166-1 alfa-2) cuyas reglas de impuestos se aplican a los pedidos
+ * sin shipping_country, normalmente el del salón
+ */
+export const DEFAULT_TAX_COUNTRY = (process.env.DEFAULT_TAX_COUNTRY || 'US').toUpperCase();
+
+/**
+ * @constant DEFAULT_TAX_RATE
+ * @description Porcentaje de la regla de impuestos por defecto (clase STANDARD, modo
+ * EXCLUSIVE) de DEFAULT_TAX_COUNTRY, que se carga con los datos iniciales
+ */
+export const DEFAULT_TAX_RATE = Number(process.env.DEFAULT_TAX_RATE || 10);
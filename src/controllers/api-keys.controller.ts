@@ -0,0 +1,111 @@
+/**
+ * @file Controladores de API keys para integraciones de LauraBraids.
+ * @description Permite a los administradores crear claves de API con scopes, listarlas y
+ *              revocarlas. La clave completa solo se muestra al crearla; se guarda su hash.
+ */
+
+import { Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKey } from '../interfaces/auth.interface';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { API_KEY_DEFAULT_TTL_DAYS } from '../config/auth.config';
+import { generateApiKey, hashToken } from '../utils/token.utils';
+import {
+  createApiKey as createApiKeyData,
+  getApiKeys as getApiKeysData,
+  revokeApiKey as revokeApiKeyData
+} from '../data/api-keys.database';
+
+/**
+ * @function toPublicApiKey
+ * @description Quita el hash de una API key antes de devolverla
+ * @param apiKey - Clave almacenada
+ * @returns Datos públicos de la clave
+ */
+const toPublicApiKey = (apiKey: ApiKey): Omit<ApiKey, 'key_hash'> => {
+  const { key_hash, ...publicApiKey } = apiKey;
+  return publicApiKey;
+};
+
+/**
+ * @function createApiKey
+ * @description Crea una API key con los scopes indicados. La clave completa se devuelve
+ * una única vez en la respuesta.
+ *
+ * @param req - Request con name, scopes y expires_in_days opcional
+ * @param res - Response con la clave creada
+ */
+export const createApiKey = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { name, scopes, expires_in_days } = req.body;
+    const { key, prefix } = generateApiKey();
+    const now = new Date();
+    const ttlDays = expires_in_days || API_KEY_DEFAULT_TTL_DAYS;
+
+    const apiKey = await createApiKeyData({
+      id: uuidv4(),
+      name,
+      prefix,
+      key_hash: hashToken(key),
+      scopes,
+      created_by: req.user!.userId,
+      expires_at: new Date(now.getTime() + ttlDays * 24 * 60 * 60 * 1000),
+      last_used_at: null,
+      revoked_at: null,
+      created_at: now
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'API key creada. Guárdala ahora: no se volverá a mostrar',
+      data: { ...toPublicApiKey(apiKey), key }
+    });
+  } catch (error) {
+    console.error('Error al crear API key:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @function getApiKeys
+ * @description Lista las API keys (sin la clave ni su hash)
+ *
+ * @param req - Request object
+ * @param res - Response con las claves
+ */
+export const getApiKeys = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const apiKeys = await getApiKeysData();
+    res.status(200).json({
+      success: true,
+      message: 'API keys obtenidas',
+      data: apiKeys.map(toPublicApiKey)
+    });
+  } catch (error) {
+    console.error('Error al obtener API keys:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @function revokeApiKey
+ * @description Revoca una API key. Deja de aceptarse de inmediato
+ *
+ * @param req - Request con el ID de la clave
+ * @param res - Response object
+ */
+export const revokeApiKey = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const revoked = await revokeApiKeyData(req.params.id, new Date());
+
+    if (!revoked) {
+      res.status(404).json({ success: false, message: 'API key no encontrada o ya revocada' });
+      return;
+    }
+
+    res.status(200).json({ success: true, message: 'API key revocada' });
+  } catch (error) {
+    console.error('Error al revocar API key:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
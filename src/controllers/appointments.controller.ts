@@ -1,6 +1,68 @@
-import { RequestHandler } from 'express';
-import { Appointment, AppointmentStatus } from '../interfaces/appointment.interface';
+import { RequestHandler, Response } from 'express';
+import {
+  Appointment,
+  AppointmentChange,
+  AppointmentFee,
+  AppointmentFeeType,
+  AppointmentFeeStatus,
+  CustomerStanding,
+  AppointmentFilters,
+  AppointmentSeriesResult,
+  BookingConflict,
+  AppointmentUpdateRequest,
+  AppointmentStatus,
+  APPOINTMENT_STATUS_TRANSITIONS,
+  SeriesCancellationScope,
+  StylistAvailability,
+  TimeSlot
+} from '../interfaces/appointment.interface';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  SLOT_INTERVAL_MINUTES,
+  DEFAULT_APPOINTMENT_DURATION_MINUTES,
+  MAX_SERIES_OCCURRENCES
+} from '../config/schedule.config';
+import { CANCELLATION_POLICY } from '../config/cancellation.config';
+import {
+  parseDateOnly,
+  addMinutes,
+  atTime,
+  isWithinIntervals,
+  computeAvailableSlots,
+  getRecurringDates
+} from '../utils/availability.utils';
+import { assessCancellationFee } from '../utils/cancellation.utils';
+import { roundCurrency } from '../utils/money.utils';
+import { ensureStyleRecord, getStyleDurationMinutes, initialStyles } from './styles.controller';
+import { getStylistWorkingIntervals } from './schedules.controller';
+import { expireStaleOffers, offerFreedSlot } from './waitlist.controller';
+import { calculateAppointmentPrice, isPricingError } from './pricing.controller';
+import {
+  getStylists as getStylistsData,
+  getStylistById,
+  getStylistByUserId,
+  addStylist
+} from '../data/stylists.database';
+import { getUserById, addUser } from '../data/users.database';
+import {
+  getAppointments as getAppointmentsData,
+  getAppointmentById as getAppointmentByIdData,
+  getActiveStylistAppointments,
+  countCustomerAppointmentsByStatus,
+  createAppointment as createAppointmentData,
+  updateAppointment as updateAppointmentData,
+  deleteAppointment as deleteAppointmentData,
+  resetAppointments as resetAppointmentsData,
+  createAppointmentChange,
+  getAppointmentChanges
+} from '../data/appointments.database';
+import { createAppointmentFee, getCustomerFees } from '../data/fees.database';
+import { getActiveWaitlistHolds } from '../data/waitlist.database';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { getGrantedScope } from '../policies/permissions.policy';
+import { PermissionScope } from '../interfaces/permission.interface';
+import { User, UserRole } from '../interfaces/user.interface';
+import { Stylist } from '../interfaces/stylist.interface';
 
 /**
  * @file Controller para la gestión de citas del sistema LauraBraids.
@@ -8,87 +70,509 @@ import { v4 as uuidv4 } from 'uuid';
  *              reservas, cambios de estado y gestión de horarios.
  */
 
-// Mockup de una base de datos en memoria. Será reemplazado por PostgreSQL.
+// Hash de 'password123', la misma contraseña de los usuarios de ejemplo
+const FIXTURE_PASSWORD_HASH = '$2b$10$u2HBnM7nLD6UwXEErJITW.pwHySwuMxsUj8NLJX2cLMozpbSSR/Ea';
+
+// Clientas de las citas de ejemplo; se crean al reiniciar para cumplir las claves foráneas
+export const initialAppointmentCustomers: User[] = [
+  {
+    id: '550e8400-e29b-41d4-a716-446655440020',
+    name: 'Valentina Ruiz',
+    email: 'valentina.citas@example.com',
+    password_hash: FIXTURE_PASSWORD_HASH,
+    role: UserRole.CUSTOMER,
+    created_at: new Date('2024-06-01'),
+    updated_at: new Date('2024-06-01'),
+  },
+  {
+    id: '550e8400-e29b-41d4-a716-446655440021',
+    name: 'Camila Torres',
+    email: 'camila.citas@example.com',
+    password_hash: FIXTURE_PASSWORD_HASH,
+    role: UserRole.CUSTOMER,
+    created_at: new Date('2024-06-01'),
+    updated_at: new Date('2024-06-01'),
+  },
+  {
+    id: '550e8400-e29b-41d4-a716-446655440022',
+    name: 'Daniela Ríos',
+    email: 'daniela.citas@example.com',
+    password_hash: FIXTURE_PASSWORD_HASH,
+    role: UserRole.CUSTOMER,
+    created_at: new Date('2024-06-01'),
+    updated_at: new Date('2024-06-01'),
+  },
+];
+
+// Usuarios con rol STYLIST vinculados a las estilistas de las citas de ejemplo
+export const initialStylistUsers: User[] = [
+  {
+    id: '550e8400-e29b-41d4-a716-446655440030',
+    name: 'Laura Braids',
+    email: 'laura.estilista@example.com',
+    password_hash: FIXTURE_PASSWORD_HASH,
+    role: UserRole.STYLIST,
+    created_at: new Date('2024-06-01'),
+    updated_at: new Date('2024-06-01'),
+  },
+  {
+    id: '550e8400-e29b-41d4-a716-446655440031',
+    name: 'Sofía Mendoza',
+    email: 'sofia.estilista@example.com',
+    password_hash: FIXTURE_PASSWORD_HASH,
+    role: UserRole.STYLIST,
+    created_at: new Date('2024-06-01'),
+    updated_at: new Date('2024-06-01'),
+  },
+];
+
+// Estilistas de las citas de ejemplo
+export const initialAppointmentStylists: Stylist[] = [
+  {
+    id: '550e8400-e29b-41d4-a716-446655440010',
+    user_id: initialStylistUsers[0].id,
+    name: 'Laura Braids',
+    specialty: 'Trenzas Africanas',
+    photo_url: 'https://example.com/laura.jpg',
+    description: 'Especialista en box braids y knotless.',
+    is_featured: true,
+    created_at: new Date('2024-06-01'),
+    updated_at: new Date('2024-06-01'),
+  },
+  {
+    id: '550e8400-e29b-41d4-a716-446655440011',
+    user_id: initialStylistUsers[1].id,
+    name: 'Sofía Mendoza',
+    specialty: 'Cornrows',
+    photo_url: 'https://example.com/sofia.jpg',
+    description: 'Cornrows y peinados de fantasía.',
+    is_featured: false,
+    created_at: new Date('2024-06-01'),
+    updated_at: new Date('2024-06-01'),
+  },
+];
+
+// Citas de ejemplo que se cargan al reiniciar los datos (testing y desarrollo)
 export const initialAppointments: Appointment[] = [
   {
     id: uuidv4(),
-    user_id: 'user-1',
-    stylist_id: 'stylist-1', 
-    style_id: 'style-1',
+    user_id: initialAppointmentCustomers[0].id,
+    stylist_id: initialAppointmentStylists[0].id,
+    style_id: initialStyles[0].id,
     appointment_date: new Date('2024-07-15T10:00:00'),
+    estimated_end_date: new Date('2024-07-15T14:00:00'),
     status: AppointmentStatus.SCHEDULED,
+    total_price: 150,
     notes: 'Primera cita, cliente quiere Box Braids largas',
+    cancellation_reason: null,
+    cancelled_at: null,
     created_at: new Date('2024-07-01'),
     updated_at: new Date('2024-07-01'),
   },
   {
     id: uuidv4(),
-    user_id: 'user-2',
-    stylist_id: 'stylist-2',
-    style_id: 'style-2',
+    user_id: initialAppointmentCustomers[1].id,
+    stylist_id: initialAppointmentStylists[1].id,
+    style_id: initialStyles[1].id,
     appointment_date: new Date('2024-07-10T14:30:00'),
+    estimated_end_date: new Date('2024-07-10T16:00:00'),
     status: AppointmentStatus.COMPLETED,
+    total_price: 60,
     notes: 'Cliente regular, satisfecha con el resultado',
+    cancellation_reason: null,
+    cancelled_at: null,
     created_at: new Date('2024-06-25'),
     updated_at: new Date('2024-07-10'),
   },
   {
     id: uuidv4(),
-    user_id: 'user-3',
-    stylist_id: 'stylist-1',
-    style_id: 'style-3',
+    user_id: initialAppointmentCustomers[1].id,
+    stylist_id: initialAppointmentStylists[0].id,
+    style_id: initialStyles[2].id,
     appointment_date: new Date('2024-07-20T11:00:00'),
+    estimated_end_date: new Date('2024-07-20T14:00:00'),
     status: AppointmentStatus.CANCELLED,
+    total_price: 120,
     notes: 'Cliente canceló por motivos personales',
+    cancellation_reason: 'Motivos personales',
+    cancelled_at: new Date('2024-07-18'),
     created_at: new Date('2024-07-05'),
     updated_at: new Date('2024-07-18'),
   },
 ];
 
-let appointments: Appointment[] = [...initialAppointments];
-
 /**
  * @description Reinicia los datos de citas al estado inicial.
+ * Crea antes las clientas, estilistas y estilos a los que apuntan las citas de ejemplo.
  * Útil para testing y desarrollo.
  */
-export const resetAppointments = () => {
-  appointments = [...initialAppointments];
+export const resetAppointments = async (): Promise<void> => {
+  await resetAppointmentsData();
+
+  for (const user of [...initialAppointmentCustomers, ...initialStylistUsers]) {
+    if (!(await getUserById(user.id))) {
+      await addUser(user);
+    }
+  }
+  for (const stylist of initialAppointmentStylists) {
+    if (!(await getStylistById(stylist.id))) {
+      await addStylist(stylist);
+    }
+  }
+  for (const style of initialStyles) {
+    await ensureStyleRecord(style.id);
+  }
+
+  for (const appointment of initialAppointments) {
+    await createAppointmentData(appointment);
+  }
 };
 
 /**
- * @description Obtiene todas las citas del sistema.
- * @param {Request} req - El objeto de solicitud de Express.
+ * @description Construye los campos a actualizar para un cambio de estado,
+ * respetando la tabla de transiciones permitidas.
+ * @param {Appointment} current - Cita en su estado actual.
+ * @param {AppointmentStatus} nextStatus - Estado solicitado.
+ * @param {string} reason - Motivo del cambio (obligatorio al cancelar).
+ * @returns {AppointmentUpdateRequest | null} Campos a actualizar o null si la transición no está permitida.
+ */
+const buildStatusUpdate = (
+  current: Appointment,
+  nextStatus: AppointmentStatus,
+  reason?: string
+): AppointmentUpdateRequest | null => {
+  if (!APPOINTMENT_STATUS_TRANSITIONS[current.status].includes(nextStatus)) {
+    return null;
+  }
+
+  const updates: AppointmentUpdateRequest = { status: nextStatus };
+  if (nextStatus === AppointmentStatus.CANCELLED) {
+    updates.cancellation_reason = reason || null;
+    updates.cancelled_at = new Date();
+  }
+
+  return updates;
+};
+
+/**
+ * @description Registra la penalización que corresponde a un cambio de estado según la
+ * política de cancelación. Si se exonera, el cargo queda registrado como WAIVED.
+ * @param {Appointment} appointment - Cita antes del cambio.
+ * @param {AppointmentStatus} nextStatus - Estado aplicado.
+ * @param {boolean} waiveFee - true si un administrador exonera la penalización.
+ * @returns {Promise<AppointmentFee | null>} Penalización registrada o null si no corresponde.
+ */
+const applyCancellationPolicy = async (
+  appointment: Appointment,
+  nextStatus: AppointmentStatus,
+  waiveFee: boolean
+): Promise<AppointmentFee | null> => {
+  const now = new Date();
+  const assessment = assessCancellationFee(appointment, nextStatus, now, CANCELLATION_POLICY);
+  if (!assessment) return null;
+
+  return await createAppointmentFee({
+    id: uuidv4(),
+    appointment_id: appointment.id,
+    user_id: appointment.user_id,
+    fee_type: assessment.fee_type,
+    amount: assessment.amount,
+    status: waiveFee ? AppointmentFeeStatus.WAIVED : AppointmentFeeStatus.PENDING,
+    created_at: now,
+    updated_at: now
+  });
+};
+
+/**
+ * @description Responde con el error de transición de estado no permitida.
  * @param {Response} res - El objeto de respuesta de Express.
+ * @param {Appointment} current - Cita en su estado actual.
+ * @param {AppointmentStatus} nextStatus - Estado solicitado.
  */
-export const getAppointments: RequestHandler = (req, res) => {
-  const { user_id, stylist_id, status, date } = req.query;
-  let filteredAppointments = [...appointments];
-  
-  // Filtrar por user_id si se solicita
-  if (user_id && typeof user_id === 'string') {
-    filteredAppointments = filteredAppointments.filter(a => a.user_id === user_id);
-  }
-  
-  // Filtrar por stylist_id si se solicita
-  if (stylist_id && typeof stylist_id === 'string') {
-    filteredAppointments = filteredAppointments.filter(a => a.stylist_id === stylist_id);
-  }
-  
-  // Filtrar por estado si se solicita
-  if (status && typeof status === 'string') {
-    filteredAppointments = filteredAppointments.filter(a => a.status === status);
-  }
-  
-  // Filtrar por fecha si se solicita (solo día, no hora)
-  if (date && typeof date === 'string') {
-    const filterDate = new Date(date);
-    filteredAppointments = filteredAppointments.filter(a => {
-      const appointmentDate = new Date(a.appointment_date);
-      return appointmentDate.toDateString() === filterDate.toDateString();
-    });
+const sendInvalidTransition = (
+  res: Response,
+  current: Appointment,
+  nextStatus: AppointmentStatus
+): void => {
+  res.status(409).json({
+    message: `No se puede cambiar el estado de la cita de ${current.status} a ${nextStatus}`,
+    error: 'INVALID_STATUS_TRANSITION',
+    current_status: current.status,
+    allowed_transitions: APPOINTMENT_STATUS_TRANSITIONS[current.status]
+  });
+};
+
+// Estados que solo se pueden marcar una vez llegada la hora de la cita
+const STARTED_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.IN_PROGRESS,
+  AppointmentStatus.NO_SHOW
+];
+
+/**
+ * @description Responde 409 si se intenta empezar una cita o marcarla como NO_SHOW antes de su
+ * hora de inicio, para no cobrar inasistencias de citas futuras.
+ * @param {Response} res - El objeto de respuesta de Express.
+ * @param {Appointment} current - Cita en su estado actual.
+ * @param {AppointmentStatus} nextStatus - Estado solicitado.
+ * @returns {boolean} true si se rechazó el cambio.
+ */
+const rejectBeforeStart = (
+  res: Response,
+  current: Appointment,
+  nextStatus: AppointmentStatus
+): boolean => {
+  if (!STARTED_STATUSES.includes(nextStatus) || current.appointment_date <= new Date()) {
+    return false;
+  }
+
+  res.status(409).json({
+    message: `No se puede marcar la cita como ${nextStatus} antes de su hora de inicio`,
+    error: 'APPOINTMENT_NOT_STARTED',
+    appointment_date: current.appointment_date
+  });
+  return true;
+};
+
+// Estados en los que una cita todavía puede moverse de fecha
+const RESCHEDULABLE_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED
+];
+
+/**
+ * @description Indica si un intervalo cae completamente dentro del horario laboral de una
+ * estilista, teniendo en cuenta sus descansos y bloqueos de fechas.
+ * @param {string} stylistId - ID de la estilista.
+ * @param {TimeSlot} slot - Intervalo de la cita.
+ * @returns {Promise<boolean>} true si la estilista atiende durante todo el intervalo.
+ */
+const isWithinWorkingHours = async (stylistId: string, slot: TimeSlot): Promise<boolean> => {
+  const day = new Date(slot.start);
+  day.setHours(0, 0, 0, 0);
+  return isWithinIntervals(slot, await getStylistWorkingIntervals(stylistId, day));
+};
+
+/**
+ * @description Obtiene los intervalos ocupados de una estilista en un rango de tiempo.
+ * Los horarios reservados para ofertas vigentes de la lista de espera también cuentan;
+ * antes se vencen las ofertas caducadas para que pasen a la siguiente solicitud.
+ * @param {string} stylistId - ID de la estilista.
+ * @param {TimeSlot} range - Rango de tiempo a consultar.
+ * @param {string} excludeId - ID de una cita a ignorar (p. ej. la que se está modificando).
+ * @returns {Promise<TimeSlot[]>} Intervalos ocupados por citas activas y ofertas vigentes.
+ */
+const getStylistBusyIntervals = async (
+  stylistId: string,
+  range: TimeSlot,
+  excludeId?: string
+): Promise<TimeSlot[]> => {
+  await expireStaleOffers();
+  const activeAppointments = await getActiveStylistAppointments(stylistId, range, excludeId);
+  const waitlistHolds = await getActiveWaitlistHolds(stylistId, range, new Date());
+
+  return [
+    ...activeAppointments.map(a => ({ start: a.appointment_date, end: a.estimated_end_date })),
+    ...waitlistHolds.map(entry => ({ start: entry.offered_start as Date, end: entry.offered_end as Date }))
+  ];
+};
+
+/**
+ * @description Comprueba que la clienta y la estilista de una reserva existen, para no
+ * llegar a la base de datos con una clave foránea inválida.
+ * @param {string} userId - ID de la clienta.
+ * @param {string} stylistId - ID de la estilista.
+ * @returns {Promise<string | null>} Mensaje de error o null si ambas existen.
+ */
+const findMissingParticipant = async (userId: string, stylistId: string): Promise<string | null> => {
+  if (!(await getStylistById(stylistId))) return 'Estilista no encontrada';
+  if (!(await getUserById(userId))) return 'Cliente no encontrado';
+  return null;
+};
+
+/**
+ * @description Comprueba si una estilista puede atender en un intervalo: debe estar dentro
+ * de su horario laboral y no solaparse con otra cita activa.
+ * @param {string} stylistId - ID de la estilista.
+ * @param {TimeSlot} slot - Intervalo de la cita.
+ * @param {string} excludeId - ID de una cita a ignorar (p. ej. la que se está moviendo).
+ * @returns {Promise<BookingConflict | null>} Motivo del rechazo o null si el intervalo está libre.
+ */
+const findBookingConflict = async (
+  stylistId: string,
+  slot: TimeSlot,
+  excludeId?: string
+): Promise<BookingConflict | null> => {
+  if (!(await isWithinWorkingHours(stylistId, slot))) {
+    return { message: 'La cita está fuera del horario laboral de la estilista' };
+  }
+
+  const [conflict] = await getStylistBusyIntervals(stylistId, slot, excludeId);
+  if (conflict) {
+    return { message: 'La estilista ya tiene una cita programada en ese horario', conflict };
+  }
+
+  return null;
+};
+
+/**
+ * @description Calcula los horarios libres de una estilista para un día.
+ * @param {string} stylistId - ID de la estilista.
+ * @param {string} date - Día a consultar (YYYY-MM-DD).
+ * @param {number} duration - Duración requerida en minutos.
+ * @returns {Promise<StylistAvailability>} Disponibilidad de la estilista.
+ */
+const buildStylistAvailability = async (
+  stylistId: string,
+  date: string,
+  duration: number
+): Promise<StylistAvailability> => {
+  const day = parseDateOnly(date);
+  const workingIntervals = await getStylistWorkingIntervals(stylistId, day);
+  const busyIntervals = await getStylistBusyIntervals(stylistId, {
+    start: day,
+    end: addMinutes(day, 24 * 60)
+  });
+
+  const slots = computeAvailableSlots(
+    workingIntervals,
+    busyIntervals,
+    duration,
+    SLOT_INTERVAL_MINUTES,
+    new Date()
+  );
+
+  return {
+    stylist_id: stylistId,
+    date,
+    duration,
+    available: slots.length > 0,
+    slots
+  };
+};
+
+/**
+ * @description Consulta la disponibilidad de una estilista en una fecha.
+ * @param {Request} req - El objeto de solicitud de Express, con stylist_id, date y duration en la query.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const checkAvailability: RequestHandler = async (req, res) => {
+  try {
+    const { stylist_id, date, duration } = req.query;
+    const durationMinutes = Number(duration) || DEFAULT_APPOINTMENT_DURATION_MINUTES;
+
+    if (!(await getStylistById(String(stylist_id)))) {
+      res.status(404).json({ message: 'Estilista no encontrada' });
+      return;
+    }
+
+    res.json(await buildStylistAvailability(String(stylist_id), String(date), durationMinutes));
+  } catch (error) {
+    console.error('Error al consultar disponibilidad:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Obtiene los horarios libres de una estilista para un día.
+ * @param {Request} req - El objeto de solicitud de Express, con el ID de la estilista en los parámetros.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const getStylistTimeSlots: RequestHandler = async (req, res) => {
+  try {
+    const { date, duration } = req.query;
+    const durationMinutes = Number(duration) || DEFAULT_APPOINTMENT_DURATION_MINUTES;
+
+    if (!(await getStylistById(req.params.id))) {
+      res.status(404).json({ message: 'Estilista no encontrada' });
+      return;
+    }
+
+    res.json(await buildStylistAvailability(req.params.id, String(date), durationMinutes));
+  } catch (error) {
+    console.error('Error al obtener horarios de la estilista:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Lista las estilistas libres en una fecha. Con hora, devuelve las que
+ * atienden y no tienen citas en ese momento; sin hora, las que tienen algún horario libre ese día.
+ * @param {Request} req - El objeto de solicitud de Express, con date y time en la query.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const getAvailableStylists: RequestHandler = async (req, res) => {
+  try {
+    const date = String(req.query.date);
+    const time = typeof req.query.time === 'string' ? req.query.time : undefined;
+    const day = parseDateOnly(date);
+
+    const stylists = await getStylistsData();
+    const availableStylists = [];
+
+    for (const stylist of stylists) {
+      if (time) {
+        // Se considera libre si atiende y no tiene citas durante el intervalo mínimo de reserva
+        const start = atTime(day, time);
+        const moment: TimeSlot = { start, end: addMinutes(start, SLOT_INTERVAL_MINUTES) };
+        if (!(await isWithinWorkingHours(stylist.id, moment))) continue;
+
+        const busyIntervals = await getStylistBusyIntervals(stylist.id, moment);
+        if (busyIntervals.length === 0) availableStylists.push(stylist);
+      } else {
+        const availability = await buildStylistAvailability(
+          stylist.id,
+          date,
+          DEFAULT_APPOINTMENT_DURATION_MINUTES
+        );
+        if (availability.available) availableStylists.push(stylist);
+      }
+    }
+
+    res.json({ date, time: time || null, stylists: availableStylists });
+  } catch (error) {
+    console.error('Error al obtener estilistas disponibles:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Obtiene las citas visibles para el usuario: todas con appointments:list:any;
+ * si no, las de la estilista vinculada (rol STYLIST) o las del propio cliente.
+ * @param {AuthenticatedRequest} req - El objeto de solicitud de Express, ya autenticado.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const getAppointments = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { user_id, stylist_id, status, date, series_id } = req.query;
+    const filters: AppointmentFilters = {};
+
+    // Filtros opcionales por cliente, estilista, estado, día y serie
+    if (user_id && typeof user_id === 'string') filters.user_id = user_id;
+    if (stylist_id && typeof stylist_id === 'string') filters.stylist_id = stylist_id;
+    if (status && typeof status === 'string') filters.status = status as AppointmentStatus;
+    if (date && typeof date === 'string') filters.date = date;
+    if (series_id && typeof series_id === 'string') filters.series_id = series_id;
+
+    // Sin alcance any, una estilista solo ve sus citas asignadas y un cliente las suyas
+    if (getGrantedScope(req.user!, 'appointments:list') !== PermissionScope.ANY) {
+      if (req.user!.role === UserRole.STYLIST) {
+        const stylist = await getStylistByUserId(req.user!.userId);
+        if (!stylist) {
+          res.json([]);
+          return;
+        }
+        filters.stylist_id = stylist.id;
+      } else {
+        filters.user_id = req.user!.userId;
+      }
+    }
+
+    const appointments = await getAppointmentsData(filters);
+    res.json(appointments);
+  } catch (error) {
+    console.error('Error al obtener citas:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
   }
-  
-  res.json(filteredAppointments);
 };
 
 /**
@@ -96,14 +580,19 @@ export const getAppointments: RequestHandler = (req, res) => {
  * @param {Request} req - El objeto de solicitud de Express, con el ID en los parámetros.
  * @param {Response} res - El objeto de respuesta de Express.
  */
-export const getAppointmentById: RequestHandler = (req, res) => {
-  const id = req.params.id;
-  const appointment = appointments.find(a => a.id === id);
-  
-  if (appointment) {
+export const getAppointmentById: RequestHandler = async (req, res) => {
+  try {
+    const appointment = await getAppointmentByIdData(req.params.id);
+
+    if (!appointment) {
+      res.status(404).json({ message: 'Cita no encontrada' });
+      return;
+    }
+
     res.json(appointment);
-  } else {
-    res.status(404).json({ message: 'Cita no encontrada' });
+  } catch (error) {
+    console.error('Error al obtener cita por ID:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
   }
 };
 
@@ -112,60 +601,229 @@ export const getAppointmentById: RequestHandler = (req, res) => {
  * @param {Request} req - El objeto de solicitud de Express, con los datos de la cita en el cuerpo.
  * @param {Response} res - El objeto de respuesta de Express.
  */
-export const createAppointment: RequestHandler = (req, res) => {
-  const { user_id, stylist_id, style_id, appointment_date, notes } = req.body;
+export const createAppointment: RequestHandler = async (req, res) => {
+  try {
+    const { user_id, stylist_id, style_id, appointment_date, notes, add_on_ids } = req.body;
 
-  // Validación simple de los datos de entrada
-  if (!user_id || !stylist_id || !style_id || !appointment_date) {
-    res.status(400).json({ 
-      message: 'Faltan campos requeridos: user_id, stylist_id, style_id, appointment_date' 
+    // Validación simple de los datos de entrada
+    if (!user_id || !stylist_id || !style_id || !appointment_date) {
+      res.status(400).json({
+        message: 'Faltan campos requeridos: user_id, stylist_id, style_id, appointment_date'
+      });
+      return;
+    }
+
+    // Validar formato de fecha
+    const appointmentDateTime = new Date(appointment_date);
+    if (isNaN(appointmentDateTime.getTime())) {
+      res.status(400).json({ message: 'Formato de fecha inválido' });
+      return;
+    }
+
+    // Validar que la fecha sea futura
+    const now = new Date();
+    if (appointmentDateTime <= now) {
+      res.status(400).json({ message: 'La fecha de la cita debe ser futura' });
+      return;
+    }
+
+    // Verificar que la clienta y la estilista existen
+    const missingParticipant = await findMissingParticipant(user_id, stylist_id);
+    if (missingParticipant) {
+      res.status(404).json({ message: missingParticipant });
+      return;
+    }
+
+    // El precio se calcula en el servidor; cualquier precio enviado por el cliente se ignora
+    const priceBreakdown = await calculateAppointmentPrice(
+      style_id,
+      stylist_id,
+      Array.isArray(add_on_ids) ? add_on_ids : []
+    );
+    if (isPricingError(priceBreakdown)) {
+      res.status(400).json(priceBreakdown);
+      return;
+    }
+
+    // Verificar disponibilidad: dentro del horario laboral y sin solaparse con otra cita activa
+    const estimatedEndDate = addMinutes(appointmentDateTime, getStyleDurationMinutes(style_id));
+    const bookingConflict = await findBookingConflict(stylist_id, {
+      start: appointmentDateTime,
+      end: estimatedEndDate
     });
-    return;
-  }
 
-  // Validar formato de fecha
-  const appointmentDateTime = new Date(appointment_date);
-  if (isNaN(appointmentDateTime.getTime())) {
-    res.status(400).json({ message: 'Formato de fecha inválido' });
-    return;
-  }
+    if (bookingConflict) {
+      res.status(409).json(bookingConflict);
+      return;
+    }
 
-  // Validar que la fecha sea futura
-  const now = new Date();
-  if (appointmentDateTime <= now) {
-    res.status(400).json({ message: 'La fecha de la cita debe ser futura' });
-    return;
+    // Crear la nueva cita
+    await ensureStyleRecord(style_id);
+    const newAppointment: Appointment = {
+      id: uuidv4(),
+      user_id,
+      stylist_id,
+      style_id,
+      appointment_date: appointmentDateTime,
+      estimated_end_date: estimatedEndDate,
+      status: AppointmentStatus.SCHEDULED,
+      total_price: priceBreakdown.total_price,
+      price_breakdown: priceBreakdown,
+      notes: notes || '',
+      cancellation_reason: null,
+      cancelled_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    const createdAppointment = await createAppointmentData(newAppointment);
+
+    // Devolver la nueva cita con el código de estado 201 (Created)
+    res.status(201).json(createdAppointment);
+  } catch (error) {
+    console.error('Error al crear cita:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
   }
+};
 
-  // Verificar disponibilidad (básica) - no puede haber otra cita en la misma fecha/hora para la misma estilista
-  const conflictingAppointment = appointments.find(a => 
-    a.stylist_id === stylist_id && 
-    a.appointment_date.getTime() === appointmentDateTime.getTime() &&
-    a.status === AppointmentStatus.SCHEDULED
-  );
+/**
+ * @description Reserva una serie de citas que se repite cada N semanas. Cada cita se
+ * comprueba por separado; las fechas que no se pueden reservar se informan en failed.
+ * @param {Request} req - El objeto de solicitud de Express, con los datos de la serie en el cuerpo.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const createAppointmentSeries: RequestHandler = async (req, res) => {
+  try {
+    const {
+      user_id,
+      stylist_id,
+      style_id,
+      first_appointment_date,
+      interval_weeks,
+      occurrences,
+      end_date,
+      notes,
+      add_on_ids
+    } = req.body;
+
+    // Verificar que la clienta y la estilista existen
+    const missingParticipant = await findMissingParticipant(user_id, stylist_id);
+    if (missingParticipant) {
+      res.status(404).json({ message: missingParticipant });
+      return;
+    }
+
+    const priceBreakdown = await calculateAppointmentPrice(style_id, stylist_id, add_on_ids || []);
+    if (isPricingError(priceBreakdown)) {
+      res.status(400).json(priceBreakdown);
+      return;
+    }
+
+    const dates = getRecurringDates(
+      new Date(first_appointment_date),
+      interval_weeks,
+      occurrences || MAX_SERIES_OCCURRENCES,
+      end_date ? atTime(parseDateOnly(end_date), '23:59') : undefined
+    );
+    const durationMinutes = getStyleDurationMinutes(style_id);
+    await ensureStyleRecord(style_id);
 
-  if (conflictingAppointment) {
-    res.status(409).json({ message: 'La estilista ya tiene una cita programada en esa fecha y hora' });
-    return;
+    const result: AppointmentSeriesResult = { series_id: uuidv4(), created: [], failed: [] };
+
+    for (const appointmentDate of dates) {
+      const estimatedEndDate = addMinutes(appointmentDate, durationMinutes);
+      const bookingConflict = await findBookingConflict(stylist_id, {
+        start: appointmentDate,
+        end: estimatedEndDate
+      });
+
+      if (bookingConflict) {
+        result.failed.push({ appointment_date: appointmentDate, reason: bookingConflict.message });
+        continue;
+      }
+
+      const now = new Date();
+      result.created.push(await createAppointmentData({
+        id: uuidv4(),
+        user_id,
+        stylist_id,
+        style_id,
+        appointment_date: appointmentDate,
+        estimated_end_date: estimatedEndDate,
+        status: AppointmentStatus.SCHEDULED,
+        total_price: priceBreakdown.total_price,
+        price_breakdown: priceBreakdown,
+        notes: notes || '',
+        cancellation_reason: null,
+        cancelled_at: null,
+        series_id: result.series_id,
+        created_at: now,
+        updated_at: now,
+      }));
+    }
+
+    if (result.created.length === 0) {
+      res.status(409).json({ message: 'No se pudo reservar ninguna cita de la serie', ...result });
+      return;
+    }
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Error al crear serie de citas:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
   }
+};
 
-  // Crear la nueva cita
-  const newAppointment: Appointment = {
-    id: uuidv4(),
-    user_id,
-    stylist_id,
-    style_id,
-    appointment_date: appointmentDateTime,
-    status: AppointmentStatus.SCHEDULED,
-    notes: notes || '',
-    created_at: new Date(),
-    updated_at: new Date(),
-  };
+/**
+ * @description Cancela citas de una serie recurrente: solo una, una y las siguientes, o todas.
+ * Las citas que ya no se pueden cancelar (completadas, canceladas...) se informan en skipped.
+ * @param {Request} req - El objeto de solicitud de Express, con scope, appointment_id y reason en el cuerpo.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const cancelAppointmentSeries: RequestHandler = async (req, res) => {
+  try {
+    const { seriesId } = req.params;
+    const { scope, appointment_id, reason, waive_fee } = req.body;
+
+    const occurrences = await getAppointmentsData({ series_id: seriesId });
+    if (occurrences.length === 0) {
+      res.status(404).json({ message: 'Serie no encontrada' });
+      return;
+    }
+
+    let targets = occurrences;
+    if (scope !== SeriesCancellationScope.ALL) {
+      const anchor = occurrences.find(a => a.id === appointment_id);
+      if (!anchor) {
+        res.status(404).json({ message: 'La cita no pertenece a la serie' });
+        return;
+      }
+
+      targets = scope === SeriesCancellationScope.THIS
+        ? [anchor]
+        : occurrences.filter(a => a.appointment_date >= anchor.appointment_date);
+    }
+
+    const cancelled = [];
+    const skipped = [];
+    for (const appointment of targets) {
+      const statusUpdate = buildStatusUpdate(appointment, AppointmentStatus.CANCELLED, reason);
+      if (!statusUpdate) {
+        skipped.push({ id: appointment.id, status: appointment.status });
+        continue;
+      }
 
-  appointments.push(newAppointment);
+      const updatedAppointment = await updateAppointmentData(appointment.id, statusUpdate);
+      const fee = await applyCancellationPolicy(appointment, AppointmentStatus.CANCELLED, waive_fee === true);
+      await offerFreedSlot(appointment);
+      cancelled.push(fee ? { ...updatedAppointment, fee } : updatedAppointment);
+    }
 
-  // Devolver la nueva cita con el código de estado 201 (Created)
-  res.status(201).json(newAppointment);
+    res.json({ series_id: seriesId, scope, cancelled, skipped });
+  } catch (error) {
+    console.error('Error al cancelar serie de citas:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
 };
 
 /**
@@ -173,55 +831,232 @@ export const createAppointment: RequestHandler = (req, res) => {
  * @param {Request} req - El objeto de solicitud de Express.
  * @param {Response} res - El objeto de respuesta de Express.
  */
-export const updateAppointment: RequestHandler = (req, res) => {
-  const id = req.params.id;
-  const appointmentIndex = appointments.findIndex(a => a.id === id);
+export const updateAppointment: RequestHandler = async (req, res) => {
+  try {
+    const id = req.params.id;
+    const currentAppointment = await getAppointmentByIdData(id);
+
+    if (!currentAppointment) {
+      res.status(404).json({ message: 'Cita no encontrada' });
+      return;
+    }
+
+    const { status, notes, reason, waive_fee } = req.body;
 
-  if (appointmentIndex === -1) {
-    res.status(404).json({ message: 'Cita no encontrada' });
-    return;
+    // Los cambios de fecha quedan en el historial, así que solo se hacen al reprogramar
+    if (req.body.appointment_date !== undefined) {
+      res.status(400).json({
+        error: 'RESCHEDULE_REQUIRED',
+        message: 'Para cambiar la fecha use POST /api/appointments/:id/reschedule con un motivo'
+      });
+      return;
+    }
+
+    // Validar estado si se proporciona
+    if (status && !Object.values(AppointmentStatus).includes(status)) {
+      res.status(400).json({
+        message: `Estado inválido. Debe ser uno de: ${Object.values(AppointmentStatus).join(', ')}`
+      });
+      return;
+    }
+
+    // Los cambios de estado deben seguir la tabla de transiciones
+    let statusUpdate: AppointmentUpdateRequest = {};
+    if (status && status !== currentAppointment.status) {
+      if (status === AppointmentStatus.CANCELLED && !reason) {
+        res.status(400).json({ message: 'Debe proporcionar una razón para cancelar la cita' });
+        return;
+      }
+
+      const transition = buildStatusUpdate(currentAppointment, status, reason);
+      if (!transition) {
+        sendInvalidTransition(res, currentAppointment, status);
+        return;
+      }
+      if (rejectBeforeStart(res, currentAppointment, status)) return;
+      statusUpdate = transition;
+    }
+
+    // Actualizar campos proporcionados
+    const updatedAppointment = await updateAppointmentData(id, {
+      ...statusUpdate,
+      notes
+    });
+
+    const fee = statusUpdate.status
+      ? await applyCancellationPolicy(currentAppointment, statusUpdate.status, waive_fee === true)
+      : null;
+
+    // El horario liberado se ofrece a la lista de espera
+    if (statusUpdate.status === AppointmentStatus.CANCELLED) {
+      await offerFreedSlot(updatedAppointment || currentAppointment);
+    }
+
+    res.json(fee ? { ...updatedAppointment, fee } : updatedAppointment || currentAppointment);
+  } catch (error) {
+    console.error('Error al actualizar cita:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
   }
+};
 
-  const { appointment_date, status, notes } = req.body;
-  const currentAppointment = appointments[appointmentIndex];
+/**
+ * @description Cambia el estado de una cita aplicando la tabla de transiciones.
+ * Al cancelar se registran el motivo y la fecha de cancelación.
+ * @param {Request} req - El objeto de solicitud de Express, con status y reason en el cuerpo.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const changeAppointmentStatus: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { status, reason, waive_fee } = req.body;
 
-  // Validar fecha si se proporciona
-  let appointmentDateTime;
-  if (appointment_date) {
-    appointmentDateTime = new Date(appointment_date);
-    if (isNaN(appointmentDateTime.getTime())) {
-      res.status(400).json({ message: 'Formato de fecha inválido' });
+    const currentAppointment = await getAppointmentByIdData(id);
+    if (!currentAppointment) {
+      res.status(404).json({ message: 'Cita no encontrada' });
       return;
     }
 
-    // Validar que la fecha sea futura (solo si el estado no es COMPLETED)
-    const now = new Date();
-    if (appointmentDateTime <= now && status !== AppointmentStatus.COMPLETED) {
-      res.status(400).json({ message: 'La fecha de la cita debe ser futura' });
+    const statusUpdate = buildStatusUpdate(currentAppointment, status, reason);
+    if (!statusUpdate) {
+      sendInvalidTransition(res, currentAppointment, status);
       return;
     }
+    if (rejectBeforeStart(res, currentAppointment, status)) return;
+
+    const updatedAppointment = await updateAppointmentData(id, statusUpdate);
+    const fee = await applyCancellationPolicy(currentAppointment, status, waive_fee === true);
+
+    // El horario liberado se ofrece a la lista de espera
+    if (status === AppointmentStatus.CANCELLED) {
+      await offerFreedSlot(currentAppointment);
+    }
+
+    res.json(fee ? { ...updatedAppointment, fee } : updatedAppointment);
+  } catch (error) {
+    console.error('Error al cambiar estado de la cita:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
   }
+};
+
+/**
+ * @description Reprograma una cita a una nueva fecha conservando su duración.
+ * Revisa el horario laboral y los solapamientos, y registra el cambio en el historial.
+ * @param {AuthenticatedRequest} req - El objeto de solicitud de Express, con new_appointment_date y reason en el cuerpo.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const rescheduleAppointment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { new_appointment_date, reason } = req.body;
 
-  // Validar estado si se proporciona
-  if (status && !Object.values(AppointmentStatus).includes(status)) {
-    res.status(400).json({ 
-      message: `Estado inválido. Debe ser uno de: ${Object.values(AppointmentStatus).join(', ')}` 
+    const currentAppointment = await getAppointmentByIdData(id);
+    if (!currentAppointment) {
+      res.status(404).json({ message: 'Cita no encontrada' });
+      return;
+    }
+
+    if (!RESCHEDULABLE_STATUSES.includes(currentAppointment.status)) {
+      res.status(409).json({
+        message: `No se puede reprogramar una cita en estado ${currentAppointment.status}`,
+        error: 'APPOINTMENT_NOT_RESCHEDULABLE'
+      });
+      return;
+    }
+
+    const durationMs = currentAppointment.estimated_end_date.getTime() -
+      currentAppointment.appointment_date.getTime();
+    const newSlot: TimeSlot = {
+      start: new Date(new_appointment_date),
+      end: new Date(new Date(new_appointment_date).getTime() + durationMs)
+    };
+
+    const bookingConflict = await findBookingConflict(
+      currentAppointment.stylist_id,
+      newSlot,
+      currentAppointment.id
+    );
+    if (bookingConflict) {
+      res.status(409).json(bookingConflict);
+      return;
+    }
+
+    const updatedAppointment = await updateAppointmentData(id, {
+      appointment_date: newSlot.start,
+      estimated_end_date: newSlot.end
     });
-    return;
+
+    const change: AppointmentChange = {
+      id: uuidv4(),
+      appointment_id: id,
+      previous_date: currentAppointment.appointment_date,
+      new_date: newSlot.start,
+      reason,
+      changed_by: req.user!.userId,
+      created_at: new Date()
+    };
+    await createAppointmentChange(change);
+
+    res.json(updatedAppointment);
+  } catch (error) {
+    console.error('Error al reprogramar cita:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
   }
+};
 
-  // Actualizar campos proporcionados
-  const updatedAppointment: Appointment = {
-    ...currentAppointment,
-    appointment_date: appointmentDateTime || currentAppointment.appointment_date,
-    status: status || currentAppointment.status,
-    notes: notes !== undefined ? notes : currentAppointment.notes,
-    updated_at: new Date(),
-  };
+/**
+ * @description Obtiene el historial de reprogramaciones de una cita.
+ * @param {Request} req - El objeto de solicitud de Express, con el ID en los parámetros.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const getAppointmentHistory: RequestHandler = async (req, res) => {
+  try {
+    const appointment = await getAppointmentByIdData(req.params.id);
+    if (!appointment) {
+      res.status(404).json({ message: 'Cita no encontrada' });
+      return;
+    }
+
+    const changes = await getAppointmentChanges(appointment.id);
+    res.json({
+      appointment_id: appointment.id,
+      total_changes: changes.length,
+      changes
+    });
+  } catch (error) {
+    console.error('Error al obtener historial de la cita:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Obtiene el saldo pendiente y los incumplimientos de un cliente.
+ * @param {Request} req - El objeto de solicitud de Express, con el ID del cliente en los parámetros.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const getCustomerStanding: RequestHandler = async (req, res) => {
+  try {
+    const userId = req.params.id;
 
-  appointments[appointmentIndex] = updatedAppointment;
+    const fees = await getCustomerFees(userId);
+    const noShowCount = await countCustomerAppointmentsByStatus(userId, AppointmentStatus.NO_SHOW);
+    const pendingBalance = fees
+      .filter(fee => fee.status === AppointmentFeeStatus.PENDING)
+      .reduce((total, fee) => total + fee.amount, 0);
 
-  res.json(updatedAppointment);
+    const standing: CustomerStanding = {
+      user_id: userId,
+      pending_balance: roundCurrency(pendingBalance),
+      no_show_count: noShowCount,
+      late_cancellation_count: fees.filter(fee => fee.fee_type === AppointmentFeeType.LATE_CANCELLATION).length,
+      is_chronic_no_show: noShowCount >= CANCELLATION_POLICY.chronicNoShowThreshold,
+      fees
+    };
+
+    res.json(standing);
+  } catch (error) {
+    console.error('Error al obtener saldo del cliente:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
 };
 
 /**
@@ -229,17 +1064,18 @@ export const updateAppointment: RequestHandler = (req, res) => {
  * @param {Request} req - El objeto de solicitud de Express.
  * @param {Response} res - El objeto de respuesta de Express.
  */
-export const deleteAppointment: RequestHandler = (req, res) => {
-  const id = req.params.id;
-  const appointmentIndex = appointments.findIndex(a => a.id === id);
+export const deleteAppointment: RequestHandler = async (req, res) => {
+  try {
+    const deleted = await deleteAppointmentData(req.params.id);
 
-  if (appointmentIndex === -1) {
-    res.status(404).json({ message: 'Cita no encontrada' });
-    return;
+    if (deleted) {
+      // El código de estado 204 (No Content) es estándar para eliminaciones exitosas.
+      res.status(204).send();
+    } else {
+      res.status(404).json({ message: 'Cita no encontrada' });
+    }
+  } catch (error) {
+    console.error('Error al eliminar cita:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
   }
-
-  appointments.splice(appointmentIndex, 1);
-
-  // El código de estado 204 (No Content) es estándar para eliminaciones exitosas.
-  res.status(204).send();
-};
\ No newline at end of file
+};
@@ -8,8 +8,38 @@ import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
 import { User, UserRole } from '../interfaces/user.interface';
-import { AuthResponse, JWTPayload } from '../interfaces/auth.interface';
+import {
+  AuthResponse,
+  JWTPayload,
+  LoginThrottle,
+  LoginThrottleScope,
+  SessionRevocationReason
+} from '../interfaces/auth.interface';
 import { generateToken, AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+  ACCESS_TOKEN_TTL_MINUTES,
+  REFRESH_TOKEN_TTL_DAYS,
+  PASSWORD_RESET_TOKEN_TTL_MINUTES,
+  EMAIL_VERIFICATION_TOKEN_TTL_HOURS,
+  EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS,
+  EMAIL_VERIFICATION_MAX_SENDS_PER_HOUR,
+  LOGIN_MAX_FAILURES_PER_ACCOUNT,
+  LOGIN_MAX_FAILURES_PER_IP,
+  LOGIN_LOCKOUT_BASE_MINUTES,
+  LOGIN_LOCKOUT_MAX_MINUTES,
+  LOGIN_FAILURE_WINDOW_MINUTES,
+  REQUIRE_2FA_FOR_ADMINS,
+  TWO_FACTOR_MAX_CHALLENGE_ATTEMPTS
+} from '../config/auth.config';
+import { APP_URL } from '../config/mail.config';
+import { generateOpaqueToken, hashToken } from '../utils/token.utils';
+import {
+  LockoutPolicy,
+  registerFailure,
+  getRemainingLockSeconds
+} from '../utils/lockout.utils';
+import { revokeToken, revokeUserTokens } from '../denylist/denylist';
+import { sendMail } from '../mail/mailer';
 import { 
   getUsers, 
   getUserByEmail, 
@@ -18,6 +48,64 @@ import {
   updateUser, 
   resetUsers as resetUsersData 
 } from '../data/users.database';
+import {
+  createSession,
+  getSessionByTokenHash,
+  getActiveUserSessions,
+  rotateSession,
+  revokeSessionFamily,
+  revokeUserSessions
+} from '../data/sessions.database';
+import {
+  createPasswordResetToken,
+  getPasswordResetTokenByHash,
+  consumePasswordResetToken,
+  invalidateUserPasswordResetTokens
+} from '../data/password-resets.database';
+import {
+  createEmailVerificationToken,
+  getEmailVerificationTokenByHash,
+  getUserVerificationTokensSince,
+  consumeEmailVerificationToken,
+  invalidateUserEmailVerificationTokens
+} from '../data/email-verifications.database';
+import {
+  getTwoFactorChallengeByHash,
+  recordFailedChallengeAttempt,
+  consumeTwoFactorChallenge
+} from '../data/two-factor.database';
+import {
+  isTwoFactorEnabled,
+  issueTwoFactorChallenge,
+  verifySecondFactor
+} from './two-factor.controller';
+import {
+  getLoginThrottle,
+  saveLoginThrottle,
+  clearLoginThrottle
+} from '../data/login-throttles.database';
+
+/**
+ * @constant ACCOUNT_LOCKOUT_POLICY
+ * @description Límite de intentos fallidos contra una misma cuenta
+ */
+const ACCOUNT_LOCKOUT_POLICY: LockoutPolicy = {
+  maxFailures: LOGIN_MAX_FAILURES_PER_ACCOUNT,
+  baseMinutes: LOGIN_LOCKOUT_BASE_MINUTES,
+  maxMinutes: LOGIN_LOCKOUT_MAX_MINUTES,
+  windowMinutes: LOGIN_FAILURE_WINDOW_MINUTES
+};
+
+/**
+ * @constant IP_LOCKOUT_POLICY
+ * @description Límite de intentos fallidos desde una misma IP
+ */
+const IP_LOCKOUT_POLICY: LockoutPolicy = {
+  maxFailures: LOGIN_MAX_FAILURES_PER_IP,
+  baseMinutes: LOGIN_LOCKOUT_BASE_MINUTES,
+  maxMinutes: LOGIN_LOCKOUT_MAX_MINUTES,
+  windowMinutes: LOGIN_FAILURE_WINDOW_MINUTES
+};
 
 /**
  * @function resetUsers
@@ -30,20 +118,52 @@ export const resetUsers = async (): Promise<void> => {
 
 /**
  * @function createAuthResponse
- * @description Crea una respuesta de autenticación estandarizada.
+ * @description Crea una respuesta de autenticación estandarizada: un token de acceso
+ * de corta duración y un token de refresco opaco asociado a una nueva sesión.
  * 
  * @param user - Usuario autenticado
- * @returns Respuesta de autenticación con token y datos del usuario
+ * @param req - Request de origen (para registrar dispositivo e IP de la sesión)
+ * @param twoFactorVerified - Si el login completó el segundo factor (se conserva al rotar)
+ * @param familyId - Familia de rotación; un login nuevo inicia una familia nueva
+ * @param sessionId - ID de la sesión a crear (la renovación lo fija de antemano)
+ * @returns Respuesta de autenticación con tokens y datos del usuario
  */
-const createAuthResponse = (user: User): AuthResponse => {
-  const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
+const createAuthResponse = async (
+  user: User,
+  req: Request,
+  twoFactorVerified: boolean = false,
+  familyId: string = uuidv4(),
+  sessionId: string = uuidv4()
+): Promise<AuthResponse> => {
+  const payload: Omit<JWTPayload, 'iat' | 'exp' | 'jti'> = {
     userId: user.id,
     email: user.email,
-    role: user.role
+    role: user.role,
+    two_factor: twoFactorVerified
   };
 
-  const token = generateToken(payload);
-  const expiresIn = 24 * 60 * 60 * 1000; // 24 horas en milisegundos
+  const token = generateToken(payload, `${ACCESS_TOKEN_TTL_MINUTES}m`);
+  const expiresIn = ACCESS_TOKEN_TTL_MINUTES * 60 * 1000; // En milisegundos
+
+  // El token de refresco solo se entrega al cliente; en la base de datos se guarda su hash
+  const refreshToken = generateOpaqueToken();
+  const refreshExpiresIn = REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+  const now = new Date();
+
+  await createSession({
+    id: sessionId,
+    user_id: user.id,
+    family_id: familyId,
+    token_hash: hashToken(refreshToken),
+    user_agent: req.get('user-agent') || null,
+    ip_address: req.ip || null,
+    expires_at: new Date(now.getTime() + refreshExpiresIn),
+    revoked_at: null,
+    revoked_reason: null,
+    replaced_by: null,
+    two_factor_verified: twoFactorVerified,
+    created_at: now
+  });
 
   return {
     token,
@@ -52,16 +172,105 @@ const createAuthResponse = (user: User): AuthResponse => {
       name: user.name,
       email: user.email,
       role: user.role,
+      email_verified_at: user.email_verified_at || null,
       created_at: user.created_at,
       updated_at: user.updated_at
     },
-    expires_in: expiresIn
+    expires_in: expiresIn,
+    refresh_token: refreshToken,
+    refresh_expires_in: refreshExpiresIn,
+    two_factor_setup_required: REQUIRE_2FA_FOR_ADMINS && user.role === UserRole.ADMIN && !twoFactorVerified
   };
 };
 
+/**
+ * @function sendVerificationEmail
+ * @description Emite un token de verificación de email (invalidando los anteriores) y
+ * envía el enlace por correo. Solo se guarda el hash del token.
+ * 
+ * @param user - Usuario cuyo email se verifica
+ * @param now - Momento de emisión
+ */
+const sendVerificationEmail = async (user: User, now: Date): Promise<void> => {
+  const verificationToken = generateOpaqueToken(32);
+
+  await invalidateUserEmailVerificationTokens(user.id, now);
+  await createEmailVerificationToken({
+    id: uuidv4(),
+    user_id: user.id,
+    token_hash: hashToken(verificationToken),
+    expires_at: new Date(now.getTime() + EMAIL_VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000),
+    used_at: null,
+    created_at: now
+  });
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verifica tu email de LauraBraids',
+    text: `Hola ${user.name},\n\n` +
+      `Para verificar tu email abre este enlace:\n` +
+      `${APP_URL}/api/auth/verify-email?token=${verificationToken}\n\n` +
+      `El enlace caduca en ${EMAIL_VERIFICATION_TOKEN_TTL_HOURS} horas.`
+  });
+};
+
+/**
+ * @function rejectLockedLogin
+ * @description Responde a un intento de login bloqueado, con el mismo formato de error
+ * que el middleware de autenticación e indicando cuándo se puede reintentar.
+ * 
+ * @param res - Response
+ * @param scope - Ámbito bloqueado (cuenta o IP)
+ * @param retryAfter - Segundos hasta que termina el bloqueo
+ */
+const rejectLockedLogin = (res: Response, scope: LoginThrottleScope, retryAfter: number): void => {
+  const isAccount = scope === LoginThrottleScope.ACCOUNT;
+
+  res.set('Retry-After', String(retryAfter));
+  res.status(isAccount ? 423 : 429).json({
+    success: false,
+    message: isAccount
+      ? 'Cuenta bloqueada temporalmente por demasiados intentos fallidos'
+      : 'Demasiados intentos de login fallidos desde esta IP',
+    error: isAccount ? 'ACCOUNT_LOCKED' : 'TOO_MANY_LOGIN_ATTEMPTS',
+    retryAfter,
+    timestamp: new Date().toISOString()
+  });
+};
+
+/**
+ * @function recordLoginFailure
+ * @description Suma un fallo a los contadores de la cuenta y de la IP.
+ * 
+ * @param accountThrottle - Contador actual de la cuenta
+ * @param ipThrottle - Contador actual de la IP
+ * @param email - Email usado en el intento (exista o no la cuenta)
+ * @param ip - IP de origen
+ * @param now - Momento del fallo
+ * @returns Contador actualizado de la cuenta
+ */
+const recordLoginFailure = async (
+  accountThrottle: LoginThrottle | null,
+  ipThrottle: LoginThrottle | null,
+  email: string,
+  ip: string,
+  now: Date
+): Promise<LoginThrottle> => {
+  const updatedAccount = registerFailure(
+    accountThrottle, LoginThrottleScope.ACCOUNT, email, ACCOUNT_LOCKOUT_POLICY, now
+  );
+  await saveLoginThrottle(updatedAccount);
+  await saveLoginThrottle(
+    registerFailure(ipThrottle, LoginThrottleScope.IP, ip, IP_LOCKOUT_POLICY, now)
+  );
+  return updatedAccount;
+};
+
 /**
  * @function login
- * @description Autentica un usuario con email y contraseña.
+ * @description Autentica un usuario con email y contraseña. Los intentos fallidos se
+ * cuentan por cuenta y por IP; al superar el límite se bloquean temporalmente con una
+ * duración que se duplica con cada fallo adicional.
  * 
  * @param req - Request con email y password en el body
  * @param res - Response con token JWT y datos del usuario
@@ -69,10 +278,37 @@ const createAuthResponse = (user: User): AuthResponse => {
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
     const { email, password } = req.body;
+    const ip = req.ip || 'unknown';
+    const now = new Date();
 
-    // Buscar usuario por email
+    // Comprobar bloqueos antes de verificar la contraseña
+    const ipThrottle = await getLoginThrottle(LoginThrottleScope.IP, ip);
+    const ipLockSeconds = getRemainingLockSeconds(ipThrottle, now);
+    if (ipLockSeconds > 0) {
+      rejectLockedLogin(res, LoginThrottleScope.IP, ipLockSeconds);
+      return;
+    }
+
+    const accountThrottle = await getLoginThrottle(LoginThrottleScope.ACCOUNT, email);
+    const accountLockSeconds = getRemainingLockSeconds(accountThrottle, now);
+    if (accountLockSeconds > 0) {
+      rejectLockedLogin(res, LoginThrottleScope.ACCOUNT, accountLockSeconds);
+      return;
+    }
+
+    // Buscar usuario por email y verificar contraseña
     const user = await getUserByEmail(email);
-    if (!user) {
+    const isValidPassword = user !== null && await bcrypt.compare(password, user.password_hash);
+
+    if (!user || !isValidPassword) {
+      // Se cuenta igual exista o no la cuenta, para no revelar qué emails están registrados
+      const updatedAccount = await recordLoginFailure(accountThrottle, ipThrottle, email, ip, now);
+      const lockSeconds = getRemainingLockSeconds(updatedAccount, now);
+      if (lockSeconds > 0) {
+        rejectLockedLogin(res, LoginThrottleScope.ACCOUNT, lockSeconds);
+        return;
+      }
+
       res.status(401).json({
         success: false,
         message: 'Credenciales inválidas',
@@ -81,19 +317,20 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Verificar contraseña
-    const isValidPassword = await bcrypt.compare(password, user.password_hash);
-    if (!isValidPassword) {
-      res.status(401).json({
-        success: false,
-        message: 'Credenciales inválidas',
-        error: 'INVALID_CREDENTIALS'
+    await clearLoginThrottle(LoginThrottleScope.ACCOUNT, email);
+
+    // Con el segundo factor activo, la contraseña solo da acceso al segundo paso
+    if (await isTwoFactorEnabled(user.id)) {
+      res.status(200).json({
+        success: true,
+        message: 'Introduce el código de tu app de autenticación',
+        data: await issueTwoFactorChallenge(user)
       });
       return;
     }
 
     // Generar respuesta de autenticación
-    const authResponse = createAuthResponse(user);
+    const authResponse = await createAuthResponse(user, req);
 
     res.status(200).json({
       success: true,
@@ -110,6 +347,80 @@ export const login = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+/**
+ * @function completeTwoFactorLogin
+ * @description Segundo paso del login: valida el reto emitido tras la contraseña con un
+ * código TOTP o de recuperación y, si es correcto, inicia la sesión.
+ * 
+ * @param req - Request con challengeToken y code o recoveryCode en el body
+ * @param res - Response con token JWT y datos del usuario
+ */
+export const completeTwoFactorLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+    const now = new Date();
+
+    const challenge = await getTwoFactorChallengeByHash(hashToken(challengeToken));
+    const isUsable = challenge !== null &&
+      challenge.used_at === null &&
+      challenge.expires_at > now &&
+      challenge.attempts < TWO_FACTOR_MAX_CHALLENGE_ATTEMPTS;
+
+    if (!isUsable) {
+      res.status(401).json({
+        success: false,
+        message: 'El reto de verificación no es válido o ha caducado. Inicia sesión de nuevo.',
+        error: 'INVALID_TWO_FACTOR_CHALLENGE'
+      });
+      return;
+    }
+
+    if (!(await verifySecondFactor(challenge!.user_id, code, recoveryCode))) {
+      await recordFailedChallengeAttempt(challenge!.id);
+      res.status(401).json({
+        success: false,
+        message: 'Código de verificación incorrecto',
+        error: 'INVALID_TWO_FACTOR_CODE'
+      });
+      return;
+    }
+
+    if (!(await consumeTwoFactorChallenge(challenge!.id, now))) {
+      res.status(401).json({
+        success: false,
+        message: 'El reto de verificación no es válido o ha caducado. Inicia sesión de nuevo.',
+        error: 'INVALID_TWO_FACTOR_CHALLENGE'
+      });
+      return;
+    }
+
+    const user = await getUserById(challenge!.user_id);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'Usuario no encontrado',
+        error: 'USER_NOT_FOUND'
+      });
+      return;
+    }
+
+    const authResponse = await createAuthResponse(user, req, true);
+
+    res.status(200).json({
+      success: true,
+      message: 'Login exitoso',
+      data: authResponse
+    });
+  } catch (error) {
+    console.error('Error en segundo paso del login:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor',
+      error: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+};
+
 /**
  * @function register
  * @description Registra un nuevo usuario en el sistema.
@@ -150,8 +461,15 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     // Agregar usuario usando la función compartida
     await addUser(newUser);
 
+    try {
+      await sendVerificationEmail(newUser, new Date());
+    } catch (error) {
+      // El registro no falla si no se pudo enviar el correo: puede reenviarse después
+      console.error('Error al enviar correo de verificación:', error);
+    }
+
     // Generar respuesta de autenticación
-    const authResponse = createAuthResponse(newUser);
+    const authResponse = await createAuthResponse(newUser, req);
 
     res.status(201).json({
       success: true,
@@ -281,20 +599,286 @@ export const changePassword = async (req: AuthenticatedRequest, res: Response):
 };
 
 /**
- * @function logout
- * @description Cierra la sesión del usuario (logout del lado del cliente).
- * En un sistema real, esto podría invalidar tokens o manejar blacklists.
+ * @function verifyEmail
+ * @description Verifica el email del usuario con el token recibido por correo y registra
+ * el momento de la verificación en email_verified_at.
+ * 
+ * @param req - Request con el token en la query
+ * @param res - Response confirmando la verificación
+ */
+export const verifyEmail = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = String(req.query.token);
+    const now = new Date();
+
+    const verificationToken = await getEmailVerificationTokenByHash(hashToken(token));
+    const isUsable = verificationToken !== null &&
+      verificationToken.used_at === null &&
+      verificationToken.expires_at > now;
+
+    if (!isUsable || !(await consumeEmailVerificationToken(verificationToken!.id, now))) {
+      res.status(400).json({
+        success: false,
+        message: 'El enlace de verificación no es válido o ha caducado',
+        error: 'INVALID_VERIFICATION_TOKEN'
+      });
+      return;
+    }
+
+    const user = await getUserById(verificationToken!.user_id);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'Usuario no encontrado',
+        error: 'USER_NOT_FOUND'
+      });
+      return;
+    }
+
+    if (!user.email_verified_at) {
+      await updateUser(user.id, { email_verified_at: now });
+    }
+    await invalidateUserEmailVerificationTokens(user.id, now);
+
+    res.status(200).json({
+      success: true,
+      message: 'Email verificado exitosamente',
+      data: { email_verified_at: user.email_verified_at || now }
+    });
+  } catch (error) {
+    console.error('Error al verificar email:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor',
+      error: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+};
+
+/**
+ * @function resendVerificationEmail
+ * @description Reenvía el enlace de verificación al usuario autenticado. Los envíos
+ * están limitados por un tiempo de espera entre ellos y un máximo por hora.
  * 
  * @param req - Request autenticado
+ * @param res - Response confirmando el envío o indicando cuándo reintentar
+ */
+export const resendVerificationEmail = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = await getUserById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'Usuario no encontrado',
+        error: 'USER_NOT_FOUND'
+      });
+      return;
+    }
+
+    if (user.email_verified_at) {
+      res.status(409).json({
+        success: false,
+        message: 'El email ya está verificado',
+        error: 'EMAIL_ALREADY_VERIFIED'
+      });
+      return;
+    }
+
+    const now = new Date();
+    const recentTokens = await getUserVerificationTokensSince(
+      user.id,
+      new Date(now.getTime() - 60 * 60 * 1000)
+    );
+
+    // Segundos hasta que se permita otro envío (0 si ya se puede)
+    let retryAfter = 0;
+    if (recentTokens.length >= EMAIL_VERIFICATION_MAX_SENDS_PER_HOUR) {
+      const oldest = recentTokens[recentTokens.length - 1];
+      retryAfter = Math.ceil((oldest.created_at.getTime() + 60 * 60 * 1000 - now.getTime()) / 1000);
+    } else if (recentTokens.length > 0) {
+      const cooldownEnd = recentTokens[0].created_at.getTime() + EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000;
+      retryAfter = Math.ceil((cooldownEnd - now.getTime()) / 1000);
+    }
+
+    if (retryAfter > 0) {
+      res.set('Retry-After', String(retryAfter));
+      res.status(429).json({
+        success: false,
+        message: `Debes esperar ${retryAfter} segundos para solicitar otro enlace`,
+        error: 'VERIFICATION_RESEND_LIMITED',
+        data: { retry_after: retryAfter }
+      });
+      return;
+    }
+
+    await sendVerificationEmail(user, now);
+
+    res.status(200).json({
+      success: true,
+      message: 'Enlace de verificación enviado'
+    });
+  } catch (error) {
+    console.error('Error al reenviar correo de verificación:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor',
+      error: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+};
+
+/**
+ * @function sendPasswordResetLink
+ * @description Emite un token de recuperación de un solo uso con caducidad, guarda solo
+ * su hash y envía el enlace por correo. No hace nada si el email no está registrado.
+ *
+ * @param email - Email indicado en la solicitud
+ */
+const sendPasswordResetLink = async (email: string): Promise<void> => {
+  const user = await getUserByEmail(email);
+  if (!user) return;
+
+  const now = new Date();
+  const resetToken = generateOpaqueToken(32);
+
+  // Un token nuevo invalida los enlaces enviados anteriormente
+  await invalidateUserPasswordResetTokens(user.id, now);
+  await createPasswordResetToken({
+    id: uuidv4(),
+    user_id: user.id,
+    token_hash: hashToken(resetToken),
+    expires_at: new Date(now.getTime() + PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+    used_at: null,
+    created_at: now
+  });
+
+  await sendMail({
+    to: user.email,
+    subject: 'Restablecer tu contraseña de LauraBraids',
+    text: `Hola ${user.name},\n\n` +
+      `Para restablecer tu contraseña abre este enlace:\n` +
+      `${APP_URL}/reset-password?token=${resetToken}\n\n` +
+      `El enlace caduca en ${PASSWORD_RESET_TOKEN_TTL_MINUTES} minutos y solo puede usarse una vez. ` +
+      `Si no lo has solicitado, ignora este correo.`
+  });
+};
+
+/**
+ * @function forgotPassword
+ * @description Inicia la recuperación de contraseña. El enlace se emite en segundo plano,
+ * de forma que la respuesta es la misma y tarda lo mismo esté o no registrado el email.
+ * 
+ * @param req - Request con el email en el body
+ * @param res - Response genérica de confirmación
+ */
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  const { email } = req.body;
+
+  // Un fallo al emitir o enviar el enlace no debe delatar que el email existe
+  sendPasswordResetLink(email).catch(error => {
+    console.error('Error al enviar correo de recuperación:', error);
+  });
+
+  res.status(200).json({
+    success: true,
+    message: 'Si el email está registrado, recibirás un enlace para restablecer la contraseña'
+  });
+};
+
+/**
+ * @function resetPassword
+ * @description Restablece la contraseña con un token de recuperación. El token se consume
+ * y se revocan todas las sesiones y tokens de acceso del usuario, que debe volver a
+ * iniciar sesión.
+ * 
+ * @param req - Request con token, nueva contraseña y confirmación en el body
+ * @param res - Response confirmando el cambio de contraseña
+ */
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, newPassword } = req.body;
+    const now = new Date();
+
+    const resetToken = await getPasswordResetTokenByHash(hashToken(token));
+    const isUsable = resetToken !== null && resetToken.used_at === null && resetToken.expires_at > now;
+
+    // Consumir el token antes de cambiar la contraseña evita que se use dos veces
+    if (!isUsable || !(await consumePasswordResetToken(resetToken!.id, now))) {
+      res.status(400).json({
+        success: false,
+        message: 'El enlace de recuperación no es válido o ha caducado',
+        error: 'INVALID_RESET_TOKEN'
+      });
+      return;
+    }
+
+    const saltRounds = 10;
+    const newPasswordHash = await bcrypt.hash(newPassword, saltRounds);
+
+    const user = await updateUser(resetToken!.user_id, { password_hash: newPasswordHash });
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        message: 'El enlace de recuperación no es válido o ha caducado',
+        error: 'INVALID_RESET_TOKEN'
+      });
+      return;
+    }
+
+    await invalidateUserPasswordResetTokens(user.id, now);
+    await revokeUserSessions(user.id, SessionRevocationReason.PASSWORD_RESET);
+    await revokeUserTokens(user.id, now);
+
+    res.status(200).json({
+      success: true,
+      message: 'Contraseña restablecida exitosamente. Inicia sesión con la nueva contraseña.'
+    });
+  } catch (error) {
+    console.error('Error al restablecer contraseña:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor',
+      error: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+};
+
+/**
+ * @function revokeCurrentAccessToken
+ * @description Añade a la denylist el token de acceso con el que se hizo la petición,
+ * de forma que deje de aceptarse aunque todavía no haya expirado.
+ *
+ * @param user - Payload del token de acceso actual
+ */
+const revokeCurrentAccessToken = async (user?: JWTPayload): Promise<void> => {
+  if (!user || !user.jti || !user.exp) return;
+  await revokeToken(user.jti, new Date(user.exp * 1000));
+};
+
+/**
+ * @function logout
+ * @description Cierra la sesión del usuario en el servidor: revoca el token de acceso
+ * actual y, si se envía el token de refresco, su sesión para que no pueda renovarse.
+ * 
+ * @param req - Request autenticado, con refreshToken opcional en el body
  * @param res - Response confirmando el logout
  */
 export const logout = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    // En este sistema simple, el logout es principalmente del lado del cliente
-    // que debe eliminar el token JWT almacenado
+    const { refreshToken } = req.body;
+
+    if (refreshToken) {
+      const session = await getSessionByTokenHash(hashToken(refreshToken));
+      if (session && session.user_id === req.user?.userId) {
+        await revokeSessionFamily(session.family_id, SessionRevocationReason.LOGOUT);
+      }
+    }
+
+    await revokeCurrentAccessToken(req.user);
+
     res.status(200).json({
       success: true,
-      message: 'Logout exitoso. Token debe ser eliminado del cliente.'
+      message: 'Logout exitoso. El token ha sido revocado.'
     });
   } catch (error) {
     console.error('Error en logout:', error);
@@ -306,26 +890,131 @@ export const logout = async (req: AuthenticatedRequest, res: Response): Promise<
   }
 };
 
+/**
+ * @function logoutAll
+ * @description Cierra la sesión del usuario en todos sus dispositivos revocando todas
+ * sus sesiones y el token de acceso actual. Ningún token de refresco emitido hasta ahora
+ * podrá renovarse.
+ * 
+ * @param req - Request autenticado
+ * @param res - Response con el número de sesiones revocadas
+ */
+export const logoutAll = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const revokedSessions = await revokeUserSessions(
+      req.user!.userId,
+      SessionRevocationReason.LOGOUT_ALL
+    );
+    await revokeCurrentAccessToken(req.user);
+
+    res.status(200).json({
+      success: true,
+      message: 'Sesión cerrada en todos los dispositivos',
+      data: { revoked_sessions: revokedSessions }
+    });
+  } catch (error) {
+    console.error('Error al cerrar todas las sesiones:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor',
+      error: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+};
+
+/**
+ * @function getSessions
+ * @description Lista las sesiones vigentes del usuario autenticado (una por dispositivo).
+ * 
+ * @param req - Request autenticado
+ * @param res - Response con las sesiones, sin hashes de tokens
+ */
+export const getSessions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const sessions = await getActiveUserSessions(req.user!.userId, new Date());
+
+    res.status(200).json({
+      success: true,
+      message: 'Sesiones obtenidas exitosamente',
+      data: sessions.map(({ token_hash, revoked_at, revoked_reason, replaced_by, ...session }) => session)
+    });
+  } catch (error) {
+    console.error('Error al obtener sesiones:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor',
+      error: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+};
+
+/**
+ * @function rejectReusedRefreshToken
+ * @description Revoca todas las sesiones de un usuario cuyo token de refresco se ha
+ * reutilizado y responde con el error correspondiente.
+ * 
+ * @param res - Response de la renovación
+ * @param userId - Usuario propietario del token reutilizado
+ */
+const rejectReusedRefreshToken = async (res: Response, userId: string): Promise<void> => {
+  await revokeUserSessions(userId, SessionRevocationReason.REUSE_DETECTED);
+  res.status(401).json({
+    success: false,
+    message: 'Token de refresco reutilizado. Se han cerrado todas las sesiones',
+    error: 'REFRESH_TOKEN_REUSED'
+  });
+};
+
 /**
  * @function refreshToken
- * @description Refresca un token JWT válido generando uno nuevo.
+ * @description Renueva la sesión con un token de refresco. El token se rota: el usado
+ * queda revocado y se emite uno nuevo en la misma familia. Si se presenta un token ya
+ * rotado, se asume que fue robado y se revocan todas las sesiones del usuario.
  * 
- * @param req - Request autenticado con token válido
- * @param res - Response con nuevo token JWT
+ * @param req - Request con refreshToken en el body
+ * @param res - Response con nuevo token de acceso y nuevo token de refresco
  */
-export const refreshToken = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+export const refreshToken = async (req: Request, res: Response): Promise<void> => {
   try {
-    if (!req.user) {
+    const { refreshToken: presentedToken } = req.body;
+    const now = new Date();
+
+    const session = await getSessionByTokenHash(hashToken(presentedToken));
+    if (!session) {
       res.status(401).json({
         success: false,
-        message: 'Usuario no autenticado',
-        error: 'UNAUTHENTICATED'
+        message: 'Token de refresco inválido',
+        error: 'INVALID_REFRESH_TOKEN'
+      });
+      return;
+    }
+
+    // Reutilizar un token rotado indica robo: se cierran todas las sesiones del usuario
+    if (session.revoked_reason === SessionRevocationReason.ROTATED) {
+      await rejectReusedRefreshToken(res, session.user_id);
+      return;
+    }
+
+    if (session.revoked_at) {
+      res.status(401).json({
+        success: false,
+        message: 'La sesión ha sido cerrada',
+        error: 'REVOKED_REFRESH_TOKEN'
+      });
+      return;
+    }
+
+    if (session.expires_at <= now) {
+      res.status(401).json({
+        success: false,
+        message: 'Token de refresco expirado',
+        error: 'EXPIRED_REFRESH_TOKEN'
       });
       return;
     }
 
     // Buscar usuario para obtener datos actualizados
-    const user = await getUserById(req.user!.userId);
+    const user = await getUserById(session.user_id);
     if (!user) {
       res.status(404).json({
         success: false,
@@ -335,8 +1024,21 @@ export const refreshToken = async (req: AuthenticatedRequest, res: Response): Pr
       return;
     }
 
-    // Generar nuevo token
-    const authResponse = createAuthResponse(user);
+    // Otra petición pudo rotar el mismo token entre la consulta y este punto
+    const newSessionId = uuidv4();
+    if (!(await rotateSession(session.id, newSessionId, now))) {
+      await rejectReusedRefreshToken(res, session.user_id);
+      return;
+    }
+
+    // Generar nuevos tokens en la misma familia de rotación
+    const authResponse = await createAuthResponse(
+      user,
+      req,
+      session.two_factor_verified,
+      session.family_id,
+      newSessionId
+    );
 
     res.status(200).json({
       success: true,
@@ -351,4 +1053,4 @@ export const refreshToken = async (req: AuthenticatedRequest, res: Response): Pr
       error: 'INTERNAL_SERVER_ERROR'
     });
   }
-};
\ No newline at end of file
+};
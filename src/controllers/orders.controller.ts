@@ -3,13 +3,17 @@
  * @description Maneja las operaciones CRUD para las entidades Order y OrderItem.
  */
 
-import { RequestHandler } from 'express';
+import { RequestHandler, Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
 import { 
   Order, 
   OrderWithItems, 
   OrderCreateRequest, 
   OrderUpdateRequest, 
-  OrderSummary 
+  OrderSummary,
+  OrderQuoteRequest,
+  OrderStatus,
+  ORDER_STATUS_TRANSITIONS
 } from '../interfaces/order.interface';
 import {
   getOrders as getOrdersData,
@@ -17,10 +21,33 @@ import {
   getOrderById as getOrderByIdData,
   getOrderWithItems as getOrderWithItemsData,
   createOrder as createOrderData,
+  quoteOrder as quoteOrderData,
   updateOrder as updateOrderData,
+  transitionOrderStatus as transitionOrderStatusData,
+  getOrderStatusHistory as getOrderStatusHistoryData,
   getOrderSummaries as getOrderSummariesData,
   resetOrders as resetOrdersData
 } from '../data/orders.database';
+import { isAllowed } from '../policies/permissions.policy';
+import { isOrderTransitionAllowed } from '../utils/order-status.utils';
+
+/**
+ * @description Responde con el error de transición de estado no permitida.
+ * @param {Response} res - El objeto de respuesta de Express.
+ * @param {OrderStatus} currentStatus - Estado actual del pedido.
+ * @param {OrderStatus} nextStatus - Estado solicitado.
+ */
+const sendInvalidTransition = (res: Response, currentStatus: OrderStatus, nextStatus: OrderStatus): void => {
+  res.status(409).json({
+    success: false,
+    message: `No se puede cambiar el estado del pedido de ${currentStatus} a ${nextStatus}`,
+    error: 'INVALID_STATUS_TRANSITION',
+    data: {
+      current_status: currentStatus,
+      allowed_transitions: ORDER_STATUS_TRANSITIONS[currentStatus]
+    }
+  });
+};
 
 /**
  * @description Reinicia los datos de pedidos al estado inicial (para testing).
@@ -80,17 +107,6 @@ export const getOrderSummaries: RequestHandler = async (req, res) => {
 export const getCustomerOrders: RequestHandler = async (req, res) => {
   try {
     const { customerId } = req.params;
-    
-    // Verificar que el usuario autenticado pueda ver estos pedidos
-    const authUser = (req as any).user;
-    if (authUser.role !== 'ADMIN' && authUser.userId !== customerId) {
-      res.status(403).json({ 
-        success: false, 
-        message: 'No tienes permisos para ver estos pedidos' 
-      });
-      return;
-    }
-
     const orders = await getOrdersByCustomerData(customerId);
     res.status(200).json({ success: true, data: orders });
       return;
@@ -112,17 +128,6 @@ export const getOrderById: RequestHandler = async (req, res) => {
     if (!order) {
       res.status(404).json({ success: false, message: 'Pedido no encontrado' });
       return;
-      return;
-    }
-
-    // Verificar permisos: solo el cliente dueño del pedido o administradores
-    const authUser = (req as any).user;
-    if (authUser.role !== 'ADMIN' && authUser.userId !== order.customer_id) {
-      res.status(403).json({ 
-        success: false, 
-        message: 'No tienes permisos para ver este pedido' 
-      });
-      return;
     }
 
     res.status(200).json({ success: true, data: order });
@@ -145,46 +150,73 @@ export const getOrderWithItems: RequestHandler = async (req, res) => {
     if (!orderWithItems) {
       res.status(404).json({ success: false, message: 'Pedido no encontrado' });
       return;
-      return;
     }
 
-    // Verificar permisos: solo el cliente dueño del pedido o administradores
-    const authUser = (req as any).user;
-    if (authUser.role !== 'ADMIN' && authUser.userId !== orderWithItems.customer_id) {
-      res.status(403).json({ 
-        success: false, 
-        message: 'No tienes permisos para ver este pedido' 
-      });
+    res.status(200).json({ success: true, data: orderWithItems });
+      return;
+  } catch (error) {
+    console.error('Error al obtener pedido con items:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+      return;
+  }
+};
+
+/**
+ * @description Obtiene el historial de estados de un pedido.
+ */
+export const getOrderHistory: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const order = await getOrderByIdData(id);
+
+    if (!order) {
+      res.status(404).json({ success: false, message: 'Pedido no encontrado' });
       return;
     }
 
-    res.status(200).json({ success: true, data: orderWithItems });
+    const history = await getOrderStatusHistoryData(id);
+    res.status(200).json({ success: true, data: history });
       return;
   } catch (error) {
-    console.error('Error al obtener pedido con items:', error);
+    console.error('Error al obtener historial del pedido:', error);
     res.status(500).json({ success: false, message: 'Error interno del servidor' });
       return;
   }
 };
 
 /**
- * @description Crea un nuevo pedido.
+ * @description Presupuesta un carrito antes de crear el pedido, con las opciones de envío.
  */
-export const createOrder: RequestHandler = async (req, res) => {
+export const quoteOrder: RequestHandler = async (req, res) => {
   try {
-    const orderData: OrderCreateRequest = req.body;
-    const authUser = (req as any).user;
+    const quoteData: OrderQuoteRequest = req.body;
 
-    // Verificar que el cliente autenticado solo puede crear pedidos para sí mismo
-    // Los administradores pueden crear pedidos para cualquier cliente
-    if (authUser.role !== 'ADMIN' && authUser.userId !== orderData.customer_id) {
-      res.status(403).json({ 
-        success: false, 
-        message: 'No puedes crear pedidos para otros usuarios' 
+    const { quote, shortages } = await quoteOrderData(quoteData);
+    if (!quote) {
+      res.status(409).json({
+        success: false,
+        message: 'Algunos productos no están disponibles en la cantidad solicitada',
+        error: 'INSUFFICIENT_STOCK',
+        data: { items: shortages }
       });
       return;
     }
 
+    res.status(200).json({ success: true, data: quote });
+  } catch (error) {
+    console.error('Error al presupuestar pedido:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+      return;
+  }
+};
+
+/**
+ * @description Crea un nuevo pedido.
+ */
+export const createOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const orderData: OrderCreateRequest = req.body;
+
     // Validar que hay items en el pedido
     if (!orderData.items || orderData.items.length === 0) {
       res.status(400).json({ 
@@ -194,10 +226,44 @@ export const createOrder: RequestHandler = async (req, res) => {
       return;
     }
 
-    // TODO: Validar que los productos existen y tienen stock suficiente
-    // Esta validación se puede implementar cuando se integre con el sistema de productos
+    // La creación bloquea los productos, comprueba que estén activos y con stock y
+    // cobra el precio vigente de cada producto
+    const { order: newOrder, shortages, price_changes, shipping_options } = await createOrderData(
+      orderData,
+      req.user!.userId
+    );
+    if (!newOrder && price_changes.length > 0) {
+      // El cliente debe confirmar los precios vigentes antes de volver a enviar el pedido
+      res.status(409).json({
+        success: false,
+        message: 'El precio de algunos productos ha cambiado. Confirma los precios actuales',
+        error: 'PRICE_CHANGED',
+        data: { items: price_changes }
+      });
+      return;
+    }
+
+    if (!newOrder && shipping_options) {
+      // El método de envío no está disponible para el destino o el carrito
+      res.status(409).json({
+        success: false,
+        message: 'El método de envío no está disponible para este pedido',
+        error: 'SHIPPING_UNAVAILABLE',
+        data: { options: shipping_options }
+      });
+      return;
+    }
+
+    if (!newOrder) {
+      res.status(409).json({
+        success: false,
+        message: 'Algunos productos no están disponibles en la cantidad solicitada',
+        error: 'INSUFFICIENT_STOCK',
+        data: { items: shortages }
+      });
+      return;
+    }
 
-    const newOrder = await createOrderData(orderData);
     res.status(201).json({ 
       success: true, 
       data: newOrder, 
@@ -211,13 +277,13 @@ export const createOrder: RequestHandler = async (req, res) => {
 };
 
 /**
- * @description Actualiza un pedido existente.
+ * @description Actualiza un pedido existente. Los cambios de estado siguen
+ * ORDER_STATUS_TRANSITIONS y quedan registrados en el historial.
  */
-export const updateOrder: RequestHandler = async (req, res) => {
+export const updateOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const updates: OrderUpdateRequest = req.body;
-    const authUser = (req as any).user;
+    const { status, note, ...fields }: OrderUpdateRequest = req.body;
 
     // Verificar que el pedido existe
     const existingOrder = await getOrderByIdData(id);
@@ -226,22 +292,15 @@ export const updateOrder: RequestHandler = async (req, res) => {
       return;
     }
 
-    // Verificar permisos: solo administradores pueden actualizar pedidos
-    // Los clientes solo pueden cancelar sus propios pedidos
-    if (authUser.role !== 'ADMIN') {
-      if (authUser.userId !== existingOrder.customer_id) {
-        res.status(403).json({ 
-          success: false, 
-          message: 'No tienes permisos para modificar este pedido' 
-        });
-      }
-      
-      // Los clientes solo pueden cancelar pedidos pendientes
-      if (updates.status && updates.status !== 'CANCELLED') {
+    // La propiedad del pedido ya la verifica requirePermission('orders:update').
+    // Sin orders:update:any (administradores), el cliente solo puede cancelar su pedido pendiente
+    if (!isAllowed(req.user, 'orders:update')) {
+      if (status !== 'CANCELLED' || Object.keys(fields).length > 0) {
         res.status(403).json({ 
           success: false, 
           message: 'Solo puedes cancelar tu pedido' 
         });
+        return;
       }
       
       if (existingOrder.status !== 'PENDING') {
@@ -249,21 +308,51 @@ export const updateOrder: RequestHandler = async (req, res) => {
           success: false, 
           message: 'Solo se pueden cancelar pedidos pendientes' 
         });
+        return;
       }
     }
 
-    const updatedOrder = await updateOrderData(id, updates);
-    
-    if (updatedOrder) {
-      res.status(200).json({ 
-        success: true, 
-        data: updatedOrder, 
-        message: 'Pedido actualizado exitosamente' 
+    const changesStatus = status !== undefined && status !== existingOrder.status;
+    if (changesStatus && !isOrderTransitionAllowed(existingOrder.status, status!)) {
+      sendInvalidTransition(res, existingOrder.status, status!);
+      return;
+    }
+
+    // El estado de pago de un pedido cancelado lo fija la cancelación (reembolsado o fallido)
+    if (fields.payment_status !== undefined && (existingOrder.status === 'CANCELLED' || status === 'CANCELLED')) {
+      res.status(409).json({
+        success: false,
+        message: 'El estado de pago de un pedido cancelado no se puede editar',
+        error: 'ORDER_CANCELLED'
       });
-    } else {
+      return;
+    }
+
+    if (!changesStatus && Object.keys(fields).length === 0) {
       res.status(400).json({ success: false, message: 'No se realizaron cambios' });
       return;
     }
+
+    let updatedOrder = Object.keys(fields).length > 0
+      ? await updateOrderData(id, fields)
+      : existingOrder;
+
+    // El cambio de estado va al final: al cancelar, el estado de pago lo decide la cancelación
+    if (changesStatus) {
+      const transition = await transitionOrderStatusData(id, status!, req.user!.userId, note || null);
+      if (!transition.order) {
+        // Otro cambio de estado se adelantó
+        sendInvalidTransition(res, transition.previous_status || existingOrder.status, status!);
+        return;
+      }
+      updatedOrder = transition.order;
+    }
+
+    res.status(200).json({ 
+      success: true, 
+      data: updatedOrder, 
+      message: 'Pedido actualizado exitosamente' 
+    });
   } catch (error) {
     console.error('Error al actualizar pedido:', error);
     res.status(500).json({ success: false, message: 'Error interno del servidor' });
@@ -272,12 +361,13 @@ export const updateOrder: RequestHandler = async (req, res) => {
 };
 
 /**
- * @description Cancela un pedido (actualiza el estado a CANCELLED).
+ * @description Cancela un pedido (actualiza el estado a CANCELLED), devuelve el stock de
+ * sus items y marca el pago como reembolsado o fallido.
  */
-export const cancelOrder: RequestHandler = async (req, res) => {
+export const cancelOrder = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const authUser = (req as any).user;
+    const { reason } = req.body;
 
     // Verificar que el pedido existe
     const existingOrder = await getOrderByIdData(id);
@@ -286,20 +376,13 @@ export const cancelOrder: RequestHandler = async (req, res) => {
       return;
     }
 
-    // Verificar permisos
-    if (authUser.role !== 'ADMIN' && authUser.userId !== existingOrder.customer_id) {
-      res.status(403).json({ 
-        success: false, 
-        message: 'No tienes permisos para cancelar este pedido' 
-      });
-    }
-
     // Verificar que el pedido se puede cancelar
     if (existingOrder.status === 'CANCELLED') {
       res.status(400).json({ 
         success: false, 
         message: 'El pedido ya está cancelado' 
       });
+      return;
     }
 
     if (existingOrder.status === 'DELIVERED') {
@@ -307,20 +390,35 @@ export const cancelOrder: RequestHandler = async (req, res) => {
         success: false, 
         message: 'No se puede cancelar un pedido entregado' 
       });
+      return;
     }
 
-    const updatedOrder = await updateOrderData(id, { status: 'CANCELLED' });
-    
-    if (updatedOrder) {
-      res.status(200).json({ 
-        success: true, 
-        data: updatedOrder, 
-        message: 'Pedido cancelado exitosamente' 
+    // Sin orders:cancel:any (administradores), el cliente solo puede cancelar pedidos pendientes
+    if (!isAllowed(req.user, 'orders:cancel') && existingOrder.status !== 'PENDING') {
+      res.status(400).json({ 
+        success: false, 
+        message: 'Solo se pueden cancelar pedidos pendientes' 
       });
-    } else {
-      res.status(400).json({ success: false, message: 'No se pudo cancelar el pedido' });
       return;
     }
+
+    const transition = await transitionOrderStatusData(
+      id,
+      'CANCELLED',
+      req.user!.userId,
+      reason || null
+    );
+
+    if (!transition.order) {
+      sendInvalidTransition(res, transition.previous_status || existingOrder.status, 'CANCELLED');
+      return;
+    }
+
+    res.status(200).json({ 
+      success: true, 
+      data: transition.order, 
+      message: 'Pedido cancelado exitosamente' 
+    });
   } catch (error) {
     console.error('Error al cancelar pedido:', error);
     res.status(500).json({ success: false, message: 'Error interno del servidor' });
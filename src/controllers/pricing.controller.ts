@@ -0,0 +1,107 @@
+import { RequestHandler } from 'express';
+import { AppointmentPriceBreakdown, PricingError } from '../interfaces/appointment.interface';
+import { buildPriceBreakdown } from '../utils/pricing.utils';
+import { getStylistCustomPrice, getActiveAddOns } from '../data/pricing.database';
+import { findStyleById } from './styles.controller';
+
+/**
+ * @file Controller para el cálculo de precios de citas del sistema LauraBraids.
+ * @description Calcula en el servidor el precio de una cita a partir del estilo, la
+ *              estilista y los servicios adicionales, y expone el catálogo de adicionales.
+ */
+
+/**
+ * @description Calcula el precio de una cita. El cliente no puede fijarlo: se usa el
+ * precio base del estilo, el precio personalizado de la estilista si existe y los
+ * servicios adicionales seleccionados.
+ * @param {string} styleId - ID del estilo.
+ * @param {string} stylistId - ID de la estilista.
+ * @param {string[]} addOnIds - IDs de los servicios adicionales seleccionados.
+ * @returns {Promise<AppointmentPriceBreakdown | PricingError>} Desglose del precio o motivo del error.
+ */
+export const calculateAppointmentPrice = async (
+  styleId: string,
+  stylistId: string,
+  addOnIds: string[] = []
+): Promise<AppointmentPriceBreakdown | PricingError> => {
+  const style = findStyleById(styleId);
+  if (!style) {
+    return { message: 'El estilo no existe o no está disponible' };
+  }
+  if (style.base_price === undefined) {
+    return { message: 'El estilo no tiene precio base' };
+  }
+
+  const uniqueAddOnIds = addOnIds.filter((id, index) => addOnIds.indexOf(id) === index);
+  const addOns = await getActiveAddOns(uniqueAddOnIds);
+  if (addOns.length !== uniqueAddOnIds.length) {
+    const foundIds = addOns.map(addOn => addOn.id);
+    const missingIds = uniqueAddOnIds.filter(id => !foundIds.includes(id));
+    return { message: `Servicios adicionales no disponibles: ${missingIds.join(', ')}` };
+  }
+
+  const customPrice = await getStylistCustomPrice(styleId, stylistId);
+  return buildPriceBreakdown(style.base_price, customPrice, addOns);
+};
+
+/**
+ * @description Indica si el resultado de calculateAppointmentPrice es un error.
+ * @param {AppointmentPriceBreakdown | PricingError} result - Resultado del cálculo.
+ * @returns {boolean} true si no se pudo calcular el precio.
+ */
+export const isPricingError = (
+  result: AppointmentPriceBreakdown | PricingError
+): result is PricingError => {
+  return 'message' in result;
+};
+
+/**
+ * @description Convierte el parámetro add_on_ids de la query (separado por comas) en una lista.
+ * @param {unknown} value - Valor recibido en la query.
+ * @returns {string[]} IDs de servicios adicionales.
+ */
+const parseAddOnIds = (value: unknown): string[] => {
+  if (typeof value !== 'string' || value.trim() === '') return [];
+  return value.split(',').map(id => id.trim()).filter(id => id !== '');
+};
+
+/**
+ * @description Obtiene el catálogo de servicios adicionales activos.
+ * @param {Request} req - El objeto de solicitud de Express.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const getServiceAddOns: RequestHandler = async (req, res) => {
+  try {
+    res.json(await getActiveAddOns());
+  } catch (error) {
+    console.error('Error al obtener servicios adicionales:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Calcula el precio de una cita sin reservarla.
+ * @param {Request} req - El objeto de solicitud de Express, con style_id, stylist_id y add_on_ids en la query.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const getPriceQuote: RequestHandler = async (req, res) => {
+  try {
+    const { style_id, stylist_id, add_on_ids } = req.query;
+
+    const quote = await calculateAppointmentPrice(
+      String(style_id),
+      String(stylist_id),
+      parseAddOnIds(add_on_ids)
+    );
+
+    if (isPricingError(quote)) {
+      res.status(400).json(quote);
+      return;
+    }
+
+    res.json(quote);
+  } catch (error) {
+    console.error('Error al calcular precio de la cita:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
@@ -1,5 +1,6 @@
 import { RequestHandler } from 'express';
 import { Product } from '../interfaces/product.interface';
+import { TaxClass } from '../interfaces/tax.interface';
 import { v4 as uuidv4 } from 'uuid';
 import {
   getProducts as getProductsData,
@@ -26,6 +27,13 @@ export const resetProductsForTesting = async (): Promise<void> => {
   await resetProductsData();
 };
 
+/**
+ * @description Indica si un peso es válido: gramos enteros entre 1 y 10000 (10kg).
+ */
+const isValidWeight = (weight: unknown): boolean => {
+  return typeof weight === 'number' && Number.isInteger(weight) && weight > 0 && weight <= 10000;
+};
+
 /**
  * @description Reinicia los datos de productos al estado inicial.
  * Útil para testing y desarrollo.
@@ -102,7 +110,10 @@ export const getProductById: RequestHandler = async (req, res) => {
  */
 export const createProduct: RequestHandler = async (req, res) => {
   try {
-    const { name, description, price, stock_quantity, image_url, category, is_active = true } = req.body;
+    const {
+      name, description, price, stock_quantity, image_url, category, is_active = true,
+      tax_class = TaxClass.STANDARD, weight_grams = null
+    } = req.body;
 
     // Validación simple de los datos de entrada
     if (!name || !description || price === undefined || stock_quantity === undefined || !category) {
@@ -128,6 +139,16 @@ export const createProduct: RequestHandler = async (req, res) => {
       return;
     }
 
+    if (!Object.values(TaxClass).includes(tax_class)) {
+      res.status(400).json({ message: `Clase fiscal inválida. Debe ser una de: ${Object.values(TaxClass).join(', ')}` });
+      return;
+    }
+
+    if (weight_grams !== null && !isValidWeight(weight_grams)) {
+      res.status(400).json({ message: 'El peso debe ser un número entero de gramos entre 1 y 10000' });
+      return;
+    }
+
     // Validar categorías permitidas
     const validCategories = ['Extensiones', 'Cuidado', 'Accesorios', 'Herramientas'];
     if (!validCategories.includes(category)) {
@@ -147,6 +168,8 @@ export const createProduct: RequestHandler = async (req, res) => {
       image_url: image_url || 'https://example.com/default-product.jpg',
       category,
       is_active,
+      tax_class,
+      weight_grams,
       created_at: new Date(),
       updated_at: new Date(),
     };
@@ -169,7 +192,9 @@ export const createProduct: RequestHandler = async (req, res) => {
 export const updateProduct: RequestHandler = async (req, res) => {
   try {
     const id = req.params.id;
-    const { name, description, price, stock_quantity, image_url, category, is_active } = req.body;
+    const {
+      name, description, price, stock_quantity, image_url, category, is_active, tax_class, weight_grams
+    } = req.body;
 
     // Validar tipos de datos si se proporcionan
     if (price !== undefined && (typeof price !== 'number' || price < 0)) {
@@ -188,6 +213,16 @@ export const updateProduct: RequestHandler = async (req, res) => {
       return;
     }
 
+    if (tax_class !== undefined && !Object.values(TaxClass).includes(tax_class)) {
+      res.status(400).json({ message: `Clase fiscal inválida. Debe ser una de: ${Object.values(TaxClass).join(', ')}` });
+      return;
+    }
+
+    if (weight_grams !== undefined && weight_grams !== null && !isValidWeight(weight_grams)) {
+      res.status(400).json({ message: 'El peso debe ser un número entero de gramos entre 1 y 10000' });
+      return;
+    }
+
     // Validar categoría si se proporciona
     if (category) {
       const validCategories = ['Extensiones', 'Cuidado', 'Accesorios', 'Herramientas'];
@@ -208,6 +243,8 @@ export const updateProduct: RequestHandler = async (req, res) => {
       image_url,
       category,
       is_active,
+      tax_class,
+      weight_grams,
       updated_at: new Date()
     });
 
@@ -0,0 +1,329 @@
+import { RequestHandler } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { StylistBreak, StylistSchedule, StylistTimeOff } from '../interfaces/schedule.interface';
+import { TimeSlot } from '../interfaces/appointment.interface';
+import { DEFAULT_WORKING_HOURS, WorkingHours } from '../config/schedule.config';
+import {
+  addMinutes,
+  atTime,
+  getWorkingIntervals,
+  subtractIntervals
+} from '../utils/availability.utils';
+import { getStylistById } from '../data/stylists.database';
+import {
+  getWorkingHours,
+  replaceWorkingHours,
+  deleteWorkingHours,
+  getBreaks,
+  getBreakById,
+  createBreak,
+  updateBreak,
+  deleteBreak,
+  getTimeOff,
+  getTimeOffById,
+  createTimeOff,
+  updateTimeOff,
+  deleteTimeOff
+} from '../data/schedules.database';
+
+/**
+ * @file Controller para el horario de las estilistas del sistema LauraBraids.
+ * @description Maneja la plantilla semanal de trabajo, los descansos recurrentes y
+ *              los bloqueos de fechas, y calcula las franjas laborables de cada día.
+ */
+
+/**
+ * @description Obtiene el horario semanal efectivo de una estilista.
+ * Si no tiene plantilla propia se usa el horario por defecto del salón.
+ * @param {string} stylistId - ID de la estilista.
+ * @returns {Promise<Record<number, WorkingHours | null>>} Horario indexado por día de la semana.
+ */
+const getWeeklyHours = async (stylistId: string): Promise<Record<number, WorkingHours | null>> => {
+  const template = await getWorkingHours(stylistId);
+  if (template.length === 0) return DEFAULT_WORKING_HOURS;
+
+  const weeklyHours: Record<number, WorkingHours | null> = {};
+  for (let day = 0; day < 7; day++) {
+    const entry = template.find(h => h.day_of_week === day);
+    weeklyHours[day] = entry ? { start: entry.start_time, end: entry.end_time } : null;
+  }
+  return weeklyHours;
+};
+
+/**
+ * @description Calcula las franjas en las que una estilista atiende un día concreto,
+ * descontando sus descansos recurrentes y bloqueos de fechas.
+ * @param {string} stylistId - ID de la estilista.
+ * @param {Date} day - Día a consultar (medianoche local).
+ * @returns {Promise<TimeSlot[]>} Franjas laborables del día.
+ */
+export const getStylistWorkingIntervals = async (stylistId: string, day: Date): Promise<TimeSlot[]> => {
+  const workingIntervals = getWorkingIntervals(day, await getWeeklyHours(stylistId));
+  if (workingIntervals.length === 0) return [];
+
+  const breaks = await getBreaks(stylistId, day.getDay());
+  const timeOff = await getTimeOff(stylistId, { start: day, end: addMinutes(day, 24 * 60) });
+
+  return subtractIntervals(workingIntervals, [
+    ...breaks.map(b => ({ start: atTime(day, b.start_time), end: atTime(day, b.end_time) })),
+    ...timeOff.map(t => ({ start: t.start_date, end: t.end_date }))
+  ]);
+};
+
+/**
+ * @description Obtiene el horario completo de una estilista.
+ * @param {Request} req - El objeto de solicitud de Express, con el ID de la estilista en los parámetros.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const getStylistSchedule: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await getStylistById(id))) {
+      res.status(404).json({ message: 'Estilista no encontrada' });
+      return;
+    }
+
+    const template = await getWorkingHours(id);
+    const workingHours = template.length > 0
+      ? template.map(({ day_of_week, start_time, end_time }) => ({ day_of_week, start_time, end_time }))
+      : Object.entries(DEFAULT_WORKING_HOURS)
+        .filter(([, hours]) => hours !== null)
+        .map(([day, hours]) => ({
+          day_of_week: Number(day),
+          start_time: (hours as WorkingHours).start,
+          end_time: (hours as WorkingHours).end
+        }));
+
+    const schedule: StylistSchedule = {
+      stylist_id: id,
+      uses_default_hours: template.length === 0,
+      working_hours: workingHours,
+      breaks: await getBreaks(id),
+      time_off: await getTimeOff(id)
+    };
+
+    res.json(schedule);
+  } catch (error) {
+    console.error('Error al obtener horario de la estilista:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Reemplaza la plantilla semanal de una estilista.
+ * @param {Request} req - El objeto de solicitud de Express, con las franjas en el cuerpo.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const replaceStylistWorkingHours: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await getStylistById(id))) {
+      res.status(404).json({ message: 'Estilista no encontrada' });
+      return;
+    }
+
+    const workingHours = await replaceWorkingHours(id, req.body.hours);
+    res.json(workingHours);
+  } catch (error) {
+    console.error('Error al actualizar horario semanal:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Elimina la plantilla semanal de una estilista, que vuelve al horario del salón.
+ * @param {Request} req - El objeto de solicitud de Express, con el ID de la estilista en los parámetros.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const resetStylistWorkingHours: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await getStylistById(id))) {
+      res.status(404).json({ message: 'Estilista no encontrada' });
+      return;
+    }
+
+    await deleteWorkingHours(id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error al eliminar horario semanal:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Crea un descanso recurrente para una estilista.
+ * @param {Request} req - El objeto de solicitud de Express, con los datos del descanso en el cuerpo.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const createStylistBreak: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { day_of_week, start_time, end_time, label } = req.body;
+
+    if (!(await getStylistById(id))) {
+      res.status(404).json({ message: 'Estilista no encontrada' });
+      return;
+    }
+
+    const now = new Date();
+    const newBreak: StylistBreak = {
+      id: uuidv4(),
+      stylist_id: id,
+      day_of_week,
+      start_time,
+      end_time,
+      label: label || null,
+      created_at: now,
+      updated_at: now
+    };
+
+    res.status(201).json(await createBreak(newBreak));
+  } catch (error) {
+    console.error('Error al crear descanso:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Actualiza un descanso recurrente de una estilista.
+ * @param {Request} req - El objeto de solicitud de Express.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const updateStylistBreak: RequestHandler = async (req, res) => {
+  try {
+    const { id, itemId } = req.params;
+    const { day_of_week, start_time, end_time, label } = req.body;
+
+    const currentBreak = await getBreakById(id, itemId);
+    if (!currentBreak) {
+      res.status(404).json({ message: 'Descanso no encontrado' });
+      return;
+    }
+
+    // La franja resultante debe seguir siendo válida tras la actualización parcial
+    if ((start_time || currentBreak.start_time) >= (end_time || currentBreak.end_time)) {
+      res.status(400).json({ message: 'La hora de inicio debe ser anterior a la hora de fin' });
+      return;
+    }
+
+    const updatedBreak = await updateBreak(id, itemId, { day_of_week, start_time, end_time, label });
+    res.json(updatedBreak || currentBreak);
+  } catch (error) {
+    console.error('Error al actualizar descanso:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Elimina un descanso recurrente de una estilista.
+ * @param {Request} req - El objeto de solicitud de Express.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const deleteStylistBreak: RequestHandler = async (req, res) => {
+  try {
+    const { id, itemId } = req.params;
+
+    if (await deleteBreak(id, itemId)) {
+      res.status(204).send();
+    } else {
+      res.status(404).json({ message: 'Descanso no encontrado' });
+    }
+  } catch (error) {
+    console.error('Error al eliminar descanso:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Crea un bloqueo de fechas (vacaciones o ausencia) para una estilista.
+ * @param {Request} req - El objeto de solicitud de Express, con los datos del bloqueo en el cuerpo.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const createStylistTimeOff: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { start_date, end_date, reason } = req.body;
+
+    if (!(await getStylistById(id))) {
+      res.status(404).json({ message: 'Estilista no encontrada' });
+      return;
+    }
+
+    const now = new Date();
+    const newTimeOff: StylistTimeOff = {
+      id: uuidv4(),
+      stylist_id: id,
+      start_date: new Date(start_date),
+      end_date: new Date(end_date),
+      reason: reason || null,
+      created_at: now,
+      updated_at: now
+    };
+
+    res.status(201).json(await createTimeOff(newTimeOff));
+  } catch (error) {
+    console.error('Error al crear bloqueo de fechas:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Actualiza un bloqueo de fechas de una estilista.
+ * @param {Request} req - El objeto de solicitud de Express.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const updateStylistTimeOff: RequestHandler = async (req, res) => {
+  try {
+    const { id, itemId } = req.params;
+    const { start_date, end_date, reason } = req.body;
+
+    const currentTimeOff = await getTimeOffById(id, itemId);
+    if (!currentTimeOff) {
+      res.status(404).json({ message: 'Bloqueo de fechas no encontrado' });
+      return;
+    }
+
+    const startDate = start_date ? new Date(start_date) : undefined;
+    const endDate = end_date ? new Date(end_date) : undefined;
+
+    // El rango resultante debe seguir siendo válido tras la actualización parcial
+    if ((startDate || currentTimeOff.start_date) >= (endDate || currentTimeOff.end_date)) {
+      res.status(400).json({ message: 'La fecha de inicio debe ser anterior a la fecha de fin' });
+      return;
+    }
+
+    const updatedTimeOff = await updateTimeOff(id, itemId, {
+      start_date: startDate,
+      end_date: endDate,
+      reason
+    });
+    res.json(updatedTimeOff || currentTimeOff);
+  } catch (error) {
+    console.error('Error al actualizar bloqueo de fechas:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Elimina un bloqueo de fechas de una estilista.
+ * @param {Request} req - El objeto de solicitud de Express.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const deleteStylistTimeOff: RequestHandler = async (req, res) => {
+  try {
+    const { id, itemId } = req.params;
+
+    if (await deleteTimeOff(id, itemId)) {
+      res.status(204).send();
+    } else {
+      res.status(404).json({ message: 'Bloqueo de fechas no encontrado' });
+    }
+  } catch (error) {
+    console.error('Error al eliminar bloqueo de fechas:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
@@ -0,0 +1,136 @@
+/**
+ * @file Controladores de métodos de envío de LauraBraids.
+ * @description Permite a los administradores gestionar los métodos de envío (estándar,
+ *              exprés y recogida en el salón) y sus tarifas por zona.
+ */
+
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { ShippingMethod } from '../interfaces/shipping.interface';
+import {
+  getShippingMethods as getShippingMethodsData,
+  getShippingMethodById as getShippingMethodByIdData,
+  createShippingMethod as createShippingMethodData,
+  updateShippingMethod as updateShippingMethodData,
+  deleteShippingMethod as deleteShippingMethodData
+} from '../data/shipping-methods.database';
+
+/**
+ * @function getShippingMethods
+ * @description Lista todos los métodos de envío
+ *
+ * @param req - Request object
+ * @param res - Response con los métodos
+ */
+export const getShippingMethods = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const methods = await getShippingMethodsData();
+    res.status(200).json({ success: true, data: methods });
+  } catch (error) {
+    console.error('Error al obtener métodos de envío:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @function getShippingMethodById
+ * @description Obtiene un método de envío por su ID
+ *
+ * @param req - Request con el ID del método
+ * @param res - Response con el método
+ */
+export const getShippingMethodById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const method = await getShippingMethodByIdData(req.params.id);
+    if (!method) {
+      res.status(404).json({ success: false, message: 'Método de envío no encontrado' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: method });
+  } catch (error) {
+    console.error('Error al obtener método de envío:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @function createShippingMethod
+ * @description Crea un método de envío
+ *
+ * @param req - Request con name, kind, rate_basis, zones e is_active
+ * @param res - Response con el método creado
+ */
+export const createShippingMethod = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const now = new Date();
+    const method: ShippingMethod = {
+      id: uuidv4(),
+      name: req.body.name,
+      kind: req.body.kind,
+      rate_basis: req.body.rate_basis,
+      zones: req.body.zones,
+      is_active: req.body.is_active,
+      created_at: now,
+      updated_at: now
+    };
+
+    const createdMethod = await createShippingMethodData(method);
+    res.status(201).json({
+      success: true,
+      message: 'Método de envío creado exitosamente',
+      data: createdMethod
+    });
+  } catch (error) {
+    console.error('Error al crear método de envío:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @function updateShippingMethod
+ * @description Actualiza un método de envío. Solo afecta a los pedidos nuevos
+ *
+ * @param req - Request con el ID del método y los campos a actualizar
+ * @param res - Response con el método actualizado
+ */
+export const updateShippingMethod = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const updatedMethod = await updateShippingMethodData(req.params.id, req.body);
+    if (!updatedMethod) {
+      res.status(404).json({ success: false, message: 'Método de envío no encontrado' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Método de envío actualizado exitosamente',
+      data: updatedMethod
+    });
+  } catch (error) {
+    console.error('Error al actualizar método de envío:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @function deleteShippingMethod
+ * @description Elimina un método de envío
+ *
+ * @param req - Request con el ID del método
+ * @param res - Response object
+ */
+export const deleteShippingMethod = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await deleteShippingMethodData(req.params.id);
+    if (!deleted) {
+      res.status(404).json({ success: false, message: 'Método de envío no encontrado' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error al eliminar método de envío:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
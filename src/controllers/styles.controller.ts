@@ -1,6 +1,8 @@
 import { RequestHandler } from 'express';
 import { Style } from '../interfaces/style.interface';
 import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_APPOINTMENT_DURATION_MINUTES } from '../config/schedule.config';
+import { upsertStyle } from '../data/styles.database';
 
 /**
  * @file Controller para la gestión de estilos del sistema LauraBraids.
@@ -9,49 +11,60 @@ import { v4 as uuidv4 } from 'uuid';
  */
 
 // Mockup de una base de datos en memoria. Será reemplazado por PostgreSQL.
+// Los IDs son fijos porque las citas los guardan en MySQL (ver ensureStyleRecord).
 export const initialStyles: Style[] = [
   {
-    id: uuidv4(),
+    id: '550e8400-e29b-41d4-a716-446655440040',
     name: 'Box Braids',
     photo_url: 'https://example.com/box-braids.jpg',
     description: 'Clásicas y versátiles, las Box Braids son un estilo protector duradero que funciona para cualquier ocasión.',
     category: 'Largo',
+    base_price: 150,
+    estimated_duration_minutes: 240,
     created_at: new Date('2024-01-01'),
     updated_at: new Date('2024-01-01'),
   },
   {
-    id: uuidv4(),
+    id: '550e8400-e29b-41d4-a716-446655440041',
     name: 'Cornrows',
     photo_url: 'https://example.com/cornrows.jpg',
     description: 'Trenzas pegadas al cuero cabelludo, ideales para un look deportivo o elegante. Perfectas para el día a día.',
     category: 'Corto',
+    base_price: 60,
+    estimated_duration_minutes: 90,
     created_at: new Date('2024-01-01'),
     updated_at: new Date('2024-01-01'),
   },
   {
-    id: uuidv4(),
+    id: '550e8400-e29b-41d4-a716-446655440042',
     name: 'Fulani Braids',
     photo_url: 'https://example.com/fulani-braids.jpg',
     description: 'Combinación tradicional de trenzas y cornrows con accesorios decorativos. Estilo cultural y elegante.',
     category: 'Clásico',
+    base_price: 120,
+    estimated_duration_minutes: 180,
     created_at: new Date('2024-01-05'),
     updated_at: new Date('2024-01-05'),
   },
   {
-    id: uuidv4(),
+    id: '550e8400-e29b-41d4-a716-446655440043',
     name: 'Knotless Braids',
     photo_url: 'https://example.com/knotless-braids.jpg',
     description: 'Trenzas sin nudos que ofrecen mayor comodidad y un look más natural. Ideal para cabello sensible.',
     category: 'Largo',
+    base_price: 180,
+    estimated_duration_minutes: 300,
     created_at: new Date('2024-01-10'),
     updated_at: new Date('2024-01-10'),
   },
   {
-    id: uuidv4(),
+    id: '550e8400-e29b-41d4-a716-446655440044',
     name: 'Goddess Braids',
     photo_url: 'https://example.com/goddess-braids.jpg',
     description: 'Trenzas gruesas y voluminosas que crean un look dramático y elegante. Perfectas para ocasiones especiales.',
     category: 'Colorido',
+    base_price: 140,
+    estimated_duration_minutes: 240,
     created_at: new Date('2024-01-15'),
     updated_at: new Date('2024-01-15'),
   },
@@ -67,6 +80,58 @@ export const resetStyles = () => {
   styles = [...initialStyles];
 };
 
+/**
+ * @description Verifica que una duración opcional sea un entero positivo de minutos.
+ * @param {unknown} value - Valor recibido en el cuerpo de la solicitud.
+ * @returns {boolean} true si no se proporcionó o es válido.
+ */
+const isValidDuration = (value: unknown): boolean => {
+  return value === undefined || (Number.isInteger(value) && (value as number) > 0);
+};
+
+/**
+ * @description Verifica que un precio base opcional sea un número no negativo.
+ * @param {unknown} value - Valor recibido en el cuerpo de la solicitud.
+ * @returns {boolean} true si no se proporcionó o es válido.
+ */
+const isValidPrice = (value: unknown): boolean => {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+};
+
+/**
+ * @description Busca un estilo por su ID sin pasar por la capa HTTP.
+ * Usado por otros módulos que necesitan datos del catálogo (p. ej. citas).
+ * @param {string} id - ID del estilo.
+ * @returns {Style | undefined} Estilo encontrado o undefined.
+ */
+export const findStyleById = (id: string): Style | undefined => {
+  return styles.find(s => s.id === id);
+};
+
+/**
+ * @description Obtiene la duración estimada de un estilo en minutos.
+ * @param {string} styleId - ID del estilo.
+ * @returns {number} Duración del estilo o la duración por defecto si no se conoce.
+ */
+export const getStyleDurationMinutes = (styleId: string): number => {
+  const style = findStyleById(styleId);
+  return style?.estimated_duration_minutes || DEFAULT_APPOINTMENT_DURATION_MINUTES;
+};
+
+/**
+ * @description Guarda en MySQL el estilo que se va a reservar, ya que las citas y la lista
+ * de espera lo referencian por clave foránea.
+ * @param {string} styleId - ID del estilo.
+ * @returns {Promise<boolean>} false si el estilo no existe o no tiene precio base.
+ */
+export const ensureStyleRecord = async (styleId: string): Promise<boolean> => {
+  const style = findStyleById(styleId);
+  if (!style || style.base_price === undefined) return false;
+
+  await upsertStyle({ ...style, base_price: style.base_price });
+  return true;
+};
+
 /**
  * @description Obtiene todos los estilos del sistema.
  * @param {Request} req - El objeto de solicitud de Express.
@@ -109,7 +174,7 @@ export const getStyleById: RequestHandler = (req, res) => {
  * @param {Response} res - El objeto de respuesta de Express.
  */
 export const createStyle: RequestHandler = (req, res) => {
-  const { name, photo_url, description, category } = req.body;
+  const { name, photo_url, description, category, base_price, estimated_duration_minutes } = req.body;
 
   // Validación simple de los datos de entrada
   if (!name || !description || !category) {
@@ -126,6 +191,18 @@ export const createStyle: RequestHandler = (req, res) => {
     return;
   }
 
+  // Validar duración estimada si se proporciona
+  if (!isValidDuration(estimated_duration_minutes)) {
+    res.status(400).json({ message: 'La duración estimada debe ser un número entero positivo de minutos' });
+    return;
+  }
+
+  // Validar precio base si se proporciona
+  if (!isValidPrice(base_price)) {
+    res.status(400).json({ message: 'El precio base debe ser un número mayor o igual que 0' });
+    return;
+  }
+
   // Crear el nuevo estilo
   const newStyle: Style = {
     id: uuidv4(),
@@ -133,6 +210,8 @@ export const createStyle: RequestHandler = (req, res) => {
     photo_url: photo_url || 'https://example.com/default-style.jpg',
     description,
     category,
+    base_price,
+    estimated_duration_minutes,
     created_at: new Date(),
     updated_at: new Date(),
   };
@@ -157,7 +236,7 @@ export const updateStyle: RequestHandler = (req, res) => {
     return;
   }
 
-  const { name, photo_url, description, category } = req.body;
+  const { name, photo_url, description, category, base_price, estimated_duration_minutes } = req.body;
   const currentStyle = styles[styleIndex];
 
   // Validar categoría si se proporciona
@@ -171,6 +250,18 @@ export const updateStyle: RequestHandler = (req, res) => {
     }
   }
 
+  // Validar duración estimada si se proporciona
+  if (!isValidDuration(estimated_duration_minutes)) {
+    res.status(400).json({ message: 'La duración estimada debe ser un número entero positivo de minutos' });
+    return;
+  }
+
+  // Validar precio base si se proporciona
+  if (!isValidPrice(base_price)) {
+    res.status(400).json({ message: 'El precio base debe ser un número mayor o igual que 0' });
+    return;
+  }
+
   // Actualizar campos proporcionados
   const updatedStyle: Style = {
     ...currentStyle,
@@ -178,6 +269,8 @@ export const updateStyle: RequestHandler = (req, res) => {
     photo_url: photo_url || currentStyle.photo_url,
     description: description || currentStyle.description,
     category: category || currentStyle.category,
+    base_price: base_price ?? currentStyle.base_price,
+    estimated_duration_minutes: estimated_duration_minutes || currentStyle.estimated_duration_minutes,
     updated_at: new Date(),
   };
 
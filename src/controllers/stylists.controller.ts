@@ -1,14 +1,17 @@
 import { RequestHandler } from 'express';
 import { Stylist } from '../interfaces/stylist.interface';
+import { UserRole } from '../interfaces/user.interface';
 import { v4 as uuidv4 } from 'uuid';
 import {
   getStylists as getStylistsData,
   getStylistById as getStylistByIdData,
+  getStylistByUserId,
   addStylist,
   updateStylist as updateStylistData,
   deleteStylist as deleteStylistData,
   resetStylists as resetStylistsData
 } from '../data/stylists.database';
+import { getUserById } from '../data/users.database';
 
 /**
  * @file Controller para la gestión de estilistas del sistema LauraBraids.
@@ -90,7 +93,7 @@ export const getStylistById: RequestHandler = async (req, res) => {
  */
 export const createStylist: RequestHandler = async (req, res) => {
   try {
-    const { name, specialty, photo_url, description, is_featured = false } = req.body;
+    const { name, specialty, photo_url, description, is_featured = false, user_id } = req.body;
 
     // Validación simple de los datos de entrada
     if (!name || !specialty || !description) {
@@ -104,9 +107,24 @@ export const createStylist: RequestHandler = async (req, res) => {
       return;
     }
 
+    // El usuario vinculado debe tener rol STYLIST y no tener ya un perfil de estilista
+    if (user_id) {
+      const user = await getUserById(user_id);
+      if (!user || user.role !== UserRole.STYLIST) {
+        res.status(400).json({ message: 'El usuario vinculado debe existir y tener rol STYLIST' });
+        return;
+      }
+
+      if (await getStylistByUserId(user_id)) {
+        res.status(409).json({ message: 'El usuario ya está vinculado a otra estilista' });
+        return;
+      }
+    }
+
     // Crear la nueva estilista
     const newStylist: Stylist = {
       id: uuidv4(),
+      user_id,
       name,
       specialty,
       photo_url: photo_url || 'https://example.com/default-stylist.jpg',
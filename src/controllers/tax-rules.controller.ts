@@ -0,0 +1,138 @@
+/**
+ * @file Controladores de reglas de impuestos de LauraBraids.
+ * @description Permite a los administradores gestionar las reglas de impuestos por
+ *              jurisdicción y clase fiscal con las que se calculan los pedidos.
+ */
+
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { TaxRule } from '../interfaces/tax.interface';
+import {
+  getTaxRules as getTaxRulesData,
+  getTaxRuleById as getTaxRuleByIdData,
+  createTaxRule as createTaxRuleData,
+  updateTaxRule as updateTaxRuleData,
+  deleteTaxRule as deleteTaxRuleData
+} from '../data/tax-rules.database';
+
+/**
+ * @function getTaxRules
+ * @description Lista todas las reglas de impuestos
+ *
+ * @param req - Request object
+ * @param res - Response con las reglas
+ */
+export const getTaxRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rules = await getTaxRulesData();
+    res.status(200).json({ success: true, data: rules });
+  } catch (error) {
+    console.error('Error al obtener reglas de impuestos:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @function getTaxRuleById
+ * @description Obtiene una regla de impuestos por su ID
+ *
+ * @param req - Request con el ID de la regla
+ * @param res - Response con la regla
+ */
+export const getTaxRuleById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rule = await getTaxRuleByIdData(req.params.id);
+    if (!rule) {
+      res.status(404).json({ success: false, message: 'Regla de impuestos no encontrada' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: rule });
+  } catch (error) {
+    console.error('Error al obtener regla de impuestos:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @function createTaxRule
+ * @description Crea una regla de impuestos
+ *
+ * @param req - Request con name, country, region?, tax_class, rate, mode e is_active
+ * @param res - Response con la regla creada
+ */
+export const createTaxRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const now = new Date();
+    const rule: TaxRule = {
+      id: uuidv4(),
+      name: req.body.name,
+      country: req.body.country,
+      region: req.body.region || null,
+      tax_class: req.body.tax_class,
+      rate: req.body.rate,
+      mode: req.body.mode,
+      is_active: req.body.is_active,
+      created_at: now,
+      updated_at: now
+    };
+
+    const createdRule = await createTaxRuleData(rule);
+    res.status(201).json({
+      success: true,
+      message: 'Regla de impuestos creada exitosamente',
+      data: createdRule
+    });
+  } catch (error) {
+    console.error('Error al crear regla de impuestos:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @function updateTaxRule
+ * @description Actualiza una regla de impuestos. Solo afecta a los pedidos nuevos
+ *
+ * @param req - Request con el ID de la regla y los campos a actualizar
+ * @param res - Response con la regla actualizada
+ */
+export const updateTaxRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const updatedRule = await updateTaxRuleData(req.params.id, req.body);
+    if (!updatedRule) {
+      res.status(404).json({ success: false, message: 'Regla de impuestos no encontrada' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Regla de impuestos actualizada exitosamente',
+      data: updatedRule
+    });
+  } catch (error) {
+    console.error('Error al actualizar regla de impuestos:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @function deleteTaxRule
+ * @description Elimina una regla de impuestos
+ *
+ * @param req - Request con el ID de la regla
+ * @param res - Response object
+ */
+export const deleteTaxRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await deleteTaxRuleData(req.params.id);
+    if (!deleted) {
+      res.status(404).json({ success: false, message: 'Regla de impuestos no encontrada' });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error al eliminar regla de impuestos:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
@@ -0,0 +1,333 @@
+/**
+ * @file Controladores del segundo factor de autenticación (TOTP) para LauraBraids.
+ * @description Activación con URI otpauth, confirmación con un primer código, códigos
+ *              de recuperación de un solo uso, desactivación y los retos del login en
+ *              dos pasos.
+ */
+
+import { Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { v4 as uuidv4 } from 'uuid';
+import { User, UserRole } from '../interfaces/user.interface';
+import { TwoFactorChallengeResponse } from '../interfaces/auth.interface';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+  TWO_FACTOR_ISSUER,
+  REQUIRE_2FA_FOR_ADMINS,
+  TWO_FACTOR_CHALLENGE_TTL_MINUTES,
+  TWO_FACTOR_RECOVERY_CODE_COUNT
+} from '../config/auth.config';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri } from '../utils/totp.utils';
+import {
+  generateOpaqueToken,
+  hashToken,
+  generateRecoveryCode,
+  hashRecoveryCode
+} from '../utils/token.utils';
+import { getUserById } from '../data/users.database';
+import {
+  getTwoFactorSettings,
+  savePendingTwoFactor,
+  enableTwoFactor,
+  markTotpStepUsed,
+  deleteTwoFactor,
+  replaceRecoveryCodes,
+  consumeRecoveryCode,
+  countUnusedRecoveryCodes,
+  createTwoFactorChallenge
+} from '../data/two-factor.database';
+
+/**
+ * @function isTwoFactorEnabled
+ * @description Indica si un usuario tiene el segundo factor activo (confirmado)
+ * 
+ * @param userId - ID del usuario
+ * @returns true si el login requiere el segundo paso
+ */
+export const isTwoFactorEnabled = async (userId: string): Promise<boolean> => {
+  const settings = await getTwoFactorSettings(userId);
+  return settings !== null && settings.enabled_at !== null;
+};
+
+/**
+ * @function issueTwoFactorChallenge
+ * @description Crea el reto del segundo paso del login. Solo se guarda el hash del token.
+ * 
+ * @param user - Usuario que superó el primer paso (contraseña)
+ * @returns Respuesta con el token del reto
+ */
+export const issueTwoFactorChallenge = async (user: User): Promise<TwoFactorChallengeResponse> => {
+  const challengeToken = generateOpaqueToken(32);
+  const expiresIn = TWO_FACTOR_CHALLENGE_TTL_MINUTES * 60 * 1000;
+  const now = new Date();
+
+  await createTwoFactorChallenge({
+    id: uuidv4(),
+    user_id: user.id,
+    token_hash: hashToken(challengeToken),
+    expires_at: new Date(now.getTime() + expiresIn),
+    used_at: null,
+    attempts: 0,
+    created_at: now
+  });
+
+  return { two_factor_required: true, challenge_token: challengeToken, expires_in: expiresIn };
+};
+
+/**
+ * @function verifySecondFactor
+ * @description Comprueba un código TOTP o, en su defecto, un código de recuperación.
+ * Los códigos TOTP no se aceptan dos veces y los de recuperación se consumen.
+ * 
+ * @param userId - ID del usuario
+ * @param code - Código TOTP de la app de autenticación
+ * @param recoveryCode - Código de recuperación
+ * @returns true si el segundo factor es válido
+ */
+export const verifySecondFactor = async (
+  userId: string,
+  code?: string,
+  recoveryCode?: string
+): Promise<boolean> => {
+  const settings = await getTwoFactorSettings(userId);
+  if (!settings || !settings.enabled_at) return false;
+
+  const now = new Date();
+
+  if (code) {
+    const step = verifyTotp(settings.secret, code, now);
+    return step !== null && await markTotpStepUsed(userId, step);
+  }
+
+  if (recoveryCode) {
+    return await consumeRecoveryCode(userId, hashRecoveryCode(recoveryCode), now);
+  }
+
+  return false;
+};
+
+/**
+ * @function issueRecoveryCodes
+ * @description Genera los códigos de recuperación del usuario, sustituyendo los anteriores.
+ * 
+ * @param userId - ID del usuario
+ * @returns Códigos en claro (solo se muestran una vez)
+ */
+const issueRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const codes: string[] = [];
+  for (let i = 0; i < TWO_FACTOR_RECOVERY_CODE_COUNT; i++) {
+    codes.push(generateRecoveryCode());
+  }
+
+  await replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+};
+
+/**
+ * @function getTwoFactorStatus
+ * @description Indica si el usuario autenticado tiene el segundo factor activo.
+ * 
+ * @param req - Request autenticado
+ * @param res - Response con el estado del segundo factor
+ */
+export const getTwoFactorStatus = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const settings = await getTwoFactorSettings(req.user!.userId);
+    const enabled = settings !== null && settings.enabled_at !== null;
+
+    res.status(200).json({
+      success: true,
+      message: 'Estado del segundo factor obtenido exitosamente',
+      data: {
+        enabled,
+        enabled_at: enabled ? settings!.enabled_at : null,
+        recovery_codes_remaining: enabled ? await countUnusedRecoveryCodes(req.user!.userId) : 0,
+        required: REQUIRE_2FA_FOR_ADMINS && req.user!.role === UserRole.ADMIN
+      }
+    });
+  } catch (error) {
+    console.error('Error al obtener estado del segundo factor:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor',
+      error: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+};
+
+/**
+ * @function setupTwoFactor
+ * @description Inicia la activación del segundo factor: genera un secreto y la URI otpauth
+ * para escanear con la app de autenticación. No se activa hasta confirmar un código.
+ * 
+ * @param req - Request autenticado
+ * @param res - Response con el secreto y la URI otpauth
+ */
+export const setupTwoFactor = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const user = await getUserById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'Usuario no encontrado',
+        error: 'USER_NOT_FOUND'
+      });
+      return;
+    }
+
+    if (await isTwoFactorEnabled(user.id)) {
+      res.status(409).json({
+        success: false,
+        message: 'El segundo factor ya está activado',
+        error: 'TWO_FACTOR_ALREADY_ENABLED'
+      });
+      return;
+    }
+
+    const secret = generateTotpSecret();
+    await savePendingTwoFactor(user.id, secret);
+
+    res.status(200).json({
+      success: true,
+      message: 'Escanea el código con tu app de autenticación y confirma con un código',
+      data: {
+        secret,
+        otpauth_uri: buildOtpAuthUri(TWO_FACTOR_ISSUER, user.email, secret)
+      }
+    });
+  } catch (error) {
+    console.error('Error al iniciar activación del segundo factor:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor',
+      error: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+};
+
+/**
+ * @function verifyTwoFactorSetup
+ * @description Confirma la activación del segundo factor con un primer código de la app
+ * y devuelve los códigos de recuperación, que solo se muestran esta vez.
+ * 
+ * @param req - Request autenticado con el código en el body
+ * @param res - Response con los códigos de recuperación
+ */
+export const verifyTwoFactorSetup = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+    const userId = req.user!.userId;
+
+    const settings = await getTwoFactorSettings(userId);
+    if (!settings) {
+      res.status(400).json({
+        success: false,
+        message: 'Primero debes iniciar la activación del segundo factor',
+        error: 'TWO_FACTOR_NOT_SET_UP'
+      });
+      return;
+    }
+
+    if (settings.enabled_at) {
+      res.status(409).json({
+        success: false,
+        message: 'El segundo factor ya está activado',
+        error: 'TWO_FACTOR_ALREADY_ENABLED'
+      });
+      return;
+    }
+
+    const now = new Date();
+    const step = verifyTotp(settings.secret, code, now);
+    if (step === null) {
+      res.status(400).json({
+        success: false,
+        message: 'Código de verificación incorrecto',
+        error: 'INVALID_TWO_FACTOR_CODE'
+      });
+      return;
+    }
+
+    await enableTwoFactor(userId, step, now);
+    const recoveryCodes = await issueRecoveryCodes(userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Segundo factor activado. Guarda los códigos de recuperación en un lugar seguro.',
+      data: { recovery_codes: recoveryCodes }
+    });
+  } catch (error) {
+    console.error('Error al confirmar el segundo factor:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor',
+      error: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+};
+
+/**
+ * @function disableTwoFactor
+ * @description Desactiva el segundo factor. Requiere la contraseña y un código TOTP o de
+ * recuperación. Si el segundo factor es obligatorio para administradores, no se permite.
+ * 
+ * @param req - Request autenticado con password y code o recoveryCode en el body
+ * @param res - Response confirmando la desactivación
+ */
+export const disableTwoFactor = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    if (REQUIRE_2FA_FOR_ADMINS && req.user!.role === UserRole.ADMIN) {
+      res.status(403).json({
+        success: false,
+        message: 'El segundo factor es obligatorio para administradores',
+        error: 'TWO_FACTOR_REQUIRED'
+      });
+      return;
+    }
+
+    const user = await getUserById(req.user!.userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'Usuario no encontrado',
+        error: 'USER_NOT_FOUND'
+      });
+      return;
+    }
+
+    if (!(await isTwoFactorEnabled(user.id))) {
+      res.status(400).json({
+        success: false,
+        message: 'El segundo factor no está activado',
+        error: 'TWO_FACTOR_NOT_ENABLED'
+      });
+      return;
+    }
+
+    const isValidPassword = await bcrypt.compare(password, user.password_hash);
+    if (!isValidPassword || !(await verifySecondFactor(user.id, code, recoveryCode))) {
+      res.status(400).json({
+        success: false,
+        message: 'La contraseña o el código son incorrectos',
+        error: 'INVALID_TWO_FACTOR_CODE'
+      });
+      return;
+    }
+
+    await deleteTwoFactor(user.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Segundo factor desactivado'
+    });
+  } catch (error) {
+    console.error('Error al desactivar el segundo factor:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor',
+      error: 'INTERNAL_SERVER_ERROR'
+    });
+  }
+};
@@ -5,6 +5,7 @@
 
 import { RequestHandler } from 'express';
 import { User, UserRole } from '../interfaces/user.interface';
+import { LoginThrottleScope } from '../interfaces/auth.interface';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcryptjs';
 import {
@@ -16,6 +17,7 @@ import {
   deleteUser as deleteUserData,
   resetUsers as resetUsersData
 } from '../data/users.database';
+import { clearLoginThrottle } from '../data/login-throttles.database';
 
 /**
  * @description Reinicia los datos de usuarios al estado inicial (para testing).
@@ -172,3 +174,29 @@ export const deleteUser: RequestHandler = async (req, res) => {
     res.status(500).json({ success: false, message: 'Error interno del servidor' });
   }
 };
+
+/**
+ * @description Desbloquea la cuenta de un usuario bloqueada por intentos de login
+ * fallidos y reinicia su contador. (Solo administradores).
+ */
+export const unlockUser: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const user = await getUserByIdData(id);
+
+    if (!user) {
+      res.status(404).json({ success: false, message: 'Usuario no encontrado' });
+      return;
+    }
+
+    const wasLocked = await clearLoginThrottle(LoginThrottleScope.ACCOUNT, user.email);
+    res.status(200).json({
+      success: true,
+      message: 'Cuenta desbloqueada',
+      data: { id: user.id, email: user.email, had_failed_attempts: wasLocked }
+    });
+  } catch (error) {
+    console.error('Error al desbloquear usuario:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
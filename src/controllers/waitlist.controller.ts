@@ -0,0 +1,358 @@
+import { RequestHandler, Response } from 'express';
+import { Appointment, AppointmentStatus, TimeSlot } from '../interfaces/appointment.interface';
+import {
+  WaitlistEntry,
+  WaitlistFilters,
+  WaitlistStatus
+} from '../interfaces/waitlist.interface';
+import { NotificationType } from '../interfaces/notification.interface';
+import { v4 as uuidv4 } from 'uuid';
+import { WAITLIST_HOLD_MINUTES } from '../config/schedule.config';
+import { addMinutes, formatDateOnly } from '../utils/availability.utils';
+import { ensureStyleRecord, getStyleDurationMinutes } from './styles.controller';
+import { calculateAppointmentPrice, isPricingError } from './pricing.controller';
+import { getNotifier } from '../notifications/notifier';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { PermissionScope } from '../interfaces/permission.interface';
+import { getGrantedScope } from '../policies/permissions.policy';
+import {
+  getActiveStylistAppointments,
+  createAppointment as createAppointmentData
+} from '../data/appointments.database';
+import { getStylistById } from '../data/stylists.database';
+import { getUserById } from '../data/users.database';
+import {
+  getWaitlistEntries as getWaitlistEntriesData,
+  getWaitlistEntryById as getWaitlistEntryByIdData,
+  getWaitingEntriesForDay,
+  getActiveWaitlistHolds,
+  getExpiredWaitlistOffers,
+  createWaitlistEntry as createWaitlistEntryData,
+  updateWaitlistEntry as updateWaitlistEntryData
+} from '../data/waitlist.database';
+
+/**
+ * @file Controller para la lista de espera de citas del sistema LauraBraids.
+ * @description Gestiona las solicitudes de clientes que esperan un horario con una
+ *              estilista y les ofrece, con una reserva temporal, los horarios que se liberan.
+ */
+
+/**
+ * @description Indica si un horario está libre: sin citas activas ni ofertas vigentes.
+ * @param {string} stylistId - ID de la estilista.
+ * @param {TimeSlot} slot - Horario a comprobar.
+ * @returns {Promise<boolean>} true si nadie ocupa ni tiene reservado el horario.
+ */
+const isSlotFree = async (stylistId: string, slot: TimeSlot): Promise<boolean> => {
+  const appointments = await getActiveStylistAppointments(stylistId, slot);
+  if (appointments.length > 0) return false;
+
+  const holds = await getActiveWaitlistHolds(stylistId, slot, new Date());
+  return holds.length === 0;
+};
+
+/**
+ * @description Ofrece un horario libre a la primera solicitud en espera que lo acepte:
+ * misma estilista, día dentro de su rango y duración del estilo que cabe en el horario.
+ * El horario queda reservado para el cliente durante WAITLIST_HOLD_MINUTES.
+ * @param {string} stylistId - ID de la estilista.
+ * @param {TimeSlot} slot - Horario liberado.
+ * @returns {Promise<WaitlistEntry | null>} Solicitud que recibió la oferta o null si no hay candidatas.
+ */
+const offerSlot = async (stylistId: string, slot: TimeSlot): Promise<WaitlistEntry | null> => {
+  const now = new Date();
+  if (slot.start <= now) return null;
+
+  const candidates = await getWaitingEntriesForDay(stylistId, formatDateOnly(slot.start));
+  const entry = candidates.find(candidate =>
+    addMinutes(slot.start, getStyleDurationMinutes(candidate.style_id)) <= slot.end
+  );
+  if (!entry) return null;
+
+  const offeredSlot: TimeSlot = {
+    start: slot.start,
+    end: addMinutes(slot.start, getStyleDurationMinutes(entry.style_id))
+  };
+  if (!(await isSlotFree(stylistId, offeredSlot))) return null;
+
+  const offerExpiresAt = addMinutes(now, WAITLIST_HOLD_MINUTES);
+  const offeredEntry = await updateWaitlistEntryData(entry.id, {
+    status: WaitlistStatus.OFFERED,
+    offered_start: offeredSlot.start,
+    offered_end: offeredSlot.end,
+    offer_expires_at: offerExpiresAt
+  });
+
+  await getNotifier().send({
+    id: uuidv4(),
+    recipient_id: entry.user_id,
+    type: NotificationType.WAITLIST_OFFER,
+    subject: 'Se ha liberado un horario con tu estilista',
+    message: `Tienes reservado el horario del ${offeredSlot.start.toISOString()} hasta ` +
+      `${offerExpiresAt.toISOString()}. Acéptalo antes de que venza la oferta.`,
+    data: {
+      waitlist_entry_id: entry.id,
+      stylist_id: stylistId,
+      offered_start: offeredSlot.start,
+      offered_end: offeredSlot.end,
+      offer_expires_at: offerExpiresAt
+    },
+    created_at: now
+  });
+
+  return offeredEntry;
+};
+
+/**
+ * @description Ofrece a la lista de espera el horario de una cita cancelada.
+ * @param {Appointment} appointment - Cita que liberó el horario.
+ * @returns {Promise<WaitlistEntry | null>} Solicitud que recibió la oferta o null si no hay candidatas.
+ */
+export const offerFreedSlot = async (appointment: Appointment): Promise<WaitlistEntry | null> => {
+  await expireStaleOffers();
+  return await offerSlot(appointment.stylist_id, {
+    start: appointment.appointment_date,
+    end: appointment.estimated_end_date
+  });
+};
+
+/**
+ * @description Marca como vencidas las ofertas sin respuesta y ofrece sus horarios
+ * a la siguiente solicitud en espera. Se ejecuta al calcular horarios ocupados,
+ * al cancelar citas y al consultar o aceptar la lista de espera.
+ */
+export const expireStaleOffers = async (): Promise<void> => {
+  const expiredOffers = await getExpiredWaitlistOffers(new Date());
+
+  for (const entry of expiredOffers) {
+    await updateWaitlistEntryData(entry.id, { status: WaitlistStatus.EXPIRED });
+    await releaseOffer(entry);
+  }
+};
+
+/**
+ * @description Vuelve a ofrecer el horario que tenía reservado una solicitud.
+ * @param {WaitlistEntry} entry - Solicitud que deja libre su oferta.
+ */
+const releaseOffer = async (entry: WaitlistEntry): Promise<void> => {
+  if (entry.offered_start && entry.offered_end) {
+    await offerSlot(entry.stylist_id, { start: entry.offered_start, end: entry.offered_end });
+  }
+};
+
+/**
+ * @description Inscribe a un cliente en la lista de espera de una estilista.
+ * @param {Request} req - El objeto de solicitud de Express, con los datos de la solicitud en el cuerpo.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const joinWaitlist: RequestHandler = async (req, res) => {
+  try {
+    const { user_id, stylist_id, style_id, earliest_date, latest_date, notes } = req.body;
+
+    if (!(await getStylistById(stylist_id))) {
+      res.status(404).json({ message: 'Estilista no encontrada' });
+      return;
+    }
+    if (!(await getUserById(user_id))) {
+      res.status(404).json({ message: 'Cliente no encontrado' });
+      return;
+    }
+
+    // Solo se puede esperar un estilo que se pueda reservar (existe y tiene precio)
+    if (!(await ensureStyleRecord(style_id))) {
+      res.status(400).json({ message: 'El estilo no existe o no está disponible' });
+      return;
+    }
+
+    const now = new Date();
+    const entry: WaitlistEntry = {
+      id: uuidv4(),
+      user_id,
+      stylist_id,
+      style_id,
+      earliest_date,
+      latest_date,
+      status: WaitlistStatus.WAITING,
+      offered_start: null,
+      offered_end: null,
+      offer_expires_at: null,
+      appointment_id: null,
+      notes: notes || '',
+      created_at: now,
+      updated_at: now
+    };
+
+    res.status(201).json(await createWaitlistEntryData(entry));
+  } catch (error) {
+    console.error('Error al inscribir en la lista de espera:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Obtiene las solicitudes de la lista de espera. Quien no tiene waitlist:list
+ * sobre cualquier solicitud solo ve las suyas.
+ * @param {AuthenticatedRequest} req - El objeto de solicitud de Express, con user_id, stylist_id y status en la query.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const getWaitlist = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await expireStaleOffers();
+
+    const { user_id, stylist_id, status } = req.query;
+    const filters: WaitlistFilters = {};
+
+    // Filtros opcionales por cliente, estilista y estado
+    if (getGrantedScope(req.user!, 'waitlist:list') !== PermissionScope.ANY) {
+      filters.user_id = req.user!.userId;
+    } else if (user_id && typeof user_id === 'string') {
+      filters.user_id = user_id;
+    }
+    if (stylist_id && typeof stylist_id === 'string') filters.stylist_id = stylist_id;
+    if (status && typeof status === 'string') filters.status = status as WaitlistStatus;
+
+    res.json(await getWaitlistEntriesData(filters));
+  } catch (error) {
+    console.error('Error al obtener la lista de espera:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Saca una solicitud de la lista de espera. Si tenía una oferta vigente,
+ * el horario pasa a la siguiente solicitud.
+ * @param {Request} req - El objeto de solicitud de Express, con el ID en los parámetros.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const leaveWaitlist: RequestHandler = async (req, res) => {
+  try {
+    const entry = await getWaitlistEntryByIdData(req.params.id);
+    if (!entry) {
+      res.status(404).json({ message: 'Solicitud de lista de espera no encontrada' });
+      return;
+    }
+
+    if (entry.status !== WaitlistStatus.WAITING && entry.status !== WaitlistStatus.OFFERED) {
+      res.status(409).json({
+        message: `No se puede salir de la lista de espera con la solicitud en estado ${entry.status}`,
+        error: 'WAITLIST_ENTRY_CLOSED'
+      });
+      return;
+    }
+
+    const updatedEntry = await updateWaitlistEntryData(entry.id, { status: WaitlistStatus.CANCELLED });
+    if (entry.status === WaitlistStatus.OFFERED) {
+      await releaseOffer(entry);
+    }
+
+    res.json(updatedEntry);
+  } catch (error) {
+    console.error('Error al salir de la lista de espera:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Acepta la oferta de una solicitud y crea la cita en el horario reservado.
+ * @param {Request} req - El objeto de solicitud de Express, con el ID en los parámetros.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const acceptWaitlistOffer: RequestHandler = async (req, res) => {
+  try {
+    await expireStaleOffers();
+
+    const entry = await getWaitlistEntryByIdData(req.params.id);
+    if (!entry) {
+      res.status(404).json({ message: 'Solicitud de lista de espera no encontrada' });
+      return;
+    }
+
+    if (entry.status === WaitlistStatus.EXPIRED) {
+      res.status(410).json({ message: 'La oferta ha vencido', error: 'WAITLIST_OFFER_EXPIRED' });
+      return;
+    }
+
+    if (entry.status !== WaitlistStatus.OFFERED || !entry.offered_start || !entry.offered_end) {
+      res.status(409).json({
+        message: 'La solicitud no tiene una oferta pendiente',
+        error: 'WAITLIST_OFFER_NOT_AVAILABLE'
+      });
+      return;
+    }
+
+    const offeredSlot: TimeSlot = { start: entry.offered_start, end: entry.offered_end };
+    const [conflict] = await getActiveStylistAppointments(entry.stylist_id, offeredSlot);
+    if (conflict) {
+      res.status(409).json({
+        message: 'La estilista ya tiene una cita programada en ese horario',
+        conflict: { start: conflict.appointment_date, end: conflict.estimated_end_date }
+      });
+      return;
+    }
+
+    const priceBreakdown = await calculateAppointmentPrice(entry.style_id, entry.stylist_id);
+    if (isPricingError(priceBreakdown)) {
+      res.status(400).json(priceBreakdown);
+      return;
+    }
+
+    const now = new Date();
+    const appointment = await createAppointmentData({
+      id: uuidv4(),
+      user_id: entry.user_id,
+      stylist_id: entry.stylist_id,
+      style_id: entry.style_id,
+      appointment_date: offeredSlot.start,
+      estimated_end_date: offeredSlot.end,
+      status: AppointmentStatus.SCHEDULED,
+      total_price: priceBreakdown.total_price,
+      price_breakdown: priceBreakdown,
+      notes: entry.notes || '',
+      cancellation_reason: null,
+      cancelled_at: null,
+      created_at: now,
+      updated_at: now,
+    });
+
+    const updatedEntry = await updateWaitlistEntryData(entry.id, {
+      status: WaitlistStatus.BOOKED,
+      appointment_id: appointment.id
+    });
+
+    res.status(201).json({ ...updatedEntry, appointment });
+  } catch (error) {
+    console.error('Error al aceptar oferta de la lista de espera:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
+
+/**
+ * @description Rechaza la oferta de una solicitud y ofrece el horario a la siguiente.
+ * @param {Request} req - El objeto de solicitud de Express, con el ID en los parámetros.
+ * @param {Response} res - El objeto de respuesta de Express.
+ */
+export const declineWaitlistOffer: RequestHandler = async (req, res) => {
+  try {
+    const entry = await getWaitlistEntryByIdData(req.params.id);
+    if (!entry) {
+      res.status(404).json({ message: 'Solicitud de lista de espera no encontrada' });
+      return;
+    }
+
+    if (entry.status !== WaitlistStatus.OFFERED) {
+      res.status(409).json({
+        message: 'La solicitud no tiene una oferta pendiente',
+        error: 'WAITLIST_OFFER_NOT_AVAILABLE'
+      });
+      return;
+    }
+
+    const updatedEntry = await updateWaitlistEntryData(entry.id, { status: WaitlistStatus.DECLINED });
+    await releaseOffer(entry);
+
+    res.json(updatedEntry);
+  } catch (error) {
+    console.error('Error al rechazar oferta de la lista de espera:', error);
+    res.status(500).json({ success: false, message: 'Error interno del servidor' });
+  }
+};
@@ -0,0 +1,145 @@
+/**
+ * @file Capa de datos para API keys usando MySQL.
+ * @description Operaciones de base de datos para crear, listar, identificar por prefijo,
+ *              registrar el último uso y revocar las claves de API de integraciones.
+ */
+
+import { executeQuery } from '../config/database.config';
+import { ApiKey } from '../interfaces/auth.interface';
+import { RowDataPacket } from 'mysql2';
+
+/**
+ * @interface ApiKeyRow
+ * @description Interfaz para las filas de API keys desde MySQL
+ */
+interface ApiKeyRow extends RowDataPacket {
+  id: string;
+  name: string;
+  prefix: string;
+  key_hash: string;
+  scopes: string | string[];
+  created_by: string;
+  expires_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * @constant API_KEY_COLUMNS
+ * @description Columnas seleccionadas en todas las consultas de API keys
+ */
+const API_KEY_COLUMNS = `id, name, prefix, key_hash, scopes, created_by, expires_at, last_used_at,
+       revoked_at, created_at`;
+
+/**
+ * @function createApiKey
+ * @description Inserta una nueva API key
+ * @param apiKey - Clave a insertar (solo con el hash de la clave completa)
+ * @returns Clave creada
+ */
+export const createApiKey = async (apiKey: ApiKey): Promise<ApiKey> => {
+  const query = `
+    INSERT INTO api_keys (id, name, prefix, key_hash, scopes, created_by, expires_at, last_used_at,
+                          revoked_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    apiKey.id, apiKey.name, apiKey.prefix, apiKey.key_hash, JSON.stringify(apiKey.scopes),
+    apiKey.created_by, apiKey.expires_at, apiKey.last_used_at, apiKey.revoked_at, apiKey.created_at
+  ];
+
+  await executeQuery(query, params);
+  return apiKey;
+};
+
+/**
+ * @function getApiKeys
+ * @description Obtiene todas las API keys, de la más reciente a la más antigua
+ * @returns Array de API keys
+ */
+export const getApiKeys = async (): Promise<ApiKey[]> => {
+  const query = `
+    SELECT ${API_KEY_COLUMNS}
+    FROM api_keys
+    ORDER BY created_at DESC
+  `;
+
+  const rows: ApiKeyRow[] = await executeQuery(query);
+  return rows.map(mapRowToApiKey);
+};
+
+/**
+ * @function getApiKeyByPrefix
+ * @description Obtiene una API key por su prefijo público
+ * @param prefix - Prefijo de la clave
+ * @returns Clave encontrada o null
+ */
+export const getApiKeyByPrefix = async (prefix: string): Promise<ApiKey | null> => {
+  const query = `
+    SELECT ${API_KEY_COLUMNS}
+    FROM api_keys
+    WHERE prefix = ?
+  `;
+
+  const rows: ApiKeyRow[] = await executeQuery(query, [prefix]);
+  return rows.length > 0 ? mapRowToApiKey(rows[0]) : null;
+};
+
+/**
+ * @function touchApiKey
+ * @description Registra el último uso de una API key
+ * @param id - ID de la clave
+ * @param now - Momento de uso
+ */
+export const touchApiKey = async (id: string, now: Date): Promise<void> => {
+  await executeQuery('UPDATE api_keys SET last_used_at = ? WHERE id = ?', [now, id]);
+};
+
+/**
+ * @function revokeApiKey
+ * @description Revoca una API key. Solo tiene efecto si seguía activa
+ * @param id - ID de la clave
+ * @param now - Momento de la revocación
+ * @returns true si se revocó, false si no existe o ya estaba revocada
+ */
+export const revokeApiKey = async (id: string, now: Date): Promise<boolean> => {
+  const query = `
+    UPDATE api_keys
+    SET revoked_at = ?
+    WHERE id = ? AND revoked_at IS NULL
+  `;
+
+  const result = await executeQuery(query, [now, id]);
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function resetApiKeys
+ * @description Reinicia los datos de API keys (solo para testing)
+ */
+export const resetApiKeys = async (): Promise<void> => {
+  await executeQuery('DELETE FROM api_keys');
+};
+
+/**
+ * @function mapRowToApiKey
+ * @description Convierte una fila de MySQL a objeto ApiKey
+ * @param row - Fila de la base de datos
+ * @returns Objeto ApiKey
+ */
+const mapRowToApiKey = (row: ApiKeyRow): ApiKey => {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    key_hash: row.key_hash,
+    scopes: typeof row.scopes === 'string' ? JSON.parse(row.scopes) : row.scopes,
+    created_by: row.created_by,
+    expires_at: row.expires_at,
+    last_used_at: row.last_used_at,
+    revoked_at: row.revoked_at,
+    created_at: row.created_at
+  };
+};
@@ -0,0 +1,376 @@
+/**
+ * @file Capa de datos para citas usando MySQL.
+ * @description Operaciones de base de datos para la gestión de citas.
+ *              La columna customer_id se expone como user_id en la API.
+ */
+
+import { executeQuery } from '../config/database.config';
+import {
+  Appointment,
+  AppointmentChange,
+  AppointmentFilters,
+  AppointmentPriceBreakdown,
+  AppointmentUpdateRequest,
+  AppointmentStatus,
+  ACTIVE_APPOINTMENT_STATUSES,
+  TimeSlot
+} from '../interfaces/appointment.interface';
+import { RowDataPacket } from 'mysql2';
+
+/**
+ * @interface AppointmentRow
+ * @description Interfaz para las filas de citas desde MySQL
+ */
+interface AppointmentRow extends RowDataPacket {
+  id: string;
+  customer_id: string;
+  stylist_id: string;
+  style_id: string;
+  appointment_date: Date;
+  estimated_end_date: Date | null;
+  status: AppointmentStatus;
+  total_price: number;
+  notes: string | null;
+  cancellation_reason: string | null;
+  cancelled_at: Date | null;
+  series_id: string | null;
+  price_breakdown: AppointmentPriceBreakdown | string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @interface AppointmentChangeRow
+ * @description Interfaz para las filas del historial de cambios desde MySQL
+ */
+interface AppointmentChangeRow extends RowDataPacket {
+  id: string;
+  appointment_id: string;
+  previous_date: Date;
+  new_date: Date;
+  reason: string;
+  changed_by: string | null;
+  created_at: Date;
+}
+
+/**
+ * @constant APPOINTMENT_COLUMNS
+ * @description Columnas seleccionadas en todas las consultas de citas
+ */
+const APPOINTMENT_COLUMNS = `
+  id, customer_id, stylist_id, style_id, appointment_date, estimated_end_date, status,
+  total_price, notes, cancellation_reason, cancelled_at, series_id, price_breakdown,
+  created_at, updated_at
+`;
+
+/**
+ * @function getAppointments
+ * @description Obtiene las citas que cumplen los filtros indicados
+ * @param filters - Filtros opcionales (cliente, estilista, estado, día, serie)
+ * @returns Array de citas ordenadas por fecha
+ */
+export const getAppointments = async (filters: AppointmentFilters = {}): Promise<Appointment[]> => {
+  const whereClause: string[] = [];
+  const params: any[] = [];
+
+  if (filters.user_id !== undefined) {
+    whereClause.push('customer_id = ?');
+    params.push(filters.user_id);
+  }
+  if (filters.stylist_id !== undefined) {
+    whereClause.push('stylist_id = ?');
+    params.push(filters.stylist_id);
+  }
+  if (filters.status !== undefined) {
+    whereClause.push('status = ?');
+    params.push(filters.status);
+  }
+  if (filters.date !== undefined) {
+    whereClause.push('DATE(appointment_date) = ?');
+    params.push(filters.date);
+  }
+  if (filters.series_id !== undefined) {
+    whereClause.push('series_id = ?');
+    params.push(filters.series_id);
+  }
+
+  const query = `
+    SELECT ${APPOINTMENT_COLUMNS}
+    FROM appointments
+    ${whereClause.length > 0 ? `WHERE ${whereClause.join(' AND ')}` : ''}
+    ORDER BY appointment_date ASC
+  `;
+
+  const rows: AppointmentRow[] = await executeQuery(query, params);
+  return rows.map(mapRowToAppointment);
+};
+
+/**
+ * @function getAppointmentById
+ * @description Obtiene una cita por su ID
+ * @param id - ID de la cita
+ * @returns Cita encontrada o null
+ */
+export const getAppointmentById = async (id: string): Promise<Appointment | null> => {
+  const query = `
+    SELECT ${APPOINTMENT_COLUMNS}
+    FROM appointments
+    WHERE id = ?
+  `;
+
+  const rows: AppointmentRow[] = await executeQuery(query, [id]);
+  return rows.length > 0 ? mapRowToAppointment(rows[0]) : null;
+};
+
+/**
+ * @function getActiveStylistAppointments
+ * @description Obtiene las citas activas de una estilista que se solapan con un rango
+ * @param stylistId - ID de la estilista
+ * @param range - Rango de tiempo [start, end)
+ * @param excludeId - ID de una cita a ignorar (p. ej. la que se está moviendo)
+ * @returns Array de citas activas en el rango
+ */
+export const getActiveStylistAppointments = async (
+  stylistId: string,
+  range: TimeSlot,
+  excludeId?: string
+): Promise<Appointment[]> => {
+  const statusPlaceholders = ACTIVE_APPOINTMENT_STATUSES.map(() => '?').join(', ');
+  const query = `
+    SELECT ${APPOINTMENT_COLUMNS}
+    FROM appointments
+    WHERE stylist_id = ?
+      AND status IN (${statusPlaceholders})
+      AND appointment_date < ?
+      AND COALESCE(estimated_end_date, appointment_date) > ?
+      ${excludeId ? 'AND id <> ?' : ''}
+    ORDER BY appointment_date ASC
+  `;
+
+  const params: any[] = [stylistId, ...ACTIVE_APPOINTMENT_STATUSES, range.end, range.start];
+  if (excludeId) params.push(excludeId);
+
+  const rows: AppointmentRow[] = await executeQuery(query, params);
+  return rows.map(mapRowToAppointment);
+};
+
+/**
+ * @function countCustomerAppointmentsByStatus
+ * @description Cuenta las citas de un cliente en un estado concreto
+ * @param customerId - ID del cliente
+ * @param status - Estado a contar
+ * @returns Número de citas
+ */
+export const countCustomerAppointmentsByStatus = async (
+  customerId: string,
+  status: AppointmentStatus
+): Promise<number> => {
+  const query = `
+    SELECT COUNT(*) AS total
+    FROM appointments
+    WHERE customer_id = ? AND status = ?
+  `;
+
+  const rows = await executeQuery(query, [customerId, status]);
+  return Number(rows[0].total);
+};
+
+/**
+ * @function createAppointment
+ * @description Inserta una nueva cita
+ * @param appointment - Cita a insertar
+ * @returns Cita creada
+ */
+export const createAppointment = async (appointment: Appointment): Promise<Appointment> => {
+  const query = `
+    INSERT INTO appointments (id, customer_id, stylist_id, style_id, appointment_date, estimated_end_date,
+                              status, total_price, notes, cancellation_reason, cancelled_at,
+                              series_id, price_breakdown, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    appointment.id, appointment.user_id, appointment.stylist_id, appointment.style_id,
+    appointment.appointment_date, appointment.estimated_end_date, appointment.status,
+    appointment.total_price, appointment.notes || null, appointment.cancellation_reason,
+    appointment.cancelled_at, appointment.series_id || null,
+    appointment.price_breakdown ? JSON.stringify(appointment.price_breakdown) : null,
+    appointment.created_at, appointment.updated_at
+  ];
+
+  await executeQuery(query, params);
+  return appointment;
+};
+
+/**
+ * @function updateAppointment
+ * @description Actualiza una cita existente
+ * @param id - ID de la cita
+ * @param updates - Campos a actualizar
+ * @returns Cita actualizada o null si no hubo cambios
+ */
+export const updateAppointment = async (
+  id: string,
+  updates: AppointmentUpdateRequest
+): Promise<Appointment | null> => {
+  const setClause: string[] = [];
+  const params: any[] = [];
+
+  // Construir la cláusula SET dinámicamente
+  if (updates.appointment_date !== undefined) {
+    setClause.push('appointment_date = ?');
+    params.push(updates.appointment_date);
+  }
+  if (updates.estimated_end_date !== undefined) {
+    setClause.push('estimated_end_date = ?');
+    params.push(updates.estimated_end_date);
+  }
+  if (updates.status !== undefined) {
+    setClause.push('status = ?');
+    params.push(updates.status);
+  }
+  if (updates.total_price !== undefined) {
+    setClause.push('total_price = ?');
+    params.push(updates.total_price);
+  }
+  if (updates.notes !== undefined) {
+    setClause.push('notes = ?');
+    params.push(updates.notes);
+  }
+  if (updates.cancellation_reason !== undefined) {
+    setClause.push('cancellation_reason = ?');
+    params.push(updates.cancellation_reason);
+  }
+  if (updates.cancelled_at !== undefined) {
+    setClause.push('cancelled_at = ?');
+    params.push(updates.cancelled_at);
+  }
+
+  // Siempre actualizar updated_at
+  setClause.push('updated_at = NOW()');
+  params.push(id);
+
+  if (setClause.length === 1) { // Solo updated_at
+    return null;
+  }
+
+  const query = `
+    UPDATE appointments
+    SET ${setClause.join(', ')}
+    WHERE id = ?
+  `;
+
+  await executeQuery(query, params);
+  return await getAppointmentById(id);
+};
+
+/**
+ * @function deleteAppointment
+ * @description Elimina una cita (eliminación física)
+ * @param id - ID de la cita
+ * @returns true si se eliminó, false si no se encontró
+ */
+export const deleteAppointment = async (id: string): Promise<boolean> => {
+  const query = `
+    DELETE FROM appointments
+    WHERE id = ?
+  `;
+
+  const result = await executeQuery(query, [id]);
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function createAppointmentChange
+ * @description Registra un cambio de fecha en el historial de una cita
+ * @param change - Cambio a registrar
+ * @returns Cambio registrado
+ */
+export const createAppointmentChange = async (change: AppointmentChange): Promise<AppointmentChange> => {
+  const query = `
+    INSERT INTO appointment_changes (id, appointment_id, previous_date, new_date, reason, changed_by, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    change.id, change.appointment_id, change.previous_date, change.new_date,
+    change.reason, change.changed_by, change.created_at
+  ];
+
+  await executeQuery(query, params);
+  return change;
+};
+
+/**
+ * @function getAppointmentChanges
+ * @description Obtiene el historial de cambios de una cita
+ * @param appointmentId - ID de la cita
+ * @returns Array de cambios ordenados del más antiguo al más reciente
+ */
+export const getAppointmentChanges = async (appointmentId: string): Promise<AppointmentChange[]> => {
+  const query = `
+    SELECT id, appointment_id, previous_date, new_date, reason, changed_by, created_at
+    FROM appointment_changes
+    WHERE appointment_id = ?
+    ORDER BY created_at ASC
+  `;
+
+  const rows: AppointmentChangeRow[] = await executeQuery(query, [appointmentId]);
+  return rows.map(mapRowToAppointmentChange);
+};
+
+/**
+ * @function resetAppointments
+ * @description Reinicia los datos de citas (solo para testing)
+ */
+export const resetAppointments = async (): Promise<void> => {
+  await executeQuery('DELETE FROM appointment_fees');
+  await executeQuery('DELETE FROM appointment_changes');
+  await executeQuery('DELETE FROM appointments');
+};
+
+/**
+ * @function mapRowToAppointment
+ * @description Convierte una fila de MySQL a objeto Appointment
+ * @param row - Fila de la base de datos
+ * @returns Objeto Appointment
+ */
+const mapRowToAppointment = (row: AppointmentRow): Appointment => {
+  return {
+    id: row.id,
+    user_id: row.customer_id,
+    stylist_id: row.stylist_id,
+    style_id: row.style_id,
+    appointment_date: row.appointment_date,
+    estimated_end_date: row.estimated_end_date || row.appointment_date,
+    status: row.status,
+    total_price: Number(row.total_price),
+    notes: row.notes || '',
+    cancellation_reason: row.cancellation_reason,
+    cancelled_at: row.cancelled_at,
+    series_id: row.series_id,
+    price_breakdown: typeof row.price_breakdown === 'string'
+      ? JSON.parse(row.price_breakdown)
+      : row.price_breakdown,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+};
+
+/**
+ * @function mapRowToAppointmentChange
+ * @description Convierte una fila de MySQL a objeto AppointmentChange
+ * @param row - Fila de la base de datos
+ * @returns Objeto AppointmentChange
+ */
+const mapRowToAppointmentChange = (row: AppointmentChangeRow): AppointmentChange => {
+  return {
+    id: row.id,
+    appointment_id: row.appointment_id,
+    previous_date: row.previous_date,
+    new_date: row.new_date,
+    reason: row.reason,
+    changed_by: row.changed_by,
+    created_at: row.created_at
+  };
+};
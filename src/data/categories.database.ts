@@ -197,10 +197,10 @@ export const deleteCategory = async (id: string): Promise<boolean> => {
 /**
  * @function resetCategories
  * @description Reinicia los datos de categorías (solo para testing)
- * Elimina todas las categorías
+ * Elimina todas las categorías que no usa ningún estilo del catálogo
  */
 export const resetCategories = async (): Promise<void> => {
-  const query = `DELETE FROM categories`;
+  const query = `DELETE FROM categories WHERE id NOT IN (SELECT category_id FROM styles)`;
   await executeQuery(query);
 };
 
@@ -0,0 +1,159 @@
+/**
+ * @file Capa de datos para tokens de verificación de email usando MySQL.
+ * @description Operaciones de base de datos para emitir, consultar, consumir e
+ *              invalidar los tokens de un solo uso con los que se verifica un email.
+ */
+
+import { executeQuery } from '../config/database.config';
+import { EmailVerificationToken } from '../interfaces/auth.interface';
+import { RowDataPacket } from 'mysql2';
+
+/**
+ * @interface EmailVerificationTokenRow
+ * @description Interfaz para las filas de tokens de verificación desde MySQL
+ */
+interface EmailVerificationTokenRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * @constant EMAIL_VERIFICATION_COLUMNS
+ * @description Columnas seleccionadas en todas las consultas de tokens de verificación
+ */
+const EMAIL_VERIFICATION_COLUMNS = `id, user_id, token_hash, expires_at, used_at, created_at`;
+
+/**
+ * @function createEmailVerificationToken
+ * @description Inserta un nuevo token de verificación
+ * @param verificationToken - Token a insertar (solo con el hash del valor enviado)
+ * @returns Token creado
+ */
+export const createEmailVerificationToken = async (
+  verificationToken: EmailVerificationToken
+): Promise<EmailVerificationToken> => {
+  const query = `
+    INSERT INTO email_verification_tokens (id, user_id, token_hash, expires_at, used_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    verificationToken.id, verificationToken.user_id, verificationToken.token_hash,
+    verificationToken.expires_at, verificationToken.used_at, verificationToken.created_at
+  ];
+
+  await executeQuery(query, params);
+  return verificationToken;
+};
+
+/**
+ * @function getEmailVerificationTokenByHash
+ * @description Obtiene un token de verificación por su hash
+ * @param tokenHash - Hash SHA-256 del token
+ * @returns Token encontrado o null
+ */
+export const getEmailVerificationTokenByHash = async (
+  tokenHash: string
+): Promise<EmailVerificationToken | null> => {
+  const query = `
+    SELECT ${EMAIL_VERIFICATION_COLUMNS}
+    FROM email_verification_tokens
+    WHERE token_hash = ?
+  `;
+
+  const rows: EmailVerificationTokenRow[] = await executeQuery(query, [tokenHash]);
+  return rows.length > 0 ? mapRowToEmailVerificationToken(rows[0]) : null;
+};
+
+/**
+ * @function getUserVerificationTokensSince
+ * @description Obtiene los tokens emitidos a un usuario desde un momento dado, para
+ * limitar la frecuencia de reenvío
+ * @param userId - ID del usuario
+ * @param since - Momento desde el que se cuentan los envíos
+ * @returns Array de tokens, del más reciente al más antiguo
+ */
+export const getUserVerificationTokensSince = async (
+  userId: string,
+  since: Date
+): Promise<EmailVerificationToken[]> => {
+  const query = `
+    SELECT ${EMAIL_VERIFICATION_COLUMNS}
+    FROM email_verification_tokens
+    WHERE user_id = ? AND created_at >= ?
+    ORDER BY created_at DESC
+  `;
+
+  const rows: EmailVerificationTokenRow[] = await executeQuery(query, [userId, since]);
+  return rows.map(mapRowToEmailVerificationToken);
+};
+
+/**
+ * @function consumeEmailVerificationToken
+ * @description Marca un token como usado. Solo tiene efecto si seguía disponible, de modo
+ * que dos peticiones simultáneas no pueden usar el mismo token
+ * @param id - ID del token
+ * @param now - Momento de uso
+ * @returns true si se consumió, false si ya estaba usado
+ */
+export const consumeEmailVerificationToken = async (id: string, now: Date): Promise<boolean> => {
+  const query = `
+    UPDATE email_verification_tokens
+    SET used_at = ?
+    WHERE id = ? AND used_at IS NULL
+  `;
+
+  const result = await executeQuery(query, [now, id]);
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function invalidateUserEmailVerificationTokens
+ * @description Invalida los tokens pendientes de un usuario (al reenviar el enlace o al
+ * verificar el email)
+ * @param userId - ID del usuario
+ * @param now - Momento de la invalidación
+ * @returns Número de tokens invalidados
+ */
+export const invalidateUserEmailVerificationTokens = async (
+  userId: string,
+  now: Date
+): Promise<number> => {
+  const query = `
+    UPDATE email_verification_tokens
+    SET used_at = ?
+    WHERE user_id = ? AND used_at IS NULL
+  `;
+
+  const result = await executeQuery(query, [now, userId]);
+  return result.affectedRows;
+};
+
+/**
+ * @function resetEmailVerifications
+ * @description Reinicia los datos de tokens de verificación (solo para testing)
+ */
+export const resetEmailVerifications = async (): Promise<void> => {
+  await executeQuery('DELETE FROM email_verification_tokens');
+};
+
+/**
+ * @function mapRowToEmailVerificationToken
+ * @description Convierte una fila de MySQL a objeto EmailVerificationToken
+ * @param row - Fila de la base de datos
+ * @returns Objeto EmailVerificationToken
+ */
+const mapRowToEmailVerificationToken = (row: EmailVerificationTokenRow): EmailVerificationToken => {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    token_hash: row.token_hash,
+    expires_at: row.expires_at,
+    used_at: row.used_at,
+    created_at: row.created_at
+  };
+};
@@ -0,0 +1,86 @@
+/**
+ * @file Capa de datos para penalizaciones de citas usando MySQL.
+ * @description Operaciones de base de datos para los cargos por cancelación tardía
+ *              e inasistencia. La columna customer_id se expone como user_id en la API.
+ */
+
+import { executeQuery } from '../config/database.config';
+import {
+  AppointmentFee,
+  AppointmentFeeType,
+  AppointmentFeeStatus
+} from '../interfaces/appointment.interface';
+import { RowDataPacket } from 'mysql2';
+
+/**
+ * @interface AppointmentFeeRow
+ * @description Interfaz para las filas de penalizaciones desde MySQL
+ */
+interface AppointmentFeeRow extends RowDataPacket {
+  id: string;
+  appointment_id: string;
+  customer_id: string;
+  fee_type: AppointmentFeeType;
+  amount: number;
+  status: AppointmentFeeStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @function createAppointmentFee
+ * @description Inserta una nueva penalización
+ * @param fee - Penalización a insertar
+ * @returns Penalización creada
+ */
+export const createAppointmentFee = async (fee: AppointmentFee): Promise<AppointmentFee> => {
+  const query = `
+    INSERT INTO appointment_fees (id, appointment_id, customer_id, fee_type, amount, status, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    fee.id, fee.appointment_id, fee.user_id, fee.fee_type,
+    fee.amount, fee.status, fee.created_at, fee.updated_at
+  ];
+
+  await executeQuery(query, params);
+  return fee;
+};
+
+/**
+ * @function getCustomerFees
+ * @description Obtiene las penalizaciones de un cliente
+ * @param customerId - ID del cliente
+ * @returns Array de penalizaciones, de la más reciente a la más antigua
+ */
+export const getCustomerFees = async (customerId: string): Promise<AppointmentFee[]> => {
+  const query = `
+    SELECT id, appointment_id, customer_id, fee_type, amount, status, created_at, updated_at
+    FROM appointment_fees
+    WHERE customer_id = ?
+    ORDER BY created_at DESC
+  `;
+
+  const rows: AppointmentFeeRow[] = await executeQuery(query, [customerId]);
+  return rows.map(mapRowToAppointmentFee);
+};
+
+/**
+ * @function mapRowToAppointmentFee
+ * @description Convierte una fila de MySQL a objeto AppointmentFee
+ * @param row - Fila de la base de datos
+ * @returns Objeto AppointmentFee
+ */
+const mapRowToAppointmentFee = (row: AppointmentFeeRow): AppointmentFee => {
+  return {
+    id: row.id,
+    appointment_id: row.appointment_id,
+    user_id: row.customer_id,
+    fee_type: row.fee_type,
+    amount: Number(row.amount),
+    status: row.status,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+};
@@ -0,0 +1,109 @@
+/**
+ * @file Capa de datos para los contadores de login fallidos usando MySQL.
+ * @description Operaciones de base de datos para consultar, guardar y limpiar los
+ *              contadores de intentos fallidos y bloqueos por cuenta o por IP.
+ */
+
+import { executeQuery } from '../config/database.config';
+import { LoginThrottle, LoginThrottleScope } from '../interfaces/auth.interface';
+import { RowDataPacket } from 'mysql2';
+
+/**
+ * @interface LoginThrottleRow
+ * @description Interfaz para las filas de contadores de login desde MySQL
+ */
+interface LoginThrottleRow extends RowDataPacket {
+  scope: LoginThrottleScope;
+  throttle_key: string;
+  failed_count: number;
+  locked_until: Date | null;
+  last_failed_at: Date;
+}
+
+/**
+ * @function getLoginThrottle
+ * @description Obtiene el contador de una cuenta o de una IP
+ * @param scope - Ámbito del contador
+ * @param key - Email o IP
+ * @returns Contador encontrado o null si no hay fallos registrados
+ */
+export const getLoginThrottle = async (
+  scope: LoginThrottleScope,
+  key: string
+): Promise<LoginThrottle | null> => {
+  const query = `
+    SELECT scope, throttle_key, failed_count, locked_until, last_failed_at
+    FROM login_throttles
+    WHERE scope = ? AND throttle_key = ?
+  `;
+
+  const rows: LoginThrottleRow[] = await executeQuery(query, [scope, key]);
+  return rows.length > 0 ? mapRowToLoginThrottle(rows[0]) : null;
+};
+
+/**
+ * @function saveLoginThrottle
+ * @description Crea o sustituye el contador de una cuenta o de una IP
+ * @param throttle - Contador a guardar
+ * @returns Contador guardado
+ */
+export const saveLoginThrottle = async (throttle: LoginThrottle): Promise<LoginThrottle> => {
+  const query = `
+    INSERT INTO login_throttles (scope, throttle_key, failed_count, locked_until, last_failed_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE
+      failed_count = VALUES(failed_count),
+      locked_until = VALUES(locked_until),
+      last_failed_at = VALUES(last_failed_at)
+  `;
+
+  const params = [
+    throttle.scope, throttle.throttle_key, throttle.failed_count,
+    throttle.locked_until, throttle.last_failed_at
+  ];
+
+  await executeQuery(query, params);
+  return throttle;
+};
+
+/**
+ * @function clearLoginThrottle
+ * @description Elimina el contador de una cuenta o de una IP (login correcto o desbloqueo)
+ * @param scope - Ámbito del contador
+ * @param key - Email o IP
+ * @returns true si había un contador
+ */
+export const clearLoginThrottle = async (
+  scope: LoginThrottleScope,
+  key: string
+): Promise<boolean> => {
+  const result = await executeQuery(
+    'DELETE FROM login_throttles WHERE scope = ? AND throttle_key = ?',
+    [scope, key]
+  );
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function resetLoginThrottles
+ * @description Reinicia los contadores de login (solo para testing)
+ */
+export const resetLoginThrottles = async (): Promise<void> => {
+  await executeQuery('DELETE FROM login_throttles');
+};
+
+/**
+ * @function mapRowToLoginThrottle
+ * @description Convierte una fila de MySQL a objeto LoginThrottle
+ * @param row - Fila de la base de datos
+ * @returns Objeto LoginThrottle
+ */
+const mapRowToLoginThrottle = (row: LoginThrottleRow): LoginThrottle => {
+  return {
+    scope: row.scope,
+    throttle_key: row.throttle_key,
+    failed_count: row.failed_count,
+    locked_until: row.locked_until,
+    last_failed_at: row.last_failed_at
+  };
+};
@@ -3,7 +3,7 @@
  * @description Operaciones de base de datos para la gestión de pedidos y sus items.
  */
 
-import { executeQuery } from '../config/database.config';
+import { executeQuery, withTransaction } from '../config/database.config';
 import { 
   Order, 
   OrderItem, 
@@ -12,9 +12,34 @@ import {
   OrderUpdateRequest, 
   OrderSummary,
   OrderStatus,
-  PaymentStatus
+  PaymentStatus,
+  OrderCreateResult,
+  OrderItemCreateRequest,
+  OrderQuoteRequest,
+  OrderQuoteResult,
+  OrderStatusChange,
+  OrderTransitionResult,
+  StockShortage
 } from '../interfaces/order.interface';
 import { RowDataPacket } from 'mysql2';
+import { v4 as uuidv4 } from 'uuid';
+import { PoolConnection } from 'mysql2/promise';
+import { getPriceChanges, calculateLineTotal } from '../utils/order-pricing.utils';
+import { roundCurrency } from '../utils/money.utils';
+import { calculateTaxes } from '../utils/tax.utils';
+import { getActiveTaxRulesByCountry } from './tax-rules.database';
+import { DEFAULT_TAX_COUNTRY } from '../config/tax.config';
+import {
+  TaxClass,
+  TaxRule,
+  TaxJurisdiction,
+  TaxableLine,
+  OrderTaxLine,
+  TaxCalculation
+} from '../interfaces/tax.interface';
+import { getShippingOptions } from '../utils/shipping.utils';
+import { getActiveShippingMethods } from './shipping-methods.database';
+import { isOrderTransitionAllowed, getCancelledPaymentStatus } from '../utils/order-status.utils';
 
 /**
  * @interface OrderRow
@@ -30,9 +55,13 @@ interface OrderRow extends RowDataPacket {
   total_amount: number;
   status: OrderStatus;
   shipping_address: string | null;
+  shipping_country: string;
+  shipping_region: string | null;
+  shipping_method_id: string | null;
   billing_address: string | null;
   payment_method: string | null;
   payment_status: PaymentStatus;
+  tax_breakdown: string | OrderTaxLine[] | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -51,6 +80,67 @@ interface OrderItemRow extends RowDataPacket {
   created_at: Date;
 }
 
+/**
+ * @interface OrderStatusChangeRow
+ * @description Interfaz para las filas del historial de estados desde MySQL
+ */
+interface OrderStatusChangeRow extends RowDataPacket {
+  id: string;
+  order_id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  changed_by: string | null;
+  note: string | null;
+  created_at: Date;
+}
+
+/**
+ * @interface OrderStatusRow
+ * @description Estado y estado de pago de un pedido, bloqueados al cambiar su estado
+ */
+interface OrderStatusRow extends RowDataPacket {
+  status: OrderStatus;
+  payment_status: PaymentStatus;
+}
+
+/**
+ * @interface OrderRestockRow
+ * @description Cantidad de un producto que se devuelve al stock al cancelar un pedido
+ */
+interface OrderRestockRow extends RowDataPacket {
+  product_id: string;
+  quantity: string | number;
+}
+
+/**
+ * @interface ProductStockRow
+ * @description Precio, stock, estado, clase fiscal y peso de un producto, bloqueado al crear un pedido
+ */
+interface ProductStockRow extends RowDataPacket {
+  id: string;
+  price: string | number;
+  stock_quantity: number;
+  is_active: number | boolean;
+  tax_class: TaxClass;
+  weight_grams: number | null;
+}
+
+/**
+ * @interface OrderAmounts
+ * @description Importes de un carrito a precios vigentes
+ */
+interface OrderAmounts {
+  subtotal: number;
+  taxes: TaxCalculation;
+  weight_grams: number;
+}
+
+/**
+ * @constant PRODUCT_STOCK_COLUMNS
+ * @description Columnas de los productos que se leen al presupuestar y crear pedidos
+ */
+const PRODUCT_STOCK_COLUMNS = 'id, price, stock_quantity, is_active, tax_class, weight_grams';
+
 /**
  * @function generateOrderNumber
  * @description Genera un número único de pedido
@@ -71,8 +161,8 @@ const generateOrderNumber = (): string => {
 export const getOrders = async (): Promise<Order[]> => {
   const query = `
     SELECT id, customer_id, order_number, subtotal, tax_amount, shipping_amount, 
-           total_amount, status, shipping_address, billing_address, payment_method, 
-           payment_status, created_at, updated_at
+           total_amount, status, shipping_address, shipping_country, shipping_region,
+           shipping_method_id, billing_address, payment_method, payment_status, tax_breakdown, created_at, updated_at
     FROM orders 
     ORDER BY created_at DESC
   `;
@@ -90,8 +180,8 @@ export const getOrders = async (): Promise<Order[]> => {
 export const getOrdersByCustomer = async (customerId: string): Promise<Order[]> => {
   const query = `
     SELECT id, customer_id, order_number, subtotal, tax_amount, shipping_amount, 
-           total_amount, status, shipping_address, billing_address, payment_method, 
-           payment_status, created_at, updated_at
+           total_amount, status, shipping_address, shipping_country, shipping_region,
+           shipping_method_id, billing_address, payment_method, payment_status, tax_breakdown, created_at, updated_at
     FROM orders 
     WHERE customer_id = ?
     ORDER BY created_at DESC
@@ -110,8 +200,8 @@ export const getOrdersByCustomer = async (customerId: string): Promise<Order[]>
 export const getOrderById = async (id: string): Promise<Order | null> => {
   const query = `
     SELECT id, customer_id, order_number, subtotal, tax_amount, shipping_amount, 
-           total_amount, status, shipping_address, billing_address, payment_method, 
-           payment_status, created_at, updated_at
+           total_amount, status, shipping_address, shipping_country, shipping_region,
+           shipping_method_id, billing_address, payment_method, payment_status, tax_breakdown, created_at, updated_at
     FROM orders 
     WHERE id = ?
   `;
@@ -152,103 +242,341 @@ export const getOrderItems = async (orderId: string): Promise<OrderItem[]> => {
   return rows.map(mapRowToOrderItem);
 };
 
+/**
+ * @function lockOrderProducts
+ * @description Bloquea (SELECT ... FOR UPDATE) las filas de los productos de un pedido
+ * hasta que termine la transacción. Se bloquean en orden de ID para evitar interbloqueos
+ * entre pedidos simultáneos.
+ * @param connection - Conexión de la transacción
+ * @param productIds - IDs de los productos
+ * @returns Filas de precio y stock de los productos encontrados
+ */
+const lockOrderProducts = async (
+  connection: PoolConnection,
+  productIds: string[]
+): Promise<ProductStockRow[]> => {
+  const placeholders = productIds.map(() => '?').join(', ');
+  const query = `
+    SELECT ${PRODUCT_STOCK_COLUMNS}
+    FROM products
+    WHERE id IN (${placeholders})
+    ORDER BY id
+    FOR UPDATE
+  `;
+
+  const [rows] = await connection.execute<ProductStockRow[]>(query, productIds);
+  return rows;
+};
+
+/**
+ * @function getStockShortages
+ * @description Compara las cantidades pedidas (sumando líneas del mismo producto) con el
+ * stock de los productos bloqueados
+ * @param requested - Cantidad pedida por producto
+ * @param products - Filas de stock bloqueadas
+ * @returns Productos que no se pueden servir
+ */
+const getStockShortages = (
+  requested: Map<string, number>,
+  products: ProductStockRow[]
+): StockShortage[] => {
+  const shortages: StockShortage[] = [];
+
+  requested.forEach((quantity, productId) => {
+    const product = products.find(row => row.id === productId);
+
+    if (!product) {
+      shortages.push({ product_id: productId, requested: quantity, available: 0, reason: 'NOT_FOUND' });
+    } else if (!product.is_active) {
+      shortages.push({ product_id: productId, requested: quantity, available: 0, reason: 'INACTIVE' });
+    } else if (product.stock_quantity < quantity) {
+      shortages.push({
+        product_id: productId,
+        requested: quantity,
+        available: product.stock_quantity,
+        reason: 'INSUFFICIENT_STOCK'
+      });
+    }
+  });
+
+  return shortages;
+};
+
+/**
+ * @function getRequestedQuantities
+ * @description Suma la cantidad pedida de cada producto
+ * @param items - Items del pedido
+ * @returns Cantidad total pedida por producto
+ */
+const getRequestedQuantities = (items: OrderItemCreateRequest[]): Map<string, number> => {
+  const requested = new Map<string, number>();
+  items.forEach(item => {
+    requested.set(item.product_id, (requested.get(item.product_id) || 0) + item.quantity);
+  });
+  return requested;
+};
+
+/**
+ * @function getOrderJurisdiction
+ * @description Obtiene el destino de un pedido, que es también su jurisdicción fiscal
+ * @param data - Datos de envío del pedido
+ * @returns País y región de envío
+ */
+const getOrderJurisdiction = (
+  data: Pick<OrderCreateRequest, 'shipping_country' | 'shipping_region'>
+): TaxJurisdiction => ({
+  country: data.shipping_country || DEFAULT_TAX_COUNTRY,
+  region: data.shipping_region || null
+});
+
+/**
+ * @function calculateOrderAmounts
+ * @description Calcula el subtotal, los impuestos (redondeados por línea) y el peso de un
+ * carrito con los precios vigentes de los productos
+ * @param items - Items del pedido
+ * @param products - Filas de los productos del pedido
+ * @param taxRules - Reglas de impuestos del país de envío
+ * @param jurisdiction - País y región de envío
+ * @returns Importes y peso del carrito
+ */
+const calculateOrderAmounts = (
+  items: OrderItemCreateRequest[],
+  products: ProductStockRow[],
+  taxRules: TaxRule[],
+  jurisdiction: TaxJurisdiction
+): OrderAmounts => {
+  let weightGrams = 0;
+  const lines: TaxableLine[] = items.map(item => {
+    const product = products.find(row => row.id === item.product_id)!;
+    weightGrams += (product.weight_grams || 0) * item.quantity;
+    return {
+      amount: calculateLineTotal(item.quantity, Number(product.price)),
+      tax_class: product.tax_class
+    };
+  });
+
+  return {
+    subtotal: roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0)),
+    taxes: calculateTaxes(lines, taxRules, jurisdiction),
+    weight_grams: weightGrams
+  };
+};
+
+/**
+ * @function quoteOrder
+ * @description Presupuesta un carrito antes de crear el pedido: subtotal a precios vigentes,
+ * impuestos de la jurisdicción de envío y cada método de envío disponible con el total
+ * resultante. No bloquea ni descuenta stock
+ * @param quoteData - Items y destino del carrito
+ * @returns Presupuesto, o los items sin stock
+ */
+export const quoteOrder = async (quoteData: OrderQuoteRequest): Promise<OrderQuoteResult> => {
+  const requested = getRequestedQuantities(quoteData.items);
+  const productIds = Array.from(requested.keys());
+  const placeholders = productIds.map(() => '?').join(', ');
+  const products: ProductStockRow[] = await executeQuery(
+    `SELECT ${PRODUCT_STOCK_COLUMNS} FROM products WHERE id IN (${placeholders})`,
+    productIds
+  );
+
+  const shortages = getStockShortages(requested, products);
+  if (shortages.length > 0) {
+    return { quote: null, shortages };
+  }
+
+  const jurisdiction = getOrderJurisdiction(quoteData);
+  const taxRules = await getActiveTaxRulesByCountry(jurisdiction.country);
+  const shippingMethods = await getActiveShippingMethods();
+  const amounts = calculateOrderAmounts(quoteData.items, products, taxRules, jurisdiction);
+  const shippingOptions = getShippingOptions(shippingMethods, jurisdiction, amounts);
+
+  return {
+    quote: {
+      items: quoteData.items.map(item => {
+        const unitPrice = Number(products.find(row => row.id === item.product_id)!.price);
+        return {
+          product_id: item.product_id,
+          quantity: item.quantity,
+          unit_price: unitPrice,
+          total_price: calculateLineTotal(item.quantity, unitPrice)
+        };
+      }),
+      subtotal: amounts.subtotal,
+      tax_amount: amounts.taxes.tax_amount,
+      tax_breakdown: amounts.taxes.breakdown,
+      weight_grams: amounts.weight_grams,
+      shipping_country: jurisdiction.country,
+      shipping_region: jurisdiction.region,
+      shipping_options: shippingOptions.map(option => ({
+        ...option,
+        total_amount: roundCurrency(amounts.subtotal + amounts.taxes.exclusive_tax_amount + option.amount)
+      }))
+    },
+    shortages: []
+  };
+};
+
 /**
  * @function createOrder
- * @description Crea un nuevo pedido con sus items
+ * @description Crea un nuevo pedido con sus items en una transacción: bloquea los productos,
+ * comprueba que estén activos y con stock, descuenta el stock e inserta el pedido y sus
+ * items. Cada item se cobra al precio vigente del producto (products.price), que queda
+ * guardado en order_items. Los impuestos se calculan con las reglas activas del país y la
+ * región de envío y su desglose se guarda en el pedido. El envío es el del método elegido
+ * o, si no se indica, el de la opción más barata; sin métodos configurados es gratis.
+ * Si falta stock, el cliente envió un precio que ya no es el vigente o el envío no está
+ * disponible no se modifica nada; ante cualquier error se revierte todo. La creación queda
+ * registrada como el primer estado del historial.
  * @param orderData - Datos del pedido a crear
- * @returns Pedido creado con sus items
+ * @param changedBy - ID del usuario que crea el pedido, si está autenticado
+ * @returns Pedido creado con sus items, o los items sin stock, con el precio cambiado o las
+ * opciones de envío disponibles
  */
-export const createOrder = async (orderData: OrderCreateRequest): Promise<OrderWithItems> => {
-  const { v4: uuidv4 } = require('uuid');
-  const now = new Date();
-  
-  // Calcular totales
-  const subtotal = orderData.items.reduce((sum, item) => sum + (item.quantity * item.unit_price), 0);
-  const taxAmount = subtotal * 0.1; // 10% de impuesto (configurable)
-  const shippingAmount = subtotal > 50 ? 0 : 10; // Envío gratis sobre $50
-  const totalAmount = subtotal + taxAmount + shippingAmount;
-  
-  const order: Order = {
-    id: uuidv4(),
-    customer_id: orderData.customer_id,
-    order_number: generateOrderNumber(),
-    subtotal,
-    tax_amount: taxAmount,
-    shipping_amount: shippingAmount,
-    total_amount: totalAmount,
-    status: 'PENDING',
-    shipping_address: orderData.shipping_address || null,
-    billing_address: orderData.billing_address || null,
-    payment_method: orderData.payment_method || null,
-    payment_status: 'PENDING',
-    created_at: now,
-    updated_at: now
-  };
+export const createOrder = async (
+  orderData: OrderCreateRequest,
+  changedBy: string | null = null
+): Promise<OrderCreateResult> => {
+  const requested = getRequestedQuantities(orderData.items);
+  const jurisdiction = getOrderJurisdiction(orderData);
+  const taxRules = await getActiveTaxRulesByCountry(jurisdiction.country);
+  const shippingMethods = await getActiveShippingMethods();
+
+  return withTransaction(async (connection) => {
+    const products = await lockOrderProducts(connection, Array.from(requested.keys()));
+    const shortages = getStockShortages(requested, products);
+    if (shortages.length > 0) {
+      return { order: null, shortages, price_changes: [], shipping_options: null };
+    }
+
+    const currentPrices = new Map<string, number>();
+    products.forEach(product => currentPrices.set(product.id, Number(product.price)));
+
+    const priceChanges = getPriceChanges(orderData.items, currentPrices);
+    if (priceChanges.length > 0) {
+      return { order: null, shortages: [], price_changes: priceChanges, shipping_options: null };
+    }
+
+    // Calcular totales; los impuestos se redondean por línea
+    const { subtotal, taxes, weight_grams } = calculateOrderAmounts(
+      orderData.items, products, taxRules, jurisdiction
+    );
+
+    // Elegir el envío: el método pedido o la opción más barata
+    const shippingOptions = getShippingOptions(shippingMethods, jurisdiction, { subtotal, weight_grams });
+    const shipping = orderData.shipping_method_id
+      ? shippingOptions.find(option => option.shipping_method_id === orderData.shipping_method_id)
+      : shippingOptions[0];
+    if (!shipping && (orderData.shipping_method_id || shippingMethods.length > 0)) {
+      return { order: null, shortages: [], price_changes: [], shipping_options: shippingOptions };
+    }
+
+    const now = new Date();
+    const shippingAmount = shipping ? shipping.amount : 0;
+    const totalAmount = roundCurrency(subtotal + taxes.exclusive_tax_amount + shippingAmount);
   
-  // Insertar pedido
-  const orderQuery = `
-    INSERT INTO orders (id, customer_id, order_number, subtotal, tax_amount, shipping_amount, 
-                        total_amount, status, shipping_address, billing_address, payment_method, 
-                        payment_status, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-  `;
+    const order: Order = {
+      id: uuidv4(),
+      customer_id: orderData.customer_id,
+      order_number: generateOrderNumber(),
+      subtotal,
+      tax_amount: taxes.tax_amount,
+      shipping_amount: shippingAmount,
+      total_amount: totalAmount,
+      status: 'PENDING',
+      shipping_address: orderData.shipping_address || null,
+      shipping_country: jurisdiction.country,
+      shipping_region: jurisdiction.region,
+      shipping_method_id: shipping ? shipping.shipping_method_id : null,
+      billing_address: orderData.billing_address || null,
+      payment_method: orderData.payment_method || null,
+      payment_status: 'PENDING',
+      tax_breakdown: taxes.breakdown,
+      created_at: now,
+      updated_at: now
+    };
+
+    // Descontar stock
+    for (const [productId, quantity] of Array.from(requested.entries())) {
+      await connection.execute(
+        'UPDATE products SET stock_quantity = stock_quantity - ? WHERE id = ?',
+        [quantity, productId]
+      );
+    }
   
-  const orderParams = [
-    order.id, order.customer_id, order.order_number, order.subtotal, order.tax_amount,
-    order.shipping_amount, order.total_amount, order.status, order.shipping_address,
-    order.billing_address, order.payment_method, order.payment_status, order.created_at, order.updated_at
-  ];
+    // Insertar pedido
+    const orderQuery = `
+      INSERT INTO orders (id, customer_id, order_number, subtotal, tax_amount, shipping_amount, 
+                          total_amount, status, shipping_address, shipping_country, shipping_region,
+                          shipping_method_id, billing_address, payment_method, payment_status,
+                          tax_breakdown, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
   
-  await executeQuery(orderQuery, orderParams);
+    const orderParams = [
+      order.id, order.customer_id, order.order_number, order.subtotal, order.tax_amount,
+      order.shipping_amount, order.total_amount, order.status, order.shipping_address,
+      order.shipping_country, order.shipping_region, order.shipping_method_id, order.billing_address,
+      order.payment_method, order.payment_status, JSON.stringify(order.tax_breakdown), order.created_at, order.updated_at
+    ];
   
-  // Insertar items
-  const items: OrderItem[] = [];
-  for (const itemData of orderData.items) {
-    const item: OrderItem = {
+    await connection.execute(orderQuery, orderParams);
+    await insertOrderStatusChange(connection, {
       id: uuidv4(),
       order_id: order.id,
-      product_id: itemData.product_id,
-      quantity: itemData.quantity,
-      unit_price: itemData.unit_price,
-      total_price: itemData.quantity * itemData.unit_price,
+      from_status: null,
+      to_status: order.status,
+      changed_by: changedBy,
+      note: null,
       created_at: now
-    };
+    });
+  
+    // Insertar items
+    const items: OrderItem[] = [];
+    for (const itemData of orderData.items) {
+      const unitPrice = currentPrices.get(itemData.product_id)!;
+      const item: OrderItem = {
+        id: uuidv4(),
+        order_id: order.id,
+        product_id: itemData.product_id,
+        quantity: itemData.quantity,
+        unit_price: unitPrice,
+        total_price: calculateLineTotal(itemData.quantity, unitPrice),
+        created_at: now
+      };
     
-    const itemQuery = `
-      INSERT INTO order_items (id, order_id, product_id, quantity, unit_price, total_price, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `;
+      const itemQuery = `
+        INSERT INTO order_items (id, order_id, product_id, quantity, unit_price, total_price, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `;
     
-    const itemParams = [
-      item.id, item.order_id, item.product_id, item.quantity, item.unit_price, item.total_price, item.created_at
-    ];
+      const itemParams = [
+        item.id, item.order_id, item.product_id, item.quantity, item.unit_price, item.total_price, item.created_at
+      ];
     
-    await executeQuery(itemQuery, itemParams);
-    items.push(item);
-  }
+      await connection.execute(itemQuery, itemParams);
+      items.push(item);
+    }
   
-  return { ...order, items };
+    return { order: { ...order, items }, shortages: [], price_changes: [], shipping_options: null };
+  });
 };
 
 /**
  * @function updateOrder
- * @description Actualiza un pedido existente
+ * @description Actualiza los datos de un pedido existente. El estado solo cambia con
+ * transitionOrderStatus
  * @param id - ID del pedido
  * @param updates - Campos a actualizar
  * @returns Pedido actualizado o null si no se encontró
  */
 export const updateOrder = async (
   id: string, 
-  updates: OrderUpdateRequest
+  updates: Omit<OrderUpdateRequest, 'status' | 'note'>
 ): Promise<Order | null> => {
   const setClause: string[] = [];
   const params: any[] = [];
   
   // Construir la cláusula SET dinámicamente
-  if (updates.status !== undefined) {
-    setClause.push('status = ?');
-    params.push(updates.status);
-  }
   if (updates.shipping_address !== undefined) {
     setClause.push('shipping_address = ?');
     params.push(updates.shipping_address);
@@ -284,6 +612,129 @@ export const updateOrder = async (
   return await getOrderById(id);
 };
 
+/**
+ * @function insertOrderStatusChange
+ * @description Registra un cambio de estado en el historial de un pedido
+ * @param connection - Conexión de la transacción
+ * @param change - Cambio a registrar
+ */
+const insertOrderStatusChange = async (
+  connection: PoolConnection,
+  change: OrderStatusChange
+): Promise<void> => {
+  const query = `
+    INSERT INTO order_status_history (id, order_id, from_status, to_status, changed_by, note, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  await connection.execute(query, [
+    change.id, change.order_id, change.from_status, change.to_status,
+    change.changed_by, change.note, change.created_at
+  ]);
+};
+
+/**
+ * @function restockOrderItems
+ * @description Devuelve al stock las unidades de los items de un pedido. Los productos se
+ * actualizan en orden de ID, como al crear pedidos, para evitar interbloqueos
+ * @param connection - Conexión de la transacción
+ * @param orderId - ID del pedido
+ */
+const restockOrderItems = async (connection: PoolConnection, orderId: string): Promise<void> => {
+  const [rows] = await connection.execute<OrderRestockRow[]>(
+    `SELECT product_id, SUM(quantity) AS quantity
+     FROM order_items
+     WHERE order_id = ?
+     GROUP BY product_id
+     ORDER BY product_id`,
+    [orderId]
+  );
+
+  for (const row of rows) {
+    await connection.execute(
+      'UPDATE products SET stock_quantity = stock_quantity + ? WHERE id = ?',
+      [Number(row.quantity), row.product_id]
+    );
+  }
+};
+
+/**
+ * @function transitionOrderStatus
+ * @description Cambia el estado de un pedido en una transacción si ORDER_STATUS_TRANSITIONS
+ * lo permite, y registra el cambio en el historial. Al cancelar se devuelve el stock de sus
+ * items y el pago pasa a REFUNDED si estaba cobrado o a FAILED si estaba pendiente.
+ * @param id - ID del pedido
+ * @param nextStatus - Estado solicitado
+ * @param changedBy - ID del usuario que hace el cambio, si está autenticado
+ * @param note - Nota o motivo del cambio
+ * @returns Pedido actualizado (null si no existe o la transición no está permitida) y
+ * estado anterior
+ */
+export const transitionOrderStatus = async (
+  id: string,
+  nextStatus: OrderStatus,
+  changedBy: string | null,
+  note: string | null
+): Promise<OrderTransitionResult> => {
+  const { previous_status, applied } = await withTransaction(async (connection) => {
+    const [rows] = await connection.execute<OrderStatusRow[]>(
+      'SELECT status, payment_status FROM orders WHERE id = ? FOR UPDATE',
+      [id]
+    );
+    if (rows.length === 0) return { previous_status: null, applied: false };
+
+    const current = rows[0];
+    if (!isOrderTransitionAllowed(current.status, nextStatus)) {
+      return { previous_status: current.status, applied: false };
+    }
+
+    if (nextStatus === 'CANCELLED') {
+      await connection.execute(
+        'UPDATE orders SET status = ?, payment_status = ?, updated_at = NOW() WHERE id = ?',
+        [nextStatus, getCancelledPaymentStatus(current.payment_status), id]
+      );
+      await restockOrderItems(connection, id);
+    } else {
+      await connection.execute('UPDATE orders SET status = ?, updated_at = NOW() WHERE id = ?', [nextStatus, id]);
+    }
+
+    await insertOrderStatusChange(connection, {
+      id: uuidv4(),
+      order_id: id,
+      from_status: current.status,
+      to_status: nextStatus,
+      changed_by: changedBy,
+      note,
+      created_at: new Date()
+    });
+
+    return { previous_status: current.status, applied: true };
+  });
+
+  return {
+    order: applied ? await getOrderById(id) : null,
+    previous_status
+  };
+};
+
+/**
+ * @function getOrderStatusHistory
+ * @description Obtiene el historial de estados de un pedido
+ * @param orderId - ID del pedido
+ * @returns Array de cambios ordenados del más antiguo al más reciente
+ */
+export const getOrderStatusHistory = async (orderId: string): Promise<OrderStatusChange[]> => {
+  const query = `
+    SELECT id, order_id, from_status, to_status, changed_by, note, created_at
+    FROM order_status_history
+    WHERE order_id = ?
+    ORDER BY created_at ASC
+  `;
+
+  const rows: OrderStatusChangeRow[] = await executeQuery(query, [orderId]);
+  return rows.map(mapRowToOrderStatusChange);
+};
+
 /**
  * @function getOrderSummaries
  * @description Obtiene resúmenes de pedidos para listados
@@ -318,6 +769,7 @@ export const getOrderSummaries = async (): Promise<OrderSummary[]> => {
  * @description Reinicia los datos de pedidos (solo para testing)
  */
 export const resetOrders = async (): Promise<void> => {
+  await executeQuery('DELETE FROM order_status_history');
   await executeQuery('DELETE FROM order_items');
   await executeQuery('DELETE FROM orders');
 };
@@ -339,9 +791,13 @@ const mapRowToOrder = (row: OrderRow): Order => {
     total_amount: row.total_amount,
     status: row.status,
     shipping_address: row.shipping_address,
+    shipping_country: row.shipping_country,
+    shipping_region: row.shipping_region,
+    shipping_method_id: row.shipping_method_id,
     billing_address: row.billing_address,
     payment_method: row.payment_method,
     payment_status: row.payment_status,
+    tax_breakdown: typeof row.tax_breakdown === 'string' ? JSON.parse(row.tax_breakdown) : row.tax_breakdown || [],
     created_at: row.created_at,
     updated_at: row.updated_at
   };
@@ -363,4 +819,22 @@ const mapRowToOrderItem = (row: OrderItemRow): OrderItem => {
     total_price: row.total_price,
     created_at: row.created_at
   };
+};
+
+/**
+ * @function mapRowToOrderStatusChange
+ * @description Convierte una fila de MySQL a objeto OrderStatusChange
+ * @param row - Fila de la base de datos
+ * @returns Objeto OrderStatusChange
+ */
+const mapRowToOrderStatusChange = (row: OrderStatusChangeRow): OrderStatusChange => {
+  return {
+    id: row.id,
+    order_id: row.order_id,
+    from_status: row.from_status,
+    to_status: row.to_status,
+    changed_by: row.changed_by,
+    note: row.note,
+    created_at: row.created_at
+  };
 };
\ No newline at end of file
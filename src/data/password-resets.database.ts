@@ -0,0 +1,136 @@
+/**
+ * @file Capa de datos para tokens de recuperación de contraseña usando MySQL.
+ * @description Operaciones de base de datos para emitir, consultar, consumir e
+ *              invalidar los tokens de un solo uso con los que se restablece la contraseña.
+ */
+
+import { executeQuery } from '../config/database.config';
+import { PasswordResetToken } from '../interfaces/auth.interface';
+import { RowDataPacket } from 'mysql2';
+
+/**
+ * @interface PasswordResetTokenRow
+ * @description Interfaz para las filas de tokens de recuperación desde MySQL
+ */
+interface PasswordResetTokenRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * @constant PASSWORD_RESET_COLUMNS
+ * @description Columnas seleccionadas en todas las consultas de tokens de recuperación
+ */
+const PASSWORD_RESET_COLUMNS = `id, user_id, token_hash, expires_at, used_at, created_at`;
+
+/**
+ * @function createPasswordResetToken
+ * @description Inserta un nuevo token de recuperación
+ * @param resetToken - Token a insertar (solo con el hash del valor enviado)
+ * @returns Token creado
+ */
+export const createPasswordResetToken = async (
+  resetToken: PasswordResetToken
+): Promise<PasswordResetToken> => {
+  const query = `
+    INSERT INTO password_reset_tokens (id, user_id, token_hash, expires_at, used_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    resetToken.id, resetToken.user_id, resetToken.token_hash, resetToken.expires_at,
+    resetToken.used_at, resetToken.created_at
+  ];
+
+  await executeQuery(query, params);
+  return resetToken;
+};
+
+/**
+ * @function getPasswordResetTokenByHash
+ * @description Obtiene un token de recuperación por su hash
+ * @param tokenHash - Hash SHA-256 del token
+ * @returns Token encontrado o null
+ */
+export const getPasswordResetTokenByHash = async (
+  tokenHash: string
+): Promise<PasswordResetToken | null> => {
+  const query = `
+    SELECT ${PASSWORD_RESET_COLUMNS}
+    FROM password_reset_tokens
+    WHERE token_hash = ?
+  `;
+
+  const rows: PasswordResetTokenRow[] = await executeQuery(query, [tokenHash]);
+  return rows.length > 0 ? mapRowToPasswordResetToken(rows[0]) : null;
+};
+
+/**
+ * @function consumePasswordResetToken
+ * @description Marca un token como usado. Solo tiene efecto si seguía disponible, de modo
+ * que dos peticiones simultáneas no pueden usar el mismo token
+ * @param id - ID del token
+ * @param now - Momento de uso
+ * @returns true si se consumió, false si ya estaba usado
+ */
+export const consumePasswordResetToken = async (id: string, now: Date): Promise<boolean> => {
+  const query = `
+    UPDATE password_reset_tokens
+    SET used_at = ?
+    WHERE id = ? AND used_at IS NULL
+  `;
+
+  const result = await executeQuery(query, [now, id]);
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function invalidateUserPasswordResetTokens
+ * @description Invalida los tokens pendientes de un usuario (al emitir uno nuevo o al
+ * restablecer la contraseña)
+ * @param userId - ID del usuario
+ * @param now - Momento de la invalidación
+ * @returns Número de tokens invalidados
+ */
+export const invalidateUserPasswordResetTokens = async (
+  userId: string,
+  now: Date
+): Promise<number> => {
+  const query = `
+    UPDATE password_reset_tokens
+    SET used_at = ?
+    WHERE user_id = ? AND used_at IS NULL
+  `;
+
+  const result = await executeQuery(query, [now, userId]);
+  return result.affectedRows;
+};
+
+/**
+ * @function resetPasswordResets
+ * @description Reinicia los datos de tokens de recuperación (solo para testing)
+ */
+export const resetPasswordResets = async (): Promise<void> => {
+  await executeQuery('DELETE FROM password_reset_tokens');
+};
+
+/**
+ * @function mapRowToPasswordResetToken
+ * @description Convierte una fila de MySQL a objeto PasswordResetToken
+ * @param row - Fila de la base de datos
+ * @returns Objeto PasswordResetToken
+ */
+const mapRowToPasswordResetToken = (row: PasswordResetTokenRow): PasswordResetToken => {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    token_hash: row.token_hash,
+    expires_at: row.expires_at,
+    used_at: row.used_at,
+    created_at: row.created_at
+  };
+};
@@ -0,0 +1,89 @@
+/**
+ * @file Capa de datos para el cálculo de precios de citas usando MySQL.
+ * @description Consultas del precio personalizado de cada estilista
+ *              (stylist_styles.custom_price) y de los servicios adicionales.
+ */
+
+import { executeQuery } from '../config/database.config';
+import { ServiceAddOn } from '../interfaces/appointment.interface';
+import { RowDataPacket } from 'mysql2';
+
+/**
+ * @interface CustomPriceRow
+ * @description Interfaz para el precio personalizado de una estilista desde MySQL
+ */
+interface CustomPriceRow extends RowDataPacket {
+  custom_price: number | null;
+}
+
+/**
+ * @interface ServiceAddOnRow
+ * @description Interfaz para las filas de servicios adicionales desde MySQL
+ */
+interface ServiceAddOnRow extends RowDataPacket {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  is_active: number | boolean;
+}
+
+/**
+ * @function getStylistCustomPrice
+ * @description Obtiene el precio personalizado que aplica una estilista a un estilo
+ * @param styleId - ID del estilo
+ * @param stylistId - ID de la estilista
+ * @returns Precio personalizado o null si la estilista usa el precio base
+ */
+export const getStylistCustomPrice = async (
+  styleId: string,
+  stylistId: string
+): Promise<number | null> => {
+  const query = `
+    SELECT custom_price
+    FROM stylist_styles
+    WHERE style_id = ? AND stylist_id = ?
+  `;
+
+  const rows: CustomPriceRow[] = await executeQuery(query, [styleId, stylistId]);
+  if (rows.length === 0 || rows[0].custom_price === null) return null;
+
+  return Number(rows[0].custom_price);
+};
+
+/**
+ * @function getActiveAddOns
+ * @description Obtiene los servicios adicionales activos
+ * @param ids - IDs a buscar (opcional; sin IDs devuelve todo el catálogo activo)
+ * @returns Array de servicios adicionales ordenados por nombre
+ */
+export const getActiveAddOns = async (ids?: string[]): Promise<ServiceAddOn[]> => {
+  if (ids && ids.length === 0) return [];
+
+  const query = `
+    SELECT id, name, description, price, is_active
+    FROM service_add_ons
+    WHERE is_active = TRUE
+      ${ids ? `AND id IN (${ids.map(() => '?').join(', ')})` : ''}
+    ORDER BY name ASC
+  `;
+
+  const rows: ServiceAddOnRow[] = await executeQuery(query, ids || []);
+  return rows.map(mapRowToServiceAddOn);
+};
+
+/**
+ * @function mapRowToServiceAddOn
+ * @description Convierte una fila de MySQL a objeto ServiceAddOn
+ * @param row - Fila de la base de datos
+ * @returns Objeto ServiceAddOn
+ */
+const mapRowToServiceAddOn = (row: ServiceAddOnRow): ServiceAddOn => {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    price: Number(row.price),
+    is_active: Boolean(row.is_active)
+  };
+};
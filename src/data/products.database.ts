@@ -5,6 +5,7 @@
 
 import { executeQuery } from '../config/database.config';
 import { Product } from '../interfaces/product.interface';
+import { TaxClass } from '../interfaces/tax.interface';
 import { RowDataPacket } from 'mysql2';
 
 /**
@@ -19,9 +20,10 @@ interface ProductRow extends RowDataPacket {
   stock_quantity: number;
   sku?: string;
   brand?: string;
-  weight_grams?: number;
+  weight_grams: number | null;
   image_url: string;
   is_active: boolean;
+  tax_class: TaxClass;
   created_at: Date;
   updated_at: Date;
 }
@@ -34,7 +36,7 @@ interface ProductRow extends RowDataPacket {
 export const getProducts = async (): Promise<Product[]> => {
   const query = `
     SELECT id, name, description, price, stock_quantity, sku as category, 
-           image_url, is_active, created_at, updated_at
+           image_url, is_active, tax_class, weight_grams, created_at, updated_at
     FROM products 
     ORDER BY created_at DESC
   `;
@@ -52,7 +54,7 @@ export const getProducts = async (): Promise<Product[]> => {
 export const getProductById = async (id: string): Promise<Product | null> => {
   const query = `
     SELECT id, name, description, price, stock_quantity, sku as category,
-           image_url, is_active, created_at, updated_at
+           image_url, is_active, tax_class, weight_grams, created_at, updated_at
     FROM products 
     WHERE id = ? AND is_active = true
   `;
@@ -69,8 +71,9 @@ export const getProductById = async (id: string): Promise<Product | null> => {
  */
 export const addProduct = async (product: Product): Promise<Product> => {
   const query = `
-    INSERT INTO products (id, name, description, price, stock_quantity, sku, image_url, is_active, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO products (id, name, description, price, stock_quantity, sku, image_url, is_active, tax_class,
+                          weight_grams, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `;
   
   const params = [
@@ -82,6 +85,8 @@ export const addProduct = async (product: Product): Promise<Product> => {
     product.category, // Usamos category como sku temporalmente
     product.image_url,
     product.is_active,
+    product.tax_class,
+    product.weight_grams,
     product.created_at,
     product.updated_at
   ];
@@ -133,6 +138,14 @@ export const updateProduct = async (
     setClause.push('is_active = ?');
     params.push(updates.is_active);
   }
+  if (updates.tax_class !== undefined) {
+    setClause.push('tax_class = ?');
+    params.push(updates.tax_class);
+  }
+  if (updates.weight_grams !== undefined) {
+    setClause.push('weight_grams = ?');
+    params.push(updates.weight_grams);
+  }
   
   // Siempre actualizar updated_at
   setClause.push('updated_at = NOW()');
@@ -194,6 +207,8 @@ const mapRowToProduct = (row: ProductRow): Product => {
     image_url: row.image_url,
     category: row.sku || 'General', // Mapeo temporal
     is_active: row.is_active,
+    tax_class: row.tax_class,
+    weight_grams: row.weight_grams,
     created_at: row.created_at,
     updated_at: row.updated_at
   };
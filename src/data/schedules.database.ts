@@ -0,0 +1,452 @@
+/**
+ * @file Capa de datos para el horario de las estilistas usando MySQL.
+ * @description Operaciones de base de datos para horarios semanales, descansos
+ *              recurrentes y bloqueos de fechas.
+ */
+
+import { executeQuery } from '../config/database.config';
+import {
+  StylistWorkingHours,
+  StylistBreak,
+  StylistTimeOff
+} from '../interfaces/schedule.interface';
+import { TimeSlot } from '../interfaces/appointment.interface';
+import { RowDataPacket } from 'mysql2';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * @interface WorkingHoursRow
+ * @description Interfaz para las filas de horario semanal desde MySQL
+ */
+interface WorkingHoursRow extends RowDataPacket {
+  id: string;
+  stylist_id: string;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+}
+
+/**
+ * @interface BreakRow
+ * @description Interfaz para las filas de descansos desde MySQL
+ */
+interface BreakRow extends RowDataPacket {
+  id: string;
+  stylist_id: string;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  label: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @interface TimeOffRow
+ * @description Interfaz para las filas de bloqueos de fechas desde MySQL
+ */
+interface TimeOffRow extends RowDataPacket {
+  id: string;
+  stylist_id: string;
+  start_date: Date;
+  end_date: Date;
+  reason: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// ===== Horario semanal =====
+
+/**
+ * @function getWorkingHours
+ * @description Obtiene la plantilla semanal de una estilista
+ * @param stylistId - ID de la estilista
+ * @returns Array de franjas ordenadas por día de la semana
+ */
+export const getWorkingHours = async (stylistId: string): Promise<StylistWorkingHours[]> => {
+  const query = `
+    SELECT id, stylist_id, day_of_week, start_time, end_time
+    FROM stylist_working_hours
+    WHERE stylist_id = ?
+    ORDER BY day_of_week ASC
+  `;
+
+  const rows: WorkingHoursRow[] = await executeQuery(query, [stylistId]);
+  return rows.map(mapRowToWorkingHours);
+};
+
+/**
+ * @function replaceWorkingHours
+ * @description Reemplaza la plantilla semanal completa de una estilista
+ * @param stylistId - ID de la estilista
+ * @param hours - Franjas por día de la semana
+ * @returns Plantilla guardada
+ */
+export const replaceWorkingHours = async (
+  stylistId: string,
+  hours: Omit<StylistWorkingHours, 'id' | 'stylist_id'>[]
+): Promise<StylistWorkingHours[]> => {
+  await deleteWorkingHours(stylistId);
+
+  const query = `
+    INSERT INTO stylist_working_hours (id, stylist_id, day_of_week, start_time, end_time)
+    VALUES (?, ?, ?, ?, ?)
+  `;
+
+  for (const entry of hours) {
+    await executeQuery(query, [uuidv4(), stylistId, entry.day_of_week, entry.start_time, entry.end_time]);
+  }
+
+  return await getWorkingHours(stylistId);
+};
+
+/**
+ * @function deleteWorkingHours
+ * @description Elimina la plantilla semanal (la estilista vuelve al horario del salón)
+ * @param stylistId - ID de la estilista
+ * @returns true si existía una plantilla
+ */
+export const deleteWorkingHours = async (stylistId: string): Promise<boolean> => {
+  const query = `
+    DELETE FROM stylist_working_hours
+    WHERE stylist_id = ?
+  `;
+
+  const result = await executeQuery(query, [stylistId]);
+  return result.affectedRows > 0;
+};
+
+// ===== Descansos recurrentes =====
+
+/**
+ * @function getBreaks
+ * @description Obtiene los descansos de una estilista
+ * @param stylistId - ID de la estilista
+ * @param dayOfWeek - Día de la semana opcional para filtrar
+ * @returns Array de descansos ordenados por día y hora
+ */
+export const getBreaks = async (stylistId: string, dayOfWeek?: number): Promise<StylistBreak[]> => {
+  const params: any[] = [stylistId];
+  if (dayOfWeek !== undefined) params.push(dayOfWeek);
+
+  const query = `
+    SELECT id, stylist_id, day_of_week, start_time, end_time, label, created_at, updated_at
+    FROM stylist_breaks
+    WHERE stylist_id = ?
+      ${dayOfWeek !== undefined ? 'AND day_of_week = ?' : ''}
+    ORDER BY day_of_week ASC, start_time ASC
+  `;
+
+  const rows: BreakRow[] = await executeQuery(query, params);
+  return rows.map(mapRowToBreak);
+};
+
+/**
+ * @function getBreakById
+ * @description Obtiene un descanso de una estilista por su ID
+ * @param stylistId - ID de la estilista
+ * @param id - ID del descanso
+ * @returns Descanso encontrado o null
+ */
+export const getBreakById = async (stylistId: string, id: string): Promise<StylistBreak | null> => {
+  const query = `
+    SELECT id, stylist_id, day_of_week, start_time, end_time, label, created_at, updated_at
+    FROM stylist_breaks
+    WHERE id = ? AND stylist_id = ?
+  `;
+
+  const rows: BreakRow[] = await executeQuery(query, [id, stylistId]);
+  return rows.length > 0 ? mapRowToBreak(rows[0]) : null;
+};
+
+/**
+ * @function createBreak
+ * @description Inserta un nuevo descanso recurrente
+ * @param stylistBreak - Descanso a insertar
+ * @returns Descanso creado
+ */
+export const createBreak = async (stylistBreak: StylistBreak): Promise<StylistBreak> => {
+  const query = `
+    INSERT INTO stylist_breaks (id, stylist_id, day_of_week, start_time, end_time, label, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    stylistBreak.id, stylistBreak.stylist_id, stylistBreak.day_of_week, stylistBreak.start_time,
+    stylistBreak.end_time, stylistBreak.label, stylistBreak.created_at, stylistBreak.updated_at
+  ];
+
+  await executeQuery(query, params);
+  return stylistBreak;
+};
+
+/**
+ * @function updateBreak
+ * @description Actualiza un descanso recurrente
+ * @param stylistId - ID de la estilista
+ * @param id - ID del descanso
+ * @param updates - Campos a actualizar
+ * @returns Descanso actualizado o null si no hubo cambios
+ */
+export const updateBreak = async (
+  stylistId: string,
+  id: string,
+  updates: Partial<Pick<StylistBreak, 'day_of_week' | 'start_time' | 'end_time' | 'label'>>
+): Promise<StylistBreak | null> => {
+  const setClause: string[] = [];
+  const params: any[] = [];
+
+  // Construir la cláusula SET dinámicamente
+  if (updates.day_of_week !== undefined) {
+    setClause.push('day_of_week = ?');
+    params.push(updates.day_of_week);
+  }
+  if (updates.start_time !== undefined) {
+    setClause.push('start_time = ?');
+    params.push(updates.start_time);
+  }
+  if (updates.end_time !== undefined) {
+    setClause.push('end_time = ?');
+    params.push(updates.end_time);
+  }
+  if (updates.label !== undefined) {
+    setClause.push('label = ?');
+    params.push(updates.label);
+  }
+
+  // Siempre actualizar updated_at
+  setClause.push('updated_at = NOW()');
+  params.push(id, stylistId);
+
+  if (setClause.length === 1) { // Solo updated_at
+    return null;
+  }
+
+  const query = `
+    UPDATE stylist_breaks
+    SET ${setClause.join(', ')}
+    WHERE id = ? AND stylist_id = ?
+  `;
+
+  await executeQuery(query, params);
+  return await getBreakById(stylistId, id);
+};
+
+/**
+ * @function deleteBreak
+ * @description Elimina un descanso recurrente
+ * @param stylistId - ID de la estilista
+ * @param id - ID del descanso
+ * @returns true si se eliminó, false si no se encontró
+ */
+export const deleteBreak = async (stylistId: string, id: string): Promise<boolean> => {
+  const query = `
+    DELETE FROM stylist_breaks
+    WHERE id = ? AND stylist_id = ?
+  `;
+
+  const result = await executeQuery(query, [id, stylistId]);
+  return result.affectedRows > 0;
+};
+
+// ===== Bloqueos de fechas =====
+
+/**
+ * @function getTimeOff
+ * @description Obtiene los bloqueos de fechas de una estilista
+ * @param stylistId - ID de la estilista
+ * @param range - Rango opcional; solo se devuelven los bloqueos que se solapan con él
+ * @returns Array de bloqueos ordenados por fecha de inicio
+ */
+export const getTimeOff = async (stylistId: string, range?: TimeSlot): Promise<StylistTimeOff[]> => {
+  const params: any[] = [stylistId];
+  if (range) params.push(range.end, range.start);
+
+  const query = `
+    SELECT id, stylist_id, start_date, end_date, reason, created_at, updated_at
+    FROM stylist_time_off
+    WHERE stylist_id = ?
+      ${range ? 'AND start_date < ? AND end_date > ?' : ''}
+    ORDER BY start_date ASC
+  `;
+
+  const rows: TimeOffRow[] = await executeQuery(query, params);
+  return rows.map(mapRowToTimeOff);
+};
+
+/**
+ * @function getTimeOffById
+ * @description Obtiene un bloqueo de fechas de una estilista por su ID
+ * @param stylistId - ID de la estilista
+ * @param id - ID del bloqueo
+ * @returns Bloqueo encontrado o null
+ */
+export const getTimeOffById = async (stylistId: string, id: string): Promise<StylistTimeOff | null> => {
+  const query = `
+    SELECT id, stylist_id, start_date, end_date, reason, created_at, updated_at
+    FROM stylist_time_off
+    WHERE id = ? AND stylist_id = ?
+  `;
+
+  const rows: TimeOffRow[] = await executeQuery(query, [id, stylistId]);
+  return rows.length > 0 ? mapRowToTimeOff(rows[0]) : null;
+};
+
+/**
+ * @function createTimeOff
+ * @description Inserta un nuevo bloqueo de fechas
+ * @param timeOff - Bloqueo a insertar
+ * @returns Bloqueo creado
+ */
+export const createTimeOff = async (timeOff: StylistTimeOff): Promise<StylistTimeOff> => {
+  const query = `
+    INSERT INTO stylist_time_off (id, stylist_id, start_date, end_date, reason, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    timeOff.id, timeOff.stylist_id, timeOff.start_date, timeOff.end_date,
+    timeOff.reason, timeOff.created_at, timeOff.updated_at
+  ];
+
+  await executeQuery(query, params);
+  return timeOff;
+};
+
+/**
+ * @function updateTimeOff
+ * @description Actualiza un bloqueo de fechas
+ * @param stylistId - ID de la estilista
+ * @param id - ID del bloqueo
+ * @param updates - Campos a actualizar
+ * @returns Bloqueo actualizado o null si no hubo cambios
+ */
+export const updateTimeOff = async (
+  stylistId: string,
+  id: string,
+  updates: Partial<Pick<StylistTimeOff, 'start_date' | 'end_date' | 'reason'>>
+): Promise<StylistTimeOff | null> => {
+  const setClause: string[] = [];
+  const params: any[] = [];
+
+  // Construir la cláusula SET dinámicamente
+  if (updates.start_date !== undefined) {
+    setClause.push('start_date = ?');
+    params.push(updates.start_date);
+  }
+  if (updates.end_date !== undefined) {
+    setClause.push('end_date = ?');
+    params.push(updates.end_date);
+  }
+  if (updates.reason !== undefined) {
+    setClause.push('reason = ?');
+    params.push(updates.reason);
+  }
+
+  // Siempre actualizar updated_at
+  setClause.push('updated_at = NOW()');
+  params.push(id, stylistId);
+
+  if (setClause.length === 1) { // Solo updated_at
+    return null;
+  }
+
+  const query = `
+    UPDATE stylist_time_off
+    SET ${setClause.join(', ')}
+    WHERE id = ? AND stylist_id = ?
+  `;
+
+  await executeQuery(query, params);
+  return await getTimeOffById(stylistId, id);
+};
+
+/**
+ * @function deleteTimeOff
+ * @description Elimina un bloqueo de fechas
+ * @param stylistId - ID de la estilista
+ * @param id - ID del bloqueo
+ * @returns true si se eliminó, false si no se encontró
+ */
+export const deleteTimeOff = async (stylistId: string, id: string): Promise<boolean> => {
+  const query = `
+    DELETE FROM stylist_time_off
+    WHERE id = ? AND stylist_id = ?
+  `;
+
+  const result = await executeQuery(query, [id, stylistId]);
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function resetSchedules
+ * @description Reinicia los horarios de todas las estilistas (solo para testing)
+ */
+export const resetSchedules = async (): Promise<void> => {
+  await executeQuery('DELETE FROM stylist_time_off');
+  await executeQuery('DELETE FROM stylist_breaks');
+  await executeQuery('DELETE FROM stylist_working_hours');
+};
+
+/**
+ * @function toHourMinute
+ * @description Normaliza una columna TIME de MySQL (HH:MM:SS) a HH:MM
+ * @param time - Hora devuelta por MySQL
+ * @returns Hora en formato HH:MM
+ */
+const toHourMinute = (time: string): string => {
+  return String(time).slice(0, 5);
+};
+
+/**
+ * @function mapRowToWorkingHours
+ * @description Convierte una fila de MySQL a objeto StylistWorkingHours
+ * @param row - Fila de la base de datos
+ * @returns Objeto StylistWorkingHours
+ */
+const mapRowToWorkingHours = (row: WorkingHoursRow): StylistWorkingHours => {
+  return {
+    id: row.id,
+    stylist_id: row.stylist_id,
+    day_of_week: row.day_of_week,
+    start_time: toHourMinute(row.start_time),
+    end_time: toHourMinute(row.end_time)
+  };
+};
+
+/**
+ * @function mapRowToBreak
+ * @description Convierte una fila de MySQL a objeto StylistBreak
+ * @param row - Fila de la base de datos
+ * @returns Objeto StylistBreak
+ */
+const mapRowToBreak = (row: BreakRow): StylistBreak => {
+  return {
+    id: row.id,
+    stylist_id: row.stylist_id,
+    day_of_week: row.day_of_week,
+    start_time: toHourMinute(row.start_time),
+    end_time: toHourMinute(row.end_time),
+    label: row.label,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+};
+
+/**
+ * @function mapRowToTimeOff
+ * @description Convierte una fila de MySQL a objeto StylistTimeOff
+ * @param row - Fila de la base de datos
+ * @returns Objeto StylistTimeOff
+ */
+const mapRowToTimeOff = (row: TimeOffRow): StylistTimeOff => {
+  return {
+    id: row.id,
+    stylist_id: row.stylist_id,
+    start_date: row.start_date,
+    end_date: row.end_date,
+    reason: row.reason,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+};
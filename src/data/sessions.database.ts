@@ -0,0 +1,190 @@
+/**
+ * @file Capa de datos para sesiones de usuario usando MySQL.
+ * @description Operaciones de base de datos para los tokens de refresco: creación,
+ *              rotación y revocación de sesiones (individuales, por familia o por usuario).
+ */
+
+import { executeQuery } from '../config/database.config';
+import { UserSession, SessionRevocationReason } from '../interfaces/auth.interface';
+import { RowDataPacket } from 'mysql2';
+
+/**
+ * @interface UserSessionRow
+ * @description Interfaz para las filas de sesiones desde MySQL
+ */
+interface UserSessionRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  family_id: string;
+  token_hash: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  expires_at: Date;
+  revoked_at: Date | null;
+  revoked_reason: SessionRevocationReason | null;
+  replaced_by: string | null;
+  two_factor_verified: boolean;
+  created_at: Date;
+}
+
+/**
+ * @constant SESSION_COLUMNS
+ * @description Columnas seleccionadas en todas las consultas de sesiones
+ */
+const SESSION_COLUMNS = `
+  id, user_id, family_id, token_hash, user_agent, ip_address, expires_at,
+  revoked_at, revoked_reason, replaced_by, two_factor_verified, created_at
+`;
+
+/**
+ * @function createSession
+ * @description Inserta una nueva sesión
+ * @param session - Sesión a insertar
+ * @returns Sesión creada
+ */
+export const createSession = async (session: UserSession): Promise<UserSession> => {
+  const query = `
+    INSERT INTO user_sessions (id, user_id, family_id, token_hash, user_agent, ip_address,
+                               expires_at, revoked_at, revoked_reason, replaced_by,
+                               two_factor_verified, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    session.id, session.user_id, session.family_id, session.token_hash, session.user_agent,
+    session.ip_address, session.expires_at, session.revoked_at, session.revoked_reason,
+    session.replaced_by, session.two_factor_verified, session.created_at
+  ];
+
+  await executeQuery(query, params);
+  return session;
+};
+
+/**
+ * @function getSessionByTokenHash
+ * @description Obtiene una sesión por el hash de su token de refresco
+ * @param tokenHash - Hash SHA-256 del token
+ * @returns Sesión encontrada o null
+ */
+export const getSessionByTokenHash = async (tokenHash: string): Promise<UserSession | null> => {
+  const query = `
+    SELECT ${SESSION_COLUMNS}
+    FROM user_sessions
+    WHERE token_hash = ?
+  `;
+
+  const rows: UserSessionRow[] = await executeQuery(query, [tokenHash]);
+  return rows.length > 0 ? mapRowToUserSession(rows[0]) : null;
+};
+
+/**
+ * @function getActiveUserSessions
+ * @description Obtiene las sesiones vigentes (sin revocar ni expiradas) de un usuario
+ * @param userId - ID del usuario
+ * @param now - Momento de referencia para descartar sesiones expiradas
+ * @returns Array de sesiones, de la más reciente a la más antigua
+ */
+export const getActiveUserSessions = async (userId: string, now: Date): Promise<UserSession[]> => {
+  const query = `
+    SELECT ${SESSION_COLUMNS}
+    FROM user_sessions
+    WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+    ORDER BY created_at DESC
+  `;
+
+  const rows: UserSessionRow[] = await executeQuery(query, [userId, now]);
+  return rows.map(mapRowToUserSession);
+};
+
+/**
+ * @function rotateSession
+ * @description Revoca una sesión vigente al sustituirla por otra. Solo tiene efecto si la
+ * sesión no estaba revocada, de modo que dos renovaciones simultáneas no pueden usar el mismo token
+ * @param id - ID de la sesión a rotar
+ * @param replacedBy - ID de la sesión que la sustituye
+ * @param now - Momento de la rotación
+ * @returns true si se rotó, false si ya estaba revocada
+ */
+export const rotateSession = async (id: string, replacedBy: string, now: Date): Promise<boolean> => {
+  const query = `
+    UPDATE user_sessions
+    SET revoked_at = ?, revoked_reason = ?, replaced_by = ?
+    WHERE id = ? AND revoked_at IS NULL
+  `;
+
+  const result = await executeQuery(query, [now, SessionRevocationReason.ROTATED, replacedBy, id]);
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function revokeSessionFamily
+ * @description Revoca todas las sesiones vigentes de una familia de rotación
+ * @param familyId - ID de la familia
+ * @param reason - Motivo de la revocación
+ * @returns Número de sesiones revocadas
+ */
+export const revokeSessionFamily = async (
+  familyId: string,
+  reason: SessionRevocationReason
+): Promise<number> => {
+  const query = `
+    UPDATE user_sessions
+    SET revoked_at = NOW(), revoked_reason = ?
+    WHERE family_id = ? AND revoked_at IS NULL
+  `;
+
+  const result = await executeQuery(query, [reason, familyId]);
+  return result.affectedRows;
+};
+
+/**
+ * @function revokeUserSessions
+ * @description Revoca todas las sesiones vigentes de un usuario (todos sus dispositivos)
+ * @param userId - ID del usuario
+ * @param reason - Motivo de la revocación
+ * @returns Número de sesiones revocadas
+ */
+export const revokeUserSessions = async (
+  userId: string,
+  reason: SessionRevocationReason
+): Promise<number> => {
+  const query = `
+    UPDATE user_sessions
+    SET revoked_at = NOW(), revoked_reason = ?
+    WHERE user_id = ? AND revoked_at IS NULL
+  `;
+
+  const result = await executeQuery(query, [reason, userId]);
+  return result.affectedRows;
+};
+
+/**
+ * @function resetSessions
+ * @description Reinicia los datos de sesiones (solo para testing)
+ */
+export const resetSessions = async (): Promise<void> => {
+  await executeQuery('DELETE FROM user_sessions');
+};
+
+/**
+ * @function mapRowToUserSession
+ * @description Convierte una fila de MySQL a objeto UserSession
+ * @param row - Fila de la base de datos
+ * @returns Objeto UserSession
+ */
+const mapRowToUserSession = (row: UserSessionRow): UserSession => {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    family_id: row.family_id,
+    token_hash: row.token_hash,
+    user_agent: row.user_agent,
+    ip_address: row.ip_address,
+    expires_at: row.expires_at,
+    revoked_at: row.revoked_at,
+    revoked_reason: row.revoked_reason,
+    replaced_by: row.replaced_by,
+    two_factor_verified: Boolean(row.two_factor_verified),
+    created_at: row.created_at
+  };
+};
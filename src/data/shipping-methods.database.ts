@@ -0,0 +1,214 @@
+/**
+ * @file Capa de datos para métodos de envío usando MySQL.
+ * @description Operaciones de base de datos para gestionar los métodos de envío y sus
+ *              tarifas por zona, que se guardan en JSON junto al método.
+ */
+
+import { executeQuery } from '../config/database.config';
+import {
+  ShippingMethod,
+  ShippingMethodKind,
+  ShippingRateBasis,
+  ShippingZone
+} from '../interfaces/shipping.interface';
+import { DEFAULT_TAX_COUNTRY } from '../config/tax.config';
+import { DEFAULT_SHIPPING_AMOUNT, DEFAULT_FREE_SHIPPING_THRESHOLD } from '../config/shipping.config';
+import { RowDataPacket } from 'mysql2';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * @interface ShippingMethodRow
+ * @description Interfaz para las filas de métodos de envío desde MySQL
+ */
+interface ShippingMethodRow extends RowDataPacket {
+  id: string;
+  name: string;
+  kind: ShippingMethodKind;
+  rate_basis: ShippingRateBasis;
+  zones: string | ShippingZone[];
+  is_active: number | boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @constant SHIPPING_METHOD_COLUMNS
+ * @description Columnas seleccionadas en todas las consultas de métodos de envío
+ */
+const SHIPPING_METHOD_COLUMNS = 'id, name, kind, rate_basis, zones, is_active, created_at, updated_at';
+
+/**
+ * @function getShippingMethods
+ * @description Obtiene todos los métodos de envío (incluidos los inactivos)
+ * @returns Array de métodos
+ */
+export const getShippingMethods = async (): Promise<ShippingMethod[]> => {
+  const query = `
+    SELECT ${SHIPPING_METHOD_COLUMNS}
+    FROM shipping_methods
+    ORDER BY kind ASC, name ASC
+  `;
+
+  const rows: ShippingMethodRow[] = await executeQuery(query);
+  return rows.map(mapRowToShippingMethod);
+};
+
+/**
+ * @function getActiveShippingMethods
+ * @description Obtiene los métodos de envío activos
+ * @returns Array de métodos
+ */
+export const getActiveShippingMethods = async (): Promise<ShippingMethod[]> => {
+  const query = `
+    SELECT ${SHIPPING_METHOD_COLUMNS}
+    FROM shipping_methods
+    WHERE is_active = true
+    ORDER BY kind ASC, name ASC
+  `;
+
+  const rows: ShippingMethodRow[] = await executeQuery(query);
+  return rows.map(mapRowToShippingMethod);
+};
+
+/**
+ * @function getShippingMethodById
+ * @description Obtiene un método de envío por su ID
+ * @param id - ID del método
+ * @returns Método encontrado o null
+ */
+export const getShippingMethodById = async (id: string): Promise<ShippingMethod | null> => {
+  const query = `
+    SELECT ${SHIPPING_METHOD_COLUMNS}
+    FROM shipping_methods
+    WHERE id = ?
+  `;
+
+  const rows: ShippingMethodRow[] = await executeQuery(query, [id]);
+  return rows.length > 0 ? mapRowToShippingMethod(rows[0]) : null;
+};
+
+/**
+ * @function createShippingMethod
+ * @description Inserta un nuevo método de envío
+ * @param method - Método a insertar
+ * @returns Método creado
+ */
+export const createShippingMethod = async (method: ShippingMethod): Promise<ShippingMethod> => {
+  const query = `
+    INSERT INTO shipping_methods (id, name, kind, rate_basis, zones, is_active, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    method.id, method.name, method.kind, method.rate_basis, JSON.stringify(method.zones),
+    method.is_active, method.created_at, method.updated_at
+  ];
+
+  await executeQuery(query, params);
+  return method;
+};
+
+/**
+ * @function updateShippingMethod
+ * @description Actualiza un método de envío. Las zonas se reemplazan completas. Los pedidos
+ * ya creados conservan su costo de envío
+ * @param id - ID del método
+ * @param updates - Campos a actualizar
+ * @returns Método actualizado o null si no se encontró
+ */
+export const updateShippingMethod = async (
+  id: string,
+  updates: Partial<Omit<ShippingMethod, 'id' | 'created_at' | 'updated_at'>>
+): Promise<ShippingMethod | null> => {
+  const setClause: string[] = [];
+  const params: any[] = [];
+
+  // Construir la cláusula SET dinámicamente
+  if (updates.name !== undefined) {
+    setClause.push('name = ?');
+    params.push(updates.name);
+  }
+  if (updates.kind !== undefined) {
+    setClause.push('kind = ?');
+    params.push(updates.kind);
+  }
+  if (updates.rate_basis !== undefined) {
+    setClause.push('rate_basis = ?');
+    params.push(updates.rate_basis);
+  }
+  if (updates.zones !== undefined) {
+    setClause.push('zones = ?');
+    params.push(JSON.stringify(updates.zones));
+  }
+  if (updates.is_active !== undefined) {
+    setClause.push('is_active = ?');
+    params.push(updates.is_active);
+  }
+
+  if (setClause.length === 0) {
+    return getShippingMethodById(id);
+  }
+
+  // Siempre actualizar updated_at
+  setClause.push('updated_at = NOW()');
+  params.push(id);
+
+  await executeQuery(`UPDATE shipping_methods SET ${setClause.join(', ')} WHERE id = ?`, params);
+  return getShippingMethodById(id);
+};
+
+/**
+ * @function deleteShippingMethod
+ * @description Elimina un método de envío. Los pedidos que lo usaron quedan sin método
+ * @param id - ID del método
+ * @returns true si se eliminó, false si no existía
+ */
+export const deleteShippingMethod = async (id: string): Promise<boolean> => {
+  const result = await executeQuery('DELETE FROM shipping_methods WHERE id = ?', [id]);
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function resetShippingMethods
+ * @description Reinicia los datos de métodos de envío (solo para testing). Deja solo el envío
+ * estándar por defecto de DEFAULT_TAX_COUNTRY, igual que los datos iniciales del esquema.
+ */
+export const resetShippingMethods = async (): Promise<void> => {
+  await executeQuery('DELETE FROM shipping_methods');
+
+  const now = new Date();
+  await createShippingMethod({
+    id: uuidv4(),
+    name: 'Envío estándar',
+    kind: ShippingMethodKind.STANDARD,
+    rate_basis: ShippingRateBasis.PRICE,
+    zones: [{
+      country: DEFAULT_TAX_COUNTRY,
+      region: null,
+      free_shipping_threshold: DEFAULT_FREE_SHIPPING_THRESHOLD,
+      bands: [{ min: 0, max: null, amount: DEFAULT_SHIPPING_AMOUNT }]
+    }],
+    is_active: true,
+    created_at: now,
+    updated_at: now
+  });
+};
+
+/**
+ * @function mapRowToShippingMethod
+ * @description Convierte una fila de MySQL a objeto ShippingMethod
+ * @param row - Fila de la base de datos
+ * @returns Objeto ShippingMethod
+ */
+const mapRowToShippingMethod = (row: ShippingMethodRow): ShippingMethod => {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    rate_basis: row.rate_basis,
+    zones: typeof row.zones === 'string' ? JSON.parse(row.zones) : row.zones,
+    is_active: !!row.is_active,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+};
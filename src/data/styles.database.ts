@@ -0,0 +1,62 @@
+/**
+ * @file Capa de datos para estilos usando MySQL.
+ * @description Copia en la tabla styles los estilos del catálogo que se reservan, para que
+ *              las citas y la lista de espera puedan referenciarlos por clave foránea.
+ */
+
+import { executeQuery } from '../config/database.config';
+import { Style } from '../interfaces/style.interface';
+import { RowDataPacket } from 'mysql2';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * @function upsertStyle
+ * @description Crea o actualiza un estilo en la base de datos con los datos del catálogo
+ * @param style - Estilo del catálogo con su precio base
+ */
+export const upsertStyle = async (style: Style & { base_price: number }): Promise<void> => {
+  const categoryId = await ensureCategory(style.category);
+
+  const query = `
+    INSERT INTO styles (id, category_id, name, description, photo_url, base_price,
+                        estimated_duration_minutes, is_active, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, TRUE, ?, ?)
+    ON DUPLICATE KEY UPDATE
+      category_id = VALUES(category_id),
+      name = VALUES(name),
+      description = VALUES(description),
+      photo_url = VALUES(photo_url),
+      base_price = VALUES(base_price),
+      estimated_duration_minutes = VALUES(estimated_duration_minutes),
+      is_active = TRUE,
+      updated_at = VALUES(updated_at)
+  `;
+
+  await executeQuery(query, [
+    style.id,
+    categoryId,
+    style.name,
+    style.description,
+    style.photo_url,
+    style.base_price,
+    style.estimated_duration_minutes ?? null,
+    style.created_at,
+    style.updated_at
+  ]);
+};
+
+/**
+ * @function ensureCategory
+ * @description Obtiene el ID de una categoría por su nombre, creándola si aún no existe
+ * @param name - Nombre de la categoría
+ * @returns ID de la categoría
+ */
+const ensureCategory = async (name: string): Promise<string> => {
+  await executeQuery(
+    'INSERT IGNORE INTO categories (id, name, is_active) VALUES (?, ?, TRUE)',
+    [uuidv4(), name]
+  );
+
+  const rows: RowDataPacket[] = await executeQuery('SELECT id FROM categories WHERE name = ?', [name]);
+  return rows[0].id;
+};
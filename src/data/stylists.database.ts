@@ -63,6 +63,25 @@ export const getStylistById = async (id: string): Promise<Stylist | null> => {
   return rows.length > 0 ? mapRowToStylist(rows[0]) : null;
 };
 
+/**
+ * @function getStylistByUserId
+ * @description Obtiene la estilista vinculada a un usuario con rol STYLIST
+ * @param userId - ID del usuario
+ * @returns Estilista encontrada o null
+ */
+export const getStylistByUserId = async (userId: string): Promise<Stylist | null> => {
+  const query = `
+    SELECT id, user_id, name, specialty, bio, photo_url, years_experience, rating, total_reviews,
+           is_featured, is_available, hourly_rate, created_at, updated_at
+    FROM stylists 
+    WHERE user_id = ?
+    LIMIT 1
+  `;
+  
+  const rows: StylistRow[] = await executeQuery(query, [userId]);
+  return rows.length > 0 ? mapRowToStylist(rows[0]) : null;
+};
+
 /**
  * @function addStylist
  * @description Agrega una nueva estilista a la base de datos
@@ -78,7 +97,7 @@ export const addStylist = async (stylist: Stylist): Promise<Stylist> => {
   
   const params = [
     stylist.id,
-    stylist.id, // user_id temporal - mismo que id
+    stylist.user_id || stylist.id, // user_id temporal - mismo que id si no hay usuario vinculado
     stylist.name,
     stylist.specialty,
     stylist.description, // bio <- description
@@ -170,9 +189,10 @@ export const deleteStylist = async (id: string): Promise<boolean> => {
 /**
  * @function resetStylists
  * @description Reinicia los datos de estilistas (solo para testing)
+ * Conserva las estilistas que tienen citas (las citas las referencian con ON DELETE RESTRICT)
  */
 export const resetStylists = async (): Promise<void> => {
-  const query = `DELETE FROM stylists`;
+  const query = `DELETE FROM stylists WHERE id NOT IN (SELECT stylist_id FROM appointments)`;
   await executeQuery(query);
 };
 
@@ -185,6 +205,7 @@ export const resetStylists = async (): Promise<void> => {
 const mapRowToStylist = (row: StylistRow): Stylist => {
   return {
     id: row.id,
+    user_id: row.user_id,
     name: row.name,
     specialty: row.specialty || 'General',
     photo_url: row.photo_url || 'https://example.com/default-stylist.jpg',
@@ -0,0 +1,217 @@
+/**
+ * @file Capa de datos para reglas de impuestos usando MySQL.
+ * @description Operaciones de base de datos para gestionar las reglas de impuestos por
+ *              jurisdicción y clase fiscal que se aplican a los pedidos.
+ */
+
+import { executeQuery } from '../config/database.config';
+import { TaxRule, TaxClass, TaxMode } from '../interfaces/tax.interface';
+import { DEFAULT_TAX_COUNTRY, DEFAULT_TAX_RATE } from '../config/tax.config';
+import { RowDataPacket } from 'mysql2';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * @interface TaxRuleRow
+ * @description Interfaz para las filas de reglas de impuestos desde MySQL
+ */
+interface TaxRuleRow extends RowDataPacket {
+  id: string;
+  name: string;
+  country: string;
+  region: string | null;
+  tax_class: TaxClass;
+  rate: string | number;
+  mode: TaxMode;
+  is_active: number | boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @constant TAX_RULE_COLUMNS
+ * @description Columnas seleccionadas en todas las consultas de reglas de impuestos
+ */
+const TAX_RULE_COLUMNS = 'id, name, country, region, tax_class, rate, mode, is_active, created_at, updated_at';
+
+/**
+ * @function getTaxRules
+ * @description Obtiene todas las reglas de impuestos (incluidas las inactivas)
+ * @returns Array de reglas
+ */
+export const getTaxRules = async (): Promise<TaxRule[]> => {
+  const query = `
+    SELECT ${TAX_RULE_COLUMNS}
+    FROM tax_rules
+    ORDER BY country ASC, region ASC, tax_class ASC, name ASC
+  `;
+
+  const rows: TaxRuleRow[] = await executeQuery(query);
+  return rows.map(mapRowToTaxRule);
+};
+
+/**
+ * @function getActiveTaxRulesByCountry
+ * @description Obtiene las reglas activas de un país (de todo el país y de sus regiones)
+ * @param country - Código ISO del país
+ * @returns Array de reglas
+ */
+export const getActiveTaxRulesByCountry = async (country: string): Promise<TaxRule[]> => {
+  const query = `
+    SELECT ${TAX_RULE_COLUMNS}
+    FROM tax_rules
+    WHERE country = ? AND is_active = true
+    ORDER BY region ASC, name ASC
+  `;
+
+  const rows: TaxRuleRow[] = await executeQuery(query, [country]);
+  return rows.map(mapRowToTaxRule);
+};
+
+/**
+ * @function getTaxRuleById
+ * @description Obtiene una regla de impuestos por su ID
+ * @param id - ID de la regla
+ * @returns Regla encontrada o null
+ */
+export const getTaxRuleById = async (id: string): Promise<TaxRule | null> => {
+  const query = `
+    SELECT ${TAX_RULE_COLUMNS}
+    FROM tax_rules
+    WHERE id = ?
+  `;
+
+  const rows: TaxRuleRow[] = await executeQuery(query, [id]);
+  return rows.length > 0 ? mapRowToTaxRule(rows[0]) : null;
+};
+
+/**
+ * @function createTaxRule
+ * @description Inserta una nueva regla de impuestos
+ * @param rule - Regla a insertar
+ * @returns Regla creada
+ */
+export const createTaxRule = async (rule: TaxRule): Promise<TaxRule> => {
+  const query = `
+    INSERT INTO tax_rules (id, name, country, region, tax_class, rate, mode, is_active, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    rule.id, rule.name, rule.country, rule.region, rule.tax_class, rule.rate, rule.mode,
+    rule.is_active, rule.created_at, rule.updated_at
+  ];
+
+  await executeQuery(query, params);
+  return rule;
+};
+
+/**
+ * @function updateTaxRule
+ * @description Actualiza una regla de impuestos. Los pedidos ya creados conservan su desglose
+ * @param id - ID de la regla
+ * @param updates - Campos a actualizar
+ * @returns Regla actualizada o null si no se encontró
+ */
+export const updateTaxRule = async (
+  id: string,
+  updates: Partial<Omit<TaxRule, 'id' | 'created_at' | 'updated_at'>>
+): Promise<TaxRule | null> => {
+  const setClause: string[] = [];
+  const params: any[] = [];
+
+  // Construir la cláusula SET dinámicamente
+  if (updates.name !== undefined) {
+    setClause.push('name = ?');
+    params.push(updates.name);
+  }
+  if (updates.country !== undefined) {
+    setClause.push('country = ?');
+    params.push(updates.country);
+  }
+  if (updates.region !== undefined) {
+    setClause.push('region = ?');
+    params.push(updates.region);
+  }
+  if (updates.tax_class !== undefined) {
+    setClause.push('tax_class = ?');
+    params.push(updates.tax_class);
+  }
+  if (updates.rate !== undefined) {
+    setClause.push('rate = ?');
+    params.push(updates.rate);
+  }
+  if (updates.mode !== undefined) {
+    setClause.push('mode = ?');
+    params.push(updates.mode);
+  }
+  if (updates.is_active !== undefined) {
+    setClause.push('is_active = ?');
+    params.push(updates.is_active);
+  }
+
+  if (setClause.length === 0) {
+    return getTaxRuleById(id);
+  }
+
+  // Siempre actualizar updated_at
+  setClause.push('updated_at = NOW()');
+  params.push(id);
+
+  await executeQuery(`UPDATE tax_rules SET ${setClause.join(', ')} WHERE id = ?`, params);
+  return getTaxRuleById(id);
+};
+
+/**
+ * @function deleteTaxRule
+ * @description Elimina una regla de impuestos
+ * @param id - ID de la regla
+ * @returns true si se eliminó, false si no existía
+ */
+export const deleteTaxRule = async (id: string): Promise<boolean> => {
+  const result = await executeQuery('DELETE FROM tax_rules WHERE id = ?', [id]);
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function resetTaxRules
+ * @description Reinicia los datos de reglas de impuestos (solo para testing). Deja solo la
+ * regla por defecto de DEFAULT_TAX_COUNTRY, igual que los datos iniciales del esquema.
+ */
+export const resetTaxRules = async (): Promise<void> => {
+  await executeQuery('DELETE FROM tax_rules');
+
+  const now = new Date();
+  await createTaxRule({
+    id: uuidv4(),
+    name: 'Impuesto general',
+    country: DEFAULT_TAX_COUNTRY,
+    region: null,
+    tax_class: TaxClass.STANDARD,
+    rate: DEFAULT_TAX_RATE,
+    mode: TaxMode.EXCLUSIVE,
+    is_active: true,
+    created_at: now,
+    updated_at: now
+  });
+};
+
+/**
+ * @function mapRowToTaxRule
+ * @description Convierte una fila de MySQL a objeto TaxRule
+ * @param row - Fila de la base de datos
+ * @returns Objeto TaxRule
+ */
+const mapRowToTaxRule = (row: TaxRuleRow): TaxRule => {
+  return {
+    id: row.id,
+    name: row.name,
+    country: row.country,
+    region: row.region,
+    tax_class: row.tax_class,
+    rate: Number(row.rate),
+    mode: row.mode,
+    is_active: !!row.is_active,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+};
@@ -0,0 +1,284 @@
+/**
+ * @file Capa de datos para el segundo factor (TOTP) usando MySQL.
+ * @description Operaciones de base de datos para la configuración TOTP de cada usuario,
+ *              sus códigos de recuperación y los retos pendientes del login en dos pasos.
+ */
+
+import { executeQuery } from '../config/database.config';
+import { TwoFactorSettings, TwoFactorChallenge } from '../interfaces/auth.interface';
+import { RowDataPacket } from 'mysql2';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * @interface TwoFactorSettingsRow
+ * @description Interfaz para las filas de configuración TOTP desde MySQL
+ */
+interface TwoFactorSettingsRow extends RowDataPacket {
+  user_id: string;
+  secret: string;
+  enabled_at: Date | null;
+  last_used_step: number | string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @interface TwoFactorChallengeRow
+ * @description Interfaz para las filas de retos de login desde MySQL
+ */
+interface TwoFactorChallengeRow extends RowDataPacket {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  attempts: number;
+  created_at: Date;
+}
+
+/**
+ * @function getTwoFactorSettings
+ * @description Obtiene la configuración TOTP de un usuario
+ * @param userId - ID del usuario
+ * @returns Configuración encontrada o null si nunca inició la activación
+ */
+export const getTwoFactorSettings = async (userId: string): Promise<TwoFactorSettings | null> => {
+  const query = `
+    SELECT user_id, secret, enabled_at, last_used_step, created_at, updated_at
+    FROM user_two_factor
+    WHERE user_id = ?
+  `;
+
+  const rows: TwoFactorSettingsRow[] = await executeQuery(query, [userId]);
+  return rows.length > 0 ? mapRowToTwoFactorSettings(rows[0]) : null;
+};
+
+/**
+ * @function savePendingTwoFactor
+ * @description Guarda un secreto nuevo pendiente de confirmar, sustituyendo una
+ * activación pendiente anterior
+ * @param userId - ID del usuario
+ * @param secret - Secreto TOTP en base32
+ */
+export const savePendingTwoFactor = async (userId: string, secret: string): Promise<void> => {
+  const query = `
+    INSERT INTO user_two_factor (user_id, secret, enabled_at, last_used_step)
+    VALUES (?, ?, NULL, NULL)
+    ON DUPLICATE KEY UPDATE secret = VALUES(secret), enabled_at = NULL, last_used_step = NULL,
+                            updated_at = NOW()
+  `;
+
+  await executeQuery(query, [userId, secret]);
+};
+
+/**
+ * @function enableTwoFactor
+ * @description Confirma la activación del segundo factor
+ * @param userId - ID del usuario
+ * @param step - Periodo TOTP del código con el que se confirmó
+ * @param now - Momento de la activación
+ */
+export const enableTwoFactor = async (userId: string, step: number, now: Date): Promise<void> => {
+  const query = `
+    UPDATE user_two_factor
+    SET enabled_at = ?, last_used_step = ?, updated_at = NOW()
+    WHERE user_id = ?
+  `;
+
+  await executeQuery(query, [now, step, userId]);
+};
+
+/**
+ * @function markTotpStepUsed
+ * @description Registra el periodo TOTP de un código aceptado. Solo tiene efecto si es
+ * posterior al último usado, de modo que un mismo código no sirve dos veces
+ * @param userId - ID del usuario
+ * @param step - Periodo TOTP del código
+ * @returns true si se registró, false si el código ya se había usado
+ */
+export const markTotpStepUsed = async (userId: string, step: number): Promise<boolean> => {
+  const query = `
+    UPDATE user_two_factor
+    SET last_used_step = ?
+    WHERE user_id = ? AND (last_used_step IS NULL OR last_used_step < ?)
+  `;
+
+  const result = await executeQuery(query, [step, userId, step]);
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function deleteTwoFactor
+ * @description Desactiva el segundo factor eliminando el secreto y los códigos de recuperación
+ * @param userId - ID del usuario
+ */
+export const deleteTwoFactor = async (userId: string): Promise<void> => {
+  await executeQuery('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId]);
+  await executeQuery('DELETE FROM user_two_factor WHERE user_id = ?', [userId]);
+};
+
+/**
+ * @function replaceRecoveryCodes
+ * @description Sustituye los códigos de recuperación de un usuario
+ * @param userId - ID del usuario
+ * @param codeHashes - Hashes de los códigos nuevos
+ */
+export const replaceRecoveryCodes = async (userId: string, codeHashes: string[]): Promise<void> => {
+  await executeQuery('DELETE FROM two_factor_recovery_codes WHERE user_id = ?', [userId]);
+
+  for (const codeHash of codeHashes) {
+    await executeQuery(
+      'INSERT INTO two_factor_recovery_codes (id, user_id, code_hash) VALUES (?, ?, ?)',
+      [uuidv4(), userId, codeHash]
+    );
+  }
+};
+
+/**
+ * @function consumeRecoveryCode
+ * @description Marca como usado un código de recuperación disponible
+ * @param userId - ID del usuario
+ * @param codeHash - Hash del código presentado
+ * @param now - Momento de uso
+ * @returns true si el código era válido y no se había usado
+ */
+export const consumeRecoveryCode = async (
+  userId: string,
+  codeHash: string,
+  now: Date
+): Promise<boolean> => {
+  const query = `
+    UPDATE two_factor_recovery_codes
+    SET used_at = ?
+    WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+    LIMIT 1
+  `;
+
+  const result = await executeQuery(query, [now, userId, codeHash]);
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function countUnusedRecoveryCodes
+ * @description Cuenta los códigos de recuperación que quedan por usar
+ * @param userId - ID del usuario
+ * @returns Número de códigos disponibles
+ */
+export const countUnusedRecoveryCodes = async (userId: string): Promise<number> => {
+  const rows = await executeQuery(
+    'SELECT COUNT(*) AS total FROM two_factor_recovery_codes WHERE user_id = ? AND used_at IS NULL',
+    [userId]
+  );
+  return Number(rows[0].total);
+};
+
+/**
+ * @function createTwoFactorChallenge
+ * @description Inserta un reto de login pendiente del segundo factor
+ * @param challenge - Reto a insertar (solo con el hash del token)
+ * @returns Reto creado
+ */
+export const createTwoFactorChallenge = async (
+  challenge: TwoFactorChallenge
+): Promise<TwoFactorChallenge> => {
+  const query = `
+    INSERT INTO two_factor_challenges (id, user_id, token_hash, expires_at, used_at, attempts, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    challenge.id, challenge.user_id, challenge.token_hash, challenge.expires_at,
+    challenge.used_at, challenge.attempts, challenge.created_at
+  ];
+
+  await executeQuery(query, params);
+  return challenge;
+};
+
+/**
+ * @function getTwoFactorChallengeByHash
+ * @description Obtiene un reto de login por el hash de su token
+ * @param tokenHash - Hash SHA-256 del token
+ * @returns Reto encontrado o null
+ */
+export const getTwoFactorChallengeByHash = async (
+  tokenHash: string
+): Promise<TwoFactorChallenge | null> => {
+  const query = `
+    SELECT id, user_id, token_hash, expires_at, used_at, attempts, created_at
+    FROM two_factor_challenges
+    WHERE token_hash = ?
+  `;
+
+  const rows: TwoFactorChallengeRow[] = await executeQuery(query, [tokenHash]);
+  return rows.length > 0 ? mapRowToTwoFactorChallenge(rows[0]) : null;
+};
+
+/**
+ * @function recordFailedChallengeAttempt
+ * @description Suma un código incorrecto al reto
+ * @param id - ID del reto
+ */
+export const recordFailedChallengeAttempt = async (id: string): Promise<void> => {
+  await executeQuery('UPDATE two_factor_challenges SET attempts = attempts + 1 WHERE id = ?', [id]);
+};
+
+/**
+ * @function consumeTwoFactorChallenge
+ * @description Marca un reto como completado. Solo tiene efecto si seguía pendiente
+ * @param id - ID del reto
+ * @param now - Momento de uso
+ * @returns true si se consumió, false si ya estaba usado
+ */
+export const consumeTwoFactorChallenge = async (id: string, now: Date): Promise<boolean> => {
+  const result = await executeQuery(
+    'UPDATE two_factor_challenges SET used_at = ? WHERE id = ? AND used_at IS NULL',
+    [now, id]
+  );
+  return result.affectedRows > 0;
+};
+
+/**
+ * @function resetTwoFactor
+ * @description Reinicia los datos del segundo factor (solo para testing)
+ */
+export const resetTwoFactor = async (): Promise<void> => {
+  await executeQuery('DELETE FROM two_factor_challenges');
+  await executeQuery('DELETE FROM two_factor_recovery_codes');
+  await executeQuery('DELETE FROM user_two_factor');
+};
+
+/**
+ * @function mapRowToTwoFactorSettings
+ * @description Convierte una fila de MySQL a objeto TwoFactorSettings
+ * @param row - Fila de la base de datos
+ * @returns Objeto TwoFactorSettings
+ */
+const mapRowToTwoFactorSettings = (row: TwoFactorSettingsRow): TwoFactorSettings => {
+  return {
+    user_id: row.user_id,
+    secret: row.secret,
+    enabled_at: row.enabled_at,
+    last_used_step: row.last_used_step !== null ? Number(row.last_used_step) : null,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+};
+
+/**
+ * @function mapRowToTwoFactorChallenge
+ * @description Convierte una fila de MySQL a objeto TwoFactorChallenge
+ * @param row - Fila de la base de datos
+ * @returns Objeto TwoFactorChallenge
+ */
+const mapRowToTwoFactorChallenge = (row: TwoFactorChallengeRow): TwoFactorChallenge => {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    token_hash: row.token_hash,
+    expires_at: row.expires_at,
+    used_at: row.used_at,
+    attempts: row.attempts,
+    created_at: row.created_at
+  };
+};
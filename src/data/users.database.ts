@@ -19,7 +19,7 @@ interface UserRow extends RowDataPacket {
   role: UserRole;
   phone?: string;
   is_active: boolean;
-  email_verified_at?: Date;
+  email_verified_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -141,6 +141,10 @@ export const updateUser = async (
     setClause.push('phone = ?');
     params.push(updates.phone);
   }
+  if (updates.email_verified_at !== undefined) {
+    setClause.push('email_verified_at = ?');
+    params.push(updates.email_verified_at);
+  }
   
   // Siempre actualizar updated_at
   setClause.push('updated_at = NOW()');
@@ -180,12 +184,15 @@ export const deleteUser = async (id: string): Promise<boolean> => {
 /**
  * @function resetUsers
  * @description Reinicia los datos de usuarios (solo para testing)
- * Elimina todos los usuarios excepto el admin
+ * Elimina todos los usuarios excepto el admin y los que participan en citas
+ * (las citas los referencian con ON DELETE RESTRICT)
  */
 export const resetUsers = async (): Promise<void> => {
   const query = `
     DELETE FROM users 
     WHERE role != 'ADMIN'
+      AND id NOT IN (SELECT customer_id FROM appointments)
+      AND id NOT IN (SELECT s.user_id FROM stylists s JOIN appointments a ON a.stylist_id = s.id)
   `;
   
   await executeQuery(query);
@@ -205,6 +212,7 @@ const mapRowToUser = (row: UserRow): User => {
     password_hash: row.password_hash,
     role: row.role,
     phone: row.phone,
+    email_verified_at: row.email_verified_at,
     created_at: row.created_at,
     updated_at: row.updated_at
   };
@@ -0,0 +1,290 @@
+/**
+ * @file Capa de datos para la lista de espera de citas usando MySQL.
+ * @description Operaciones de base de datos para las solicitudes de la lista de espera
+ *              y sus ofertas de horario. La columna customer_id se expone como user_id en la API.
+ */
+
+import { executeQuery } from '../config/database.config';
+import { TimeSlot } from '../interfaces/appointment.interface';
+import {
+  WaitlistEntry,
+  WaitlistFilters,
+  WaitlistStatus,
+  WaitlistUpdateRequest
+} from '../interfaces/waitlist.interface';
+import { RowDataPacket } from 'mysql2';
+
+/**
+ * @interface WaitlistEntryRow
+ * @description Interfaz para las filas de la lista de espera desde MySQL
+ */
+interface WaitlistEntryRow extends RowDataPacket {
+  id: string;
+  customer_id: string;
+  stylist_id: string;
+  style_id: string;
+  earliest_date: string;
+  latest_date: string;
+  status: WaitlistStatus;
+  offered_start: Date | null;
+  offered_end: Date | null;
+  offer_expires_at: Date | null;
+  appointment_id: string | null;
+  notes: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @constant WAITLIST_COLUMNS
+ * @description Columnas seleccionadas en todas las consultas de la lista de espera
+ */
+const WAITLIST_COLUMNS = `
+  id, customer_id, stylist_id, style_id,
+  DATE_FORMAT(earliest_date, '%Y-%m-%d') AS earliest_date,
+  DATE_FORMAT(latest_date, '%Y-%m-%d') AS latest_date,
+  status, offered_start, offered_end, offer_expires_at, appointment_id, notes, created_at, updated_at
+`;
+
+/**
+ * @function getWaitlistEntries
+ * @description Obtiene las solicitudes que cumplen los filtros indicados
+ * @param filters - Filtros opcionales (cliente, estilista, estado)
+ * @returns Array de solicitudes en orden de llegada
+ */
+export const getWaitlistEntries = async (filters: WaitlistFilters = {}): Promise<WaitlistEntry[]> => {
+  const whereClause: string[] = [];
+  const params: any[] = [];
+
+  if (filters.user_id !== undefined) {
+    whereClause.push('customer_id = ?');
+    params.push(filters.user_id);
+  }
+  if (filters.stylist_id !== undefined) {
+    whereClause.push('stylist_id = ?');
+    params.push(filters.stylist_id);
+  }
+  if (filters.status !== undefined) {
+    whereClause.push('status = ?');
+    params.push(filters.status);
+  }
+
+  const query = `
+    SELECT ${WAITLIST_COLUMNS}
+    FROM waitlist_entries
+    ${whereClause.length > 0 ? `WHERE ${whereClause.join(' AND ')}` : ''}
+    ORDER BY created_at ASC
+  `;
+
+  const rows: WaitlistEntryRow[] = await executeQuery(query, params);
+  return rows.map(mapRowToWaitlistEntry);
+};
+
+/**
+ * @function getWaitlistEntryById
+ * @description Obtiene una solicitud de la lista de espera por su ID
+ * @param id - ID de la solicitud
+ * @returns Solicitud encontrada o null
+ */
+export const getWaitlistEntryById = async (id: string): Promise<WaitlistEntry | null> => {
+  const query = `
+    SELECT ${WAITLIST_COLUMNS}
+    FROM waitlist_entries
+    WHERE id = ?
+  `;
+
+  const rows: WaitlistEntryRow[] = await executeQuery(query, [id]);
+  return rows.length > 0 ? mapRowToWaitlistEntry(rows[0]) : null;
+};
+
+/**
+ * @function getWaitingEntriesForDay
+ * @description Obtiene las solicitudes en espera de una estilista que aceptan un día concreto
+ * @param stylistId - ID de la estilista
+ * @param date - Día del horario liberado (YYYY-MM-DD)
+ * @returns Array de solicitudes en orden de llegada
+ */
+export const getWaitingEntriesForDay = async (
+  stylistId: string,
+  date: string
+): Promise<WaitlistEntry[]> => {
+  const query = `
+    SELECT ${WAITLIST_COLUMNS}
+    FROM waitlist_entries
+    WHERE stylist_id = ?
+      AND status = ?
+      AND earliest_date <= ?
+      AND latest_date >= ?
+    ORDER BY created_at ASC
+  `;
+
+  const rows: WaitlistEntryRow[] = await executeQuery(query, [
+    stylistId, WaitlistStatus.WAITING, date, date
+  ]);
+  return rows.map(mapRowToWaitlistEntry);
+};
+
+/**
+ * @function getActiveWaitlistHolds
+ * @description Obtiene las ofertas vigentes de una estilista que se solapan con un rango
+ * @param stylistId - ID de la estilista
+ * @param range - Rango de tiempo [start, end)
+ * @param now - Momento de referencia para descartar ofertas vencidas
+ * @param excludeId - ID de una solicitud a ignorar (p. ej. la que acepta su oferta)
+ * @returns Array de solicitudes con un horario reservado en el rango
+ */
+export const getActiveWaitlistHolds = async (
+  stylistId: string,
+  range: TimeSlot,
+  now: Date,
+  excludeId?: string
+): Promise<WaitlistEntry[]> => {
+  const query = `
+    SELECT ${WAITLIST_COLUMNS}
+    FROM waitlist_entries
+    WHERE stylist_id = ?
+      AND status = ?
+      AND offer_expires_at > ?
+      AND offered_start < ?
+      AND offered_end > ?
+      ${excludeId ? 'AND id <> ?' : ''}
+    ORDER BY offered_start ASC
+  `;
+
+  const params: any[] = [stylistId, WaitlistStatus.OFFERED, now, range.end, range.start];
+  if (excludeId) params.push(excludeId);
+
+  const rows: WaitlistEntryRow[] = await executeQuery(query, params);
+  return rows.map(mapRowToWaitlistEntry);
+};
+
+/**
+ * @function getExpiredWaitlistOffers
+ * @description Obtiene las ofertas que vencieron sin respuesta
+ * @param now - Momento de referencia
+ * @returns Array de solicitudes con la oferta vencida
+ */
+export const getExpiredWaitlistOffers = async (now: Date): Promise<WaitlistEntry[]> => {
+  const query = `
+    SELECT ${WAITLIST_COLUMNS}
+    FROM waitlist_entries
+    WHERE status = ?
+      AND offer_expires_at <= ?
+    ORDER BY offer_expires_at ASC
+  `;
+
+  const rows: WaitlistEntryRow[] = await executeQuery(query, [WaitlistStatus.OFFERED, now]);
+  return rows.map(mapRowToWaitlistEntry);
+};
+
+/**
+ * @function createWaitlistEntry
+ * @description Inserta una nueva solicitud en la lista de espera
+ * @param entry - Solicitud a insertar
+ * @returns Solicitud creada
+ */
+export const createWaitlistEntry = async (entry: WaitlistEntry): Promise<WaitlistEntry> => {
+  const query = `
+    INSERT INTO waitlist_entries (
+      id, customer_id, stylist_id, style_id, earliest_date, latest_date, status,
+      offered_start, offered_end, offer_expires_at, appointment_id, notes, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `;
+
+  const params = [
+    entry.id, entry.user_id, entry.stylist_id, entry.style_id, entry.earliest_date,
+    entry.latest_date, entry.status, entry.offered_start, entry.offered_end,
+    entry.offer_expires_at, entry.appointment_id, entry.notes || null,
+    entry.created_at, entry.updated_at
+  ];
+
+  await executeQuery(query, params);
+  return entry;
+};
+
+/**
+ * @function updateWaitlistEntry
+ * @description Actualiza una solicitud de la lista de espera
+ * @param id - ID de la solicitud
+ * @param updates - Campos a actualizar
+ * @returns Solicitud actualizada o null si no existe
+ */
+export const updateWaitlistEntry = async (
+  id: string,
+  updates: WaitlistUpdateRequest
+): Promise<WaitlistEntry | null> => {
+  const setClause: string[] = [];
+  const params: any[] = [];
+
+  // Construir la cláusula SET dinámicamente
+  if (updates.status !== undefined) {
+    setClause.push('status = ?');
+    params.push(updates.status);
+  }
+  if (updates.offered_start !== undefined) {
+    setClause.push('offered_start = ?');
+    params.push(updates.offered_start);
+  }
+  if (updates.offered_end !== undefined) {
+    setClause.push('offered_end = ?');
+    params.push(updates.offered_end);
+  }
+  if (updates.offer_expires_at !== undefined) {
+    setClause.push('offer_expires_at = ?');
+    params.push(updates.offer_expires_at);
+  }
+  if (updates.appointment_id !== undefined) {
+    setClause.push('appointment_id = ?');
+    params.push(updates.appointment_id);
+  }
+
+  // Siempre actualizar updated_at
+  setClause.push('updated_at = NOW()');
+  params.push(id);
+
+  if (setClause.length === 1) { // Solo updated_at
+    return null;
+  }
+
+  const query = `
+    UPDATE waitlist_entries
+    SET ${setClause.join(', ')}
+    WHERE id = ?
+  `;
+
+  await executeQuery(query, params);
+  return await getWaitlistEntryById(id);
+};
+
+/**
+ * @function resetWaitlist
+ * @description Reinicia los datos de la lista de espera (solo para testing)
+ */
+export const resetWaitlist = async (): Promise<void> => {
+  await executeQuery('DELETE FROM waitlist_entries');
+};
+
+/**
+ * @function mapRowToWaitlistEntry
+ * @description Convierte una fila de MySQL a objeto WaitlistEntry
+ * @param row - Fila de la base de datos
+ * @returns Objeto WaitlistEntry
+ */
+const mapRowToWaitlistEntry = (row: WaitlistEntryRow): WaitlistEntry => {
+  return {
+    id: row.id,
+    user_id: row.customer_id,
+    stylist_id: row.stylist_id,
+    style_id: row.style_id,
+    earliest_date: row.earliest_date,
+    latest_date: row.latest_date,
+    status: row.status,
+    offered_start: row.offered_start,
+    offered_end: row.offered_end,
+    offer_expires_at: row.offer_expires_at,
+    appointment_id: row.appointment_id,
+    notes: row.notes || '',
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+};
@@ -0,0 +1,84 @@
+/**
+ * @file Punto de acceso a la denylist de tokens activa.
+ * @description Elige el almacén según TOKEN_DENYLIST_STORE, revoca tokens y limpia
+ *              periódicamente las entradas de tokens que ya expiraron.
+ */
+
+import { JWTPayload, TokenDenylist } from '../interfaces/auth.interface';
+import {
+  TOKEN_DENYLIST_STORE,
+  DENYLIST_PRUNE_INTERVAL_MINUTES,
+  ACCESS_TOKEN_TTL_MINUTES
+} from '../config/auth.config';
+import { MemoryTokenDenylist } from './memory.denylist';
+import { MySqlTokenDenylist } from './mysql.denylist';
+
+let activeDenylist: TokenDenylist = TOKEN_DENYLIST_STORE === 'mysql'
+  ? new MySqlTokenDenylist()
+  : new MemoryTokenDenylist();
+
+let lastPrunedAt = 0;
+
+/**
+ * @function getTokenDenylist
+ * @description Obtiene la denylist activa
+ * @returns Denylist usada por el middleware de autenticación
+ */
+export const getTokenDenylist = (): TokenDenylist => {
+  return activeDenylist;
+};
+
+/**
+ * @function setTokenDenylist
+ * @description Sustituye la denylist activa (p. ej. en tests)
+ * @param denylist - Nueva denylist
+ */
+export const setTokenDenylist = (denylist: TokenDenylist): void => {
+  activeDenylist = denylist;
+  lastPrunedAt = 0;
+};
+
+/**
+ * @function revokeToken
+ * @description Revoca un token de acceso hasta su expiración. Aprovecha la llamada para
+ * limpiar las entradas expiradas si ha pasado el intervalo de limpieza
+ * @param jti - Identificador del token
+ * @param expiresAt - Fecha de expiración del token
+ */
+export const revokeToken = async (jti: string, expiresAt: Date): Promise<void> => {
+  await activeDenylist.add(jti, expiresAt);
+
+  const now = new Date();
+  if (now.getTime() - lastPrunedAt >= DENYLIST_PRUNE_INTERVAL_MINUTES * 60 * 1000) {
+    lastPrunedAt = now.getTime();
+    await activeDenylist.prune(now);
+  }
+};
+
+/**
+ * @function revokeUserTokens
+ * @description Revoca todos los tokens de acceso emitidos a un usuario hasta ahora (p. ej.
+ * al restablecer la contraseña). El corte se guarda mientras alguno de ellos siga vigente
+ * @param userId - ID del usuario
+ * @param now - Momento del corte
+ */
+export const revokeUserTokens = async (userId: string, now: Date = new Date()): Promise<void> => {
+  const expiresAt = new Date(now.getTime() + ACCESS_TOKEN_TTL_MINUTES * 60 * 1000);
+  await activeDenylist.addUserCutoff(userId, now, expiresAt);
+};
+
+/**
+ * @function isTokenRevoked
+ * @description Indica si un token de acceso ha sido revocado, por su jti o porque se
+ * emitió antes de que se revocaran todos los tokens del usuario. iat tiene precisión de
+ * segundos, así que solo cuentan los tokens emitidos en un segundo anterior al corte
+ * @param payload - Payload del token (los tokens sin jti ni iat no se pueden revocar)
+ * @returns true si el token está revocado
+ */
+export const isTokenRevoked = async (payload: JWTPayload): Promise<boolean> => {
+  if (payload.jti && await activeDenylist.has(payload.jti)) return true;
+  if (payload.iat === undefined) return false;
+
+  const cutoff = await activeDenylist.getUserCutoff(payload.userId);
+  return cutoff !== null && payload.iat < Math.floor(cutoff.getTime() / 1000);
+};
@@ -0,0 +1,84 @@
+/**
+ * @file Denylist de tokens en memoria.
+ * @description Guarda los tokens revocados en el proceso actual. Es suficiente con una
+ *              sola instancia del servidor y se usa por defecto en desarrollo y testing.
+ */
+
+import { TokenDenylist } from '../interfaces/auth.interface';
+
+/**
+ * @class MemoryTokenDenylist
+ * @description Denylist basada en un Map de jti a fecha de expiración
+ */
+export class MemoryTokenDenylist implements TokenDenylist {
+  private readonly entries = new Map<string, Date>();
+  private readonly userCutoffs = new Map<string, { issuedBefore: Date; expiresAt: Date }>();
+
+  /**
+   * @description Revoca un token hasta su expiración.
+   * @param jti - Identificador del token
+   * @param expiresAt - Fecha de expiración del token
+   */
+  async add(jti: string, expiresAt: Date): Promise<void> {
+    this.entries.set(jti, expiresAt);
+  }
+
+  /**
+   * @description Indica si un token está revocado y todavía no ha expirado.
+   * @param jti - Identificador del token
+   * @returns true si el token está revocado
+   */
+  async has(jti: string): Promise<boolean> {
+    const expiresAt = this.entries.get(jti);
+    return expiresAt !== undefined && expiresAt > new Date();
+  }
+
+  /**
+   * @description Revoca los tokens de un usuario emitidos antes de un momento.
+   * @param userId - ID del usuario
+   * @param issuedBefore - Los tokens emitidos antes de este momento quedan revocados
+   * @param expiresAt - Momento en que ya habrán expirado todos esos tokens
+   */
+  async addUserCutoff(userId: string, issuedBefore: Date, expiresAt: Date): Promise<void> {
+    this.userCutoffs.set(userId, { issuedBefore, expiresAt });
+  }
+
+  /**
+   * @description Obtiene el momento antes del cual se revocaron los tokens de un usuario.
+   * @param userId - ID del usuario
+   * @returns Momento de corte o null si no hay ninguno vigente
+   */
+  async getUserCutoff(userId: string): Promise<Date | null> {
+    const cutoff = this.userCutoffs.get(userId);
+    return cutoff && cutoff.expiresAt > new Date() ? cutoff.issuedBefore : null;
+  }
+
+  /**
+   * @description Elimina las entradas de tokens ya expirados.
+   * @param now - Momento de referencia
+   * @returns Número de entradas eliminadas
+   */
+  async prune(now: Date): Promise<number> {
+    let pruned = 0;
+    this.entries.forEach((expiresAt, jti) => {
+      if (expiresAt <= now) {
+        this.entries.delete(jti);
+        pruned++;
+      }
+    });
+    this.userCutoffs.forEach((cutoff, userId) => {
+      if (cutoff.expiresAt <= now) {
+        this.userCutoffs.delete(userId);
+        pruned++;
+      }
+    });
+    return pruned;
+  }
+
+  /**
+   * @description Número de tokens guardados (solo para testing).
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * @file Denylist de tokens en MySQL.
+ * @description Guarda los tokens revocados en las tablas revoked_tokens y
+ *              revoked_user_tokens para que la revocación sea visible en todas las
+ *              instancias del servidor.
+ */
+
+import { executeQuery } from '../config/database.config';
+import { TokenDenylist } from '../interfaces/auth.interface';
+
+/**
+ * @class MySqlTokenDenylist
+ * @description Denylist respaldada por la tabla revoked_tokens
+ */
+export class MySqlTokenDenylist implements TokenDenylist {
+  /**
+   * @description Revoca un token hasta su expiración. Revocarlo dos veces no es un error.
+   * @param jti - Identificador del token
+   * @param expiresAt - Fecha de expiración del token
+   */
+  async add(jti: string, expiresAt: Date): Promise<void> {
+    await executeQuery(
+      'INSERT IGNORE INTO revoked_tokens (jti, expires_at) VALUES (?, ?)',
+      [jti, expiresAt]
+    );
+  }
+
+  /**
+   * @description Indica si un token está revocado y todavía no ha expirado.
+   * @param jti - Identificador del token
+   * @returns true si el token está revocado
+   */
+  async has(jti: string): Promise<boolean> {
+    const rows = await executeQuery(
+      'SELECT jti FROM revoked_tokens WHERE jti = ? AND expires_at > ?',
+      [jti, new Date()]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * @description Revoca los tokens de un usuario emitidos antes de un momento. Sustituye
+   * el corte anterior del usuario.
+   * @param userId - ID del usuario
+   * @param issuedBefore - Los tokens emitidos antes de este momento quedan revocados
+   * @param expiresAt - Momento en que ya habrán expirado todos esos tokens
+   */
+  async addUserCutoff(userId: string, issuedBefore: Date, expiresAt: Date): Promise<void> {
+    await executeQuery(
+      `INSERT INTO revoked_user_tokens (user_id, issued_before, expires_at) VALUES (?, ?, ?)
+       ON DUPLICATE KEY UPDATE issued_before = VALUES(issued_before), expires_at = VALUES(expires_at)`,
+      [userId, issuedBefore, expiresAt]
+    );
+  }
+
+  /**
+   * @description Obtiene el momento antes del cual se revocaron los tokens de un usuario.
+   * @param userId - ID del usuario
+   * @returns Momento de corte o null si no hay ninguno vigente
+   */
+  async getUserCutoff(userId: string): Promise<Date | null> {
+    const rows = await executeQuery(
+      'SELECT issued_before FROM revoked_user_tokens WHERE user_id = ? AND expires_at > ?',
+      [userId, new Date()]
+    );
+    return rows.length > 0 ? new Date(rows[0].issued_before) : null;
+  }
+
+  /**
+   * @description Elimina las entradas de tokens ya expirados.
+   * @param now - Momento de referencia
+   * @returns Número de entradas eliminadas
+   */
+  async prune(now: Date): Promise<number> {
+    const result = await executeQuery('DELETE FROM revoked_tokens WHERE expires_at <= ?', [now]);
+    const userResult = await executeQuery('DELETE FROM revoked_user_tokens WHERE expires_at <= ?', [now]);
+    return result.affectedRows + userResult.affectedRows;
+  }
+}
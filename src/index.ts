@@ -16,6 +16,13 @@ import reviewsRoutes from './routes/reviews.routes';
 import authRoutes from './routes/auth.routes';
 import categoriesRoutes from './routes/categories.routes';
 import ordersRoutes from './routes/orders.routes';
+import apiKeysRoutes from './routes/api-keys.routes';
+import taxRulesRoutes from './routes/tax-rules.routes';
+import shippingMethodsRoutes from './routes/shipping-methods.routes';
+import { JWT_KEYRING, assertSecureJwtKeyring } from './config/jwt.config';
+
+// No arrancar en producción con la clave JWT por defecto
+assertSecureJwtKeyring(JWT_KEYRING, process.env.NODE_ENV);
 
 // Creación de la instancia de la aplicación Express.
 const app: Express = express();
@@ -51,6 +58,9 @@ app.use('/api/appointments', appointmentsRoutes);
 app.use('/api/reviews', reviewsRoutes);
 app.use('/api/categories', categoriesRoutes);
 app.use('/api/orders', ordersRoutes);
+app.use('/api/api-keys', apiKeysRoutes);
+app.use('/api/tax-rules', taxRulesRoutes);
+app.use('/api/shipping-methods', shippingMethodsRoutes);
 
 // Función para inicializar la base de datos
 async function initializeDatabase() {
@@ -5,26 +5,239 @@
  */
 export interface Appointment {
   id: string; // UUID como identificador único
-  user_id: string; // FK a User - El cliente que reserva la cita
+  user_id: string; // FK a User - El cliente que reserva la cita (columna customer_id en MySQL)
   stylist_id: string; // FK a Stylist - La estilista asignada
   style_id: string; // FK a Style - El estilo solicitado
   appointment_date: Date; // Fecha y hora de la cita
+  estimated_end_date: Date; // Fin estimado según la duración del estilo
   status: AppointmentStatus; // Estado actual de la cita
+  total_price: number; // Precio total del servicio, calculado por el servidor
+  price_breakdown?: AppointmentPriceBreakdown | null; // Desglose del precio al reservar
   notes?: string; // Notas adicionales o especificaciones
+  cancellation_reason: string | null; // Motivo de cancelación, si aplica
+  cancelled_at: Date | null; // Momento de la cancelación, si aplica
+  series_id?: string | null; // Serie recurrente a la que pertenece, si aplica
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * @interface AppointmentFilters
+ * @description Filtros opcionales para listar citas
+ */
+export interface AppointmentFilters {
+  user_id?: string;
+  stylist_id?: string;
+  status?: AppointmentStatus;
+  date?: string; // Día concreto (YYYY-MM-DD)
+  series_id?: string;
+}
+
+/**
+ * @interface AppointmentUpdateRequest
+ * @description Datos opcionales para actualizar una cita existente
+ */
+export interface AppointmentUpdateRequest {
+  appointment_date?: Date;
+  estimated_end_date?: Date;
+  status?: AppointmentStatus;
+  total_price?: number;
+  notes?: string;
+  cancellation_reason?: string | null;
+  cancelled_at?: Date | null;
+}
+
+/**
+ * @interface ServiceAddOn
+ * @description Servicio adicional que se puede añadir a una cita (p. ej. lavado, cuentas)
+ */
+export interface ServiceAddOn {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  is_active: boolean;
+}
+
+/**
+ * @interface AppointmentPriceBreakdown
+ * @description Desglose del precio de una cita calculado en el servidor
+ */
+export interface AppointmentPriceBreakdown {
+  base_price: number; // Precio del estilo en el catálogo (styles.base_price)
+  custom_price: number | null; // Precio personalizado de la estilista, si existe
+  service_price: number; // Precio aplicado al estilo (custom_price o base_price)
+  add_ons: { id: string; name: string; price: number }[]; // Adicionales seleccionados
+  add_ons_total: number;
+  total_price: number;
+}
+
+/**
+ * @interface PricingError
+ * @description Motivo por el que no se puede calcular el precio de una cita
+ */
+export interface PricingError {
+  message: string;
+}
+
+/**
+ * @interface AppointmentChange
+ * @description Registro histórico de una reprogramación de cita
+ */
+export interface AppointmentChange {
+  id: string;
+  appointment_id: string; // FK a Appointment - La cita reprogramada
+  previous_date: Date; // Fecha de la cita antes del cambio
+  new_date: Date; // Fecha de la cita después del cambio
+  reason: string; // Motivo indicado al reprogramar
+  changed_by: string | null; // FK a User - Quién hizo el cambio, si estaba autenticado
+  created_at: Date;
+}
+
+/**
+ * @interface AppointmentFee
+ * @description Penalización generada por una cancelación tardía o una inasistencia
+ */
+export interface AppointmentFee {
+  id: string;
+  appointment_id: string; // FK a Appointment - La cita que generó el cargo
+  user_id: string; // FK a User - El cliente al que se le carga (columna customer_id en MySQL)
+  fee_type: AppointmentFeeType;
+  amount: number; // Importe calculado sobre total_price
+  status: AppointmentFeeStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @interface CustomerStanding
+ * @description Saldo pendiente e historial de incumplimientos de un cliente
+ */
+export interface CustomerStanding {
+  user_id: string;
+  pending_balance: number; // Suma de penalizaciones pendientes de pago
+  no_show_count: number; // Citas marcadas como NO_SHOW
+  late_cancellation_count: number; // Cancelaciones fuera de la ventana gratuita
+  is_chronic_no_show: boolean; // true si alcanza el umbral de inasistencias de la política
+  fees: AppointmentFee[];
+}
+
+/**
+ * @interface TimeSlot
+ * @description Intervalo de tiempo [start, end) usado para horarios y ocupación.
+ */
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * @interface AppointmentSeriesResult
+ * @description Resultado de reservar una serie recurrente de citas
+ */
+export interface AppointmentSeriesResult {
+  series_id: string;
+  created: Appointment[]; // Citas reservadas
+  failed: { appointment_date: Date; reason: string }[]; // Fechas que no se pudieron reservar
+}
+
+/**
+ * @interface BookingConflict
+ * @description Motivo por el que no se puede reservar un intervalo
+ */
+export interface BookingConflict {
+  message: string;
+  conflict?: TimeSlot; // Cita activa con la que se solapa, si aplica
+}
+
+/**
+ * @interface StylistAvailability
+ * @description Horarios libres de una estilista para un día y una duración dados.
+ */
+export interface StylistAvailability {
+  stylist_id: string;
+  date: string; // Día consultado (YYYY-MM-DD)
+  duration: number; // Duración solicitada en minutos
+  available: boolean; // true si existe al menos un horario libre
+  slots: TimeSlot[]; // Horarios libres ordenados cronológicamente
+}
+
 /**
  * @description Enum para los estados de una cita.
- * SCHEDULED: Cita programada y confirmada
+ * SCHEDULED: Cita programada
+ * CONFIRMED: Cita confirmada por el salón o la clienta
+ * IN_PROGRESS: La estilista está realizando el servicio
  * COMPLETED: Cita completada exitosamente
  * CANCELLED: Cita cancelada por el cliente o estilista
  * NO_SHOW: Cliente no se presentó a la cita
  */
 export enum AppointmentStatus {
   SCHEDULED = 'SCHEDULED',
+  CONFIRMED = 'CONFIRMED',
+  IN_PROGRESS = 'IN_PROGRESS',
   COMPLETED = 'COMPLETED',
   CANCELLED = 'CANCELLED',
   NO_SHOW = 'NO_SHOW'
-}
\ No newline at end of file
+}
+
+/**
+ * @description Estados en los que una cita ocupa la agenda de la estilista.
+ */
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  AppointmentStatus.SCHEDULED,
+  AppointmentStatus.CONFIRMED,
+  AppointmentStatus.IN_PROGRESS
+];
+
+/**
+ * @description Transiciones de estado permitidas para una cita.
+ * COMPLETED, CANCELLED y NO_SHOW son estados finales.
+ */
+export const APPOINTMENT_STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  [AppointmentStatus.SCHEDULED]: [
+    AppointmentStatus.CONFIRMED,
+    AppointmentStatus.IN_PROGRESS,
+    AppointmentStatus.CANCELLED,
+    AppointmentStatus.NO_SHOW
+  ],
+  [AppointmentStatus.CONFIRMED]: [
+    AppointmentStatus.IN_PROGRESS,
+    AppointmentStatus.CANCELLED,
+    AppointmentStatus.NO_SHOW
+  ],
+  [AppointmentStatus.IN_PROGRESS]: [
+    AppointmentStatus.COMPLETED
+  ],
+  [AppointmentStatus.COMPLETED]: [],
+  [AppointmentStatus.CANCELLED]: [],
+  [AppointmentStatus.NO_SHOW]: []
+};
+
+/**
+ * @enum AppointmentFeeType
+ * @description Motivo de una penalización
+ */
+export enum AppointmentFeeType {
+  LATE_CANCELLATION = 'LATE_CANCELLATION',
+  NO_SHOW = 'NO_SHOW'
+}
+
+/**
+ * @enum AppointmentFeeStatus
+ * @description Estado de cobro de una penalización
+ */
+export enum AppointmentFeeStatus {
+  PENDING = 'PENDING', // Forma parte del saldo pendiente del cliente
+  PAID = 'PAID',
+  WAIVED = 'WAIVED' // Exonerada por un administrador
+}
+
+/**
+ * @enum SeriesCancellationScope
+ * @description Alcance de la cancelación de una serie recurrente
+ */
+export enum SeriesCancellationScope {
+  THIS = 'THIS', // Solo la cita indicada
+  THIS_AND_FOLLOWING = 'THIS_AND_FOLLOWING', // La cita indicada y las posteriores
+  ALL = 'ALL' // Todas las citas de la serie
+}
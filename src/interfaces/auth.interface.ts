@@ -45,11 +45,112 @@ export interface AuthResponse {
     name: string;
     email: string;
     role: UserRole;
+    /** Momento en que se verificó el email; null si está pendiente */
+    email_verified_at: Date | null;
     created_at: Date;
     updated_at: Date;
   };
   /** Tiempo de expiración del token en milisegundos */
   expires_in: number;
+  /** Token opaco para renovar la sesión (POST /api/auth/refresh) */
+  refresh_token: string;
+  /** Tiempo de expiración del token de refresco en milisegundos */
+  refresh_expires_in: number;
+  /** true si el usuario debe activar el segundo factor para usar sus permisos de administrador */
+  two_factor_setup_required?: boolean;
+}
+
+/**
+ * @interface TwoFactorChallengeResponse
+ * @description Respuesta del login cuando la cuenta tiene el segundo factor activo: en lugar
+ * de tokens se entrega un reto que se completa en POST /api/auth/2fa/login.
+ */
+export interface TwoFactorChallengeResponse {
+  two_factor_required: true;
+  /** Token opaco del reto, de un solo uso */
+  challenge_token: string;
+  /** Tiempo de expiración del reto en milisegundos */
+  expires_in: number;
+}
+
+/**
+ * @interface UserSession
+ * @description Sesión de un usuario asociada a un token de refresco. Cada renovación crea
+ * una sesión nueva en la misma familia y revoca la anterior.
+ */
+export interface UserSession {
+  /** ID único de la sesión */
+  id: string;
+  /** Usuario propietario de la sesión */
+  user_id: string;
+  /** Familia de rotación: todas las sesiones nacidas del mismo login */
+  family_id: string;
+  /** Hash SHA-256 del token de refresco (el token en claro nunca se guarda) */
+  token_hash: string;
+  /** User-Agent del dispositivo que inició la sesión */
+  user_agent: string | null;
+  /** IP desde la que se inició la sesión */
+  ip_address: string | null;
+  /** Fecha de expiración del token de refresco */
+  expires_at: Date;
+  /** Momento en que se revocó la sesión, si aplica */
+  revoked_at: Date | null;
+  /** Motivo de la revocación */
+  revoked_reason: SessionRevocationReason | null;
+  /** Sesión que sustituyó a esta al rotar el token */
+  replaced_by: string | null;
+  /** true si el login completó el segundo factor; se conserva al rotar */
+  two_factor_verified: boolean;
+  created_at: Date;
+}
+
+/**
+ * @enum SessionRevocationReason
+ * @description Motivos por los que se revoca una sesión.
+ */
+export enum SessionRevocationReason {
+  /** El token se usó para renovar la sesión y fue sustituido */
+  ROTATED = 'ROTATED',
+  /** El usuario cerró la sesión */
+  LOGOUT = 'LOGOUT',
+  /** El usuario cerró sesión en todos sus dispositivos */
+  LOGOUT_ALL = 'LOGOUT_ALL',
+  /** Se presentó un token ya rotado: posible robo del token */
+  REUSE_DETECTED = 'REUSE_DETECTED',
+  /** El usuario restableció su contraseña */
+  PASSWORD_RESET = 'PASSWORD_RESET'
+}
+
+/**
+ * @interface PasswordResetToken
+ * @description Token de un solo uso para restablecer la contraseña. Solo se guarda el
+ * hash del token; el valor en claro se envía por correo al usuario.
+ */
+export interface PasswordResetToken {
+  id: string;
+  user_id: string; // FK a User
+  /** Hash SHA-256 del token enviado por correo */
+  token_hash: string;
+  expires_at: Date;
+  /** Momento en que se usó o invalidó el token; null si sigue disponible */
+  used_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * @interface EmailVerificationToken
+ * @description Token de un solo uso enviado por correo para verificar el email de un
+ * usuario. Solo se guarda el hash del token.
+ */
+export interface EmailVerificationToken {
+  id: string;
+  user_id: string; // FK a User
+  /** Hash SHA-256 del token enviado por correo */
+  token_hash: string;
+  expires_at: Date;
+  /** Momento en que se usó o invalidó el token; null si sigue disponible */
+  used_at: Date | null;
+  created_at: Date;
 }
 
 /**
@@ -63,12 +164,139 @@ export interface JWTPayload {
   email: string;
   /** Rol del usuario para autorización */
   role: UserRole;
+  /** Identificador único del token, usado para revocarlo (denylist) */
+  jti?: string;
+  /** true si la sesión se inició completando el segundo factor (TOTP) */
+  two_factor?: boolean;
+  /** ID de la API key si la solicitud se autenticó con X-API-Key en lugar de un JWT */
+  api_key_id?: string;
+  /** Permisos de la API key (recurso:acción:any); sustituyen a los del rol */
+  scopes?: string[];
   /** Timestamp de emisión del token */
   iat?: number;
   /** Timestamp de expiración del token */
   exp?: number;
 }
 
+/**
+ * @interface JwtKeyring
+ * @description Claves de firma de los JWT, identificadas por kid. Los tokens nuevos se
+ * firman con la clave activa; las retiradas se conservan para verificar los tokens que
+ * firmaron hasta que expiren.
+ */
+export interface JwtKeyring {
+  /** kid de la clave con la que se firman los tokens nuevos */
+  activeKid: string;
+  /** Secreto de cada clave, por kid */
+  keys: Record<string, string>;
+}
+
+/**
+ * @interface ApiKey
+ * @description Clave de API para integraciones (widget de reservas, scripts contables).
+ * La clave completa solo se muestra al crearla; se guarda su hash y un prefijo público
+ * con el que se identifica.
+ */
+export interface ApiKey {
+  id: string; // UUID como identificador único
+  /** Nombre descriptivo de la integración */
+  name: string;
+  /** Prefijo público de la clave (lb_<prefix>_...), único */
+  prefix: string;
+  /** Hash SHA-256 de la clave completa */
+  key_hash: string;
+  /** Permisos concedidos con formato recurso:acción:any */
+  scopes: string[];
+  /** Administrador que creó la clave */
+  created_by: string;
+  expires_at: Date;
+  /** Último uso de la clave; null si no se ha usado */
+  last_used_at: Date | null;
+  /** Momento en que se revocó; null si sigue activa */
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * @interface TokenDenylist
+ * @description Almacén de tokens de acceso revocados antes de su expiración.
+ * Los tokens se identifican por su jti y solo se guardan hasta que expiran. También
+ * guarda, por usuario, el momento antes del cual se revocaron todos sus tokens.
+ */
+export interface TokenDenylist {
+  /** Revoca un token hasta su fecha de expiración */
+  add(jti: string, expiresAt: Date): Promise<void>;
+  /** Indica si un token está revocado */
+  has(jti: string): Promise<boolean>;
+  /** Revoca los tokens de un usuario emitidos antes de issuedBefore, hasta expiresAt */
+  addUserCutoff(userId: string, issuedBefore: Date, expiresAt: Date): Promise<void>;
+  /** Devuelve el momento antes del cual se revocaron los tokens del usuario, o null */
+  getUserCutoff(userId: string): Promise<Date | null>;
+  /** Elimina las entradas de tokens ya expirados y devuelve cuántas se borraron */
+  prune(now: Date): Promise<number>;
+}
+
+/**
+ * @interface TwoFactorSettings
+ * @description Configuración TOTP de un usuario. Mientras enabled_at es null la
+ * activación está pendiente de confirmar con un primer código.
+ */
+export interface TwoFactorSettings {
+  user_id: string; // FK a User
+  /** Secreto TOTP en base32 */
+  secret: string;
+  /** Momento en que se confirmó la activación; null si está pendiente */
+  enabled_at: Date | null;
+  /** Último periodo TOTP aceptado, para no admitir el mismo código dos veces */
+  last_used_step: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @interface TwoFactorChallenge
+ * @description Reto pendiente entre el primer paso del login (contraseña) y el segundo
+ * (código TOTP o de recuperación).
+ */
+export interface TwoFactorChallenge {
+  id: string;
+  user_id: string; // FK a User
+  /** Hash SHA-256 del token del reto */
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  /** Códigos incorrectos presentados para este reto */
+  attempts: number;
+  created_at: Date;
+}
+
+/**
+ * @interface LoginThrottle
+ * @description Contador de intentos de login fallidos de una cuenta o de una IP y, si
+ * se superó el límite, el momento hasta el que queda bloqueada.
+ */
+export interface LoginThrottle {
+  scope: LoginThrottleScope;
+  /** Email de la cuenta o dirección IP, según el ámbito */
+  throttle_key: string;
+  /** Fallos consecutivos dentro de la ventana de conteo */
+  failed_count: number;
+  /** Momento hasta el que se rechazan los intentos; null si no está bloqueada */
+  locked_until: Date | null;
+  last_failed_at: Date;
+}
+
+/**
+ * @enum LoginThrottleScope
+ * @description Ámbitos en los que se cuentan los intentos de login fallidos.
+ */
+export enum LoginThrottleScope {
+  /** Intentos contra una misma cuenta (por email), vengan de donde vengan */
+  ACCOUNT = 'ACCOUNT',
+  /** Intentos desde una misma IP, contra cualquier cuenta */
+  IP = 'IP'
+}
+
 /**
  * @interface AuthenticatedRequest
  * @description Extensión de Request con información del usuario autenticado.
@@ -0,0 +1,25 @@
+/**
+ * @file Define las interfaces para el envío de correos electrónicos.
+ * @description Representa los mensajes de correo del sistema y el contrato que debe
+ *              cumplir cualquier transporte de correo (consola, fichero o proveedor SMTP).
+ */
+
+/**
+ * @interface MailMessage
+ * @description Correo electrónico dirigido a un usuario
+ */
+export interface MailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * @interface MailTransport
+ * @description Transporte de correo. Permite sustituir el transporte local por un
+ * proveedor real sin cambiar a quien envía los correos.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
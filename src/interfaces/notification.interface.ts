@@ -0,0 +1,36 @@
+/**
+ * @file Define las interfaces para el envío de notificaciones.
+ * @description Representa los avisos que el sistema envía a los usuarios y el
+ *              contrato que debe cumplir cualquier canal de envío (notifier).
+ */
+
+/**
+ * @interface Notification
+ * @description Aviso dirigido a un usuario
+ */
+export interface Notification {
+  id: string;
+  recipient_id: string; // FK a User - Destinatario del aviso
+  type: NotificationType;
+  subject: string;
+  message: string;
+  data?: Record<string, unknown>; // Datos adicionales para el canal (IDs, fechas...)
+  created_at: Date;
+}
+
+/**
+ * @interface Notifier
+ * @description Canal de envío de notificaciones. Permite sustituir el outbox local
+ * por un proveedor real (email, SMS, push) sin cambiar a quien notifica.
+ */
+export interface Notifier {
+  send(notification: Notification): Promise<void>;
+}
+
+/**
+ * @enum NotificationType
+ * @description Tipos de aviso enviados por el sistema
+ */
+export enum NotificationType {
+  WAITLIST_OFFER = 'WAITLIST_OFFER' // Se libera un horario para un cliente en lista de espera
+}
@@ -3,9 +3,25 @@
  * @description Representa pedidos de productos realizados por clientes y los items que contienen.
  */
 
+import { OrderTaxLine } from './tax.interface';
+import { ShippingOption } from './shipping.interface';
+
 export type OrderStatus = 'PENDING' | 'CONFIRMED' | 'PROCESSING' | 'SHIPPED' | 'DELIVERED' | 'CANCELLED';
 export type PaymentStatus = 'PENDING' | 'PAID' | 'FAILED' | 'REFUNDED';
 
+/**
+ * @description Transiciones de estado permitidas para un pedido.
+ * Un pedido enviado ya no se puede cancelar; DELIVERED y CANCELLED son estados finales.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['PROCESSING', 'CANCELLED'],
+  PROCESSING: ['SHIPPED', 'CANCELLED'],
+  SHIPPED: ['DELIVERED'],
+  DELIVERED: [],
+  CANCELLED: []
+};
+
 /**
  * @interface Order
  * @description Representa un pedido de productos
@@ -14,15 +30,19 @@ export interface Order {
   id: string; // UUID como identificador único
   customer_id: string; // UUID del cliente que realiza el pedido
   order_number: string; // Número único del pedido (ej. "ORD-2024-001")
-  subtotal: number; // Subtotal sin impuestos ni envío
-  tax_amount: number; // Monto de impuestos
-  shipping_amount: number; // Costo de envío
-  total_amount: number; // Total final del pedido
+  subtotal: number; // Suma de los items al precio del producto (incluye impuestos INCLUSIVE)
+  tax_amount: number; // Monto de impuestos (incluidos en el precio y añadidos)
+  shipping_amount: number; // Costo de envío del método elegido
+  total_amount: number; // Total final: subtotal + impuestos añadidos (EXCLUSIVE) + envío
   status: OrderStatus; // Estado del pedido
   shipping_address: string | null; // Dirección de envío
+  shipping_country: string; // País de envío (ISO 3166-1 alfa-2), jurisdicción fiscal
+  shipping_region: string | null; // Región de envío, si la jurisdicción la distingue
+  shipping_method_id: string | null; // Método de envío (null si no hay métodos configurados)
   billing_address: string | null; // Dirección de facturación
   payment_method: string | null; // Método de pago utilizado
   payment_status: PaymentStatus; // Estado del pago
+  tax_breakdown: OrderTaxLine[]; // Desglose de impuestos por regla, para la factura
   created_at: Date;
   updated_at: Date;
 }
@@ -36,7 +56,7 @@ export interface OrderItem {
   order_id: string; // UUID del pedido al que pertenece
   product_id: string; // UUID del producto
   quantity: number; // Cantidad del producto
-  unit_price: number; // Precio unitario al momento de la compra
+  unit_price: number; // Precio del producto al crear el pedido (snapshot de products.price)
   total_price: number; // Precio total del item (quantity * unit_price)
   created_at: Date;
 }
@@ -57,6 +77,9 @@ export interface OrderCreateRequest {
   customer_id: string;
   items: OrderItemCreateRequest[];
   shipping_address?: string;
+  shipping_country?: string; // Sin país se usa DEFAULT_TAX_COUNTRY
+  shipping_region?: string;
+  shipping_method_id?: string; // Sin método se usa la opción de envío más barata
   billing_address?: string;
   payment_method?: string;
 }
@@ -68,7 +91,104 @@ export interface OrderCreateRequest {
 export interface OrderItemCreateRequest {
   product_id: string;
   quantity: number;
-  unit_price: number;
+  unit_price?: number; // Precio que vio el cliente; el pedido se rechaza si ya no es el vigente
+}
+
+/**
+ * @interface StockShortage
+ * @description Producto de un pedido que no se puede servir en la cantidad pedida
+ */
+export interface StockShortage {
+  product_id: string;
+  requested: number; // Cantidad total pedida del producto
+  available: number; // Stock disponible (0 si el producto no existe o está inactivo)
+  reason: 'NOT_FOUND' | 'INACTIVE' | 'INSUFFICIENT_STOCK';
+}
+
+/**
+ * @interface OrderPriceChange
+ * @description Item cuyo precio cambió desde que el cliente lo vio
+ */
+export interface OrderPriceChange {
+  product_id: string;
+  expected_price: number; // Precio enviado por el cliente
+  current_price: number; // Precio vigente del producto
+}
+
+/**
+ * @interface OrderCreateResult
+ * @description Resultado de crear un pedido: el pedido creado o los items que lo impiden
+ */
+export interface OrderCreateResult {
+  order: OrderWithItems | null; // null si no se creó el pedido
+  shortages: StockShortage[];
+  price_changes: OrderPriceChange[];
+  shipping_options: ShippingOption[] | null; // Opciones disponibles si el envío pedido no lo está
+}
+
+/**
+ * @interface OrderQuoteRequest
+ * @description Carrito propuesto para presupuestar un pedido antes de crearlo
+ */
+export interface OrderQuoteRequest {
+  items: OrderItemCreateRequest[];
+  shipping_country?: string; // Sin país se usa DEFAULT_TAX_COUNTRY
+  shipping_region?: string;
+}
+
+/**
+ * @interface OrderQuoteShippingOption
+ * @description Opción de envío de un presupuesto con el total del pedido si se elige
+ */
+export interface OrderQuoteShippingOption extends ShippingOption {
+  total_amount: number; // subtotal + impuestos añadidos (EXCLUSIVE) + envío
+}
+
+/**
+ * @interface OrderQuote
+ * @description Presupuesto de un carrito a precios vigentes, con sus opciones de envío
+ */
+export interface OrderQuote {
+  items: Omit<OrderItem, 'id' | 'order_id' | 'created_at'>[];
+  subtotal: number;
+  tax_amount: number;
+  tax_breakdown: OrderTaxLine[];
+  weight_grams: number;
+  shipping_country: string;
+  shipping_region: string | null;
+  shipping_options: OrderQuoteShippingOption[]; // De la más barata a la más cara
+}
+
+/**
+ * @interface OrderQuoteResult
+ * @description Resultado de presupuestar un pedido: el presupuesto o los items sin stock
+ */
+export interface OrderQuoteResult {
+  quote: OrderQuote | null; // null si algún producto no está disponible
+  shortages: StockShortage[];
+}
+
+/**
+ * @interface OrderStatusChange
+ * @description Registro histórico de un cambio de estado de un pedido
+ */
+export interface OrderStatusChange {
+  id: string;
+  order_id: string; // FK a Order - El pedido que cambió de estado
+  from_status: OrderStatus | null; // Estado anterior (null al crear el pedido)
+  to_status: OrderStatus; // Estado nuevo
+  changed_by: string | null; // FK a User - Quién hizo el cambio, si estaba autenticado
+  note: string | null; // Nota o motivo del cambio
+  created_at: Date;
+}
+
+/**
+ * @interface OrderTransitionResult
+ * @description Resultado de cambiar el estado de un pedido
+ */
+export interface OrderTransitionResult {
+  order: Order | null; // Pedido actualizado; null si no existe o la transición no está permitida
+  previous_status: OrderStatus | null; // Estado antes del cambio; null si el pedido no existe
 }
 
 /**
@@ -76,7 +196,8 @@ export interface OrderItemCreateRequest {
  * @description Datos opcionales para actualizar un pedido existente
  */
 export interface OrderUpdateRequest {
-  status?: OrderStatus;
+  status?: OrderStatus; // Solo se aplica siguiendo ORDER_STATUS_TRANSITIONS
+  note?: string; // Nota del cambio de estado para el historial
   shipping_address?: string;
   billing_address?: string;
   payment_method?: string;
@@ -0,0 +1,49 @@
+/**
+ * @file Interfaces para la capa de permisos de LauraBraids.
+ * @description Define los tipos de la matriz de permisos por rol (recurso:acción:alcance)
+ *              y de los resolvedores que obtienen el propietario de cada recurso.
+ */
+
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+/**
+ * @description Alcance de un permiso concedido.
+ * OWN: Solo sobre recursos de los que el usuario es propietario
+ * ANY: Sobre cualquier recurso (incluye OWN)
+ */
+export enum PermissionScope {
+  OWN = 'own',
+  ANY = 'any'
+}
+
+/**
+ * @description Permiso concedido a un rol, con formato recurso:acción:alcance
+ * (p. ej. orders:read:own, orders:update:any).
+ */
+export type Permission = string;
+
+/**
+ * @description Permiso que declara una ruta, con formato recurso:acción (p. ej. orders:read).
+ * El alcance se decide al evaluar: ANY basta; OWN requiere ser el propietario.
+ */
+export type RequiredPermission = string;
+
+/**
+ * @interface ParsedPermission
+ * @description Partes de un permiso.
+ */
+export interface ParsedPermission {
+  /** Recurso al que aplica (orders, users, stylists...) */
+  resource: string;
+  /** Acción permitida (read, create, update...) */
+  action: string;
+  /** Alcance concedido (solo en permisos concedidos a un rol) */
+  scope?: PermissionScope;
+}
+
+/**
+ * @description Obtiene el ID del usuario propietario del recurso al que apunta la solicitud
+ * ya autenticada. Devuelve null si el recurso no existe, para que el controlador responda
+ * el 404 habitual.
+ */
+export type OwnerResolver = (req: AuthenticatedRequest) => Promise<string | null>;
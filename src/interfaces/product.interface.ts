@@ -3,6 +3,8 @@
  * @description Representa un producto que puede ser vendido en la aplicación,
  *              como extensiones, productos de cuidado capilar, accesorios, etc.
  */
+import { TaxClass } from './tax.interface';
+
 export interface Product {
   id: string; // UUID como identificador único
   name: string; // Nombre del producto
@@ -12,6 +14,8 @@ export interface Product {
   image_url: string; // URL a la imagen del producto
   category: string; // Categoría del producto (ej. "Extensiones", "Cuidado", "Accesorios")
   is_active: boolean; // Indica si el producto está activo para venta
+  tax_class: TaxClass; // Clase fiscal con la que se calculan sus impuestos
+  weight_grams: number | null; // Peso en gramos para las tarifas de envío por peso
   created_at: Date;
   updated_at: Date;
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+/**
+ * @file Define las interfaces para el horario de las estilistas.
+ * @description Representa el horario semanal de trabajo, los descansos recurrentes
+ *              y los bloqueos por vacaciones o ausencias de cada estilista.
+ */
+
+/**
+ * @interface StylistWorkingHours
+ * @description Franja laboral de una estilista para un día de la semana
+ */
+export interface StylistWorkingHours {
+  id: string;
+  stylist_id: string; // FK a Stylist
+  day_of_week: number; // 0 = domingo, 6 = sábado
+  start_time: string; // Hora de inicio (HH:MM)
+  end_time: string; // Hora de fin (HH:MM)
+}
+
+/**
+ * @interface StylistBreak
+ * @description Descanso que se repite cada semana en un día concreto
+ */
+export interface StylistBreak {
+  id: string;
+  stylist_id: string; // FK a Stylist
+  day_of_week: number; // 0 = domingo, 6 = sábado
+  start_time: string; // Hora de inicio (HH:MM)
+  end_time: string; // Hora de fin (HH:MM)
+  label: string | null; // Descripción opcional (ej. "Almuerzo")
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @interface StylistTimeOff
+ * @description Bloqueo de fechas en el que la estilista no atiende (vacaciones, ausencias)
+ */
+export interface StylistTimeOff {
+  id: string;
+  stylist_id: string; // FK a Stylist
+  start_date: Date; // Inicio del bloqueo
+  end_date: Date; // Fin del bloqueo
+  reason: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @interface StylistSchedule
+ * @description Horario completo de una estilista
+ */
+export interface StylistSchedule {
+  stylist_id: string;
+  uses_default_hours: boolean; // true si no tiene plantilla propia y usa el horario del salón
+  working_hours: Omit<StylistWorkingHours, 'id' | 'stylist_id'>[];
+  breaks: StylistBreak[];
+  time_off: StylistTimeOff[];
+}
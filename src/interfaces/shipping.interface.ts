@@ -0,0 +1,82 @@
+/**
+ * @file Define las interfaces de los métodos de envío de los pedidos.
+ * @description Métodos de envío gestionados por los administradores, con tarifas por
+ *              tramos de peso o de importe y umbral de envío gratis en cada zona.
+ */
+
+/**
+ * @enum ShippingMethodKind
+ * @description Tipo de método de envío
+ */
+export enum ShippingMethodKind {
+  STANDARD = 'STANDARD',
+  EXPRESS = 'EXPRESS',
+  PICKUP = 'PICKUP' // Recogida en el salón
+}
+
+/**
+ * @enum ShippingRateBasis
+ * @description Magnitud con la que se eligen los tramos de tarifa: el peso del carrito en
+ * gramos o su subtotal
+ */
+export enum ShippingRateBasis {
+  WEIGHT = 'WEIGHT',
+  PRICE = 'PRICE'
+}
+
+/**
+ * @interface ShippingBand
+ * @description Tramo de tarifa: aplica si min <= valor < max
+ */
+export interface ShippingBand {
+  min: number; // Gramos o importe, según rate_basis
+  max: number | null; // null si el tramo no tiene límite superior
+  amount: number; // Costo del envío en este tramo
+}
+
+/**
+ * @interface ShippingZone
+ * @description Tarifas de un método para un país o una región
+ */
+export interface ShippingZone {
+  country: string; // Código ISO 3166-1 alfa-2 del país
+  region: string | null; // Región dentro del país; null si aplica a todo el país
+  free_shipping_threshold: number | null; // Subtotal a partir del cual el envío es gratis
+  bands: ShippingBand[];
+}
+
+/**
+ * @interface ShippingMethod
+ * @description Método de envío con sus zonas y tramos de tarifa
+ */
+export interface ShippingMethod {
+  id: string; // UUID como identificador único
+  name: string; // Nombre mostrado al cliente (ej. "Envío exprés 24h")
+  kind: ShippingMethodKind;
+  rate_basis: ShippingRateBasis;
+  zones: ShippingZone[];
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @interface ShippableCart
+ * @description Datos del carrito con los que se calcula el envío
+ */
+export interface ShippableCart {
+  subtotal: number;
+  weight_grams: number; // Peso total (los productos sin peso cuentan como 0)
+}
+
+/**
+ * @interface ShippingOption
+ * @description Método de envío disponible para un carrito y su costo
+ */
+export interface ShippingOption {
+  shipping_method_id: string;
+  name: string;
+  kind: ShippingMethodKind;
+  amount: number; // Costo del envío (0 si se alcanza el umbral de envío gratis)
+  free_shipping: boolean; // true si el envío es gratis por el umbral de la zona
+}
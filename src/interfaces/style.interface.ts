@@ -9,6 +9,8 @@ export interface Style {
   photo_url: string; // URL a una imagen de ejemplo del estilo
   description: string; // Descripción detallada del estilo
   category: string; // Categoría (ej. "Corto", "Largo", "Colorido", "Clásico")
+  base_price?: number; // Precio base del servicio, usado al cotizar las citas
+  estimated_duration_minutes?: number; // Duración estimada del servicio en minutos
   created_at: Date;
   updated_at: Date;
 }
\ No newline at end of file
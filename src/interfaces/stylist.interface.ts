@@ -5,6 +5,7 @@
  */
 export interface Stylist {
   id: string; // UUID como identificador único
+  user_id?: string; // Usuario con rol STYLIST vinculado a la estilista
   name: string;
   specialty: string; // Especialidad principal (ej. "Trenzas Africanas", "Extensiones")
   photo_url: string; // URL a una imagen de perfil
@@ -0,0 +1,86 @@
+/**
+ * @file Define las interfaces del cálculo de impuestos de los pedidos.
+ * @description Reglas de impuestos por jurisdicción (país y región) y clase fiscal del
+ *              producto, y el desglose de impuestos que se guarda en cada pedido.
+ */
+
+/**
+ * @enum TaxClass
+ * @description Clase fiscal de un producto; cada regla de impuestos aplica a una clase
+ */
+export enum TaxClass {
+  STANDARD = 'STANDARD',
+  REDUCED = 'REDUCED',
+  EXEMPT = 'EXEMPT'
+}
+
+/**
+ * @enum TaxMode
+ * @description Modo de una regla: INCLUSIVE si el precio del producto ya incluye el
+ * impuesto, EXCLUSIVE si el impuesto se suma al precio
+ */
+export enum TaxMode {
+  INCLUSIVE = 'INCLUSIVE',
+  EXCLUSIVE = 'EXCLUSIVE'
+}
+
+/**
+ * @interface TaxRule
+ * @description Regla de impuestos de una jurisdicción para una clase fiscal
+ */
+export interface TaxRule {
+  id: string; // UUID como identificador único
+  name: string; // Nombre mostrado en la factura (ej. "IVA", "State sales tax")
+  country: string; // Código ISO 3166-1 alfa-2 del país
+  region: string | null; // Región dentro del país; null si aplica a todo el país
+  tax_class: TaxClass; // Clase fiscal a la que aplica
+  rate: number; // Porcentaje (ej. 21 para un 21%)
+  mode: TaxMode;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @interface TaxJurisdiction
+ * @description Jurisdicción fiscal de un pedido, tomada de la dirección de envío
+ */
+export interface TaxJurisdiction {
+  country: string;
+  region: string | null;
+}
+
+/**
+ * @interface TaxableLine
+ * @description Línea de un pedido sobre la que se calculan impuestos
+ */
+export interface TaxableLine {
+  amount: number; // Importe de la línea al precio del producto
+  tax_class: TaxClass;
+}
+
+/**
+ * @interface OrderTaxLine
+ * @description Impuesto de una regla en un pedido, sumando todas las líneas a las que aplica
+ */
+export interface OrderTaxLine {
+  tax_rule_id: string;
+  name: string;
+  country: string;
+  region: string | null;
+  tax_class: TaxClass;
+  rate: number;
+  mode: TaxMode;
+  taxable_amount: number; // Base imponible (sin impuestos incluidos)
+  tax_amount: number;
+}
+
+/**
+ * @interface TaxCalculation
+ * @description Resultado del cálculo de impuestos de un pedido
+ */
+export interface TaxCalculation {
+  tax_amount: number; // Total de impuestos (incluidos y añadidos)
+  exclusive_tax_amount: number; // Impuestos que se suman al precio de los productos
+  breakdown: OrderTaxLine[];
+}
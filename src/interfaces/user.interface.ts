@@ -1,6 +1,6 @@
 /**
  * @file Define la interfaz para la entidad User.
- * @description Representa un usuario del sistema que puede ser cliente o administrador.
+ * @description Representa un usuario del sistema que puede ser cliente, estilista o administrador.
  *              Incluye autenticación, autorización y gestión de perfil.
  */
 export interface User {
@@ -10,6 +10,7 @@ export interface User {
   password_hash: string; // Contraseña hasheada con algoritmo seguro (Bcrypt)
   role: UserRole; // Rol del usuario para autorización
   phone?: string; // Teléfono opcional
+  email_verified_at?: Date | null; // Momento en que se verificó el email; null si está pendiente
   created_at: Date;
   updated_at: Date;
 }
@@ -18,8 +19,10 @@ export interface User {
  * @description Enum para los roles de usuario en el sistema.
  * CUSTOMER: Cliente que puede hacer reservas y compras
  * ADMIN: Administrador con permisos de gestión
+ * STYLIST: Estilista que gestiona su propio perfil, horario y citas
  */
 export enum UserRole {
   CUSTOMER = 'CUSTOMER',
-  ADMIN = 'ADMIN'
+  ADMIN = 'ADMIN',
+  STYLIST = 'STYLIST'
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+/**
+ * @file Define las interfaces para la lista de espera de citas.
+ * @description Representa el interés de un cliente por una estilista, un estilo y un
+ *              rango de fechas, y las ofertas de horario que recibe cuando se libera uno.
+ */
+
+/**
+ * @interface WaitlistEntry
+ * @description Solicitud de un cliente en la lista de espera
+ */
+export interface WaitlistEntry {
+  id: string;
+  user_id: string; // FK a User - Cliente que espera
+  stylist_id: string; // FK a Stylist - Estilista solicitada
+  style_id: string; // FK a Style - Estilo deseado
+  earliest_date: string; // Primer día aceptable (YYYY-MM-DD)
+  latest_date: string; // Último día aceptable (YYYY-MM-DD)
+  status: WaitlistStatus;
+  offered_start: Date | null; // Inicio del horario ofrecido
+  offered_end: Date | null; // Fin del horario ofrecido
+  offer_expires_at: Date | null; // Hasta cuándo se reserva el horario para el cliente
+  appointment_id: string | null; // Cita creada al aceptar la oferta
+  notes?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * @interface WaitlistFilters
+ * @description Filtros para consultar la lista de espera
+ */
+export interface WaitlistFilters {
+  user_id?: string;
+  stylist_id?: string;
+  status?: WaitlistStatus;
+}
+
+/**
+ * @interface WaitlistUpdateRequest
+ * @description Campos modificables de una solicitud de la lista de espera
+ */
+export interface WaitlistUpdateRequest {
+  status?: WaitlistStatus;
+  offered_start?: Date | null;
+  offered_end?: Date | null;
+  offer_expires_at?: Date | null;
+  appointment_id?: string | null;
+}
+
+/**
+ * @enum WaitlistStatus
+ * @description Estados de una solicitud de la lista de espera
+ */
+export enum WaitlistStatus {
+  WAITING = 'WAITING', // Esperando que se libere un horario
+  OFFERED = 'OFFERED', // Tiene un horario reservado temporalmente
+  BOOKED = 'BOOKED', // Aceptó la oferta y se creó la cita
+  DECLINED = 'DECLINED', // Rechazó la oferta
+  EXPIRED = 'EXPIRED', // La oferta venció sin respuesta
+  CANCELLED = 'CANCELLED' // El cliente salió de la lista
+}
@@ -0,0 +1,21 @@
+/**
+ * @file Transporte de correo por consola.
+ * @description Muestra los correos en el log en lugar de enviarlos. Es el transporte
+ *              por defecto en desarrollo y testing.
+ */
+
+import { MailMessage, MailTransport } from '../interfaces/mail.interface';
+
+/**
+ * @class ConsoleMailTransport
+ * @description Escribe cada correo en la consola
+ */
+export class ConsoleMailTransport implements MailTransport {
+  /**
+   * @description Muestra el correo en la consola.
+   * @param message - Correo a enviar
+   */
+  async send(message: MailMessage): Promise<void> {
+    console.log(`✉️  [mail] Para: ${message.to} | Asunto: ${message.subject}\n${message.text}`);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * @file Transporte de correo a ficheros.
+ * @description Guarda cada correo como fichero de texto en una carpeta local para
+ *              poder abrirlo durante el desarrollo sin un servidor SMTP.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { MailMessage, MailTransport } from '../interfaces/mail.interface';
+
+/**
+ * @class FileMailTransport
+ * @description Escribe cada correo en un fichero .eml dentro de la carpeta indicada
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly outputDir: string) {}
+
+  /**
+   * @description Guarda el correo en un fichero nuevo.
+   * @param message - Correo a enviar
+   */
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outputDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${uuidv4()}.eml`;
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      '',
+      message.text
+    ].join('\n');
+
+    await fs.writeFile(path.join(this.outputDir, fileName), content, 'utf8');
+  }
+}
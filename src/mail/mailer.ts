@@ -0,0 +1,41 @@
+/**
+ * @file Punto de acceso al transporte de correo activo.
+ * @description Elige el transporte según MAIL_TRANSPORT y permite sustituirlo
+ *              (por un proveedor real o en tests).
+ */
+
+import { MailMessage, MailTransport } from '../interfaces/mail.interface';
+import { MAIL_TRANSPORT, MAIL_OUTPUT_DIR, MAIL_FROM } from '../config/mail.config';
+import { ConsoleMailTransport } from './console.transport';
+import { FileMailTransport } from './file.transport';
+
+let activeTransport: MailTransport = MAIL_TRANSPORT === 'file'
+  ? new FileMailTransport(MAIL_OUTPUT_DIR)
+  : new ConsoleMailTransport();
+
+/**
+ * @function getMailTransport
+ * @description Obtiene el transporte de correo activo
+ * @returns Transporte usado para enviar correos
+ */
+export const getMailTransport = (): MailTransport => {
+  return activeTransport;
+};
+
+/**
+ * @function setMailTransport
+ * @description Sustituye el transporte de correo activo
+ * @param transport - Nuevo transporte
+ */
+export const setMailTransport = (transport: MailTransport): void => {
+  activeTransport = transport;
+};
+
+/**
+ * @function sendMail
+ * @description Envía un correo con el remitente por defecto del sistema
+ * @param message - Destinatario, asunto y cuerpo del correo
+ */
+export const sendMail = async (message: Omit<MailMessage, 'from'>): Promise<void> => {
+  await activeTransport.send({ ...message, from: MAIL_FROM });
+};
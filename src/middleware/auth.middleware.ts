@@ -5,15 +5,41 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import jwt, { SignOptions } from 'jsonwebtoken';
+import jwt, { GetPublicKeyOrSecret } from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
 import { JWTPayload } from '../interfaces/auth.interface';
 import { UserRole } from '../interfaces/user.interface';
+import { isTokenRevoked } from '../denylist/denylist';
+import { getUserById } from '../data/users.database';
+import { getApiKeyByPrefix, touchApiKey } from '../data/api-keys.database';
+import { getApiKeyPrefix, matchesTokenHash } from '../utils/token.utils';
+import { REQUIRE_2FA_FOR_ADMINS } from '../config/auth.config';
+import { JWT_KEYRING, LEGACY_JWT_KID } from '../config/jwt.config';
 
 /**
- * @description Clave secreta para firmar y verificar tokens JWT.
- * En producción debería venir de variables de entorno.
+ * @function getJwtSecret
+ * @description Obtiene el secreto con el que se verifica un token según el kid de su
+ * cabecera. Los tokens sin kid se emitieron antes del keyring y usan la clave JWT_SECRET.
+ *
+ * @param kid - kid de la cabecera del token
+ * @returns Secreto de la clave o undefined si el kid no está en el keyring
  */
-const JWT_SECRET = process.env.JWT_SECRET || 'laura_braids_secret_key_2024';
+const getJwtSecret = (kid?: string): string | undefined => {
+  return JWT_KEYRING.keys[kid || LEGACY_JWT_KID];
+};
+
+/**
+ * @function resolveJwtSecret
+ * @description Resolvedor de clave para jwt.verify: elige el secreto por el kid del token.
+ */
+const resolveJwtSecret: GetPublicKeyOrSecret = (header, callback) => {
+  const secret = getJwtSecret(header.kid);
+  if (!secret) {
+    callback(new Error('Clave de firma desconocida'));
+    return;
+  }
+  callback(null, secret);
+};
 
 /**
  * @interface AuthenticatedRequest
@@ -23,10 +49,124 @@ export interface AuthenticatedRequest extends Request {
   user?: JWTPayload;
 }
 
+/**
+ * @function hasAdminAccess
+ * @description Indica si el usuario puede ejercer permisos de administrador. Con
+ * REQUIRE_2FA_FOR_ADMINS activo, la sesión debe haberse iniciado con el segundo factor.
+ *
+ * @param user - Payload del token (o undefined si no hay autenticación)
+ * @returns true si tiene rol ADMIN y cumple el requisito de segundo factor
+ */
+export const hasAdminAccess = (user?: JWTPayload): boolean => {
+  if (!user || user.role !== UserRole.ADMIN) return false;
+  return !REQUIRE_2FA_FOR_ADMINS || user.two_factor === true;
+};
+
+/**
+ * @function rejectRevokedToken
+ * @description Comprueba si el token ya verificado está en la denylist y, en ese caso,
+ * responde con 401. También responde si no se puede consultar la denylist.
+ *
+ * @param payload - Payload decodificado del token
+ * @param res - Response object
+ * @returns true si ya se ha enviado una respuesta y no se debe continuar
+ */
+const rejectRevokedToken = async (payload: JWTPayload, res: Response): Promise<boolean> => {
+  try {
+    if (!(await isTokenRevoked(payload))) return false;
+
+    res.status(401).json({
+      success: false,
+      message: 'Token revocado',
+      error: 'REVOKED_TOKEN',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error al consultar la denylist de tokens:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor durante autenticación',
+      error: 'INTERNAL_SERVER_ERROR',
+      timestamp: new Date().toISOString()
+    });
+  }
+  return true;
+};
+
+/**
+ * @function resolveApiKey
+ * @description Valida una API key recibida en la cabecera X-API-Key y construye el payload
+ * con el que se autoriza la solicitud. La clave no tiene permisos de rol (se trata como
+ * CUSTOMER); solo cuentan sus scopes. Cada uso válido actualiza last_used_at.
+ *
+ * @param key - Clave completa recibida
+ * @returns Payload de la clave o null si no existe, no coincide, expiró o está revocada
+ */
+const resolveApiKey = async (key: string): Promise<JWTPayload | null> => {
+  const prefix = getApiKeyPrefix(key);
+  if (!prefix) return null;
+
+  const apiKey = await getApiKeyByPrefix(prefix);
+  const now = new Date();
+  if (!apiKey || !matchesTokenHash(key, apiKey.key_hash) || apiKey.revoked_at || apiKey.expires_at <= now) {
+    return null;
+  }
+
+  await touchApiKey(apiKey.id, now);
+  return {
+    userId: apiKey.created_by,
+    email: '',
+    role: UserRole.CUSTOMER,
+    api_key_id: apiKey.id,
+    scopes: apiKey.scopes
+  };
+};
+
+/**
+ * @function authenticateApiKey
+ * @description Autentica la solicitud con una API key en lugar de un JWT.
+ *
+ * @param key - Clave recibida en X-API-Key
+ * @param req - Request object extendido con usuario
+ * @param res - Response object
+ * @param next - NextFunction para continuar al siguiente middleware
+ */
+const authenticateApiKey = async (
+  key: string,
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const payload = await resolveApiKey(key);
+    if (!payload) {
+      res.status(401).json({
+        success: false,
+        message: 'API key inválida, expirada o revocada',
+        error: 'INVALID_API_KEY',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    req.user = payload;
+    next();
+  } catch (error) {
+    console.error('Error al validar la API key:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor durante autenticación',
+      error: 'INTERNAL_SERVER_ERROR',
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
 /**
  * @function authenticateToken
  * @description Middleware para verificar y decodificar tokens JWT.
- * Extrae el token del header Authorization y valida su autenticidad.
+ * Extrae el token del header Authorization y valida su autenticidad. Sin Bearer,
+ * acepta una API key en la cabecera X-API-Key.
  * 
  * @param req - Request object extendido con usuario
  * @param res - Response object
@@ -41,6 +181,12 @@ export const authenticateToken = (
     // Extraer token del header Authorization
     const authHeader = req.headers.authorization;
     const token = authHeader && authHeader.split(' ')[1]; // Format: "Bearer TOKEN"
+    const apiKey = req.headers['x-api-key'];
+
+    if (!token && typeof apiKey === 'string') {
+      authenticateApiKey(apiKey, req, res, next);
+      return;
+    }
 
     if (!token) {
       res.status(401).json({
@@ -52,7 +198,7 @@ export const authenticateToken = (
     }
 
     // Verificar y decodificar el token
-    jwt.verify(token, JWT_SECRET, (err, decoded) => {
+    jwt.verify(token, resolveJwtSecret, { algorithms: ['HS256'] }, async (err, decoded) => {
       if (err) {
         let message = 'Token inválido';
         let error = 'INVALID_TOKEN';
@@ -76,6 +222,7 @@ export const authenticateToken = (
 
       // Agregar información del usuario al request
       req.user = decoded as JWTPayload;
+      if (await rejectRevokedToken(req.user, res)) return;
       next();
     });
   } catch (error) {
@@ -98,7 +245,7 @@ export const requireAuth = authenticateToken;
 /**
  * @function optionalAuth
  * @description Middleware de autenticación opcional.
- * Si hay token, lo valida; si no hay token, continúa sin error.
+ * Si hay token (o API key), lo valida; si no hay token, continúa sin error.
  * 
  * @param req - Request object extendido con usuario
  * @param res - Response object
@@ -111,6 +258,16 @@ export const optionalAuth = (
 ): void => {
   const authHeader = req.headers.authorization;
   const token = authHeader && authHeader.split(' ')[1];
+  const apiKey = req.headers['x-api-key'];
+
+  if (!token && typeof apiKey === 'string') {
+    // Una API key no válida se trata como una petición anónima
+    resolveApiKey(apiKey).catch(() => null).then(payload => {
+      if (payload) req.user = payload;
+      next();
+    });
+    return;
+  }
 
   if (!token) {
     // No hay token, continuar sin autenticación
@@ -120,8 +277,9 @@ export const optionalAuth = (
 
   // Hay token, validarlo
   try {
-    jwt.verify(token, JWT_SECRET, (err, decoded) => {
-      if (!err && decoded) {
+    jwt.verify(token, resolveJwtSecret, { algorithms: ['HS256'] }, async (err, decoded) => {
+      // Un token revocado se trata como una petición anónima
+      if (!err && decoded && !(await isTokenRevoked(decoded as JWTPayload).catch(() => true))) {
         req.user = decoded as JWTPayload;
       }
       // Continuar independientemente del resultado
@@ -170,184 +328,134 @@ export const requireRole = (roles: UserRole[]) => {
 };
 
 /**
- * @function requireAdmin
- * @description Middleware que requiere rol de administrador.
- * Primero autentica y luego verifica que sea ADMIN.
+ * @function requireVerifiedEmail
+ * @description Factory function para exigir el email verificado antes de una acción
+ * (reservar citas, hacer pedidos). La regla se activa por configuración; los
+ * administradores no están sujetos a ella. Se comprueba siempre el usuario del token,
+ * nunca un ID enviado en el body, así que debe ir detrás de la autenticación.
+ * 
+ * @param enabled - Si la regla está activa para la ruta
+ * @returns Middleware function
  */
-export const requireAdmin = (
-  req: AuthenticatedRequest,
-  res: Response,
-  next: NextFunction
-): void => {
-  try {
-    // Extraer token del header Authorization
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1]; // Format: "Bearer TOKEN"
+export const requireVerifiedEmail = (enabled: boolean) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!enabled) {
+      next();
+      return;
+    }
 
-    if (!token) {
+    if (!req.user) {
       res.status(401).json({
         success: false,
-        message: 'Token de acceso requerido',
-        error: 'MISSING_TOKEN'
+        message: 'Autenticación requerida',
+        error: 'AUTHENTICATION_REQUIRED',
+        timestamp: new Date().toISOString()
       });
       return;
     }
 
-    // Verificar y decodificar el token
-    jwt.verify(token, JWT_SECRET, (err, decoded) => {
-      if (err) {
-        let message = 'Token inválido';
-        let error = 'INVALID_TOKEN';
+    if (hasAdminAccess(req.user)) {
+      next();
+      return;
+    }
 
-        if (err.name === 'TokenExpiredError') {
-          message = 'Token expirado';
-          error = 'EXPIRED_TOKEN';
-        } else if (err.name === 'JsonWebTokenError') {
-          message = 'Token malformado';
-          error = 'MALFORMED_TOKEN';
-        }
+    try {
+      const user = await getUserById(req.user.userId);
 
+      if (!user || !user.email_verified_at) {
         res.status(403).json({
           success: false,
-          message,
-          error,
+          message: 'Debes verificar tu email antes de continuar',
+          error: 'EMAIL_NOT_VERIFIED',
           timestamp: new Date().toISOString()
         });
         return;
       }
 
-      // Agregar información del usuario al request
-      req.user = decoded as JWTPayload;
-      
-      // Verificar que sea ADMIN
-      if (req.user.role !== UserRole.ADMIN) {
-        res.status(403).json({
-          success: false,
-          message: 'Se requieren permisos de administrador',
-          error: 'ADMIN_REQUIRED',
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
-      
       next();
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      message: 'Error interno del servidor durante autenticación',
-      error: 'INTERNAL_SERVER_ERROR',
-      timestamp: new Date().toISOString()
-    });
-  }
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message: 'Error interno del servidor durante autenticación',
+        error: 'INTERNAL_SERVER_ERROR',
+        timestamp: new Date().toISOString()
+      });
+    }
+  };
 };
 
 /**
- * @function requireOwnerOrAdmin
- * @description Middleware que permite acceso al propietario del recurso o admin.
- * Verifica que el usuario sea el propietario del recurso (userId coincide)
- * o que tenga rol de administrador.
- * 
- * @param req - Request object extendido con usuario
- * @param res - Response object
- * @param next - NextFunction para continuar al siguiente middleware
+ * @function requireAdmin
+ * @description Middleware que requiere rol de administrador.
+ * Primero autentica con authenticateToken y luego verifica que sea ADMIN.
  */
-export const requireOwnerOrAdmin = (
+export const requireAdmin = (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): void => {
-  try {
-    // Extraer token del header Authorization
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1];
-
-    if (!token) {
-      res.status(401).json({
+  authenticateToken(req, res, () => {
+    // Verificar que sea ADMIN
+    if (req.user!.role !== UserRole.ADMIN) {
+      res.status(403).json({
         success: false,
-        message: 'Token de acceso requerido',
-        error: 'MISSING_TOKEN'
+        message: 'Se requieren permisos de administrador',
+        error: 'ADMIN_REQUIRED',
+        timestamp: new Date().toISOString()
       });
       return;
     }
 
-    // Verificar y decodificar el token
-    jwt.verify(token, JWT_SECRET, (err, decoded) => {
-      if (err) {
-        let message = 'Token inválido';
-        let error = 'INVALID_TOKEN';
-
-        if (err.name === 'TokenExpiredError') {
-          message = 'Token expirado';
-          error = 'EXPIRED_TOKEN';
-        } else if (err.name === 'JsonWebTokenError') {
-          message = 'Token malformado';
-          error = 'MALFORMED_TOKEN';
-        }
-
-        res.status(403).json({
-          success: false,
-          message,
-          error,
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
-
-      // Agregar información del usuario al request
-      req.user = decoded as JWTPayload;
-      
-      const resourceUserId = req.params.id || req.params.userId;
-      const isOwner = req.user.userId === resourceUserId;
-      const isAdmin = req.user.role === UserRole.ADMIN;
-
-      if (!isOwner && !isAdmin) {
-        res.status(403).json({
-          success: false,
-          message: 'Solo puedes acceder a tus propios recursos o ser administrador',
-          error: 'RESOURCE_ACCESS_DENIED',
-          timestamp: new Date().toISOString()
-        });
-        return;
-      }
+    // Verificar el segundo factor si es obligatorio para administradores
+    if (!hasAdminAccess(req.user)) {
+      res.status(403).json({
+        success: false,
+        message: 'Inicia sesión con el segundo factor para usar permisos de administrador',
+        error: 'TWO_FACTOR_REQUIRED',
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
 
-      next();
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      message: 'Error interno del servidor durante autenticación',
-      error: 'INTERNAL_SERVER_ERROR',
-      timestamp: new Date().toISOString()
-    });
-  }
+    next();
+  });
 };
 
 /**
  * @function generateToken
  * @description Utility function para generar tokens JWT.
+ * Cada token lleva un jti único para poder revocarlo antes de que expire y se firma con
+ * la clave activa del keyring, indicada en el kid de la cabecera.
  * 
  * @param payload - Datos a incluir en el token
  * @param expiresIn - Tiempo de expiración (default: 24h)
  * @returns Token JWT firmado
  */
 export const generateToken = (
-  payload: Omit<JWTPayload, 'iat' | 'exp'>,
+  payload: Omit<JWTPayload, 'iat' | 'exp' | 'jti'>,
   expiresIn: string = '24h'
 ): string => {
-  return jwt.sign(payload as object, JWT_SECRET, { expiresIn: expiresIn as any });
+  return jwt.sign({ ...payload, jti: uuidv4() }, JWT_KEYRING.keys[JWT_KEYRING.activeKid], {
+    expiresIn: expiresIn as any,
+    keyid: JWT_KEYRING.activeKid
+  });
 };
 
 /**
  * @function verifyToken
  * @description Utility function para verificar tokens JWT.
+ * Acepta tokens firmados con cualquier clave del keyring, activa o retirada.
  * 
  * @param token - Token JWT a verificar
  * @returns Payload decodificado o null si es inválido
  */
 export const verifyToken = (token: string): JWTPayload | null => {
   try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload;
+    const decoded = jwt.decode(token, { complete: true });
+    const secret = decoded ? getJwtSecret(decoded.header.kid) : undefined;
+    if (!secret) return null;
+
+    return jwt.verify(token, secret, { algorithms: ['HS256'] }) as JWTPayload;
   } catch (error) {
     return null;
   }
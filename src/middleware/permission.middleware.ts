@@ -0,0 +1,162 @@
+/**
+ * @file Middleware de permisos declarativos para LauraBraids.
+ * @description Las rutas declaran el permiso que necesitan (recurso:acción) y este
+ *              middleware autentica al usuario y lo evalúa contra la matriz de permisos,
+ *              resolviendo el propietario del recurso cuando el alcance es own.
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest, authenticateToken, hasAdminAccess } from './auth.middleware';
+import { RequiredPermission, OwnerResolver, PermissionScope } from '../interfaces/permission.interface';
+import { UserRole } from '../interfaces/user.interface';
+import { parsePermission, getGrantedScope, isAllowed } from '../policies/permissions.policy';
+import { OWNER_RESOLVERS } from '../policies/owners.policy';
+
+/**
+ * @function rejectPermission
+ * @description Responde con 403 al denegar un permiso. Si el usuario es ADMIN pero le
+ * falta el segundo factor obligatorio, se indica para que vuelva a iniciar sesión.
+ *
+ * @param req - Request object extendido con usuario
+ * @param res - Response object
+ * @param required - Permiso denegado
+ */
+const rejectPermission = (
+  req: AuthenticatedRequest,
+  res: Response,
+  required: RequiredPermission
+): void => {
+  if (req.user!.role === UserRole.ADMIN && !hasAdminAccess(req.user)) {
+    res.status(403).json({
+      success: false,
+      message: 'Inicia sesión con el segundo factor para usar permisos de administrador',
+      error: 'TWO_FACTOR_REQUIRED',
+      timestamp: new Date().toISOString()
+    });
+    return;
+  }
+
+  res.status(403).json({
+    success: false,
+    message: 'No tienes permisos para realizar esta acción',
+    error: 'PERMISSION_DENIED',
+    permission: required,
+    timestamp: new Date().toISOString()
+  });
+};
+
+/**
+ * @function authorize
+ * @description Evalúa un permiso para el usuario ya autenticado. Con alcance own comprueba
+ * que sea el propietario del recurso; si el recurso no existe se deja que el controlador
+ * responda 404.
+ *
+ * @param req - Request object extendido con usuario
+ * @param res - Response object
+ * @param next - Next function
+ * @param required - Permiso requerido
+ * @param ownerResolver - Resolvedor de propietario, si el recurso tiene alcance own
+ */
+const authorize = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+  required: RequiredPermission,
+  ownerResolver?: OwnerResolver
+): Promise<void> => {
+  try {
+    const scope = getGrantedScope(req.user!, required);
+
+    if (scope === PermissionScope.ANY) {
+      next();
+      return;
+    }
+
+    if (scope !== PermissionScope.OWN || !ownerResolver) {
+      rejectPermission(req, res, required);
+      return;
+    }
+
+    const ownerId = await ownerResolver(req);
+    if (ownerId === null || isAllowed(req.user, required, ownerId)) {
+      next();
+      return;
+    }
+
+    rejectPermission(req, res, required);
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Error interno del servidor durante autorización',
+      error: 'INTERNAL_SERVER_ERROR',
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+/**
+ * @function requirePermission
+ * @description Factory function para exigir un permiso en una ruta. Autentica el token y,
+ * si el rol solo tiene el permiso con alcance own, comprueba que el usuario sea el
+ * propietario del recurso. Si el recurso no existe se deja que el controlador responda 404.
+ *
+ * @param required - Permiso requerido (recurso:acción, p. ej. orders:read)
+ * @param resolveOwner - Resolvedor de propietario (por defecto, el del recurso)
+ * @returns Middleware function
+ */
+export const requirePermission = (required: RequiredPermission, resolveOwner?: OwnerResolver) => {
+  const ownerResolver = resolveOwner || OWNER_RESOLVERS[parsePermission(required).resource];
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    authenticateToken(req, res, () => authorize(req, res, next, required, ownerResolver));
+  };
+};
+
+/**
+ * @function requirePermissionWhen
+ * @description Factory function para exigir un permiso adicional solo cuando la solicitud lo
+ * necesita (p. ej. según el valor de un campo del cuerpo). Evalúa el alcance own igual que
+ * requirePermission, tras la que va, ya con el usuario autenticado.
+ *
+ * @param condition - Indica si la solicitud necesita el permiso
+ * @param required - Permiso requerido (recurso:acción)
+ * @param resolveOwner - Resolvedor de propietario (por defecto, el del recurso)
+ * @returns Middleware function
+ */
+export const requirePermissionWhen = (
+  condition: (req: AuthenticatedRequest) => boolean,
+  required: RequiredPermission,
+  resolveOwner?: OwnerResolver
+) => {
+  const ownerResolver = resolveOwner || OWNER_RESOLVERS[parsePermission(required).resource];
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!condition(req)) {
+      next();
+      return;
+    }
+
+    authorize(req, res, next, required, ownerResolver);
+  };
+};
+
+/**
+ * @function requireFieldPermission
+ * @description Factory function para exigir un permiso adicional solo si el cuerpo trae un
+ * campo concreto (p. ej. role al editar un usuario). El permiso debe tener alcance any. Va
+ * después de requirePermission, que ya autenticó al usuario.
+ *
+ * @param field - Campo del cuerpo que requiere el permiso
+ * @param required - Permiso requerido para enviarlo (recurso:acción)
+ * @returns Middleware function
+ */
+export const requireFieldPermission = (field: string, required: RequiredPermission) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (req.body?.[field] === undefined || isAllowed(req.user, required)) {
+      next();
+      return;
+    }
+
+    rejectPermission(req, res, required);
+  };
+};
@@ -0,0 +1,28 @@
+/**
+ * @file Punto de acceso al canal de notificaciones activo.
+ * @description Permite sustituir el notifier usado por toda la aplicación
+ *              (por defecto, el outbox local en memoria).
+ */
+
+import { Notifier } from '../interfaces/notification.interface';
+import { OutboxNotifier } from './outbox.notifier';
+
+let activeNotifier: Notifier = new OutboxNotifier();
+
+/**
+ * @function getNotifier
+ * @description Obtiene el notifier activo
+ * @returns Notifier usado para enviar avisos
+ */
+export const getNotifier = (): Notifier => {
+  return activeNotifier;
+};
+
+/**
+ * @function setNotifier
+ * @description Sustituye el notifier activo (p. ej. por un proveedor de email o en tests)
+ * @param notifier - Nuevo notifier
+ */
+export const setNotifier = (notifier: Notifier): void => {
+  activeNotifier = notifier;
+};
@@ -0,0 +1,39 @@
+/**
+ * @file Notifier local basado en un outbox en memoria.
+ * @description Guarda las notificaciones en lugar de enviarlas. Sirve como canal por
+ *              defecto en desarrollo y testing hasta conectar un proveedor real.
+ */
+
+import { Notification, Notifier } from '../interfaces/notification.interface';
+
+/**
+ * @class OutboxNotifier
+ * @description Acumula las notificaciones enviadas para poder consultarlas
+ */
+export class OutboxNotifier implements Notifier {
+  private readonly outbox: Notification[] = [];
+
+  /**
+   * @description Registra la notificación en el outbox.
+   * @param notification - Notificación a enviar
+   */
+  async send(notification: Notification): Promise<void> {
+    this.outbox.push(notification);
+    console.log(`📬 [outbox] ${notification.type} para ${notification.recipient_id}: ${notification.subject}`);
+  }
+
+  /**
+   * @description Obtiene las notificaciones registradas.
+   * @returns Copia de las notificaciones en orden de envío
+   */
+  getMessages(): Notification[] {
+    return [...this.outbox];
+  }
+
+  /**
+   * @description Vacía el outbox (solo para testing).
+   */
+  clear(): void {
+    this.outbox.length = 0;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * @file Resolvedores de propietario por recurso.
+ * @description Para cada recurso con permisos de alcance own, obtiene el ID del usuario
+ *              propietario a partir de la solicitud (parámetros de ruta o cuerpo).
+ */
+
+import { OwnerResolver } from '../interfaces/permission.interface';
+import { getOrderById } from '../data/orders.database';
+import { getStylistById } from '../data/stylists.database';
+import { getWaitlistEntryById } from '../data/waitlist.database';
+import { getAppointmentById, getAppointments } from '../data/appointments.database';
+import { Appointment } from '../interfaces/appointment.interface';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+
+/**
+ * @function resolveOrderOwner
+ * @description El propietario de un pedido es su cliente. Según la ruta se toma del pedido
+ * (:id), del cliente consultado (:customerId) o del customer_id del pedido a crear.
+ * @param req - Request de Express
+ * @returns ID del cliente o null si el pedido no existe
+ */
+export const resolveOrderOwner: OwnerResolver = async (req) => {
+  if (req.params.id) {
+    const order = await getOrderById(req.params.id);
+    return order ? order.customer_id : null;
+  }
+
+  if (req.params.customerId) return req.params.customerId;
+
+  const customerId = req.body?.customer_id;
+  return typeof customerId === 'string' ? customerId : null;
+};
+
+/**
+ * @function resolveUserOwner
+ * @description Un usuario es propietario de su propio perfil
+ * @param req - Request de Express
+ * @returns ID del usuario de la ruta
+ */
+export const resolveUserOwner: OwnerResolver = async (req) => {
+  return req.params.id || null;
+};
+
+/**
+ * @function resolveStylistOwner
+ * @description El propietario de una estilista es el usuario STYLIST vinculado (stylists.user_id)
+ * @param req - Request de Express
+ * @returns ID del usuario vinculado (vacío si no tiene) o null si la estilista no existe
+ */
+export const resolveStylistOwner: OwnerResolver = async (req) => {
+  const stylist = await getStylistById(req.params.id);
+  if (!stylist) return null;
+
+  // Sin usuario vinculado, ningún usuario es propietario de la estilista
+  return stylist.user_id || '';
+};
+
+/**
+ * @function resolveWaitlistOwner
+ * @description El propietario de una solicitud de la lista de espera es su cliente. Se toma
+ * de la solicitud (:id) o del user_id de la solicitud a crear.
+ * @param req - Request de Express
+ * @returns ID del cliente o null si la solicitud no existe
+ */
+export const resolveWaitlistOwner: OwnerResolver = async (req) => {
+  if (req.params.id) {
+    const entry = await getWaitlistEntryById(req.params.id);
+    return entry ? entry.user_id : null;
+  }
+
+  const userId = req.body?.user_id;
+  return typeof userId === 'string' ? userId : null;
+};
+
+/**
+ * @function resolveAppointmentParticipant
+ * @description Una cita pertenece a su cliente y a la estilista asignada. Si quien la pide es
+ * el usuario vinculado a esa estilista, se le toma como propietario; si no, el cliente.
+ * @param req - Request autenticada
+ * @param appointment - Cita a la que se quiere acceder
+ * @returns ID del participante propietario
+ */
+const resolveAppointmentParticipant = async (
+  req: AuthenticatedRequest,
+  appointment: Appointment
+): Promise<string> => {
+  const userId = req.user?.userId;
+  if (userId && userId !== appointment.user_id) {
+    const stylist = await getStylistById(appointment.stylist_id);
+    if (stylist && stylist.user_id === userId) return userId;
+  }
+
+  return appointment.user_id;
+};
+
+/**
+ * @function resolveAppointmentOwner
+ * @description El propietario de una cita es su cliente o la estilista asignada. Se toma de la
+ * cita (:id), de la primera cita de la serie (:seriesId) o del user_id de la cita a crear.
+ * @param req - Request autenticada
+ * @returns ID del participante o null si la cita o la serie no existen
+ */
+export const resolveAppointmentOwner: OwnerResolver = async (req) => {
+  if (req.params.id) {
+    const appointment = await getAppointmentById(req.params.id);
+    return appointment ? resolveAppointmentParticipant(req, appointment) : null;
+  }
+
+  if (req.params.seriesId) {
+    const [firstOccurrence] = await getAppointments({ series_id: req.params.seriesId });
+    return firstOccurrence ? resolveAppointmentParticipant(req, firstOccurrence) : null;
+  }
+
+  const userId = req.body?.user_id;
+  return typeof userId === 'string' ? userId : null;
+};
+
+/**
+ * @function resolveAppointmentStylist
+ * @description Para las acciones que solo hace la estilista asignada (p. ej. confirmar o
+ * completar una cita), el propietario es el usuario STYLIST vinculado a esa estilista,
+ * aunque el cliente de la cita también tenga cuenta.
+ * @param req - Request autenticada
+ * @returns ID del usuario vinculado (vacío si no tiene) o null si la cita no existe
+ */
+export const resolveAppointmentStylist: OwnerResolver = async (req) => {
+  const appointment = await getAppointmentById(req.params.id);
+  if (!appointment) return null;
+
+  const stylist = await getStylistById(appointment.stylist_id);
+  return stylist?.user_id || '';
+};
+
+/**
+ * @constant OWNER_RESOLVERS
+ * @description Resolvedor de propietario de cada recurso.
+ */
+export const OWNER_RESOLVERS: Record<string, OwnerResolver> = {
+  orders: resolveOrderOwner,
+  users: resolveUserOwner,
+  stylists: resolveStylistOwner,
+  waitlist: resolveWaitlistOwner,
+  appointments: resolveAppointmentOwner
+};
@@ -0,0 +1,183 @@
+/**
+ * @file Matriz de permisos por rol del sistema LauraBraids.
+ * @description Define qué puede hacer cada rol con el formato recurso:acción:alcance y
+ *              evalúa si un usuario tiene un permiso, sobre cualquier recurso o solo
+ *              sobre los suyos.
+ */
+
+import { JWTPayload } from '../interfaces/auth.interface';
+import { UserRole } from '../interfaces/user.interface';
+import {
+  Permission,
+  RequiredPermission,
+  ParsedPermission,
+  PermissionScope
+} from '../interfaces/permission.interface';
+import { hasAdminAccess } from '../middleware/auth.middleware';
+
+/**
+ * @constant CUSTOMER_PERMISSIONS
+ * @description Permisos de un cliente: sus propios pedidos, su propio perfil, sus citas
+ * (como cliente o como estilista asignada) y sus solicitudes en la lista de espera.
+ */
+const CUSTOMER_PERMISSIONS: Permission[] = [
+  'orders:read:own',
+  'orders:create:own',
+  'orders:update:own',
+  'orders:cancel:own',
+  'users:read:own',
+  'users:update:own',
+  'appointments:list:own',
+  'appointments:read:own',
+  'appointments:create:own',
+  'appointments:update:own',
+  'appointments:reschedule:own',
+  'appointments:cancel:own',
+  'waitlist:list:own',
+  'waitlist:create:own',
+  'waitlist:update:own',
+  'waitlist:delete:own'
+];
+
+/**
+ * @constant ROLE_PERMISSIONS
+ * @description Permisos concedidos a cada rol. Un permiso con alcance any incluye own.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.CUSTOMER]: CUSTOMER_PERMISSIONS,
+  [UserRole.STYLIST]: [
+    ...CUSTOMER_PERMISSIONS,
+    'stylists:update:own',
+    'stylists:schedule:own',
+    'appointments:set-status:own'
+  ],
+  [UserRole.ADMIN]: [
+    'orders:list:any',
+    'orders:read:any',
+    'orders:create:any',
+    'orders:update:any',
+    'orders:update-payment:any',
+    'orders:cancel:any',
+    'users:list:any',
+    'users:read:any',
+    'users:update:any',
+    'users:assign-role:any',
+    'users:unlock:any',
+    'users:delete:any',
+    'stylists:create:any',
+    'stylists:update:any',
+    'stylists:feature:any',
+    'stylists:schedule:any',
+    'stylists:delete:any',
+    'tax-rules:list:any',
+    'tax-rules:create:any',
+    'tax-rules:update:any',
+    'tax-rules:delete:any',
+    'shipping-methods:list:any',
+    'shipping-methods:create:any',
+    'shipping-methods:update:any',
+    'shipping-methods:delete:any',
+    'appointments:list:any',
+    'appointments:read:any',
+    'appointments:create:any',
+    'appointments:update:any',
+    'appointments:set-status:any',
+    'appointments:reschedule:any',
+    'appointments:cancel:any',
+    'appointments:delete:any',
+    'appointments:waive-fee:any',
+    'waitlist:list:any',
+    'waitlist:create:any',
+    'waitlist:update:any',
+    'waitlist:delete:any',
+    'api-keys:list:any',
+    'api-keys:create:any',
+    'api-keys:revoke:any'
+  ]
+};
+
+/**
+ * @function parsePermission
+ * @description Separa un permiso en recurso, acción y alcance
+ * @param permission - Permiso con formato recurso:acción[:alcance]
+ * @returns Partes del permiso
+ */
+export const parsePermission = (permission: Permission | RequiredPermission): ParsedPermission => {
+  const [resource, action, scope] = permission.split(':');
+  return {
+    resource,
+    action,
+    scope: scope ? scope as PermissionScope : undefined
+  };
+};
+
+/**
+ * @constant API_KEY_SCOPES
+ * @description Permisos que se pueden conceder a una API key: los de administrador, salvo
+ * la gestión de las propias API keys.
+ */
+export const API_KEY_SCOPES: Permission[] = ROLE_PERMISSIONS[UserRole.ADMIN]
+  .filter(permission => parsePermission(permission).resource !== 'api-keys');
+
+/**
+ * @function getEffectiveRole
+ * @description Obtiene el rol con el que se evalúan los permisos. Con REQUIRE_2FA_FOR_ADMINS
+ * activo, un ADMIN que no inició sesión con segundo factor solo tiene permisos de cliente.
+ * @param user - Payload del token
+ * @returns Rol efectivo del usuario
+ */
+export const getEffectiveRole = (user: JWTPayload): UserRole => {
+  if (user.role === UserRole.ADMIN && !hasAdminAccess(user)) return UserRole.CUSTOMER;
+  return user.role;
+};
+
+/**
+ * @function getGrantedPermissions
+ * @description Obtiene los permisos concedidos a un usuario: los scopes si se autenticó con
+ * una API key o, si no, los de su rol efectivo
+ * @param user - Payload del token
+ * @returns Permisos concedidos
+ */
+export const getGrantedPermissions = (user: JWTPayload): Permission[] => {
+  if (user.api_key_id) return user.scopes || [];
+  return ROLE_PERMISSIONS[getEffectiveRole(user)];
+};
+
+/**
+ * @function getGrantedScope
+ * @description Obtiene el alcance con el que un usuario tiene un permiso
+ * @param user - Payload del token
+ * @param required - Permiso requerido (recurso:acción)
+ * @returns ANY, OWN o null si el usuario no tiene el permiso
+ */
+export const getGrantedScope = (user: JWTPayload, required: RequiredPermission): PermissionScope | null => {
+  const { resource, action } = parsePermission(required);
+  const granted = getGrantedPermissions(user)
+    .map(parsePermission)
+    .filter(permission => permission.resource === resource && permission.action === action);
+
+  if (granted.some(permission => permission.scope === PermissionScope.ANY)) return PermissionScope.ANY;
+  if (granted.some(permission => permission.scope === PermissionScope.OWN)) return PermissionScope.OWN;
+  return null;
+};
+
+/**
+ * @function isAllowed
+ * @description Indica si un usuario puede realizar una acción. Con alcance own, el
+ * usuario debe ser el propietario del recurso.
+ * @param user - Payload del token (o undefined si no hay autenticación)
+ * @param required - Permiso requerido (recurso:acción)
+ * @param ownerId - ID del propietario del recurso, si aplica
+ * @returns true si el permiso se concede
+ */
+export const isAllowed = (
+  user: JWTPayload | undefined,
+  required: RequiredPermission,
+  ownerId?: string | null
+): boolean => {
+  if (!user) return false;
+
+  const scope = getGrantedScope(user, required);
+  if (scope === PermissionScope.ANY) return true;
+  return scope === PermissionScope.OWN && !!ownerId && ownerId === user.userId;
+};
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { createApiKey, getApiKeys, revokeApiKey } from '../controllers/api-keys.controller';
+import { validateBody, validateParams } from '../middleware/validation.middleware';
+import { requirePermission } from '../middleware/permission.middleware';
+import { createApiKeySchema, apiKeyParamsSchema } from '../schemas/api-keys.schema';
+
+/**
+ * @file Define las rutas para la gestión de API keys de LauraBraids.
+ * @description Endpoints de administración para crear, listar y revocar claves de API
+ *              usadas por integraciones mediante la cabecera X-API-Key.
+ */
+
+const router = Router();
+
+/**
+ * GET /api/api-keys - Listar API keys
+ * @description Retorna las claves con su prefijo, scopes, caducidad, último uso y revocación
+ * @access Solo ADMIN (api-keys:list)
+ */
+router.get('/', requirePermission('api-keys:list'), getApiKeys);
+
+/**
+ * POST /api/api-keys - Crear una API key
+ * @description Genera una clave con scopes; la clave completa solo se muestra en esta respuesta
+ * @body {name, scopes, expires_in_days?}
+ * @access Solo ADMIN (api-keys:create)
+ */
+router.post('/', requirePermission('api-keys:create'), validateBody(createApiKeySchema), createApiKey);
+
+/**
+ * DELETE /api/api-keys/:id - Revocar una API key
+ * @param {string} id - UUID de la clave
+ * @access Solo ADMIN (api-keys:revoke)
+ */
+router.delete('/:id', requirePermission('api-keys:revoke'), validateParams(apiKeyParamsSchema), revokeApiKey);
+
+export default router;
@@ -4,8 +4,51 @@ import {
   getAppointmentById, 
   createAppointment, 
   updateAppointment, 
-  deleteAppointment 
+  deleteAppointment,
+  checkAvailability,
+  changeAppointmentStatus,
+  rescheduleAppointment,
+  getAppointmentHistory,
+  createAppointmentSeries,
+  cancelAppointmentSeries
 } from '../controllers/appointments.controller';
+import {
+  joinWaitlist,
+  getWaitlist,
+  leaveWaitlist,
+  acceptWaitlistOffer,
+  declineWaitlistOffer
+} from '../controllers/waitlist.controller';
+import { getServiceAddOns, getPriceQuote } from '../controllers/pricing.controller';
+import { authenticateToken, requireVerifiedEmail, AuthenticatedRequest } from '../middleware/auth.middleware';
+import {
+  requirePermission,
+  requireFieldPermission,
+  requirePermissionWhen
+} from '../middleware/permission.middleware';
+import { resolveAppointmentStylist } from '../policies/owners.policy';
+import { AppointmentStatus } from '../interfaces/appointment.interface';
+import { REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS } from '../config/auth.config';
+import {
+  validateBody,
+  validateParams,
+  validateQuery
+} from '../middleware/validation.middleware';
+import {
+  checkAvailabilitySchema,
+  appointmentParamsSchema,
+  changeAppointmentStatusSchema,
+  rescheduleAppointmentSchema,
+  createAppointmentSeriesSchema,
+  cancelAppointmentSeriesSchema,
+  seriesParamsSchema,
+  priceQuoteQuerySchema
+} from '../schemas/appointments.schema';
+import {
+  joinWaitlistSchema,
+  getWaitlistQuerySchema,
+  waitlistParamsSchema
+} from '../schemas/waitlist.schema';
 
 /**
  * @file Define las rutas para la gestión de citas del sistema LauraBraids.
@@ -15,6 +58,17 @@ import {
 
 const router = Router();
 
+// Cancelar con status usa appointments:cancel; el resto de estados (confirmar, empezar,
+// completar o marcar NO_SHOW) requiere appointments:set-status: la STYLIST asignada o ADMIN
+const cancelsAppointment = (req: AuthenticatedRequest): boolean =>
+  req.body?.status === AppointmentStatus.CANCELLED;
+const setsAppointmentStatus = (req: AuthenticatedRequest): boolean =>
+  req.body?.status !== undefined && !cancelsAppointment(req);
+const requireStatusPermissions = [
+  requirePermissionWhen(cancelsAppointment, 'appointments:cancel'),
+  requirePermissionWhen(setsAppointmentStatus, 'appointments:set-status', resolveAppointmentStylist)
+];
+
 // Definición de las rutas para citas
 
 /**
@@ -24,41 +78,245 @@ const router = Router();
  * @query {string} stylist_id - Filtrar por estilista (?stylist_id=uuid)
  * @query {string} status - Filtrar por estado (?status=SCHEDULED)
  * @query {string} date - Filtrar por fecha (?date=2024-07-15)
- * @access Según usuario (propio o ADMIN)
+ * @query {string} series_id - Filtrar por serie recurrente (?series_id=uuid)
+ * @access Usuarios autenticados: cada cliente ve sus citas, una STYLIST las que tiene asignadas
+ *         y ADMIN todas (appointments:list)
+ */
+router.get('/', requirePermission('appointments:list'), getAppointments);
+
+/**
+ * GET /api/appointments/availability - Consultar disponibilidad de una estilista
+ * @description Retorna los horarios libres de una estilista en una fecha, según su
+ *              horario laboral, sus citas existentes y la duración solicitada (404 si la estilista no existe)
+ * @query {string} stylist_id - UUID de la estilista
+ * @query {string} date - Fecha a consultar (YYYY-MM-DD)
+ * @query {number} duration - Duración en minutos (por defecto 60)
+ * @access Público
+ */
+router.get('/availability', validateQuery(checkAvailabilitySchema), checkAvailability);
+
+/**
+ * GET /api/appointments/add-ons - Catálogo de servicios adicionales
+ * @description Retorna los servicios adicionales activos que se pueden añadir a una cita
+ * @access Público
+ */
+router.get('/add-ons', getServiceAddOns);
+
+/**
+ * GET /api/appointments/price-quote - Calcular el precio de una cita
+ * @description Retorna el desglose del precio sin reservar: precio base del estilo, precio
+ *              personalizado de la estilista (si existe) y servicios adicionales
+ * @query {string} style_id - UUID del estilo
+ * @query {string} stylist_id - UUID de la estilista
+ * @query {string} add_on_ids - UUIDs de servicios adicionales separados por comas (opcional)
+ * @access Público
  */
-router.get('/', getAppointments);
+router.get('/price-quote', validateQuery(priceQuoteQuerySchema), getPriceQuote);
+
+/**
+ * GET /api/appointments/waitlist - Consultar la lista de espera
+ * @description Retorna las solicitudes en orden de llegada. Antes de responder marca como
+ *              vencidas las ofertas sin respuesta y ofrece sus horarios a la siguiente solicitud
+ * @query {string} user_id - Filtrar por cliente (?user_id=uuid)
+ * @query {string} stylist_id - Filtrar por estilista (?stylist_id=uuid)
+ * @query {string} status - Filtrar por estado (?status=OFFERED)
+ * @access Usuarios autenticados: cada cliente ve sus solicitudes; ADMIN ve todas (waitlist:list)
+ */
+router.get('/waitlist', authenticateToken, validateQuery(getWaitlistQuerySchema), getWaitlist);
+
+/**
+ * POST /api/appointments/waitlist - Inscribirse en la lista de espera
+ * @description Registra el interés de un cliente por una estilista, un estilo y un rango
+ *              de fechas. Cuando se cancela una cita que encaja, el cliente recibe una oferta
+ *              con el horario reservado durante WAITLIST_HOLD_MINUTES
+ * @body {user_id, stylist_id, style_id, earliest_date, latest_date, notes?}
+ * @access Propio cliente (user_id) o ADMIN (waitlist:create), con email verificado si
+ *         REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS
+ */
+router.post(
+  '/waitlist',
+  requirePermission('waitlist:create'),
+  requireVerifiedEmail(REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS),
+  validateBody(joinWaitlistSchema),
+  joinWaitlist
+);
+
+/**
+ * POST /api/appointments/waitlist/:id/accept - Aceptar una oferta de la lista de espera
+ * @description Crea la cita en el horario reservado. Responde 410 si la oferta ya venció
+ * @param {string} id - UUID de la solicitud
+ * @access Cliente de la solicitud o ADMIN (waitlist:update), con email verificado si
+ *         REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS
+ */
+router.post(
+  '/waitlist/:id/accept',
+  requirePermission('waitlist:update'),
+  requireVerifiedEmail(REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS),
+  validateParams(waitlistParamsSchema),
+  acceptWaitlistOffer
+);
+
+/**
+ * POST /api/appointments/waitlist/:id/decline - Rechazar una oferta de la lista de espera
+ * @description Libera el horario reservado y lo ofrece a la siguiente solicitud
+ * @param {string} id - UUID de la solicitud
+ * @access Cliente de la solicitud o ADMIN (waitlist:update)
+ */
+router.post(
+  '/waitlist/:id/decline',
+  requirePermission('waitlist:update'),
+  validateParams(waitlistParamsSchema),
+  declineWaitlistOffer
+);
+
+/**
+ * DELETE /api/appointments/waitlist/:id - Salir de la lista de espera
+ * @description Cancela la solicitud. Si tenía una oferta vigente, el horario pasa a la siguiente
+ * @param {string} id - UUID de la solicitud
+ * @access Cliente de la solicitud o ADMIN (waitlist:delete)
+ */
+router.delete(
+  '/waitlist/:id',
+  requirePermission('waitlist:delete'),
+  validateParams(waitlistParamsSchema),
+  leaveWaitlist
+);
 
 /**
  * GET /api/appointments/:id - Obtener una cita por ID
  * @description Retorna datos completos de una cita específica
  * @param {string} id - UUID de la cita
- * @access Participantes de la cita o ADMIN
+ * @access Cliente o STYLIST asignada de la cita, o ADMIN (appointments:read)
  */
-router.get('/:id', getAppointmentById);
+router.get('/:id', requirePermission('appointments:read'), getAppointmentById);
+
+/**
+ * GET /api/appointments/:id/history - Historial de reprogramaciones de una cita
+ * @description Retorna los cambios de fecha de la cita (fecha anterior, nueva fecha,
+ *              motivo y autor) junto con el número total de cambios
+ * @param {string} id - UUID de la cita
+ * @access Cliente o STYLIST asignada de la cita, o ADMIN (appointments:read)
+ */
+router.get(
+  '/:id/history',
+  requirePermission('appointments:read'),
+  validateParams(appointmentParamsSchema),
+  getAppointmentHistory
+);
 
 /**
  * POST /api/appointments - Crear una nueva cita
- * @description Reserva una nueva cita en el sistema
- * @body {user_id, stylist_id, style_id, appointment_date, notes?}
- * @access Cliente autenticado
+ * @description Reserva una nueva cita en el sistema. El precio se calcula en el servidor
+ *              y se devuelve con su desglose en price_breakdown
+ * @body {user_id, stylist_id, style_id, appointment_date, add_on_ids?, notes?}
+ * @access Propio cliente (user_id) o ADMIN (appointments:create), con email verificado si
+ *         REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS
+ */
+router.post(
+  '/',
+  requirePermission('appointments:create'),
+  requireVerifiedEmail(REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS),
+  createAppointment
+);
+
+/**
+ * POST /api/appointments/series - Reservar una serie recurrente de citas
+ * @description Crea una cita cada interval_weeks semanas hasta completar occurrences o
+ *              llegar a end_date. Cada cita se comprueba por separado y las fechas que no
+ *              se pueden reservar se devuelven en failed
+ * @body {user_id, stylist_id, style_id, first_appointment_date, interval_weeks, occurrences?, end_date?, add_on_ids?, notes?}
+ * @access Propio cliente (user_id) o ADMIN (appointments:create), con email verificado si
+ *         REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS
  */
-router.post('/', createAppointment);
+router.post(
+  '/series',
+  requirePermission('appointments:create'),
+  requireVerifiedEmail(REQUIRE_VERIFIED_EMAIL_FOR_BOOKINGS),
+  validateBody(createAppointmentSeriesSchema),
+  createAppointmentSeries
+);
+
+/**
+ * POST /api/appointments/series/:seriesId/cancel - Cancelar citas de una serie
+ * @description Cancela una cita (THIS), una cita y las siguientes (THIS_AND_FOLLOWING)
+ *              o toda la serie (ALL), aplicando la política de cancelación a cada una
+ * @param {string} seriesId - UUID de la serie
+ * @body {scope, appointment_id?, reason, waive_fee?}
+ * @access Cliente o STYLIST asignada de la serie, o ADMIN (appointments:cancel;
+ *         waive_fee requiere appointments:waive-fee)
+ */
+router.post(
+  '/series/:seriesId/cancel',
+  requirePermission('appointments:cancel'),
+  validateParams(seriesParamsSchema),
+  validateBody(cancelAppointmentSeriesSchema),
+  requireFieldPermission('waive_fee', 'appointments:waive-fee'),
+  cancelAppointmentSeries
+);
 
 /**
  * PUT /api/appointments/:id - Actualizar una cita existente
- * @description Actualiza datos de una cita específica
+ * @description Actualiza el estado o las notas de una cita. La fecha no se cambia aquí:
+ *              enviar appointment_date devuelve 400 y hay que usar /:id/reschedule
+ * @param {string} id - UUID de la cita
+ * @body {status?, reason?, notes?, waive_fee?}
+ * @access Cliente o STYLIST asignada de la cita, o ADMIN (appointments:update; status CANCELLED
+ *         requiere appointments:cancel, otro status appointments:set-status y waive_fee
+ *         appointments:waive-fee)
+ */
+router.put(
+  '/:id',
+  requirePermission('appointments:update'),
+  ...requireStatusPermissions,
+  requireFieldPermission('waive_fee', 'appointments:waive-fee'),
+  updateAppointment
+);
+
+/**
+ * PATCH /api/appointments/:id/status - Cambiar el estado de una cita
+ * @description Aplica una transición de estado permitida (p. ej. SCHEDULED → CONFIRMED).
+ *              Cancelar requiere un motivo y registra la fecha de cancelación. Cancelar
+ *              fuera de la ventana gratuita o marcar NO_SHOW genera una penalización,
+ *              que solo un ADMIN puede exonerar con waive_fee
+ * @param {string} id - UUID de la cita
+ * @body {status, reason?, waive_fee?}
+ * @access Cliente o STYLIST asignada de la cita, o ADMIN (appointments:update). El cliente solo
+ *         puede cancelar (appointments:cancel); los demás estados son de la STYLIST asignada o
+ *         ADMIN (appointments:set-status). waive_fee requiere appointments:waive-fee
+ */
+router.patch(
+  '/:id/status',
+  requirePermission('appointments:update'),
+  validateParams(appointmentParamsSchema),
+  validateBody(changeAppointmentStatusSchema),
+  ...requireStatusPermissions,
+  requireFieldPermission('waive_fee', 'appointments:waive-fee'),
+  changeAppointmentStatus
+);
+
+/**
+ * POST /api/appointments/:id/reschedule - Reprogramar una cita
+ * @description Mueve la cita a una nueva fecha conservando su duración. Revisa el horario
+ *              laboral y los solapamientos, y registra el cambio en el historial
  * @param {string} id - UUID de la cita
- * @body {appointment_date?, status?, notes?}
- * @access Participantes de la cita o ADMIN
+ * @body {new_appointment_date, reason}
+ * @access Cliente o STYLIST asignada de la cita, o ADMIN (appointments:reschedule)
  */
-router.put('/:id', updateAppointment);
+router.post(
+  '/:id/reschedule',
+  requirePermission('appointments:reschedule'),
+  validateParams(appointmentParamsSchema),
+  validateBody(rescheduleAppointmentSchema),
+  rescheduleAppointment
+);
 
 /**
  * DELETE /api/appointments/:id - Eliminar una cita
- * @description Elimina permanentemente una cita del sistema
+ * @description Elimina permanentemente una cita del sistema junto con sus penalizaciones;
+ *              el cliente o la estilista la cancelan en su lugar
  * @param {string} id - UUID de la cita
- * @access Participantes de la cita o ADMIN
+ * @access Solo ADMIN (appointments:delete)
  */
-router.delete('/:id', deleteAppointment);
+router.delete('/:id', requirePermission('appointments:delete'), deleteAppointment);
 
 export default router;
\ No newline at end of file
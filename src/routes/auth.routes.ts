@@ -10,11 +10,25 @@ import {
   register,
   getProfile,
   changePassword,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
   logout,
-  refreshToken
+  logoutAll,
+  getSessions,
+  refreshToken,
+  completeTwoFactorLogin
 } from '../controllers/auth.controller';
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  verifyTwoFactorSetup,
+  disableTwoFactor
+} from '../controllers/two-factor.controller';
 import { 
-  validateBody 
+  validateBody,
+  validateQuery
 } from '../middleware/validation.middleware';
 import {
   requireAuth
@@ -22,7 +36,15 @@ import {
 import {
   loginSchema,
   registerSchema,
-  changePasswordSchema
+  changePasswordSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailQuerySchema,
+  refreshTokenSchema,
+  logoutSchema,
+  verifyTwoFactorSchema,
+  disableTwoFactorSchema,
+  twoFactorLoginSchema
 } from '../schemas/auth.schema';
 
 const router = Router();
@@ -34,16 +56,60 @@ const router = Router();
  * @description Autentica un usuario con email y contraseña
  * @body {email, password}
  * @access Público
- * @returns {token, user, expires_in}
+ * @returns {token, user, expires_in, refresh_token, refresh_expires_in}
  */
 router.post('/login', validateBody(loginSchema), login);
 
+/**
+ * POST /api/auth/2fa/login - Segundo paso del login
+ * @description Completa el login de una cuenta con segundo factor usando el reto devuelto
+ *              por /login y un código TOTP o de recuperación
+ * @body {challengeToken, code? | recoveryCode?}
+ * @access Público
+ * @returns {token, user, expires_in, refresh_token, refresh_expires_in}
+ */
+router.post('/2fa/login', validateBody(twoFactorLoginSchema), completeTwoFactorLogin);
+
+/**
+ * GET /api/auth/2fa - Estado del segundo factor
+ * @description Indica si el segundo factor está activo y cuántos códigos de recuperación quedan
+ * @access Privado (requiere token JWT)
+ * @returns {enabled, enabled_at, recovery_codes_remaining, required}
+ */
+router.get('/2fa', requireAuth, getTwoFactorStatus);
+
+/**
+ * POST /api/auth/2fa/setup - Iniciar activación del segundo factor
+ * @description Genera un secreto TOTP y la URI otpauth para la app de autenticación
+ * @access Privado (requiere token JWT)
+ * @returns {secret, otpauth_uri}
+ */
+router.post('/2fa/setup', requireAuth, setupTwoFactor);
+
+/**
+ * POST /api/auth/2fa/verify - Confirmar activación del segundo factor
+ * @description Activa el segundo factor con un primer código y devuelve los códigos de recuperación
+ * @body {code}
+ * @access Privado (requiere token JWT)
+ * @returns {recovery_codes}
+ */
+router.post('/2fa/verify', requireAuth, validateBody(verifyTwoFactorSchema), verifyTwoFactorSetup);
+
+/**
+ * POST /api/auth/2fa/disable - Desactivar el segundo factor
+ * @description Desactiva el segundo factor con la contraseña y un código TOTP o de recuperación
+ * @body {password, code? | recoveryCode?}
+ * @access Privado (requiere token JWT)
+ * @returns {message}
+ */
+router.post('/2fa/disable', requireAuth, validateBody(disableTwoFactorSchema), disableTwoFactor);
+
 /**
  * POST /api/auth/register - Registrar nuevo usuario
  * @description Crea una nueva cuenta de usuario en el sistema
  * @body {name, email, password, role?}
  * @access Público
- * @returns {token, user, expires_in}
+ * @returns {token, user, expires_in, refresh_token, refresh_expires_in}
  */
 router.post('/register', validateBody(registerSchema), register);
 
@@ -64,20 +130,78 @@ router.get('/profile', requireAuth, getProfile);
  */
 router.put('/change-password', requireAuth, validateBody(changePasswordSchema), changePassword);
 
+/**
+ * GET /api/auth/verify-email - Verificar email
+ * @description Marca el email como verificado con el token del enlace enviado al registrarse
+ * @query {token}
+ * @access Público
+ * @returns {email_verified_at}
+ */
+router.get('/verify-email', validateQuery(verifyEmailQuerySchema), verifyEmail);
+
+/**
+ * POST /api/auth/resend-verification - Reenviar enlace de verificación
+ * @description Envía un nuevo enlace de verificación. Limitado por tiempo de espera entre
+ *              envíos y por un máximo de envíos por hora
+ * @access Privado (requiere token JWT)
+ * @returns {message}
+ */
+router.post('/resend-verification', requireAuth, resendVerificationEmail);
+
+/**
+ * POST /api/auth/forgot-password - Solicitar recuperación de contraseña
+ * @description Envía por correo un enlace de un solo uso para restablecer la contraseña.
+ *              Responde igual exista o no el email
+ * @body {email}
+ * @access Público
+ * @returns {message}
+ */
+router.post('/forgot-password', validateBody(forgotPasswordSchema), forgotPassword);
+
+/**
+ * POST /api/auth/reset-password - Restablecer contraseña
+ * @description Cambia la contraseña con el token recibido por correo y cierra todas
+ *              las sesiones del usuario
+ * @body {token, newPassword, confirmPassword}
+ * @access Público
+ * @returns {message}
+ */
+router.post('/reset-password', validateBody(resetPasswordSchema), resetPassword);
+
 /**
  * POST /api/auth/logout - Cerrar sesión
- * @description Cierra la sesión del usuario (principalmente del lado del cliente)
+ * @description Cierra la sesión del usuario revocando el token de acceso actual. Si se envía
+ *              el token de refresco, su sesión queda revocada y ya no puede renovarse
+ * @body {refreshToken?}
  * @access Privado (requiere token JWT)
  * @returns {message}
  */
-router.post('/logout', requireAuth, logout);
+router.post('/logout', requireAuth, validateBody(logoutSchema), logout);
+
+/**
+ * POST /api/auth/logout-all - Cerrar sesión en todos los dispositivos
+ * @description Revoca todas las sesiones del usuario autenticado
+ * @access Privado (requiere token JWT)
+ * @returns {revoked_sessions}
+ */
+router.post('/logout-all', requireAuth, logoutAll);
+
+/**
+ * GET /api/auth/sessions - Sesiones activas
+ * @description Lista las sesiones vigentes del usuario (dispositivo, IP, creación y expiración)
+ * @access Privado (requiere token JWT)
+ * @returns {sessions}
+ */
+router.get('/sessions', requireAuth, getSessions);
 
 /**
  * POST /api/auth/refresh - Refrescar token
- * @description Genera un nuevo token JWT para el usuario autenticado
- * @access Privado (requiere token JWT válido)
- * @returns {token, user, expires_in}
+ * @description Renueva la sesión con el token de refresco. El token se rota en cada uso;
+ *              reutilizar uno ya rotado revoca todas las sesiones del usuario
+ * @body {refreshToken}
+ * @access Público (requiere token de refresco válido)
+ * @returns {token, user, expires_in, refresh_token, refresh_expires_in}
  */
-router.post('/refresh', requireAuth, refreshToken);
+router.post('/refresh', validateBody(refreshTokenSchema), refreshToken);
 
 export default router;
\ No newline at end of file
@@ -6,20 +6,23 @@ import {
   getOrderById, 
   getOrderWithItems,
   createOrder, 
+  quoteOrder,
   updateOrder,
-  cancelOrder 
+  cancelOrder,
+  getOrderHistory
 } from '../controllers/orders.controller';
 import { 
   validateBody, 
   validateParams 
 } from '../middleware/validation.middleware';
-import {
-  requireAuth,
-  requireAdmin
-} from '../middleware/auth.middleware';
+import { authenticateToken, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { requirePermission, requireFieldPermission } from '../middleware/permission.middleware';
+import { REQUIRE_VERIFIED_EMAIL_FOR_ORDERS } from '../config/auth.config';
 import {
   createOrderSchema,
+  quoteOrderSchema,
   updateOrderSchema,
+  cancelOrderSchema,
   orderParamsSchema,
   customerParamsSchema
 } from '../schemas/orders.schema';
@@ -38,32 +41,53 @@ const router = Router();
 /**
  * GET /api/orders - Obtener todos los pedidos
  * @description Retorna lista completa de pedidos (solo administradores)
- * @access Solo ADMIN
+ * @access Solo ADMIN (orders:list)
  */
-router.get('/', requireAdmin, getOrders);
+router.get('/', requirePermission('orders:list'), getOrders);
 
 /**
  * GET /api/orders/summaries - Obtener resúmenes de pedidos
  * @description Retorna lista de resúmenes de pedidos para dashboard administrativo
- * @access Solo ADMIN
+ * @access Solo ADMIN (orders:list)
  */
-router.get('/summaries', requireAdmin, getOrderSummaries);
+router.get('/summaries', requirePermission('orders:list'), getOrderSummaries);
 
 /**
  * GET /api/orders/customer/:customerId - Obtener pedidos de un cliente
  * @description Retorna lista de pedidos de un cliente específico
  * @param {string} customerId - UUID del cliente
- * @access Propio cliente o ADMIN
+ * @access Propio cliente o ADMIN (orders:read)
  */
-router.get('/customer/:customerId', requireAuth, validateParams(customerParamsSchema), getCustomerOrders);
+router.get(
+  '/customer/:customerId',
+  requirePermission('orders:read'),
+  validateParams(customerParamsSchema),
+  getCustomerOrders
+);
 
 /**
  * POST /api/orders - Crear un nuevo pedido
  * @description Crea un nuevo pedido con sus items
- * @body {customer_id, items[], shipping_address?, billing_address?, payment_method?}
- * @access Usuario autenticado
+ * @body {customer_id, items[], shipping_address?, shipping_country?, shipping_region?, shipping_method_id?,
+ *        billing_address?, payment_method?}
+ * @access Propio cliente o ADMIN (orders:create), con email verificado si REQUIRE_VERIFIED_EMAIL_FOR_ORDERS
+ */
+router.post(
+  '/',
+  requirePermission('orders:create'),
+  requireVerifiedEmail(REQUIRE_VERIFIED_EMAIL_FOR_ORDERS),
+  validateBody(createOrderSchema),
+  createOrder
+);
+
+/**
+ * POST /api/orders/quote - Presupuestar un carrito
+ * @description Retorna subtotal, impuestos y las opciones de envío disponibles con el total
+ *              de cada una, sin crear el pedido ni reservar stock
+ * @body {items[], shipping_country?, shipping_region?}
+ * @access Usuarios autenticados
  */
-router.post('/', requireAuth, validateBody(createOrderSchema), createOrder);
+router.post('/quote', authenticateToken, validateBody(quoteOrderSchema), quoteOrder);
 
 // Rutas con parámetros VAN AL FINAL para evitar conflictos
 
@@ -71,33 +95,58 @@ router.post('/', requireAuth, validateBody(createOrderSchema), createOrder);
  * GET /api/orders/:id - Obtener un pedido por ID
  * @description Retorna datos básicos de un pedido específico
  * @param {string} id - UUID del pedido
- * @access Propietario del pedido o ADMIN
+ * @access Propietario del pedido o ADMIN (orders:read)
  */
-router.get('/:id', requireAuth, validateParams(orderParamsSchema), getOrderById);
+router.get('/:id', requirePermission('orders:read'), validateParams(orderParamsSchema), getOrderById);
 
 /**
  * GET /api/orders/:id/items - Obtener un pedido con sus items
  * @description Retorna un pedido completo con todos sus items
  * @param {string} id - UUID del pedido
- * @access Propietario del pedido o ADMIN
+ * @access Propietario del pedido o ADMIN (orders:read)
+ */
+router.get('/:id/items', requirePermission('orders:read'), validateParams(orderParamsSchema), getOrderWithItems);
+
+/**
+ * GET /api/orders/:id/history - Historial de estados de un pedido
+ * @description Retorna cada cambio de estado con quién lo hizo, cuándo y su nota
+ * @param {string} id - UUID del pedido
+ * @access Propietario del pedido o ADMIN (orders:read)
  */
-router.get('/:id/items', requireAuth, validateParams(orderParamsSchema), getOrderWithItems);
+router.get('/:id/history', requirePermission('orders:read'), validateParams(orderParamsSchema), getOrderHistory);
 
 /**
  * PUT /api/orders/:id - Actualizar un pedido existente
- * @description Actualiza datos de un pedido específico
+ * @description Actualiza datos de un pedido específico; el estado sigue las transiciones permitidas
+ *              y el estado de pago de un pedido cancelado lo fija la cancelación
  * @param {string} id - UUID del pedido
- * @body {status?, shipping_address?, billing_address?, payment_method?, payment_status?}
- * @access Solo ADMIN (clientes solo pueden cancelar)
+ * @body {status?, note?, shipping_address?, billing_address?, payment_method?, payment_status?}
+ * @access Propietario del pedido o ADMIN (orders:update; el propietario solo puede cancelarlo;
+ *         payment_status requiere orders:update-payment)
  */
-router.put('/:id', requireAuth, validateParams(orderParamsSchema), validateBody(updateOrderSchema), updateOrder);
+router.put(
+  '/:id',
+  requirePermission('orders:update'),
+  validateParams(orderParamsSchema),
+  validateBody(updateOrderSchema),
+  requireFieldPermission('payment_status', 'orders:update-payment'),
+  updateOrder
+);
 
 /**
  * POST /api/orders/:id/cancel - Cancelar un pedido
- * @description Cancela un pedido específico (cambia estado a CANCELLED)
+ * @description Cancela un pedido específico (cambia estado a CANCELLED), devuelve el stock
+ *              y marca el pago como reembolsado o fallido
  * @param {string} id - UUID del pedido
- * @access Propietario del pedido o ADMIN
+ * @body {reason?}
+ * @access Propietario del pedido pendiente o ADMIN (orders:cancel)
  */
-router.post('/:id/cancel', requireAuth, validateParams(orderParamsSchema), cancelOrder);
+router.post(
+  '/:id/cancel',
+  requirePermission('orders:cancel'),
+  validateParams(orderParamsSchema),
+  validateBody(cancelOrderSchema),
+  cancelOrder
+);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import {
+  getShippingMethods,
+  getShippingMethodById,
+  createShippingMethod,
+  updateShippingMethod,
+  deleteShippingMethod
+} from '../controllers/shipping-methods.controller';
+import { validateBody, validateParams } from '../middleware/validation.middleware';
+import { requirePermission } from '../middleware/permission.middleware';
+import {
+  createShippingMethodSchema,
+  updateShippingMethodSchema,
+  shippingMethodParamsSchema
+} from '../schemas/shipping-methods.schema';
+
+/**
+ * @file Define las rutas para la gestión de métodos de envío de LauraBraids.
+ * @description Endpoints de administración para los métodos de envío y sus tarifas por
+ *              zona que se aplican al presupuestar y crear pedidos.
+ */
+
+const router = Router();
+
+/**
+ * GET /api/shipping-methods - Listar métodos de envío
+ * @access Solo ADMIN (shipping-methods:list)
+ */
+router.get('/', requirePermission('shipping-methods:list'), getShippingMethods);
+
+/**
+ * POST /api/shipping-methods - Crear un método de envío
+ * @body {name, kind, rate_basis?, zones[], is_active?}
+ * @access Solo ADMIN (shipping-methods:create)
+ */
+router.post(
+  '/',
+  requirePermission('shipping-methods:create'),
+  validateBody(createShippingMethodSchema),
+  createShippingMethod
+);
+
+/**
+ * GET /api/shipping-methods/:id - Obtener un método de envío
+ * @param {string} id - UUID del método
+ * @access Solo ADMIN (shipping-methods:list)
+ */
+router.get(
+  '/:id',
+  requirePermission('shipping-methods:list'),
+  validateParams(shippingMethodParamsSchema),
+  getShippingMethodById
+);
+
+/**
+ * PUT /api/shipping-methods/:id - Actualizar un método de envío
+ * @param {string} id - UUID del método
+ * @body {name?, kind?, rate_basis?, zones?, is_active?}
+ * @access Solo ADMIN (shipping-methods:update)
+ */
+router.put(
+  '/:id',
+  requirePermission('shipping-methods:update'),
+  validateParams(shippingMethodParamsSchema),
+  validateBody(updateShippingMethodSchema),
+  updateShippingMethod
+);
+
+/**
+ * DELETE /api/shipping-methods/:id - Eliminar un método de envío
+ * @param {string} id - UUID del método
+ * @access Solo ADMIN (shipping-methods:delete)
+ */
+router.delete(
+  '/:id',
+  requirePermission('shipping-methods:delete'),
+  validateParams(shippingMethodParamsSchema),
+  deleteShippingMethod
+);
+
+export default router;
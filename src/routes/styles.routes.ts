@@ -36,7 +36,7 @@ router.get('/:id', getStyleById);
 /**
  * POST /api/styles - Crear un nuevo estilo
  * @description Registra un nuevo estilo en el catálogo
- * @body {name, photo_url?, description, category}
+ * @body {name, photo_url?, description, category, base_price?, estimated_duration_minutes?}
  * @access Solo ADMIN
  */
 router.post('/', createStyle);
@@ -45,7 +45,7 @@ router.post('/', createStyle);
  * PUT /api/styles/:id - Actualizar un estilo existente
  * @description Actualiza datos de un estilo específico
  * @param {string} id - UUID del estilo
- * @body {name?, photo_url?, description?, category?}
+ * @body {name?, photo_url?, description?, category?, base_price?, estimated_duration_minutes?}
  * @access Solo ADMIN
  */
 router.put('/:id', updateStyle);
@@ -6,15 +6,42 @@ import {
   updateStylist, 
   deleteStylist 
 } from '../controllers/stylists.controller';
+import {
+  getStylistTimeSlots,
+  getAvailableStylists
+} from '../controllers/appointments.controller';
+import {
+  getStylistSchedule,
+  replaceStylistWorkingHours,
+  resetStylistWorkingHours,
+  createStylistBreak,
+  updateStylistBreak,
+  deleteStylistBreak,
+  createStylistTimeOff,
+  updateStylistTimeOff,
+  deleteStylistTimeOff
+} from '../controllers/schedules.controller';
 import { 
   validateBody, 
-  validateParams 
+  validateParams,
+  validateQuery
 } from '../middleware/validation.middleware';
 import {
   createStylistSchema,
   updateStylistSchema,
-  stylistParamsSchema
+  stylistParamsSchema,
+  stylistAvailabilityQuerySchema
 } from '../schemas/stylists.schema';
+import { stylistTimeSlotsQuerySchema } from '../schemas/appointments.schema';
+import { requirePermission, requireFieldPermission } from '../middleware/permission.middleware';
+import {
+  replaceWorkingHoursSchema,
+  createBreakSchema,
+  updateBreakSchema,
+  createTimeOffSchema,
+  updateTimeOffSchema,
+  scheduleItemParamsSchema
+} from '../schemas/schedules.schema';
 
 /**
  * @file Define las rutas para la gestión de estilistas del sistema LauraBraids.
@@ -34,6 +61,16 @@ const router = Router();
  */
 router.get('/', getStylists);
 
+/**
+ * GET /api/stylists/available - Estilistas libres en una fecha
+ * @description Con hora, retorna las estilistas que atienden y no tienen citas en ese momento;
+ *              sin hora, las que tienen algún horario libre ese día
+ * @query {string} date - Fecha a consultar (YYYY-MM-DD)
+ * @query {string} time - Hora opcional (HH:MM)
+ * @access Público
+ */
+router.get('/available', validateQuery(stylistAvailabilityQuerySchema), getAvailableStylists);
+
 /**
  * GET /api/stylists/:id - Obtener una estilista por ID
  * @description Retorna datos completos de una estilista específica
@@ -42,29 +79,174 @@ router.get('/', getStylists);
  */
 router.get('/:id', validateParams(stylistParamsSchema), getStylistById);
 
+/**
+ * GET /api/stylists/:id/slots - Obtener horarios libres de una estilista
+ * @description Retorna los horarios de inicio disponibles para una fecha y duración (404 si la estilista no existe)
+ * @param {string} id - UUID de la estilista
+ * @query {string} date - Fecha a consultar (YYYY-MM-DD)
+ * @query {number} duration - Duración en minutos (por defecto 60)
+ * @access Público
+ */
+router.get(
+  '/:id/slots',
+  validateParams(stylistParamsSchema),
+  validateQuery(stylistTimeSlotsQuerySchema),
+  getStylistTimeSlots
+);
+
+/**
+ * GET /api/stylists/:id/schedule - Obtener el horario de una estilista
+ * @description Retorna la plantilla semanal (o el horario del salón si no tiene una),
+ *              los descansos recurrentes y los bloqueos de fechas
+ * @param {string} id - UUID de la estilista
+ * @access Público
+ */
+router.get('/:id/schedule', validateParams(stylistParamsSchema), getStylistSchedule);
+
+/**
+ * PUT /api/stylists/:id/schedule/hours - Reemplazar la plantilla semanal
+ * @description Define los días y horas de trabajo. Los días omitidos son no laborables
+ * @param {string} id - UUID de la estilista
+ * @body {hours: [{day_of_week, start_time, end_time}]}
+ * @access Solo ADMIN o la propia estilista (stylists:schedule)
+ */
+router.put(
+  '/:id/schedule/hours',
+  requirePermission('stylists:schedule'),
+  validateParams(stylistParamsSchema),
+  validateBody(replaceWorkingHoursSchema),
+  replaceStylistWorkingHours
+);
+
+/**
+ * DELETE /api/stylists/:id/schedule/hours - Eliminar la plantilla semanal
+ * @description La estilista vuelve a usar el horario por defecto del salón
+ * @param {string} id - UUID de la estilista
+ * @access Solo ADMIN o la propia estilista (stylists:schedule)
+ */
+router.delete(
+  '/:id/schedule/hours',
+  requirePermission('stylists:schedule'),
+  validateParams(stylistParamsSchema),
+  resetStylistWorkingHours
+);
+
+/**
+ * POST /api/stylists/:id/schedule/breaks - Crear un descanso recurrente
+ * @description Bloquea una franja horaria todas las semanas en el día indicado
+ * @param {string} id - UUID de la estilista
+ * @body {day_of_week, start_time, end_time, label?}
+ * @access Solo ADMIN o la propia estilista (stylists:schedule)
+ */
+router.post(
+  '/:id/schedule/breaks',
+  requirePermission('stylists:schedule'),
+  validateParams(stylistParamsSchema),
+  validateBody(createBreakSchema),
+  createStylistBreak
+);
+
+/**
+ * PUT /api/stylists/:id/schedule/breaks/:itemId - Actualizar un descanso recurrente
+ * @param {string} id - UUID de la estilista
+ * @param {string} itemId - UUID del descanso
+ * @body {day_of_week?, start_time?, end_time?, label?}
+ * @access Solo ADMIN o la propia estilista (stylists:schedule)
+ */
+router.put(
+  '/:id/schedule/breaks/:itemId',
+  requirePermission('stylists:schedule'),
+  validateParams(scheduleItemParamsSchema),
+  validateBody(updateBreakSchema),
+  updateStylistBreak
+);
+
+/**
+ * DELETE /api/stylists/:id/schedule/breaks/:itemId - Eliminar un descanso recurrente
+ * @param {string} id - UUID de la estilista
+ * @param {string} itemId - UUID del descanso
+ * @access Solo ADMIN o la propia estilista (stylists:schedule)
+ */
+router.delete(
+  '/:id/schedule/breaks/:itemId',
+  requirePermission('stylists:schedule'),
+  validateParams(scheduleItemParamsSchema),
+  deleteStylistBreak
+);
+
+/**
+ * POST /api/stylists/:id/schedule/time-off - Crear un bloqueo de fechas
+ * @description Registra vacaciones o ausencias en las que la estilista no atiende
+ * @param {string} id - UUID de la estilista
+ * @body {start_date, end_date, reason?}
+ * @access Solo ADMIN o la propia estilista (stylists:schedule)
+ */
+router.post(
+  '/:id/schedule/time-off',
+  requirePermission('stylists:schedule'),
+  validateParams(stylistParamsSchema),
+  validateBody(createTimeOffSchema),
+  createStylistTimeOff
+);
+
+/**
+ * PUT /api/stylists/:id/schedule/time-off/:itemId - Actualizar un bloqueo de fechas
+ * @param {string} id - UUID de la estilista
+ * @param {string} itemId - UUID del bloqueo
+ * @body {start_date?, end_date?, reason?}
+ * @access Solo ADMIN o la propia estilista (stylists:schedule)
+ */
+router.put(
+  '/:id/schedule/time-off/:itemId',
+  requirePermission('stylists:schedule'),
+  validateParams(scheduleItemParamsSchema),
+  validateBody(updateTimeOffSchema),
+  updateStylistTimeOff
+);
+
+/**
+ * DELETE /api/stylists/:id/schedule/time-off/:itemId - Eliminar un bloqueo de fechas
+ * @param {string} id - UUID de la estilista
+ * @param {string} itemId - UUID del bloqueo
+ * @access Solo ADMIN o la propia estilista (stylists:schedule)
+ */
+router.delete(
+  '/:id/schedule/time-off/:itemId',
+  requirePermission('stylists:schedule'),
+  validateParams(scheduleItemParamsSchema),
+  deleteStylistTimeOff
+);
+
 /**
  * POST /api/stylists - Crear una nueva estilista
  * @description Registra una nueva estilista en el sistema
- * @body {name, specialty, photo_url?, description, is_featured?}
- * @access Solo ADMIN
+ * @body {name, specialty, photo_url?, description, is_featured?, user_id?}
+ * @access Solo ADMIN (stylists:create)
  */
-router.post('/', validateBody(createStylistSchema), createStylist);
+router.post('/', requirePermission('stylists:create'), validateBody(createStylistSchema), createStylist);
 
 /**
  * PUT /api/stylists/:id - Actualizar una estilista existente
  * @description Actualiza datos de una estilista específica
  * @param {string} id - UUID de la estilista
  * @body {name?, specialty?, photo_url?, description?, is_featured?}
- * @access Solo ADMIN o la propia estilista
+ * @access Solo ADMIN o la propia estilista (stylists:update; is_featured requiere stylists:feature)
  */
-router.put('/:id', validateParams(stylistParamsSchema), validateBody(updateStylistSchema), updateStylist);
+router.put(
+  '/:id',
+  requirePermission('stylists:update'),
+  validateParams(stylistParamsSchema),
+  validateBody(updateStylistSchema),
+  requireFieldPermission('is_featured', 'stylists:feature'),
+  updateStylist
+);
 
 /**
  * DELETE /api/stylists/:id - Eliminar una estilista
  * @description Elimina permanentemente una estilista del sistema
  * @param {string} id - UUID de la estilista
- * @access Solo ADMIN
+ * @access Solo ADMIN (stylists:delete)
  */
-router.delete('/:id', validateParams(stylistParamsSchema), deleteStylist);
+router.delete('/:id', requirePermission('stylists:delete'), validateParams(stylistParamsSchema), deleteStylist);
 
 export default router;
\ No newline at end of file
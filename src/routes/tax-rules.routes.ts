@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import {
+  getTaxRules,
+  getTaxRuleById,
+  createTaxRule,
+  updateTaxRule,
+  deleteTaxRule
+} from '../controllers/tax-rules.controller';
+import { validateBody, validateParams } from '../middleware/validation.middleware';
+import { requirePermission } from '../middleware/permission.middleware';
+import {
+  createTaxRuleSchema,
+  updateTaxRuleSchema,
+  taxRuleParamsSchema
+} from '../schemas/tax-rules.schema';
+
+/**
+ * @file Define las rutas para la gestión de reglas de impuestos de LauraBraids.
+ * @description Endpoints de administración para las reglas de impuestos por jurisdicción
+ *              (país y región) y clase fiscal que se aplican al crear pedidos.
+ */
+
+const router = Router();
+
+/**
+ * GET /api/tax-rules - Listar reglas de impuestos
+ * @access Solo ADMIN (tax-rules:list)
+ */
+router.get('/', requirePermission('tax-rules:list'), getTaxRules);
+
+/**
+ * POST /api/tax-rules - Crear una regla de impuestos
+ * @body {name, country, region?, tax_class?, rate, mode?, is_active?}
+ * @access Solo ADMIN (tax-rules:create)
+ */
+router.post('/', requirePermission('tax-rules:create'), validateBody(createTaxRuleSchema), createTaxRule);
+
+/**
+ * GET /api/tax-rules/:id - Obtener una regla de impuestos
+ * @param {string} id - UUID de la regla
+ * @access Solo ADMIN (tax-rules:list)
+ */
+router.get('/:id', requirePermission('tax-rules:list'), validateParams(taxRuleParamsSchema), getTaxRuleById);
+
+/**
+ * PUT /api/tax-rules/:id - Actualizar una regla de impuestos
+ * @param {string} id - UUID de la regla
+ * @body {name?, country?, region?, tax_class?, rate?, mode?, is_active?}
+ * @access Solo ADMIN (tax-rules:update)
+ */
+router.put(
+  '/:id',
+  requirePermission('tax-rules:update'),
+  validateParams(taxRuleParamsSchema),
+  validateBody(updateTaxRuleSchema),
+  updateTaxRule
+);
+
+/**
+ * DELETE /api/tax-rules/:id - Eliminar una regla de impuestos
+ * @param {string} id - UUID de la regla
+ * @access Solo ADMIN (tax-rules:delete)
+ */
+router.delete('/:id', requirePermission('tax-rules:delete'), validateParams(taxRuleParamsSchema), deleteTaxRule);
+
+export default router;
@@ -4,18 +4,16 @@ import {
   getUserById, 
   createUser, 
   updateUser, 
-  deleteUser 
+  deleteUser,
+  unlockUser
 } from '../controllers/users.controller';
+import { getCustomerStanding } from '../controllers/appointments.controller';
 import { 
   validateBody, 
   validateParams, 
   validateQuery 
 } from '../middleware/validation.middleware';
-import {
-  requireAuth,
-  requireAdmin,
-  requireOwnerOrAdmin
-} from '../middleware/auth.middleware';
+import { requirePermission, requireFieldPermission } from '../middleware/permission.middleware';
 import {
   createUserSchema,
   updateUserSchema,
@@ -44,9 +42,9 @@ router.get('/testing123', (req: any, res: any) => {
 /**
  * GET /api/users/all - Obtener todos los usuarios
  * @description Retorna lista completa de usuarios (sin passwords)
- * @access Solo ADMIN
+ * @access Solo ADMIN (users:list)
  */
-router.get('/all', requireAdmin, getUsers);
+router.get('/all', requirePermission('users:list'), getUsers);
 
 /**
  * POST /api/users - Crear un nuevo usuario (registro)
@@ -62,25 +60,54 @@ router.post('/', validateBody(createUserSchema), createUser);
  * GET /api/users/:id - Obtener un usuario por ID
  * @description Retorna datos de un usuario específico (sin password)
  * @param {string} id - UUID del usuario
- * @access Propio usuario o ADMIN
+ * @access Propio usuario o ADMIN (users:read)
+ */
+router.get('/:id', requirePermission('users:read'), validateParams(userParamsSchema), getUserById);
+
+/**
+ * GET /api/users/:id/appointment-standing - Saldo e incumplimientos de citas
+ * @description Retorna el saldo pendiente por penalizaciones, el número de inasistencias
+ *              y cancelaciones tardías, y si el cliente tiene inasistencias crónicas
+ * @param {string} id - UUID del usuario
+ * @access Propio usuario o ADMIN (users:read)
+ */
+router.get(
+  '/:id/appointment-standing',
+  requirePermission('users:read'),
+  validateParams(userParamsSchema),
+  getCustomerStanding
+);
+
+/**
+ * POST /api/users/:id/unlock - Desbloquear una cuenta
+ * @description Levanta el bloqueo por intentos de login fallidos y reinicia el contador
+ * @param {string} id - UUID del usuario
+ * @access Solo ADMIN (users:unlock)
  */
-router.get('/:id', requireOwnerOrAdmin, validateParams(userParamsSchema), getUserById);
+router.post('/:id/unlock', requirePermission('users:unlock'), validateParams(userParamsSchema), unlockUser);
 
 /**
  * PUT /api/users/:id - Actualizar un usuario existente
  * @description Actualiza datos de un usuario específico
  * @param {string} id - UUID del usuario
  * @body {name?, email?, role?}
- * @access Propio usuario o ADMIN
+ * @access Propio usuario o ADMIN (users:update; cambiar el rol requiere users:assign-role)
  */
-router.put('/:id', requireOwnerOrAdmin, validateParams(userParamsSchema), validateBody(updateUserSchema), updateUser);
+router.put(
+  '/:id',
+  requirePermission('users:update'),
+  validateParams(userParamsSchema),
+  validateBody(updateUserSchema),
+  requireFieldPermission('role', 'users:assign-role'),
+  updateUser
+);
 
 /**
  * DELETE /api/users/:id - Eliminar un usuario
  * @description Elimina permanentemente un usuario del sistema
  * @param {string} id - UUID del usuario
- * @access Solo ADMIN
+ * @access Solo ADMIN (users:delete)
  */
-router.delete('/:id', requireAdmin, validateParams(userParamsSchema), deleteUser);
+router.delete('/:id', requirePermission('users:delete'), validateParams(userParamsSchema), deleteUser);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * @file Esquemas de validación Zod para las API keys.
+ * @description Valida la creación de claves de API (nombre, scopes y validez) y los
+ *              parámetros de ruta para revocarlas.
+ */
+
+import { z } from 'zod';
+import { API_KEY_MAX_TTL_DAYS } from '../config/auth.config';
+import { API_KEY_SCOPES } from '../policies/permissions.policy';
+
+/**
+ * @description Esquema para crear una API key.
+ * Los scopes deben ser permisos de administrador con formato recurso:acción:any.
+ */
+export const createApiKeySchema = z.object({
+  name: z
+    .string()
+    .min(3, 'El nombre debe tener al menos 3 caracteres')
+    .max(100, 'El nombre no puede exceder 100 caracteres')
+    .transform((name) => name.trim()),
+  scopes: z
+    .array(z.string())
+    .min(1, 'Debe indicar al menos un scope')
+    .refine(
+      (scopes) => scopes.every(scope => API_KEY_SCOPES.includes(scope)),
+      { message: `Scopes permitidos: ${API_KEY_SCOPES.join(', ')}` }
+    ),
+  expires_in_days: z
+    .number()
+    .int('Los días de validez deben ser un número entero')
+    .min(1, 'La validez mínima es de 1 día')
+    .max(API_KEY_MAX_TTL_DAYS, `La validez máxima es de ${API_KEY_MAX_TTL_DAYS} días`)
+    .optional()
+});
+
+/**
+ * @description Esquema para validación de parámetros de ruta (ID).
+ */
+export const apiKeyParamsSchema = z.object({
+  id: z.string().uuid('ID debe ser un UUID válido')
+});
+
+/**
+ * @description Tipos TypeScript inferidos de los esquemas.
+ */
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type ApiKeyParamsInput = z.infer<typeof apiKeyParamsSchema>;
@@ -5,7 +5,8 @@
  */
 
 import { z } from 'zod';
-import { AppointmentStatus } from '../interfaces/appointment.interface';
+import { AppointmentStatus, SeriesCancellationScope } from '../interfaces/appointment.interface';
+import { MAX_SERIES_OCCURRENCES } from '../config/schedule.config';
 
 /**
  * @description Esquema para validación de UUID.
@@ -78,6 +79,8 @@ export const appointmentDateSchema = z
 export const appointmentStatusSchema = z
   .enum([
     AppointmentStatus.SCHEDULED,
+    AppointmentStatus.CONFIRMED,
+    AppointmentStatus.IN_PROGRESS,
     AppointmentStatus.COMPLETED,
     AppointmentStatus.CANCELLED,
     AppointmentStatus.NO_SHOW
@@ -108,18 +111,22 @@ export const durationSchema = z
   .optional();
 
 /**
- * @description Esquema para validación de precio de la cita.
+ * @description Esquema para la duración recibida como query string (en minutos).
  */
-export const appointmentPriceSchema = z
-  .number()
-  .positive('El precio debe ser un número positivo')
-  .max(9999.99, 'El precio no puede exceder $9999.99')
-  .refine(
-    (price) => Number((price * 100).toFixed(0)) / 100 === price,
-    {
-      message: 'El precio no puede tener más de 2 decimales'
-    }
-  )
+export const durationQuerySchema = z.coerce
+  .number({ invalid_type_error: 'La duración debe ser un número' })
+  .int('La duración debe ser un número entero')
+  .min(30, 'La duración mínima es 30 minutos')
+  .max(480, 'La duración máxima es 8 horas (480 minutos)')
+  .default(60);
+
+/**
+ * @description Esquema para los servicios adicionales seleccionados en una cita.
+ * El precio no se acepta del cliente: se calcula en el servidor.
+ */
+export const addOnIdsSchema = z
+  .array(uuidSchema)
+  .max(10, 'No se pueden seleccionar más de 10 servicios adicionales')
   .optional();
 
 /**
@@ -132,34 +139,22 @@ export const createAppointmentSchema = z.object({
   appointment_date: appointmentDateSchema,
   notes: notesSchema,
   duration: durationSchema,
-  price: appointmentPriceSchema
+  add_on_ids: addOnIdsSchema
 });
 
 /**
  * @description Esquema para actualizar una cita existente.
+ * La fecha no se incluye: solo cambia al reprogramar, que deja constancia en el historial.
  */
 export const updateAppointmentSchema = z.object({
-  appointment_date: appointmentDateSchema.optional(),
   status: appointmentStatusSchema.optional(),
   notes: notesSchema.optional(),
-  duration: durationSchema.optional(),
-  price: appointmentPriceSchema.optional()
+  duration: durationSchema.optional()
 }).refine(
   (data) => Object.keys(data).length > 0,
   {
     message: 'Debe proporcionar al menos un campo para actualizar'
   }
-).refine(
-  (data) => {
-    // Si se cambia a COMPLETED, no se puede cambiar la fecha
-    if (data.status === AppointmentStatus.COMPLETED && data.appointment_date) {
-      return false;
-    }
-    return true;
-  },
-  {
-    message: 'No se puede cambiar la fecha de una cita completada'
-  }
 );
 
 /**
@@ -237,7 +232,7 @@ export const checkAvailabilitySchema = z.object({
       },
       'La fecha debe ser hoy o en el futuro'
     ),
-  duration: durationSchema.default(60)
+  duration: durationQuerySchema
 });
 
 /**
@@ -248,6 +243,9 @@ export const changeAppointmentStatusSchema = z.object({
   reason: z
     .string()
     .max(200, 'La razón no puede exceder 200 caracteres')
+    .optional(),
+  waive_fee: z
+    .boolean()
     .optional()
 }).refine(
   (data) => {
@@ -258,7 +256,8 @@ export const changeAppointmentStatusSchema = z.object({
     return true;
   },
   {
-    message: 'Debe proporcionar una razón para cancelar la cita'
+    message: 'Debe proporcionar una razón para cancelar la cita',
+    path: ['reason']
   }
 );
 
@@ -273,6 +272,87 @@ export const rescheduleAppointmentSchema = z.object({
     .max(200, 'La razón no puede exceder 200 caracteres')
 });
 
+/**
+ * @description Esquema para reservar una serie recurrente de citas.
+ * Debe indicarse el número de citas, la fecha de fin o ambos (se usa el límite que llegue antes).
+ */
+export const createAppointmentSeriesSchema = z.object({
+  user_id: uuidSchema,
+  stylist_id: uuidSchema,
+  style_id: uuidSchema,
+  first_appointment_date: appointmentDateSchema,
+  interval_weeks: z
+    .number()
+    .int('El intervalo debe ser un número entero de semanas')
+    .min(1, 'El intervalo mínimo es 1 semana')
+    .max(12, 'El intervalo máximo es 12 semanas'),
+  occurrences: z
+    .number()
+    .int('El número de citas debe ser un número entero')
+    .min(2, 'Una serie debe tener al menos 2 citas')
+    .max(MAX_SERIES_OCCURRENCES, `Una serie no puede tener más de ${MAX_SERIES_OCCURRENCES} citas`)
+    .optional(),
+  end_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'La fecha de fin debe tener formato YYYY-MM-DD')
+    .optional(),
+  notes: notesSchema,
+  add_on_ids: addOnIdsSchema
+}).refine(
+  (data) => data.occurrences !== undefined || data.end_date !== undefined,
+  {
+    message: 'Debe indicar el número de citas (occurrences) o la fecha de fin (end_date)',
+    path: ['occurrences']
+  }
+);
+
+/**
+ * @description Esquema para cancelar citas de una serie recurrente.
+ */
+export const cancelAppointmentSeriesSchema = z.object({
+  scope: z.nativeEnum(SeriesCancellationScope, {
+    errorMap: () => ({
+      message: `El alcance debe ser uno de: ${Object.values(SeriesCancellationScope).join(', ')}`
+    })
+  }),
+  appointment_id: uuidSchema.optional(),
+  reason: z
+    .string()
+    .min(5, 'Debe proporcionar una razón para cancelar')
+    .max(200, 'La razón no puede exceder 200 caracteres'),
+  waive_fee: z
+    .boolean()
+    .optional()
+}).refine(
+  (data) => data.scope === SeriesCancellationScope.ALL || data.appointment_id !== undefined,
+  {
+    message: 'Debe indicar la cita (appointment_id) desde la que se cancela',
+    path: ['appointment_id']
+  }
+);
+
+/**
+ * @description Esquema para parámetros de ruta de una serie.
+ */
+export const seriesParamsSchema = z.object({
+  seriesId: uuidSchema
+});
+
+/**
+ * @description Esquema de query para calcular el precio de una cita sin reservarla.
+ */
+export const priceQuoteQuerySchema = z.object({
+  style_id: uuidSchema,
+  stylist_id: uuidSchema,
+  add_on_ids: z
+    .string()
+    .regex(
+      /^[0-9a-f-]{36}(,[0-9a-f-]{36})*$/i,
+      'add_on_ids debe ser una lista de UUIDs separados por comas'
+    )
+    .optional()
+});
+
 /**
  * @description Esquema para horarios disponibles.
  */
@@ -281,7 +361,15 @@ export const availableTimeSlotsSchema = z.object({
   date: z
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/, 'La fecha debe tener formato YYYY-MM-DD'),
-  duration: durationSchema.default(60)
+  duration: durationQuerySchema
+});
+
+/**
+ * @description Esquema de query para horarios disponibles cuando la estilista
+ * viene en los parámetros de ruta (/api/stylists/:id/slots).
+ */
+export const stylistTimeSlotsQuerySchema = availableTimeSlotsSchema.omit({
+  stylist_id: true
 });
 
 /**
@@ -294,4 +382,8 @@ export type GetAppointmentsQueryInput = z.infer<typeof getAppointmentsQuerySchem
 export type CheckAvailabilityInput = z.infer<typeof checkAvailabilitySchema>;
 export type ChangeAppointmentStatusInput = z.infer<typeof changeAppointmentStatusSchema>;
 export type RescheduleAppointmentInput = z.infer<typeof rescheduleAppointmentSchema>;
-export type AvailableTimeSlotsInput = z.infer<typeof availableTimeSlotsSchema>;
\ No newline at end of file
+export type CreateAppointmentSeriesInput = z.infer<typeof createAppointmentSeriesSchema>;
+export type CancelAppointmentSeriesInput = z.infer<typeof cancelAppointmentSeriesSchema>;
+export type PriceQuoteQueryInput = z.infer<typeof priceQuoteQuerySchema>;
+export type AvailableTimeSlotsInput = z.infer<typeof availableTimeSlotsSchema>;
+export type StylistTimeSlotsQueryInput = z.infer<typeof stylistTimeSlotsQuerySchema>;
\ No newline at end of file
@@ -142,10 +142,92 @@ export const refreshTokenSchema = z.object({
     .min(1, 'El token de refresco es requerido')
 });
 
+/**
+ * @description Schema de validación para logout.
+ * El token de refresco es opcional: si se envía, se revoca su sesión.
+ */
+export const logoutSchema = z.object({
+  refreshToken: z
+    .string()
+    .min(1, 'El token de refresco no puede estar vacío')
+    .optional()
+}).default({}); // Permite hacer logout sin body
+
+/**
+ * @description Schema de validación para la verificación de email.
+ * Valida el token recibido por correo en la query.
+ */
+export const verifyEmailQuerySchema = z.object({
+  token: z
+    .string()
+    .min(1, 'El token de verificación es requerido')
+});
+
+/**
+ * @description Schema para un código TOTP de 6 dígitos.
+ */
+const totpCodeSchema = z
+  .string()
+  .regex(/^\d{6}$/, 'El código debe tener 6 dígitos');
+
+/**
+ * @description Schema de validación para confirmar la activación del segundo factor.
+ */
+export const verifyTwoFactorSchema = z.object({
+  code: totpCodeSchema
+});
+
+/**
+ * @description Schema de validación para desactivar el segundo factor.
+ * Requiere la contraseña y un código TOTP o un código de recuperación.
+ */
+export const disableTwoFactorSchema = z.object({
+  password: z
+    .string()
+    .min(1, 'La contraseña es requerida'),
+  code: totpCodeSchema.optional(),
+  recoveryCode: z
+    .string()
+    .min(1, 'El código de recuperación no puede estar vacío')
+    .optional()
+}).refine(
+  (data) => data.code !== undefined || data.recoveryCode !== undefined,
+  {
+    message: 'Debes enviar un código de verificación o un código de recuperación',
+    path: ['code']
+  }
+);
+
+/**
+ * @description Schema de validación para el segundo paso del login.
+ * Requiere el token del reto y un código TOTP o un código de recuperación.
+ */
+export const twoFactorLoginSchema = z.object({
+  challengeToken: z
+    .string()
+    .min(1, 'El token del reto es requerido'),
+  code: totpCodeSchema.optional(),
+  recoveryCode: z
+    .string()
+    .min(1, 'El código de recuperación no puede estar vacío')
+    .optional()
+}).refine(
+  (data) => data.code !== undefined || data.recoveryCode !== undefined,
+  {
+    message: 'Debes enviar un código de verificación o un código de recuperación',
+    path: ['code']
+  }
+);
+
 // Exportar tipos inferidos de los schemas
 export type LoginData = z.infer<typeof loginSchema>;
 export type RegisterData = z.infer<typeof registerSchema>;
 export type ChangePasswordData = z.infer<typeof changePasswordSchema>;
 export type ForgotPasswordData = z.infer<typeof forgotPasswordSchema>;
 export type ResetPasswordData = z.infer<typeof resetPasswordSchema>;
-export type RefreshTokenData = z.infer<typeof refreshTokenSchema>;
\ No newline at end of file
+export type RefreshTokenData = z.infer<typeof refreshTokenSchema>;
+export type LogoutData = z.infer<typeof logoutSchema>;
+export type VerifyEmailQuery = z.infer<typeof verifyEmailQuerySchema>;
+export type VerifyTwoFactorData = z.infer<typeof verifyTwoFactorSchema>;
+export type DisableTwoFactorData = z.infer<typeof disableTwoFactorSchema>;
+export type TwoFactorLoginData = z.infer<typeof twoFactorLoginSchema>;
\ No newline at end of file
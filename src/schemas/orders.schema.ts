@@ -6,6 +6,7 @@
 
 import { z } from 'zod';
 import { OrderStatus, PaymentStatus } from '../interfaces/order.interface';
+import { countryCodeSchema, regionCodeSchema } from './tax-rules.schema';
 
 /**
  * @description Esquema para validación de UUID.
@@ -78,7 +79,8 @@ export const quantitySchema = z
 export const orderItemSchema = z.object({
   product_id: uuidSchema,
   quantity: quantitySchema,
-  unit_price: priceSchema
+  // Opcional: precio que vio el cliente, para detectar cambios de precio
+  unit_price: priceSchema.optional()
 });
 
 /**
@@ -92,6 +94,11 @@ export const createOrderSchema = z.object({
     .min(1, 'El pedido debe contener al menos un item')
     .max(50, 'El pedido no puede tener más de 50 items'),
   shipping_address: addressSchema.optional(),
+  // País y región de envío: determinan las reglas de impuestos
+  shipping_country: countryCodeSchema.optional(),
+  shipping_region: regionCodeSchema.optional(),
+  // Sin método se usa la opción de envío más barata
+  shipping_method_id: uuidSchema.optional(),
   billing_address: addressSchema.optional(),
   payment_method: paymentMethodSchema.optional()
 }).refine(
@@ -107,12 +114,44 @@ export const createOrderSchema = z.object({
   }
 );
 
+/**
+ * @description Esquema para presupuestar un carrito antes de crear el pedido.
+ */
+export const quoteOrderSchema = z.object({
+  items: z
+    .array(z.object({ product_id: uuidSchema, quantity: quantitySchema }))
+    .min(1, 'El pedido debe contener al menos un item')
+    .max(50, 'El pedido no puede tener más de 50 items'),
+  shipping_country: countryCodeSchema.optional(),
+  shipping_region: regionCodeSchema.optional()
+}).refine(
+  (data) => {
+    const productIds = data.items.map(item => item.product_id);
+    return productIds.length === new Set(productIds).size;
+  },
+  {
+    message: 'No puede haber productos duplicados en el pedido',
+    path: ['items']
+  }
+);
+
+/**
+ * @description Esquema para la nota de un cambio de estado.
+ */
+export const statusNoteSchema = z
+  .string()
+  .min(1, 'La nota no puede estar vacía')
+  .max(255, 'La nota no puede exceder 255 caracteres')
+  .transform((note) => note.trim());
+
 /**
  * @description Esquema para actualizar un pedido existente.
  * Todos los campos son opcionales para permitir actualizaciones parciales.
  */
 export const updateOrderSchema = z.object({
   status: orderStatusSchema.optional(),
+  // Nota del cambio de estado para el historial
+  note: statusNoteSchema.optional(),
   shipping_address: addressSchema.optional(),
   billing_address: addressSchema.optional(),
   payment_method: paymentMethodSchema.optional(),
@@ -219,6 +258,7 @@ export const orderSearchSchema = z.object({
 
 /**
  * @description Esquema para validación de cancelación de pedido.
+ * El cuerpo es opcional; la razón queda como nota en el historial.
  */
 export const cancelOrderSchema = z.object({
   reason: z
@@ -226,13 +266,14 @@ export const cancelOrderSchema = z.object({
     .min(5, 'La razón de cancelación debe tener al menos 5 caracteres')
     .max(255, 'La razón de cancelación no puede exceder 255 caracteres')
     .optional()
-});
+}).default({});
 
 /**
  * @description Tipos TypeScript inferidos de los esquemas.
  * Estos tipos se pueden usar en controllers para type safety.
  */
 export type CreateOrderInput = z.infer<typeof createOrderSchema>;
+export type QuoteOrderInput = z.infer<typeof quoteOrderSchema>;
 export type UpdateOrderInput = z.infer<typeof updateOrderSchema>;
 export type OrderParamsInput = z.infer<typeof orderParamsSchema>;
 export type CustomerParamsInput = z.infer<typeof customerParamsSchema>;
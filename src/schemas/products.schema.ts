@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import { taxClassSchema } from './tax-rules.schema';
 
 /**
  * @description Categorías válidas para productos.
@@ -136,8 +137,10 @@ export const skuSchema = z
  */
 export const weightSchema = z
   .number()
+  .int('El peso debe ser un número entero de gramos')
   .positive('El peso debe ser un número positivo')
   .max(10000, 'El peso no puede exceder 10kg (10000g)')
+  .nullable()
   .optional();
 
 /**
@@ -160,8 +163,9 @@ export const createProductSchema = z.object({
   image_url: productImageUrlSchema,
   category: productCategorySchema,
   is_active: isActiveSchema.optional(),
+  tax_class: taxClassSchema.optional(),
   sku: skuSchema,
-  weight: weightSchema,
+  weight_grams: weightSchema,
   dimensions: dimensionsSchema
 });
 
@@ -177,8 +181,9 @@ export const updateProductSchema = z.object({
   image_url: productImageUrlSchema.optional(),
   category: productCategorySchema.optional(),
   is_active: isActiveSchema.optional(),
+  tax_class: taxClassSchema.optional(),
   sku: skuSchema.optional(),
-  weight: weightSchema.optional(),
+  weight_grams: weightSchema,
   dimensions: dimensionsSchema.optional()
 }).refine(
   (data) => Object.keys(data).length > 0,
@@ -0,0 +1,157 @@
+/**
+ * @file Esquemas de validación Zod para el horario de las estilistas.
+ * @description Define las reglas de validación para horarios semanales,
+ *              descansos recurrentes y bloqueos de fechas.
+ */
+
+import { z } from 'zod';
+
+/**
+ * @description Esquema para validación de UUID.
+ */
+export const uuidSchema = z
+  .string()
+  .uuid('ID debe ser un UUID válido');
+
+/**
+ * @description Esquema para horas en formato HH:MM (24 horas).
+ */
+export const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'La hora debe tener formato HH:MM');
+
+/**
+ * @description Esquema para el día de la semana (0 = domingo, 6 = sábado).
+ */
+export const dayOfWeekSchema = z
+  .number()
+  .int('El día de la semana debe ser un número entero')
+  .min(0, 'El día de la semana debe estar entre 0 (domingo) y 6 (sábado)')
+  .max(6, 'El día de la semana debe estar entre 0 (domingo) y 6 (sábado)');
+
+/**
+ * @description Esquema para una franja laboral de un día de la semana.
+ */
+export const workingHoursEntrySchema = z.object({
+  day_of_week: dayOfWeekSchema,
+  start_time: timeSchema,
+  end_time: timeSchema
+}).refine(
+  (data) => data.start_time < data.end_time,
+  {
+    message: 'La hora de inicio debe ser anterior a la hora de fin',
+    path: ['end_time']
+  }
+);
+
+/**
+ * @description Esquema para reemplazar la plantilla semanal de una estilista.
+ * Los días que no aparecen se consideran no laborables.
+ */
+export const replaceWorkingHoursSchema = z.object({
+  hours: z
+    .array(workingHoursEntrySchema)
+    .min(1, 'Debe indicar al menos un día laborable')
+    .max(7, 'No puede indicar más de 7 días')
+    .refine(
+      (hours) => new Set(hours.map(h => h.day_of_week)).size === hours.length,
+      'No puede repetir días de la semana'
+    )
+});
+
+/**
+ * @description Esquema para la descripción de un descanso.
+ */
+export const breakLabelSchema = z
+  .string()
+  .max(100, 'La descripción no puede exceder 100 caracteres')
+  .trim();
+
+/**
+ * @description Esquema para crear un descanso recurrente.
+ */
+export const createBreakSchema = z.object({
+  day_of_week: dayOfWeekSchema,
+  start_time: timeSchema,
+  end_time: timeSchema,
+  label: breakLabelSchema.optional()
+}).refine(
+  (data) => data.start_time < data.end_time,
+  {
+    message: 'La hora de inicio debe ser anterior a la hora de fin',
+    path: ['end_time']
+  }
+);
+
+/**
+ * @description Esquema para actualizar un descanso recurrente.
+ * Todos los campos son opcionales para permitir actualizaciones parciales.
+ */
+export const updateBreakSchema = z.object({
+  day_of_week: dayOfWeekSchema.optional(),
+  start_time: timeSchema.optional(),
+  end_time: timeSchema.optional(),
+  label: breakLabelSchema.optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  {
+    message: 'Debe proporcionar al menos un campo para actualizar'
+  }
+);
+
+/**
+ * @description Esquema para el motivo de un bloqueo de fechas.
+ */
+export const timeOffReasonSchema = z
+  .string()
+  .max(200, 'El motivo no puede exceder 200 caracteres')
+  .trim();
+
+/**
+ * @description Esquema para crear un bloqueo de fechas (vacaciones o ausencias).
+ */
+export const createTimeOffSchema = z.object({
+  start_date: z.string().datetime('La fecha de inicio debe tener formato ISO 8601 válido'),
+  end_date: z.string().datetime('La fecha de fin debe tener formato ISO 8601 válido'),
+  reason: timeOffReasonSchema.optional()
+}).refine(
+  (data) => new Date(data.start_date) < new Date(data.end_date),
+  {
+    message: 'La fecha de inicio debe ser anterior a la fecha de fin',
+    path: ['end_date']
+  }
+);
+
+/**
+ * @description Esquema para actualizar un bloqueo de fechas.
+ * Todos los campos son opcionales para permitir actualizaciones parciales.
+ */
+export const updateTimeOffSchema = z.object({
+  start_date: z.string().datetime('La fecha de inicio debe tener formato ISO 8601 válido').optional(),
+  end_date: z.string().datetime('La fecha de fin debe tener formato ISO 8601 válido').optional(),
+  reason: timeOffReasonSchema.optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  {
+    message: 'Debe proporcionar al menos un campo para actualizar'
+  }
+);
+
+/**
+ * @description Esquema para parámetros de ruta de un elemento del horario.
+ */
+export const scheduleItemParamsSchema = z.object({
+  id: uuidSchema,
+  itemId: uuidSchema
+});
+
+/**
+ * @description Tipos TypeScript inferidos de los esquemas.
+ */
+export type WorkingHoursEntryInput = z.infer<typeof workingHoursEntrySchema>;
+export type ReplaceWorkingHoursInput = z.infer<typeof replaceWorkingHoursSchema>;
+export type CreateBreakInput = z.infer<typeof createBreakSchema>;
+export type UpdateBreakInput = z.infer<typeof updateBreakSchema>;
+export type CreateTimeOffInput = z.infer<typeof createTimeOffSchema>;
+export type UpdateTimeOffInput = z.infer<typeof updateTimeOffSchema>;
+export type ScheduleItemParamsInput = z.infer<typeof scheduleItemParamsSchema>;
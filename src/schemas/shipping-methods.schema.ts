@@ -0,0 +1,141 @@
+/**
+ * @file Esquemas de validación Zod para los métodos de envío.
+ * @description Valida la creación y actualización de métodos de envío con sus zonas,
+ *              tramos de tarifa y umbral de envío gratis.
+ */
+
+import { z } from 'zod';
+import { ShippingMethodKind, ShippingRateBasis } from '../interfaces/shipping.interface';
+import { countryCodeSchema, regionCodeSchema } from './tax-rules.schema';
+
+/**
+ * @description Esquema para importes de envío.
+ */
+const shippingAmountSchema = z
+  .number()
+  .min(0, 'El importe no puede ser negativo')
+  .max(99999.99, 'El importe no puede exceder 99999.99')
+  .multipleOf(0.01, 'El importe debe tener máximo 2 decimales');
+
+/**
+ * @description Esquema para el tipo de método de envío.
+ */
+const shippingMethodKindSchema = z.nativeEnum(ShippingMethodKind, {
+  errorMap: () => ({
+    message: `El tipo debe ser uno de: ${Object.values(ShippingMethodKind).join(', ')}`
+  })
+});
+
+/**
+ * @description Esquema para la magnitud de los tramos.
+ */
+const shippingRateBasisSchema = z.nativeEnum(ShippingRateBasis, {
+  errorMap: () => ({
+    message: `La base de tarifa debe ser una de: ${Object.values(ShippingRateBasis).join(', ')}`
+  })
+});
+
+/**
+ * @description Esquema para un tramo de tarifa (min <= valor < max).
+ */
+const shippingBandSchema = z.object({
+  min: z.number().min(0, 'El inicio del tramo no puede ser negativo'),
+  max: z.number().positive('El fin del tramo debe ser positivo').nullable().default(null),
+  amount: shippingAmountSchema
+}).refine(
+  (band) => band.max === null || band.max > band.min,
+  {
+    message: 'El fin del tramo debe ser mayor que su inicio',
+    path: ['max']
+  }
+);
+
+/**
+ * @description Esquema para las tarifas de una zona. Los tramos no se pueden solapar.
+ */
+const shippingZoneSchema = z.object({
+  country: countryCodeSchema,
+  region: regionCodeSchema.nullable().default(null),
+  free_shipping_threshold: shippingAmountSchema.nullable().default(null),
+  bands: z
+    .array(shippingBandSchema)
+    .min(1, 'La zona debe tener al menos un tramo')
+    .max(50, 'La zona no puede tener más de 50 tramos')
+}).refine(
+  (zone) => {
+    const bands = [...zone.bands].sort((a, b) => a.min - b.min);
+    return bands.every((band, index) =>
+      index === bands.length - 1 || (band.max !== null && band.max <= bands[index + 1].min)
+    );
+  },
+  {
+    message: 'Los tramos de una zona no se pueden solapar',
+    path: ['bands']
+  }
+);
+
+/**
+ * @description Esquema para las zonas de un método. Cada país o región aparece una sola vez.
+ */
+const shippingZonesSchema = z
+  .array(shippingZoneSchema)
+  .min(1, 'El método debe tener al menos una zona')
+  .max(100, 'El método no puede tener más de 100 zonas')
+  .refine(
+    (zones) => {
+      const keys = zones.map(zone => `${zone.country}:${zone.region || ''}`);
+      return keys.length === new Set(keys).size;
+    },
+    {
+      message: 'No puede haber zonas duplicadas para el mismo país y región'
+    }
+  );
+
+/**
+ * @description Esquema para el nombre de un método.
+ */
+const shippingMethodNameSchema = z
+  .string()
+  .min(2, 'El nombre debe tener al menos 2 caracteres')
+  .max(100, 'El nombre no puede exceder 100 caracteres')
+  .transform((name) => name.trim());
+
+/**
+ * @description Esquema para crear un método de envío.
+ */
+export const createShippingMethodSchema = z.object({
+  name: shippingMethodNameSchema,
+  kind: shippingMethodKindSchema,
+  rate_basis: shippingRateBasisSchema.default(ShippingRateBasis.PRICE),
+  zones: shippingZonesSchema,
+  is_active: z.boolean().default(true)
+});
+
+/**
+ * @description Esquema para actualizar un método de envío. Las zonas se reemplazan completas.
+ */
+export const updateShippingMethodSchema = z.object({
+  name: shippingMethodNameSchema.optional(),
+  kind: shippingMethodKindSchema.optional(),
+  rate_basis: shippingRateBasisSchema.optional(),
+  zones: shippingZonesSchema.optional(),
+  is_active: z.boolean().optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  {
+    message: 'Debe proporcionar al menos un campo para actualizar'
+  }
+);
+
+/**
+ * @description Esquema para validación de parámetros de ruta (ID).
+ */
+export const shippingMethodParamsSchema = z.object({
+  id: z.string().uuid('ID debe ser un UUID válido')
+});
+
+/**
+ * @description Tipos TypeScript inferidos de los esquemas.
+ */
+export type CreateShippingMethodInput = z.infer<typeof createShippingMethodSchema>;
+export type UpdateShippingMethodInput = z.infer<typeof updateShippingMethodSchema>;
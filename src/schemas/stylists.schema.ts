@@ -105,7 +105,8 @@ export const createStylistSchema = z.object({
   specialty: specialtySchema,
   photo_url: photoUrlSchema,
   description: descriptionSchema,
-  is_featured: isFeaturedSchema.optional()
+  is_featured: isFeaturedSchema.optional(),
+  user_id: uuidSchema.optional()
 });
 
 /**
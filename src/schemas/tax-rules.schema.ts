@@ -0,0 +1,104 @@
+/**
+ * @file Esquemas de validación Zod para las reglas de impuestos.
+ * @description Valida la creación y actualización de reglas por jurisdicción (país y
+ *              región) y clase fiscal, con su porcentaje y modo.
+ */
+
+import { z } from 'zod';
+import { TaxClass, TaxMode } from '../interfaces/tax.interface';
+
+/**
+ * @description Esquema para códigos de país ISO 3166-1 alfa-2 (se guardan en mayúsculas).
+ */
+export const countryCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z]{2}$/, 'El país debe ser un código ISO de 2 letras (ej. US, ES)')
+  .transform((country) => country.toUpperCase());
+
+/**
+ * @description Esquema para códigos de región (estado, provincia o comunidad).
+ */
+export const regionCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9-]{1,10}$/, 'La región debe ser un código de hasta 10 letras, números o guiones')
+  .transform((region) => region.toUpperCase());
+
+/**
+ * @description Esquema para la clase fiscal.
+ */
+export const taxClassSchema = z.nativeEnum(TaxClass, {
+  errorMap: () => ({
+    message: `La clase fiscal debe ser una de: ${Object.values(TaxClass).join(', ')}`
+  })
+});
+
+/**
+ * @description Esquema para el modo de una regla.
+ */
+const taxModeSchema = z.nativeEnum(TaxMode, {
+  errorMap: () => ({
+    message: `El modo debe ser uno de: ${Object.values(TaxMode).join(', ')}`
+  })
+});
+
+/**
+ * @description Esquema para el porcentaje de una regla.
+ */
+const taxRateSchema = z
+  .number()
+  .min(0, 'El porcentaje no puede ser negativo')
+  .max(100, 'El porcentaje no puede exceder 100')
+  .multipleOf(0.0001, 'El porcentaje debe tener máximo 4 decimales');
+
+/**
+ * @description Esquema para crear una regla de impuestos.
+ */
+export const createTaxRuleSchema = z.object({
+  name: z
+    .string()
+    .min(2, 'El nombre debe tener al menos 2 caracteres')
+    .max(100, 'El nombre no puede exceder 100 caracteres')
+    .transform((name) => name.trim()),
+  country: countryCodeSchema,
+  region: regionCodeSchema.nullable().optional(),
+  tax_class: taxClassSchema.default(TaxClass.STANDARD),
+  rate: taxRateSchema,
+  mode: taxModeSchema.default(TaxMode.EXCLUSIVE),
+  is_active: z.boolean().default(true)
+});
+
+/**
+ * @description Esquema para actualizar una regla de impuestos.
+ */
+export const updateTaxRuleSchema = z.object({
+  name: z
+    .string()
+    .min(2, 'El nombre debe tener al menos 2 caracteres')
+    .max(100, 'El nombre no puede exceder 100 caracteres')
+    .transform((name) => name.trim())
+    .optional(),
+  country: countryCodeSchema.optional(),
+  region: regionCodeSchema.nullable().optional(),
+  tax_class: taxClassSchema.optional(),
+  rate: taxRateSchema.optional(),
+  mode: taxModeSchema.optional(),
+  is_active: z.boolean().optional()
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  {
+    message: 'Debe proporcionar al menos un campo para actualizar'
+  }
+);
+
+/**
+ * @description Esquema para validación de parámetros de ruta (ID).
+ */
+export const taxRuleParamsSchema = z.object({
+  id: z.string().uuid('ID debe ser un UUID válido')
+});
+
+/**
+ * @description Tipos TypeScript inferidos de los esquemas.
+ */
+export type CreateTaxRuleInput = z.infer<typeof createTaxRuleSchema>;
+export type UpdateTaxRuleInput = z.infer<typeof updateTaxRuleSchema>;
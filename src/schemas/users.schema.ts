@@ -50,7 +50,7 @@ export const nameSchema = z
  * @description Esquema para validación de rol de usuario.
  */
 export const userRoleSchema = z
-  .enum([UserRole.CUSTOMER, UserRole.ADMIN])
+  .enum([UserRole.CUSTOMER, UserRole.ADMIN, UserRole.STYLIST])
   .default(UserRole.CUSTOMER);
 
 /**
@@ -120,7 +120,7 @@ export const changePasswordSchema = z.object({
  * @description Esquema para consultas de filtrado de usuarios.
  */
 export const getUsersQuerySchema = z.object({
-  role: z.enum([UserRole.CUSTOMER, UserRole.ADMIN]).optional(),
+  role: z.enum([UserRole.CUSTOMER, UserRole.ADMIN, UserRole.STYLIST]).optional(),
   page: z.string().regex(/^\d+$/).transform(Number).optional(),
   limit: z.string().regex(/^\d+$/).transform(Number).optional(),
   search: z.string().max(100).optional()
@@ -0,0 +1,70 @@
+/**
+ * @file Esquemas de validación Zod para la lista de espera de citas.
+ * @description Define las reglas de validación para inscribirse en la lista de espera
+ *              y para consultar o responder a las ofertas de horario.
+ */
+
+import { z } from 'zod';
+import { WaitlistStatus } from '../interfaces/waitlist.interface';
+
+/**
+ * @description Esquema para validación de UUID.
+ */
+export const uuidSchema = z
+  .string()
+  .uuid('ID debe ser un UUID válido');
+
+/**
+ * @description Esquema para fechas sin hora (YYYY-MM-DD).
+ */
+export const waitlistDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'La fecha debe tener formato YYYY-MM-DD');
+
+/**
+ * @description Esquema para inscribirse en la lista de espera.
+ */
+export const joinWaitlistSchema = z.object({
+  user_id: uuidSchema,
+  stylist_id: uuidSchema,
+  style_id: uuidSchema,
+  earliest_date: waitlistDateSchema,
+  latest_date: waitlistDateSchema,
+  notes: z
+    .string()
+    .max(500, 'Las notas no pueden exceder 500 caracteres')
+    .optional()
+}).refine(
+  (data) => data.latest_date >= data.earliest_date,
+  {
+    message: 'La fecha final debe ser igual o posterior a la fecha inicial',
+    path: ['latest_date']
+  }
+);
+
+/**
+ * @description Esquema para consultar la lista de espera.
+ */
+export const getWaitlistQuerySchema = z.object({
+  user_id: uuidSchema.optional(),
+  stylist_id: uuidSchema.optional(),
+  status: z.nativeEnum(WaitlistStatus, {
+    errorMap: () => ({
+      message: `El estado debe ser uno de: ${Object.values(WaitlistStatus).join(', ')}`
+    })
+  }).optional()
+});
+
+/**
+ * @description Esquema para parámetros de ruta de una solicitud de la lista de espera.
+ */
+export const waitlistParamsSchema = z.object({
+  id: uuidSchema
+});
+
+/**
+ * @description Tipos TypeScript inferidos de los esquemas.
+ */
+export type JoinWaitlistInput = z.infer<typeof joinWaitlistSchema>;
+export type GetWaitlistQueryInput = z.infer<typeof getWaitlistQuerySchema>;
+export type WaitlistParamsInput = z.infer<typeof waitlistParamsSchema>;
@@ -11,6 +11,7 @@ import {
   deleteProduct 
 } from '../data/products.database';
 import { Product } from '../interfaces/product.interface';
+import { TaxClass } from '../interfaces/tax.interface';
 import { v4 as uuidv4 } from 'uuid';
 
 const testProducts = async () => {
@@ -43,6 +44,8 @@ const testProducts = async () => {
       image_url: 'https://example.com/test.jpg',
       category: 'Accesorios',
       is_active: true,
+      tax_class: TaxClass.STANDARD,
+      weight_grams: null,
       created_at: new Date(),
       updated_at: new Date()
     };
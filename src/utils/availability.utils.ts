@@ -0,0 +1,186 @@
+/**
+ * @file Utilidades para el cálculo de disponibilidad de citas.
+ * @description Funciones puras para trabajar con intervalos de tiempo y generar
+ *              los horarios libres de una estilista en un día concreto.
+ */
+
+import { WorkingHours } from '../config/schedule.config';
+import { TimeSlot } from '../interfaces/appointment.interface';
+
+/**
+ * @function parseDateOnly
+ * @description Convierte una fecha YYYY-MM-DD en la medianoche local de ese día
+ * @param date - Fecha en formato YYYY-MM-DD
+ * @returns Fecha local a las 00:00
+ */
+export const parseDateOnly = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * @function formatDateOnly
+ * @description Convierte una fecha en su día local con formato YYYY-MM-DD
+ * @param date - Fecha a convertir
+ * @returns Día en formato YYYY-MM-DD
+ */
+export const formatDateOnly = (date: Date): string => {
+  const pad = (value: number): string => (value < 10 ? `0${value}` : String(value));
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * @function addMinutes
+ * @description Suma minutos a una fecha sin modificar la original
+ * @param date - Fecha base
+ * @param minutes - Minutos a sumar
+ * @returns Nueva fecha
+ */
+export const addMinutes = (date: Date, minutes: number): Date => {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+};
+
+/**
+ * @function getRecurringDates
+ * @description Genera las fechas de una serie que se repite cada N semanas, conservando
+ * la hora local de la primera fecha. Se detiene al alcanzar el número de repeticiones,
+ * la fecha de fin o el máximo permitido, lo que ocurra antes.
+ * @param first - Fecha de la primera cita
+ * @param intervalWeeks - Semanas entre citas
+ * @param maxOccurrences - Número máximo de citas a generar
+ * @param endDate - Fecha límite opcional (inclusive)
+ * @returns Fechas de la serie en orden cronológico
+ */
+export const getRecurringDates = (
+  first: Date,
+  intervalWeeks: number,
+  maxOccurrences: number,
+  endDate?: Date
+): Date[] => {
+  const dates: Date[] = [];
+
+  for (let i = 0; i < maxOccurrences; i++) {
+    const date = new Date(first);
+    date.setDate(date.getDate() + i * intervalWeeks * 7);
+    if (endDate && date > endDate) break;
+    dates.push(date);
+  }
+
+  return dates;
+};
+
+/**
+ * @function atTime
+ * @description Combina un día con una hora en formato HH:MM
+ * @param day - Día de referencia
+ * @param time - Hora en formato HH:MM
+ * @returns Fecha local con la hora indicada
+ */
+export const atTime = (day: Date, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const result = new Date(day);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+/**
+ * @function intervalsOverlap
+ * @description Indica si dos intervalos semiabiertos [start, end) se solapan
+ * @param a - Primer intervalo
+ * @param b - Segundo intervalo
+ * @returns true si comparten algún instante
+ */
+export const intervalsOverlap = (a: TimeSlot, b: TimeSlot): boolean => {
+  return a.start < b.end && b.start < a.end;
+};
+
+/**
+ * @function isWithinIntervals
+ * @description Indica si un intervalo está contenido por completo en alguno de los dados
+ * @param slot - Intervalo a comprobar
+ * @param intervals - Intervalos contenedores
+ * @returns true si algún intervalo contiene a slot
+ */
+export const isWithinIntervals = (slot: TimeSlot, intervals: TimeSlot[]): boolean => {
+  return intervals.some(interval => interval.start <= slot.start && slot.end <= interval.end);
+};
+
+/**
+ * @function getWorkingIntervals
+ * @description Obtiene los intervalos laborables de un día según un horario semanal
+ * @param day - Día a consultar
+ * @param weeklyHours - Horario indexado por día de la semana
+ * @returns Intervalos laborables del día (vacío si no se trabaja)
+ */
+export const getWorkingIntervals = (
+  day: Date,
+  weeklyHours: Record<number, WorkingHours | null>
+): TimeSlot[] => {
+  const hours = weeklyHours[day.getDay()];
+  if (!hours) return [];
+
+  return [{ start: atTime(day, hours.start), end: atTime(day, hours.end) }];
+};
+
+/**
+ * @function subtractIntervals
+ * @description Elimina de los intervalos dados los tramos cubiertos por los bloqueos
+ * @param intervals - Intervalos de partida
+ * @param blocks - Intervalos a descontar (descansos, ausencias)
+ * @returns Intervalos resultantes, sin tramos vacíos
+ */
+export const subtractIntervals = (intervals: TimeSlot[], blocks: TimeSlot[]): TimeSlot[] => {
+  return blocks.reduce<TimeSlot[]>((remaining, block) => {
+    const pieces: TimeSlot[] = [];
+
+    for (const interval of remaining) {
+      if (!intervalsOverlap(interval, block)) {
+        pieces.push(interval);
+        continue;
+      }
+
+      if (interval.start < block.start) pieces.push({ start: interval.start, end: block.start });
+      if (block.end < interval.end) pieces.push({ start: block.end, end: interval.end });
+    }
+
+    return pieces;
+  }, intervals);
+};
+
+/**
+ * @function computeAvailableSlots
+ * @description Genera los horarios de inicio libres dentro de los intervalos
+ * laborables, descartando los que se solapan con intervalos ocupados.
+ * @param workingIntervals - Intervalos en los que se puede atender
+ * @param busyIntervals - Intervalos ya ocupados
+ * @param durationMinutes - Duración requerida de la cita
+ * @param stepMinutes - Separación entre inicios candidatos
+ * @param notBefore - Instante a partir del cual se ofrecen horarios
+ * @returns Horarios libres ordenados cronológicamente
+ */
+export const computeAvailableSlots = (
+  workingIntervals: TimeSlot[],
+  busyIntervals: TimeSlot[],
+  durationMinutes: number,
+  stepMinutes: number,
+  notBefore: Date
+): TimeSlot[] => {
+  const slots: TimeSlot[] = [];
+
+  for (const window of workingIntervals) {
+    for (
+      let start = window.start;
+      addMinutes(start, durationMinutes) <= window.end;
+      start = addMinutes(start, stepMinutes)
+    ) {
+      const candidate: TimeSlot = { start, end: addMinutes(start, durationMinutes) };
+
+      if (candidate.start < notBefore) continue;
+      if (busyIntervals.some(busy => intervalsOverlap(candidate, busy))) continue;
+
+      slots.push(candidate);
+    }
+  }
+
+  return slots.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
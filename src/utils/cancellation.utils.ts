@@ -0,0 +1,53 @@
+/**
+ * @file Utilidades para aplicar la política de cancelación.
+ * @description Funciones puras que deciden si un cambio de estado genera una
+ *              penalización y calculan su importe.
+ */
+
+import { CancellationPolicy } from '../config/cancellation.config';
+import { Appointment, AppointmentStatus, AppointmentFeeType } from '../interfaces/appointment.interface';
+import { roundCurrency } from './money.utils';
+
+/**
+ * @interface FeeAssessment
+ * @description Penalización calculada para un cambio de estado
+ */
+export interface FeeAssessment {
+  fee_type: AppointmentFeeType;
+  amount: number;
+}
+
+/**
+ * @function assessCancellationFee
+ * @description Calcula la penalización que corresponde al pasar una cita a CANCELLED o NO_SHOW
+ * @param appointment - Cita antes del cambio
+ * @param nextStatus - Estado solicitado
+ * @param now - Momento del cambio
+ * @param policy - Política de cancelación vigente
+ * @returns Penalización o null si el cambio no tiene coste
+ */
+export const assessCancellationFee = (
+  appointment: Appointment,
+  nextStatus: AppointmentStatus,
+  now: Date,
+  policy: CancellationPolicy
+): FeeAssessment | null => {
+  let feeType: AppointmentFeeType;
+  let percent: number;
+
+  if (nextStatus === AppointmentStatus.NO_SHOW) {
+    feeType = AppointmentFeeType.NO_SHOW;
+    percent = policy.noShowFeePercent;
+  } else if (nextStatus === AppointmentStatus.CANCELLED) {
+    const hoursInAdvance = (appointment.appointment_date.getTime() - now.getTime()) / (60 * 60 * 1000);
+    if (hoursInAdvance >= policy.freeCancellationHours) return null;
+
+    feeType = AppointmentFeeType.LATE_CANCELLATION;
+    percent = policy.lateCancellationFeePercent;
+  } else {
+    return null;
+  }
+
+  const amount = roundCurrency(appointment.total_price * percent / 100);
+  return amount > 0 ? { fee_type: feeType, amount } : null;
+};
@@ -0,0 +1,79 @@
+/**
+ * @file Utilidades para el bloqueo de cuentas por intentos de login fallidos.
+ * @description Funciones puras para contar fallos dentro de una ventana y calcular
+ *              la duración del bloqueo con backoff exponencial.
+ */
+
+import { LoginThrottle } from '../interfaces/auth.interface';
+import { addMinutes } from './availability.utils';
+
+/**
+ * @interface LockoutPolicy
+ * @description Parámetros del bloqueo para un ámbito (cuenta o IP)
+ */
+export interface LockoutPolicy {
+  maxFailures: number;
+  baseMinutes: number;
+  maxMinutes: number;
+  windowMinutes: number;
+}
+
+/**
+ * @function getLockoutMinutes
+ * @description Calcula la duración del bloqueo tras un número de fallos. Hasta el límite
+ * no hay bloqueo; al alcanzarlo se bloquea baseMinutes y cada fallo adicional duplica
+ * la duración, hasta maxMinutes.
+ * @param failedCount - Fallos consecutivos
+ * @param policy - Parámetros del bloqueo
+ * @returns Minutos de bloqueo (0 si no corresponde)
+ */
+export const getLockoutMinutes = (failedCount: number, policy: LockoutPolicy): number => {
+  if (failedCount < policy.maxFailures) return 0;
+
+  const exponent = failedCount - policy.maxFailures;
+  return Math.min(policy.baseMinutes * Math.pow(2, exponent), policy.maxMinutes);
+};
+
+/**
+ * @function registerFailure
+ * @description Suma un fallo al contador y calcula el bloqueo resultante. Si el último
+ * fallo queda fuera de la ventana de conteo, el contador empieza de nuevo.
+ * @param current - Contador actual o null si no había fallos
+ * @param scope - Ámbito del contador
+ * @param key - Email o IP
+ * @param policy - Parámetros del bloqueo
+ * @param now - Momento del fallo
+ * @returns Contador actualizado
+ */
+export const registerFailure = (
+  current: LoginThrottle | null,
+  scope: LoginThrottle['scope'],
+  key: string,
+  policy: LockoutPolicy,
+  now: Date
+): LoginThrottle => {
+  const isWithinWindow = current !== null &&
+    addMinutes(current.last_failed_at, policy.windowMinutes) > now;
+  const failedCount = isWithinWindow ? current!.failed_count + 1 : 1;
+  const lockoutMinutes = getLockoutMinutes(failedCount, policy);
+
+  return {
+    scope,
+    throttle_key: key,
+    failed_count: failedCount,
+    locked_until: lockoutMinutes > 0 ? addMinutes(now, lockoutMinutes) : null,
+    last_failed_at: now
+  };
+};
+
+/**
+ * @function getRemainingLockSeconds
+ * @description Segundos que faltan para que termine un bloqueo
+ * @param throttle - Contador a comprobar (o null)
+ * @param now - Momento de referencia
+ * @returns Segundos restantes (0 si no está bloqueado)
+ */
+export const getRemainingLockSeconds = (throttle: LoginThrottle | null, now: Date): number => {
+  if (!throttle || !throttle.locked_until || throttle.locked_until <= now) return 0;
+  return Math.ceil((throttle.locked_until.getTime() - now.getTime()) / 1000);
+};
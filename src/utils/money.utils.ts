@@ -0,0 +1,15 @@
+/**
+ * @file Utilidades para importes monetarios.
+ * @description Funciones puras compartidas por los cálculos de precios, impuestos, envíos
+ *              y penalizaciones.
+ */
+
+/**
+ * @function roundCurrency
+ * @description Redondea un importe a dos decimales
+ * @param amount - Importe a redondear
+ * @returns Importe redondeado
+ */
+export const roundCurrency = (amount: number): number => {
+  return Math.round(amount * 100) / 100;
+};
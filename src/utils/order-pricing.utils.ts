@@ -0,0 +1,41 @@
+/**
+ * @file Utilidades para el precio de los pedidos de productos.
+ * @description Funciones puras que resuelven el precio de cada item con el precio vigente
+ *              del producto y detectan los precios que cambiaron desde que el cliente los vio.
+ */
+
+import { OrderItemCreateRequest, OrderPriceChange } from '../interfaces/order.interface';
+import { roundCurrency } from './money.utils';
+
+/**
+ * @function getPriceChanges
+ * @description Compara el precio enviado por el cliente en cada item con el precio vigente
+ * del producto. Los items sin precio no se comparan: se cobran al precio vigente
+ * @param items - Items del pedido
+ * @param currentPrices - Precio vigente por producto
+ * @returns Items cuyo precio cambió
+ */
+export const getPriceChanges = (
+  items: OrderItemCreateRequest[],
+  currentPrices: Map<string, number>
+): OrderPriceChange[] => {
+  return items
+    .filter(item => item.unit_price !== undefined && currentPrices.has(item.product_id))
+    .filter(item => roundCurrency(item.unit_price!) !== currentPrices.get(item.product_id))
+    .map(item => ({
+      product_id: item.product_id,
+      expected_price: roundCurrency(item.unit_price!),
+      current_price: currentPrices.get(item.product_id)!
+    }));
+};
+
+/**
+ * @function calculateLineTotal
+ * @description Calcula el importe de una línea del pedido
+ * @param quantity - Cantidad
+ * @param unitPrice - Precio unitario
+ * @returns Importe redondeado a dos decimales
+ */
+export const calculateLineTotal = (quantity: number, unitPrice: number): number => {
+  return roundCurrency(quantity * unitPrice);
+};
@@ -0,0 +1,31 @@
+/**
+ * @file Utilidades para el ciclo de vida de los pedidos.
+ * @description Funciones puras que validan las transiciones de estado de un pedido y
+ *              deciden el estado de pago al cancelarlo.
+ */
+
+import { OrderStatus, PaymentStatus, ORDER_STATUS_TRANSITIONS } from '../interfaces/order.interface';
+
+/**
+ * @function isOrderTransitionAllowed
+ * @description Indica si un pedido puede pasar de un estado a otro
+ * @param from - Estado actual
+ * @param to - Estado solicitado
+ * @returns true si la transición está permitida
+ */
+export const isOrderTransitionAllowed = (from: OrderStatus, to: OrderStatus): boolean => {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * @function getCancelledPaymentStatus
+ * @description Obtiene el estado de pago de un pedido cancelado: lo cobrado se reembolsa y
+ * un pago pendiente ya no se cobrará
+ * @param current - Estado de pago antes de cancelar
+ * @returns Estado de pago tras la cancelación
+ */
+export const getCancelledPaymentStatus = (current: PaymentStatus): PaymentStatus => {
+  if (current === 'PAID') return 'REFUNDED';
+  if (current === 'PENDING') return 'FAILED';
+  return current;
+};
@@ -0,0 +1,35 @@
+/**
+ * @file Utilidades para el cálculo del precio de las citas.
+ * @description Funciones puras que combinan el precio del estilo, el precio
+ *              personalizado de la estilista y los servicios adicionales.
+ */
+
+import { AppointmentPriceBreakdown, ServiceAddOn } from '../interfaces/appointment.interface';
+import { roundCurrency } from './money.utils';
+
+/**
+ * @function buildPriceBreakdown
+ * @description Calcula el desglose del precio de una cita. El precio personalizado de
+ * la estilista, cuando existe, sustituye al precio base del estilo
+ * @param basePrice - Precio del estilo en el catálogo
+ * @param customPrice - Precio personalizado de la estilista (null si no tiene)
+ * @param addOns - Servicios adicionales seleccionados
+ * @returns Desglose con el precio total
+ */
+export const buildPriceBreakdown = (
+  basePrice: number,
+  customPrice: number | null,
+  addOns: ServiceAddOn[]
+): AppointmentPriceBreakdown => {
+  const servicePrice = customPrice !== null ? customPrice : basePrice;
+  const addOnsTotal = addOns.reduce((total, addOn) => total + addOn.price, 0);
+
+  return {
+    base_price: roundCurrency(basePrice),
+    custom_price: customPrice !== null ? roundCurrency(customPrice) : null,
+    service_price: roundCurrency(servicePrice),
+    add_ons: addOns.map(addOn => ({ id: addOn.id, name: addOn.name, price: roundCurrency(addOn.price) })),
+    add_ons_total: roundCurrency(addOnsTotal),
+    total_price: roundCurrency(servicePrice + addOnsTotal)
+  };
+};
@@ -0,0 +1,99 @@
+/**
+ * @file Utilidades para el cálculo del envío de los pedidos.
+ * @description Funciones puras que eligen la zona y el tramo de tarifa de cada método de
+ *              envío para un carrito y devuelven las opciones disponibles.
+ */
+
+import {
+  ShippingMethod,
+  ShippingZone,
+  ShippingBand,
+  ShippingRateBasis,
+  ShippableCart,
+  ShippingOption
+} from '../interfaces/shipping.interface';
+import { TaxJurisdiction } from '../interfaces/tax.interface';
+import { roundCurrency } from './money.utils';
+
+/**
+ * @function findShippingZone
+ * @description Obtiene la zona de un método para un destino. La zona de la región tiene
+ * prioridad sobre la de todo el país
+ * @param zones - Zonas del método
+ * @param destination - País y región de envío
+ * @returns Zona aplicable o null si el método no envía a ese destino
+ */
+export const findShippingZone = (
+  zones: ShippingZone[],
+  destination: TaxJurisdiction
+): ShippingZone | null => {
+  const countryZones = zones.filter(zone => zone.country === destination.country);
+  return countryZones.find(zone => zone.region !== null && zone.region === destination.region)
+    || countryZones.find(zone => zone.region === null)
+    || null;
+};
+
+/**
+ * @function findShippingBand
+ * @description Obtiene el tramo de tarifa que contiene un valor (min <= valor < max)
+ * @param bands - Tramos de la zona
+ * @param value - Peso en gramos o subtotal del carrito
+ * @returns Tramo aplicable o null si ningún tramo contiene el valor
+ */
+export const findShippingBand = (bands: ShippingBand[], value: number): ShippingBand | null => {
+  return bands.find(band => value >= band.min && (band.max === null || value < band.max)) || null;
+};
+
+/**
+ * @function quoteShippingMethod
+ * @description Calcula el costo de un método de envío para un carrito. El envío es gratis
+ * si el subtotal alcanza el umbral de la zona
+ * @param method - Método de envío
+ * @param destination - País y región de envío
+ * @param cart - Subtotal y peso del carrito
+ * @returns Opción de envío o null si el método no está disponible para el carrito
+ */
+export const quoteShippingMethod = (
+  method: ShippingMethod,
+  destination: TaxJurisdiction,
+  cart: ShippableCart
+): ShippingOption | null => {
+  if (!method.is_active) return null;
+
+  const zone = findShippingZone(method.zones, destination);
+  if (!zone) return null;
+
+  const value = method.rate_basis === ShippingRateBasis.WEIGHT ? cart.weight_grams : cart.subtotal;
+  const band = findShippingBand(zone.bands, value);
+  if (!band) return null;
+
+  const freeShipping = zone.free_shipping_threshold !== null && cart.subtotal >= zone.free_shipping_threshold;
+
+  return {
+    shipping_method_id: method.id,
+    name: method.name,
+    kind: method.kind,
+    amount: freeShipping ? 0 : roundCurrency(band.amount),
+    free_shipping: freeShipping
+  };
+};
+
+/**
+ * @function getShippingOptions
+ * @description Obtiene las opciones de envío disponibles para un carrito, de la más barata
+ * a la más cara
+ * @param methods - Métodos de envío
+ * @param destination - País y región de envío
+ * @param cart - Subtotal y peso del carrito
+ * @returns Opciones de envío disponibles
+ */
+export const getShippingOptions = (
+  methods: ShippingMethod[],
+  destination: TaxJurisdiction,
+  cart: ShippableCart
+): ShippingOption[] => {
+  return methods
+    .map(method => quoteShippingMethod(method, destination, cart))
+    .filter((option): option is ShippingOption => option !== null)
+    .sort((a, b) => a.amount - b.amount);
+};
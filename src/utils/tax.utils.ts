@@ -0,0 +1,97 @@
+/**
+ * @file Utilidades para el cálculo de impuestos de los pedidos.
+ * @description Funciones puras que eligen las reglas de impuestos de cada línea según la
+ *              jurisdicción y la clase fiscal, y calculan los impuestos redondeando por línea.
+ */
+
+import {
+  TaxRule,
+  TaxMode,
+  TaxJurisdiction,
+  TaxableLine,
+  OrderTaxLine,
+  TaxCalculation
+} from '../interfaces/tax.interface';
+import { roundCurrency } from './money.utils';
+
+/**
+ * @function getApplicableTaxRules
+ * @description Obtiene las reglas activas que aplican a una clase fiscal en una jurisdicción.
+ * Se acumulan las reglas de todo el país y las de la región
+ * @param rules - Reglas de impuestos
+ * @param jurisdiction - País y región del pedido
+ * @param taxClass - Clase fiscal de la línea
+ * @returns Reglas aplicables
+ */
+export const getApplicableTaxRules = (
+  rules: TaxRule[],
+  jurisdiction: TaxJurisdiction,
+  taxClass: TaxRule['tax_class']
+): TaxRule[] => {
+  return rules.filter(rule =>
+    rule.is_active &&
+    rule.tax_class === taxClass &&
+    rule.country === jurisdiction.country &&
+    (rule.region === null || rule.region === jurisdiction.region)
+  );
+};
+
+/**
+ * @function calculateTaxes
+ * @description Calcula los impuestos de un pedido. En cada línea, las reglas INCLUSIVE
+ * extraen el impuesto ya incluido en el precio y las EXCLUSIVE lo calculan sobre la base
+ * sin impuestos. Cada impuesto se redondea por línea y se acumula por regla en el desglose
+ * @param lines - Líneas del pedido
+ * @param rules - Reglas de impuestos
+ * @param jurisdiction - País y región del pedido
+ * @returns Total de impuestos, impuestos añadidos al precio y desglose por regla
+ */
+export const calculateTaxes = (
+  lines: TaxableLine[],
+  rules: TaxRule[],
+  jurisdiction: TaxJurisdiction
+): TaxCalculation => {
+  const breakdown: OrderTaxLine[] = [];
+
+  lines.forEach(line => {
+    const applicable = getApplicableTaxRules(rules, jurisdiction, line.tax_class);
+    const inclusiveRate = applicable
+      .filter(rule => rule.mode === TaxMode.INCLUSIVE)
+      .reduce((total, rule) => total + rule.rate, 0);
+    const taxableAmount = roundCurrency(line.amount / (1 + inclusiveRate / 100));
+
+    applicable.forEach(rule => {
+      const taxAmount = roundCurrency(taxableAmount * rule.rate / 100);
+      const existing = breakdown.find(taxLine => taxLine.tax_rule_id === rule.id);
+
+      if (existing) {
+        existing.taxable_amount = roundCurrency(existing.taxable_amount + taxableAmount);
+        existing.tax_amount = roundCurrency(existing.tax_amount + taxAmount);
+        return;
+      }
+
+      breakdown.push({
+        tax_rule_id: rule.id,
+        name: rule.name,
+        country: rule.country,
+        region: rule.region,
+        tax_class: rule.tax_class,
+        rate: rule.rate,
+        mode: rule.mode,
+        taxable_amount: taxableAmount,
+        tax_amount: taxAmount
+      });
+    });
+  });
+
+  const taxAmount = breakdown.reduce((total, taxLine) => total + taxLine.tax_amount, 0);
+  const exclusiveTaxAmount = breakdown
+    .filter(taxLine => taxLine.mode === TaxMode.EXCLUSIVE)
+    .reduce((total, taxLine) => total + taxLine.tax_amount, 0);
+
+  return {
+    tax_amount: roundCurrency(taxAmount),
+    exclusive_tax_amount: roundCurrency(exclusiveTaxAmount),
+    breakdown
+  };
+};
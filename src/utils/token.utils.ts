@@ -0,0 +1,90 @@
+/**
+ * @file Utilidades para tokens opacos.
+ * @description Genera tokens aleatorios para el cliente y los hashes que se guardan
+ *              en la base de datos, de forma que un volcado no exponga tokens válidos.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * @function generateOpaqueToken
+ * @description Genera un token aleatorio seguro para enviar al cliente
+ * @param bytes - Bytes de entropía (por defecto 48)
+ * @returns Token en base64url
+ */
+export const generateOpaqueToken = (bytes: number = 48): string => {
+  return crypto.randomBytes(bytes).toString('base64url');
+};
+
+/**
+ * @function hashToken
+ * @description Calcula el hash SHA-256 con el que se almacena un token
+ * @param token - Token en claro
+ * @returns Hash en hexadecimal
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * @function matchesTokenHash
+ * @description Comprueba si un token corresponde a un hash almacenado, comparando en
+ * tiempo constante para no revelar cuántos caracteres coinciden
+ * @param token - Token en claro
+ * @param storedHash - Hash guardado en la base de datos
+ * @returns true si el hash del token coincide
+ */
+export const matchesTokenHash = (token: string, storedHash: string): boolean => {
+  const expected = Buffer.from(storedHash, 'hex');
+  const received = Buffer.from(hashToken(token), 'hex');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+/**
+ * @function generateRecoveryCode
+ * @description Genera un código de recuperación legible (10 caracteres hexadecimales
+ * en dos grupos, p. ej. 3f9a1-c07b2)
+ * @returns Código de recuperación
+ */
+export const generateRecoveryCode = (): string => {
+  const hex = crypto.randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+};
+
+/**
+ * @function hashRecoveryCode
+ * @description Calcula el hash con el que se almacena un código de recuperación,
+ * ignorando guiones, espacios y mayúsculas
+ * @param code - Código tal como lo escribe el usuario
+ * @returns Hash en hexadecimal
+ */
+export const hashRecoveryCode = (code: string): string => {
+  return hashToken(code.toLowerCase().replace(/[^0-9a-z]/g, ''));
+};
+
+/**
+ * @constant API_KEY_PATTERN
+ * @description Formato de una API key: lb_<prefijo de 8 hex>_<secreto en base64url>
+ */
+const API_KEY_PATTERN = /^lb_([0-9a-f]{8})_[A-Za-z0-9_-]{32,}$/;
+
+/**
+ * @function generateApiKey
+ * @description Genera una API key con un prefijo público con el que se identifica
+ * @returns Clave completa (solo se muestra una vez) y su prefijo
+ */
+export const generateApiKey = (): { key: string; prefix: string } => {
+  const prefix = crypto.randomBytes(4).toString('hex');
+  return { key: `lb_${prefix}_${generateOpaqueToken(32)}`, prefix };
+};
+
+/**
+ * @function getApiKeyPrefix
+ * @description Extrae el prefijo público de una API key
+ * @param key - Clave recibida en la cabecera X-API-Key
+ * @returns Prefijo o null si la clave no tiene el formato esperado
+ */
+export const getApiKeyPrefix = (key: string): string | null => {
+  const match = API_KEY_PATTERN.exec(key);
+  return match ? match[1] : null;
+};
@@ -0,0 +1,174 @@
+/**
+ * @file Utilidades para contraseñas de un solo uso basadas en tiempo (TOTP).
+ * @description Implementación de RFC 6238 (HMAC-SHA1, 6 dígitos, periodos de 30 s)
+ *              compatible con las apps de autenticación, más la codificación base32
+ *              de los secretos y la URI otpauth para el código QR.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * @constant BASE32_ALPHABET
+ * @description Alfabeto base32 de RFC 4648
+ */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * @constant TOTP_PERIOD_SECONDS
+ * @description Duración de cada periodo TOTP
+ */
+export const TOTP_PERIOD_SECONDS = 30;
+
+/**
+ * @constant TOTP_DIGITS
+ * @description Número de dígitos de cada código
+ */
+export const TOTP_DIGITS = 6;
+
+/**
+ * @function base32Encode
+ * @description Codifica bytes en base32 (sin relleno)
+ * @param buffer - Bytes a codificar
+ * @returns Texto base32
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+/**
+ * @function base32Decode
+ * @description Decodifica texto base32, ignorando relleno, espacios y mayúsculas/minúsculas
+ * @param input - Texto base32
+ * @returns Bytes decodificados
+ */
+export const base32Decode = (input: string): Buffer => {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Carácter base32 inválido: ${char}`);
+
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * @function generateTotpSecret
+ * @description Genera un secreto TOTP aleatorio de 160 bits
+ * @returns Secreto en base32
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(crypto.randomBytes(20));
+};
+
+/**
+ * @function getTimeStep
+ * @description Calcula el periodo TOTP al que pertenece un instante
+ * @param date - Instante de referencia
+ * @returns Número de periodo desde la época Unix
+ */
+export const getTimeStep = (date: Date): number => {
+  return Math.floor(date.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+};
+
+/**
+ * @function generateHotp
+ * @description Calcula el código HOTP (RFC 4226) de un contador
+ * @param secret - Secreto en base32
+ * @param counter - Contador (periodo TOTP)
+ * @returns Código de TOTP_DIGITS dígitos
+ */
+export const generateHotp = (secret: string, counter: number): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  counterBuffer.writeUInt32BE(counter % 0x100000000, 4);
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  let code = String(binary % Math.pow(10, TOTP_DIGITS));
+  while (code.length < TOTP_DIGITS) code = `0${code}`;
+  return code;
+};
+
+/**
+ * @function generateTotp
+ * @description Calcula el código TOTP vigente en un instante
+ * @param secret - Secreto en base32
+ * @param date - Instante de referencia
+ * @returns Código de TOTP_DIGITS dígitos
+ */
+export const generateTotp = (secret: string, date: Date): string => {
+  return generateHotp(secret, getTimeStep(date));
+};
+
+/**
+ * @function verifyTotp
+ * @description Comprueba un código TOTP admitiendo un desfase de reloj de ±window periodos
+ * @param secret - Secreto en base32
+ * @param code - Código introducido por el usuario
+ * @param date - Instante de referencia
+ * @param window - Periodos de tolerancia a cada lado (por defecto 1)
+ * @returns Periodo con el que coincide el código, o null si no es válido
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  date: Date,
+  window: number = 1
+): number | null => {
+  const currentStep = getTimeStep(date);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    const expected = Buffer.from(generateHotp(secret, step));
+    const received = Buffer.from(code);
+    if (expected.length === received.length && crypto.timingSafeEqual(expected, received)) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * @function buildOtpAuthUri
+ * @description Construye la URI otpauth:// que las apps de autenticación leen del código QR
+ * @param issuer - Nombre del servicio
+ * @param accountName - Cuenta del usuario (email)
+ * @param secret - Secreto en base32
+ * @returns URI otpauth
+ */
+export const buildOtpAuthUri = (issuer: string, accountName: string, secret: string): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+};